@@ -3,6 +3,8 @@ import { Save, X, Bot, Lightbulb, Code, TestTube, Zap } from 'lucide-react';
 import type { Agent } from '../../types';
 import { v4 as uuidv4 } from 'uuid';
 import { PromptAgentAdvanced } from './PromptAgentAdvanced';
+import { TokenBudget } from '../TokenBudget';
+import { providers } from '../../data/providers';
 
 interface AgentEditorProps {
   agent: Agent | null;
@@ -23,6 +25,15 @@ export function AgentEditor({ agent, onSave, onClose }: AgentEditorProps) {
 
   const [testInput, setTestInput] = useState('');
   const [generatedPrompt, setGeneratedPrompt] = useState('');
+  // Provider whose default model the previews are budgeted against
+  const [budgetProviderId, setBudgetProviderId] = useState(providers[0]?.id || '');
+  const budgetProvider = providers.find((p) => p.id === budgetProviderId);
+  const budgetOptions = {
+    model: budgetProvider?.apiConfig.defaultModel,
+    provider: budgetProvider?.id,
+    parameters: budgetProvider?.apiConfig.defaultParameters,
+    contextWindow: budgetProvider?.apiConfig.contextWindow
+  };
 
   // NEW: Advanced mode state
   const [isAdvancedMode, setIsAdvancedMode] = useState(false);
@@ -478,6 +489,7 @@ Please provide:
                       {generateCombinedPrompt() || 'Generated template will appear here...'}
                     </pre>
                   </div>
+                  <TokenBudget input={generateCombinedPrompt()} {...budgetOptions} className="mt-2" />
                 </div>
               </div>
             )}
@@ -520,9 +532,25 @@ Please provide:
 
             {/* Prompt Testing */}
             <div className="bg-neutral-50 dark:bg-neutral-900/50 rounded-lg p-4">
-              <div className="flex items-center space-x-2 mb-3">
-                <TestTube className="w-4 h-4 text-secondary-600 dark:text-secondary-400" />
-                <h3 className="font-medium text-neutral-900 dark:text-white">Test Your Template</h3>
+              <div className="flex items-center justify-between mb-3">
+                <div className="flex items-center space-x-2">
+                  <TestTube className="w-4 h-4 text-secondary-600 dark:text-secondary-400" />
+                  <h3 className="font-medium text-neutral-900 dark:text-white">Test Your Template</h3>
+                </div>
+                <label className="flex items-center space-x-2 text-xs text-neutral-500 dark:text-neutral-400">
+                  <span>Token budget for</span>
+                  <select
+                    value={budgetProviderId}
+                    onChange={(e) => setBudgetProviderId(e.target.value)}
+                    className="px-2 py-1 border border-neutral-300 dark:border-neutral-600 rounded bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white"
+                  >
+                    {providers.map((p) => (
+                      <option key={p.id} value={p.id}>
+                        {p.displayName} ({p.apiConfig.defaultModel})
+                      </option>
+                    ))}
+                  </select>
+                </label>
               </div>
               
               <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -555,6 +583,7 @@ Please provide:
                       {generatedPrompt || 'Generated prompt will appear here...'}
                     </pre>
                   </div>
+                  <TokenBudget input={generatedPrompt} {...budgetOptions} className="mt-2" />
                 </div>
               </div>
             </div>
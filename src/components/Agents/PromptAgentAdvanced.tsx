@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Zap, RefreshCw, Check, X, Lightbulb } from 'lucide-react';
-import { ProxyService } from '../../lib/api/ProxyService';
+import { ModelShiftAIClientFactory, generateObject } from '../../lib/modelshift-ai-sdk';
 import { providers } from '../../data/providers';
 import { keyVault } from '../../lib/encryption';
 import { useAuth } from '../../contexts/AuthContext';
@@ -10,6 +10,20 @@ interface PromptAgentAdvancedProps {
   onApplyImprovedPrompt: (improvedPrompt: string) => void;
 }
 
+interface PromptImprovement {
+  improvedPrompt: string;
+  explanation: string;
+}
+
+const promptImprovementSchema = {
+  type: 'object',
+  properties: {
+    improvedPrompt: { type: 'string', minLength: 1, description: 'The improved prompt, without any introduction' },
+    explanation: { type: 'string', description: 'What was changed and why' }
+  },
+  required: ['improvedPrompt', 'explanation']
+};
+
 export function PromptAgentAdvanced({ onApplyImprovedPrompt }: PromptAgentAdvancedProps) {
   const { user } = useAuth();
   const [originalPrompt, setOriginalPrompt] = useState('');
@@ -47,51 +61,24 @@ export function PromptAgentAdvanced({ onApplyImprovedPrompt }: PromptAgentAdvanc
     setHasResult(false);
 
     try {
-      const improvementPrompt = `You are a prompt engineering expert. Please improve the following prompt for clarity, context, and effectiveness:
+      const improvementPrompt = `You are a prompt engineering expert. Please improve the following prompt for clarity, context, and effectiveness, and explain what you changed and why.
 
 Original prompt:
 """
 ${originalPrompt}
-"""
+"""`;
 
-Please provide your response in the following format:
-1. First, the improved prompt (without any introduction or explanation)
-2. Then, after a line with three hyphens (---), explain what you changed and why.
-
-Example:
-Improved prompt text here...
-
----
-Explanation of changes...`;
-
-      const response = await ProxyService.callProvider({
-        providerId: selectedProvider,
-        prompt: improvementPrompt,
-        userId: user.id,
-        useUserKey: true // Use the user's own API key
-      });
-
-      if (!response.success) {
-        throw new Error(response.error || 'Failed to improve prompt');
-      }
-
-      // Parse the response to separate the improved prompt from the explanation
-      const parts = response.response?.split('---') || [];
-      
-      if (parts.length >= 2) {
-        const improved = parts[0].trim();
-        const explain = parts.slice(1).join('---').trim();
-        
-        setImprovedPrompt(improved);
-        setExplanation(explain);
-      } else {
-        // If the response doesn't follow the format, use it as is
-        setImprovedPrompt(response.response || '');
-        setExplanation('No explanation provided.');
-      }
+      // Uses the user's own API key; re-running the same prompt while iterating reuses the earlier answer
+      const client = ModelShiftAIClientFactory.withCache(
+        await ModelShiftAIClientFactory.create(selectedProvider, user.id),
+        { provider: selectedProvider }
+      );
+      const result = await generateObject<PromptImprovement>(client, improvementPrompt, promptImprovementSchema);
 
+      setImprovedPrompt(result.object.improvedPrompt.trim());
+      setExplanation(result.object.explanation.trim() || 'No explanation provided.');
       setHasResult(true);
-      toast.success('Prompt improved successfully!');
+      toast.success(result.cached ? 'Prompt improved (cached result)' : 'Prompt improved successfully!');
     } catch (error) {
       console.error('Error improving prompt:', error);
       toast.error(error instanceof Error ? error.message : 'Failed to improve prompt');
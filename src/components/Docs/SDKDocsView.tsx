@@ -202,7 +202,24 @@ const client = ModelShiftAIClientFactory.create('openai', {
 
 // Generate a response
 const response = await client.generate('Hello, how are you?');
-console.log(response);`,
+console.log(response);
+
+// Get usage, finish reason and the model that answered
+const result = await client.generateResult('Hello, how are you?');
+console.log(result.text, result.usage?.totalTokens, result.finishReason);
+
+// Stream a response as it is generated
+for await (const event of client.generateStream('Tell me a story')) {
+  if (event.type === 'delta') process.stdout.write(event.text);
+}
+
+// Continue a multi-turn conversation
+const reply = await client.chat([
+  { role: 'system', content: 'You are a concise assistant.' },
+  { role: 'user', content: 'What is the capital of France?' },
+  { role: 'assistant', content: 'Paris.' },
+  { role: 'user', content: 'And its population?' }
+]);`,
 
     config: `interface ProviderConfig {
   endpoint: string;
@@ -340,11 +357,33 @@ export class ModelShiftAIClientFactory {
           </p>
           <CodeBlock
             code={`interface ModelShiftAIClient {
-  generate(prompt: string): Promise<string>;
+  generate(prompt: string, options?: RequestOptions): Promise<string>;
+  generateResult(prompt: string, options?: RequestOptions): Promise<GenerateResult>;
+  generateStream(prompt: string, options?: RequestOptions): AsyncIterable<StreamEvent>;
+  chat(messages: ChatMessage[], options?: RequestOptions): Promise<string>;
+  chatResult(messages: ChatMessage[], options?: RequestOptions): Promise<GenerateResult>;
+  chatStream(messages: ChatMessage[], options?: RequestOptions): AsyncIterable<StreamEvent>;
+}
+
+interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request, including retries and streams
+  tools?: ToolDefinition[]; // Tools the model may call; see Tool Calling
+  responseSchema?: JsonSchema; // Native JSON mode where supported; see Structured Output
 }`}
             language="typescript"
             onCopy={() => copyToClipboard(`interface ModelShiftAIClient {
-  generate(prompt: string): Promise<string>;
+  generate(prompt: string, options?: RequestOptions): Promise<string>;
+  generateResult(prompt: string, options?: RequestOptions): Promise<GenerateResult>;
+  generateStream(prompt: string, options?: RequestOptions): AsyncIterable<StreamEvent>;
+  chat(messages: ChatMessage[], options?: RequestOptions): Promise<string>;
+  chatResult(messages: ChatMessage[], options?: RequestOptions): Promise<GenerateResult>;
+  chatStream(messages: ChatMessage[], options?: RequestOptions): AsyncIterable<StreamEvent>;
+}
+
+interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request, including retries and streams
+  tools?: ToolDefinition[]; // Tools the model may call; see Tool Calling
+  responseSchema?: JsonSchema; // Native JSON mode where supported; see Structured Output
 }`, 'client-interface')}
             copied={copiedCode === 'client-interface'}
           />
@@ -767,7 +806,7 @@ results.forEach(({ provider, response }) => {
   console.log(\`\${provider}: \${response}\`);
 });`,
 
-    withPromptBuilder: `import { ModelShiftAIClientFactory, PromptBuilder } from '@modelshift/ai-sdk';
+    withPromptBuilder: `import { ModelShiftAIClientFactory, PromptBuilder, generateObject } from '@modelshift/ai-sdk';
 
 const client = ModelShiftAIClientFactory.create('openai', {
   apiKey: process.env.OPENAI_API_KEY
@@ -781,17 +820,22 @@ const analysisPrompt = PromptBuilder.chainOfThought(
 
 const analysis = await client.generate(analysisPrompt);
 
-// Classification task (planned feature)
+// Classification task, validated against the allowed categories
+const categories = ['Bug Report', 'Feature Request', 'General Feedback', 'Billing Issue'];
 const classificationPrompt = PromptBuilder.classification(
   'Categorize this customer feedback',
   'The app crashes every time I try to place an order',
-  ['Bug Report', 'Feature Request', 'General Feedback', 'Billing Issue']
+  categories
 );
 
-const category = await client.generate(classificationPrompt);
+const { object } = await generateObject<{ category: string }>(
+  client,
+  classificationPrompt,
+  PromptBuilder.classificationSchema(categories)
+);
 
 console.log('Analysis:', analysis);
-console.log('Category:', category);`,
+console.log('Category:', object.category);`,
 
     configExport: `import { ConfigurationSerializer } from '@modelshift/ai-sdk';
 
@@ -815,37 +859,451 @@ console.log('Generated names:', businessNames);`,
 
     errorHandling: `import { ModelShiftAIClientFactory } from '@modelshift/ai-sdk';
 
-async function generateWithRetry(provider: string, keyData: Record<string, string>, prompt: string, maxRetries = 3) {
-  let lastError: Error;
-  
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      const client = ModelShiftAIClientFactory.create(provider, keyData);
-      return await client.generate(prompt);
-    } catch (error) {
-      lastError = error as Error;
-      console.warn(\`Attempt \${attempt} failed: \${error.message}\`);
-      
-      if (attempt < maxRetries) {
-        // Exponential backoff
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, attempt) * 1000));
-      }
+// Rate limits (429) are retried automatically with exponential backoff and jitter,
+// honouring the provider's Retry-After header. Server errors and network failures may
+// have been billed, so generation calls are only repeated after them when the request
+// carries an Idempotency-Key header or the policy sets retryNonIdempotent.
+// Tune the policy per provider through apiConfig.retry:
+const client = ModelShiftAIClientFactory.createFromApiConfig(
+  {
+    ...openaiApiConfig, // The provider's ApiConfiguration
+    retry: { maxAttempts: 5, baseDelayMs: 1000, maxDelayMs: 20000 }
+  },
+  { apiKey: process.env.OPENAI_API_KEY },
+  'gpt-4o-mini'
+);
+
+try {
+  const result = await client.generateResult('Explain machine learning');
+  console.log('Response:', result.text);
+  console.log('Attempts:', result.attempts); // 1 when the first call succeeded
+} catch (error) {
+  // Thrown once attempts are exhausted or the error is not retryable (e.g. 401)
+  console.error('Request failed:', error.message);
+}`,
+
+    fallback: `import { ModelShiftAIClientFactory } from '@modelshift/ai-sdk';
+
+// Try providers in order; auth, rate limit, timeout and server errors move on to the next one
+const client = ModelShiftAIClientFactory.createFallback(
+  [
+    { provider: 'openai', model: 'gpt-4o-mini' },
+    { provider: 'claude', model: 'claude-3-5-haiku-latest' },
+    'gemini'
+  ],
+  userId
+);
+
+const result = await client.generateResult('Summarize this support ticket');
+console.log('Answered by:', result.provider);
+
+for (const skip of result.fallbacks ?? []) {
+  console.warn(\`Skipped \${skip.provider} (\${skip.reason}): \${skip.error}\`);
+}`,
+
+    caching: `import { ModelShiftAIClientFactory, ResponseCache } from '@modelshift/ai-sdk';
+
+// Opt in to caching; entries are stored in IndexedDB in the browser and in memory under Node
+const cache = new ResponseCache({ ttlMs: 30 * 60 * 1000, maxEntries: 200 });
+const client = ModelShiftAIClientFactory.withCache(
+  await ModelShiftAIClientFactory.create('openai', userId),
+  // Include the user so accounts sharing a browser never see each other's answers
+  { provider: 'openai', model: 'gpt-4o-mini', parameters: { temperature: 0.2 }, userId, useUserKey: true },
+  cache
+);
+
+const first = await client.generateResult('Write a tagline for a coffee shop');
+const second = await client.generateResult('Write a tagline for a coffee shop');
+console.log(second.cached, second.cachedAt); // true, time of the first call
+
+// Skip the cache and refresh the stored entry
+const fresh = await client.generateResult('Write a tagline for a coffee shop', { bypassCache: true });`,
+
+    tools: `import { ModelShiftAIClientFactory, ToolRegistry, runToolLoop } from '@modelshift/ai-sdk';
+
+// Define each tool once with a JSON Schema; it is mapped to OpenAI, Claude or Gemini format
+const registry = new ToolRegistry().register(
+  {
+    name: 'get_weather',
+    description: 'Current weather for a city',
+    parameters: {
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city']
+    }
+  },
+  async ({ city }) => fetchWeather(city)
+);
+
+// Tool calling talks to the provider directly, so use browser mode or a data-driven client
+const client = await ModelShiftAIClientFactory.create('claude', userId);
+
+// Runs requested tools and sends their results back until the model answers
+const result = await runToolLoop(
+  client,
+  [{ role: 'user', content: 'Do I need an umbrella in Paris today?' }],
+  registry,
+  { maxSteps: 3 }
+);
+console.log(result.text, result.steps);
+
+// Or handle a single turn yourself
+const turn = await client.chatResult(messages, { tools: registry.definitions() });
+for (const call of turn.toolCalls ?? []) {
+  console.log(call.name, call.arguments);
+}`,
+
+    structuredOutput: `import { ModelShiftAIClientFactory, generateObject } from '@modelshift/ai-sdk';
+
+const client = await ModelShiftAIClientFactory.create('gemini', userId);
+
+// Uses OpenAI response_format or Gemini responseSchema where available, prompt instructions elsewhere
+const { object, repairs } = await generateObject<{ title: string; tags: string[] }>(
+  client,
+  'Suggest a title and up to three tags for a post about sourdough starters',
+  {
+    type: 'object',
+    properties: {
+      title: { type: 'string' },
+      tags: { type: 'array', items: { type: 'string' }, maxItems: 3 }
+    },
+    required: ['title', 'tags']
+  },
+  { maxRepairs: 2 } // Invalid answers are sent back with the validation errors
+);
+
+console.log(object.title, object.tags, repairs);`,
+
+    attachments: `import { ModelShiftAIClientFactory, readFileAsAttachment } from '@modelshift/ai-sdk';
+
+// Attachments go straight to the provider, so use direct browser mode
+const client = await ModelShiftAIClientFactory.create('claude', userId);
+
+const answer = await client.chat([
+  {
+    role: 'user',
+    content: 'What does this chart show?',
+    attachments: [
+      await readFileAsAttachment(fileInput.files[0]), // Base64 from a browser File
+      { kind: 'image', mimeType: 'image/png', url: 'https://example.com/chart.png' }
+    ]
+  }
+]);
+// Mapped to OpenAI image_url, Claude image/document blocks or Gemini inlineData parts`,
+
+    embeddings: `import { ModelShiftAIClientFactory } from '@modelshift/ai-sdk';
+
+// Presets: 'openai', 'gemini' and 'cohere'; pass an EmbeddingConfiguration for other providers
+const embedder = ModelShiftAIClientFactory.createEmbeddingClient('openai');
+
+const { embeddings, dimensions, usage } = await embedder.embed(
+  ['First document', 'Second document'],
+  { model: 'text-embedding-3-small', dimensions: 512, inputType: 'document' }
+);
+// Large inputs are split into batches; vectors come back in input order
+
+// Knowledge bases pick their model with embedding_provider and embedding_model,
+// and the Edge Functions embed chunks and queries with the same configurations`,
+
+    nodeUsage: `// The core entry point has no browser globals, so it runs in Node scripts and workers
+import { installNodeEnvironment, configureEnvironment, createClient } from '@modelshift/ai-sdk/core';
+
+// Keys come from OPENAI_API_KEY, ANTHROPIC_API_KEY, GEMINI_API_KEY, IBM_API_KEY/IBM_PROJECT_ID
+installNodeEnvironment({
+  logger: { log: () => {}, warn: console.warn, error: console.error }
+});
+
+const client = createClient('claude', { model: 'claude-3-5-sonnet-20241022' });
+const summary = await client.generate('Summarize this changelog...');
+
+// Or inject everything yourself: fetch, storage, key resolver, logger and URL rewriting
+configureEnvironment({
+  fetch: instrumentedFetch,
+  resolveKeys: provider => secrets.get(provider)
+});`,
+
+    middleware: `import { clientMiddleware } from '@modelshift/ai-sdk';
+
+// Runs for every direct, data-driven, custom provider and proxy request
+clientMiddleware
+  .use({
+    name: 'gateway-auth',
+    onRequest: request => ({
+      ...request,
+      headers: { ...request.headers, 'X-Gateway-Token': gatewayToken }
+    })
+  })
+  .use({
+    name: 'metrics',
+    onFinish: ({ request, durationMs, error }) =>
+      metrics.record(request.provider ?? request.endpoint, durationMs, error ? 'error' : 'ok')
+  });
+
+// Add middleware for a single request, after the registered ones
+const redactEmails = {
+  name: 'redact-emails',
+  onRequest: request => ({
+    ...request,
+    body: JSON.parse(JSON.stringify(request.body).replace(/[\\w.+-]+@[\\w-]+\\.[\\w.]+/g, '[email]'))
+  })
+};
+const answer = await client.generate(ticketText, { middleware: [redactEmails] });`,
+
+    tokenCounting: `import { checkContextWindow, loadBpeEncoding } from '@modelshift/ai-sdk';
+
+// OpenAI models are counted exactly once their encoding is loaded; others are approximated
+await loadBpeEncoding('o200k_base');
+
+const check = checkContextWindow(messages, {
+  model: 'gpt-4o',
+  parameters: { max_tokens: 4000 }
+});
+console.log(\`\${check.promptTokens} tokens, \${check.remaining} left of \${check.contextWindow}\`);
+
+// Clients warn about oversized requests by default; 'block' rejects them before sending
+const reply = await client.chat(messages, { contextWindowCheck: 'block' });`,
+
+    costEstimation: `import { estimateCost, getModelPricing, pricingCatalog } from '@modelshift/ai-sdk';
+
+const result = await client.generateResult(prompt);
+
+// Prices come from a versioned catalog in USD per million tokens, keyed by provider and model
+const cost = estimateCost({
+  providerId: 'openai',
+  model: result.model,
+  usage: result.usage, // Prompt, completion and cached tokens; missing counts are estimated
+  prompt,
+  response: result.text
+});
+console.log(cost.input, cost.cachedInput, cost.output, cost.total, cost.pricingVersion);
+
+console.log(getModelPricing('claude', 'claude-3-5-haiku-20241022')); // { model, pricing }
+console.log(pricingCatalog.providers.openai.batchDiscount); // 0.5 off batch requests`,
+
+    mockProvider: `import { configureEnvironment, createClient, registerMockFixtures, withMockProvider } from '@modelshift/ai-sdk';
+
+// The mock provider needs no key or network access and answers deterministically
+const mock = createClient('mock');
+console.log(await mock.generate('Hello there')); // Built-in greeting fixture
+
+// Scripted answers for demos and CI; anything unmatched is echoed back
+registerMockFixtures([{ match: 'renewable energy', response: 'Solar and wind are now the cheapest new power.' }]);
+
+// Latency, usage, stream chunking and failures are set with the mock parameter
+const flaky = createClient('mock', {
+  parameters: {
+    mock: {
+      latencyMs: 500,
+      template: 'Echo from {model}: {prompt}',
+      usage: { promptTokens: 120, completionTokens: 40 },
+      fail: 429,
+      failTimes: 1 // The first attempt is rate limited, the retry succeeds
     }
   }
-  
-  throw new Error(\`Failed after \${maxRetries} attempts: \${lastError.message}\`);
+});
+console.log(await flaky.generate('Summarise this'));
+
+// Prompt directives inject failures from views without a parameters editor
+await mock.generate('[mock:401] Try an invalid key'); // Throws the provider's auth error
+
+// The default fetch serves mock:// URLs in-process; wrap your own fetch to keep that behaviour
+configureEnvironment({ fetch: withMockProvider(loggingFetch) });`,
+
+    fixtures: `import { writeFile, readFile } from 'node:fs/promises';
+import { createClient, providers, FixtureRecorder, FixtureReplayer, serializeFixtures, parseFixtureFile } from '@modelshift/ai-sdk';
+
+// Record once against the real providers; keys, tokens and auth headers are scrubbed
+const recorder = new FixtureRecorder().install();
+for (const provider of providers) {
+  await recorder.run(\`\${provider.id} generate\`, provider.id, () => createClient(provider.id).generateResult('Hello'));
 }
+recorder.uninstall();
+await writeFile('fixtures/providers.json', serializeFixtures(await recorder.toFile()));
+
+// Replay offline in CI: the same calls get the recorded responses, and any drift in the
+// request body, URL, headers or extracted result is reported
+const replayer = new FixtureReplayer(parseFixtureFile(await readFile('fixtures/providers.json', 'utf8'))).install();
+for (const provider of providers) {
+  const check = await replayer.run(\`\${provider.id} generate\`, provider.id, () => createClient(provider.id).generateResult('Hello'));
+  if (!check.passed) console.error(check.name, check.differences);
+}`,
+
+    rateLimits: `import { createClient, requestScheduler } from '@modelshift/ai-sdk';
+
+// Providers ship with their published entry-tier limits; raise them to match your tier
+requestScheduler.setLimits('openai', { requestsPerMinute: 5000, tokensPerMinute: 800000, maxConcurrent: 10 });
+// 'provider' scope shares one budget across every key, e.g. keys from the same organization
+requestScheduler.setLimits('claude', { requestsPerMinute: 50 }, 'provider');
+
+// Fan-out waits in a priority queue instead of flooding the provider
+const client = createClient('openai');
+const answers = await Promise.all(prompts.map(prompt =>
+  client.generate(prompt, {
+    priority: 0, // Interactive requests can pass a higher priority to go first
+    onQueuePosition: position => console.log(position ? \`Queued #\${position}\` : 'Sending')
+  })
+));
 
-// Usage (when SDK is available)
-try {
-  const response = await generateWithRetry('openai', {
-    apiKey: process.env.OPENAI_API_KEY
-  }, 'Explain machine learning');
-  
-  console.log('Response:', response);
-} catch (error) {
-  console.error('All attempts failed:', error.message);
-}`
+console.log(requestScheduler.getStatus()); // [{ provider, queued, active }]`,
+
+    providerHealth: `import { ModelShiftAIClientFactory, providerHealth } from '@modelshift/ai-sdk';
+
+// Every client request feeds the monitor; five consecutive rate limit, timeout, server or
+// network errors open a provider's circuit, and fallback clients skip it ('circuit_open')
+const client = ModelShiftAIClientFactory.createFallback(['openai', 'claude', 'gemini'], userId);
+const result = await client.generateResult('Summarize this support ticket');
+
+const status = providerHealth.getStatus('openai');
+console.log(status.health); // 'unknown' | 'healthy' | 'degraded' | 'down'
+console.log(status.successRate, status.averageLatencyMs, status.p95LatencyMs);
+
+// After the cool-down one half-open probe is let through; a success closes the circuit
+if (status.state === 'open') {
+  console.log('Next probe at', new Date(status.retryAt!));
+}
+
+const unsubscribe = providerHealth.subscribe(update => {
+  if (update.health === 'down') console.warn(\`\${update.provider} is down: \${update.lastError}\`);
+});`,
+
+    selfHosted: `import { createClient, discoverModels, getProvider } from '@modelshift/ai-sdk';
+
+// Ollama, vLLM and LM Studio presets speak the OpenAI API; the base URL and an optional
+// bearer token are stored like any other key data, so no proxy or CORS setup is needed
+const keyData = { baseUrl: 'http://gpu-box.local:11434' }; // Defaults to http://localhost:11434
+
+// Lists the models the server has pulled or loaded, via GET /v1/models
+const models = await discoverModels(getProvider('ollama')!.apiConfig, keyData);
+console.log(models.map(model => model.id)); // ['llama3.2:latest', 'qwen2.5-coder:7b', ...]
+
+const ollama = createClient('ollama', { keyData, model: models[0].id });
+for await (const event of ollama.generateStream('Explain vector clocks briefly')) {
+  if (event.type === 'delta') process.stdout.write(event.text);
+}
+
+// Any other OpenAI-compatible server, with bearer auth
+const server = createClient('openai-compatible', {
+  keyData: { baseUrl: 'https://llm.internal.example.com/v1', apiKey: process.env.LLM_TOKEN! },
+  model: 'mistral-7b-instruct'
+});`,
+
+    regionalEndpoints: `import { DataDrivenClient, createClient } from '@modelshift/ai-sdk';
+
+// Azure OpenAI: the resource, deployment and API version fill the preset's URL template
+// https://{{keyData.resource}}.openai.azure.com/openai/deployments/{{keyData.deployment}}/...
+const azure = createClient('azure-openai', {
+  keyData: {
+    apiKey: process.env.AZURE_OPENAI_KEY!,
+    resource: 'contoso-east',
+    deployment: 'gpt-4o-prod',
+    apiVersion: '2024-10-21' // Optional
+  }
+});
+
+// IBM WatsonX in Frankfurt instead of the default us-south
+const watsonx = createClient('ibm', {
+  keyData: { apiKey: process.env.IBM_API_KEY!, projectId: process.env.IBM_PROJECT_ID!, region: 'eu-de' }
+});
+
+// Your own configurations can use {{keyData.name}}, {{keyData.name|default}} and {{model}}
+// in the base URL, endpoint path, headers and request body
+const gateway = new DataDrivenClient({ apiKey: process.env.GATEWAY_KEY!, tenant: 'acme' }, {
+  baseUrl: 'https://{{keyData.tenant}}.gateway.example.com',
+  endpointPath: '/v1/models/{{model}}/chat',
+  method: 'POST',
+  headers: { 'Content-Type': 'application/json', 'X-Tenant': '{{keyData.tenant}}' },
+  authHeaderName: 'Authorization',
+  authHeaderPrefix: 'Bearer ',
+  requestBodyStructure: { messages: [{ role: 'user', content: '' }] },
+  promptJsonPath: 'messages[0].content',
+  responseJsonPath: 'choices[0].message.content',
+  defaultModel: 'llama-3.1-70b',
+  defaultParameters: {}
+});`,
+
+    tokenExchange: `import { DataDrivenClient, createClient, tokenCache } from '@modelshift/ai-sdk';
+
+// IBM WatsonX exchanges the API key for an IAM access token on the first request; the
+// token is cached per key and exchanged again five minutes before it expires
+const watsonx = createClient('ibm', {
+  keyData: { apiKey: process.env.IBM_API_KEY!, projectId: process.env.IBM_PROJECT_ID! }
+});
+await watsonx.generate('Summarize the release notes');
+
+// Any configuration can exchange its key first with an auth strategy
+const client = new DataDrivenClient({ apiKey: process.env.CLIENT_SECRET!, clientId: 'reporting' }, {
+  ...baseConfiguration, // Your endpoint, request body and response paths
+  authHeaderName: 'Authorization',
+  authHeaderPrefix: 'Bearer ',
+  auth: {
+    type: 'token-exchange',
+    endpoint: 'https://auth.example.com/oauth/token',
+    body: {
+      grant_type: 'client_credentials',
+      client_id: '{{keyData.clientId}}',
+      client_secret: '{{keyData.apiKey}}'
+    },
+    tokenJsonPath: 'access_token',
+    expiresInJsonPath: 'expires_in'
+  }
+});
+
+// Tokens are dropped automatically after a 401; clear them all, e.g. on sign-out
+tokenCache.clear();`,
+    bedrock: `import { createClient, signRequest } from '@modelshift/ai-sdk';
+
+// Bedrock presets sign every request with AWS Signature Version 4; the Node adapter
+// reads AWS_ACCESS_KEY_ID, AWS_SECRET_ACCESS_KEY, AWS_SESSION_TOKEN and AWS_REGION
+const claude = createClient('bedrock-claude', {
+  keyData: {
+    accessKeyId: process.env.AWS_ACCESS_KEY_ID!,
+    secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY!,
+    region: 'eu-central-1'
+  },
+  model: 'anthropic.claude-3-5-sonnet-20240620-v1:0' // Filled into /model/{{model}}/invoke
+});
+await claude.generate('Summarize the release notes');
+
+// Llama models use the Converse API
+const llama = createClient('bedrock-llama', { model: 'meta.llama3-1-8b-instruct-v1:0' });
+
+// The signer works on its own too, with a fixed date for reproducible signatures
+const headers = await signRequest(
+  { method: 'GET', url: 'https://example.amazonaws.com/', headers: {} },
+  {
+    credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' },
+    region: 'us-east-1',
+    service: 'service',
+    date: new Date('2015-08-30T12:36:00Z')
+  }
+);`,
+    modelCatalog: `import {
+  createClient,
+  discoverModels,
+  getModelCatalog,
+  getProvider,
+  searchModels,
+  storeDiscoveredModels
+} from '@modelshift/ai-sdk';
+
+// Each provider has a catalog with context window, output limit, modalities and pricing
+const claude = getProvider('claude')!;
+for (const model of searchModels(getModelCatalog(claude), 'sonnet')) {
+  console.log(model.id, model.contextWindow, model.maxOutputTokens, model.pricing);
+}
+
+// Refresh it from the vendor's list-models endpoint; listed models are kept in storage
+const keyData = { apiKey: process.env.ANTHROPIC_API_KEY! };
+storeDiscoveredModels('claude', await discoverModels(claude.apiConfig, keyData));
+
+// Custom configurations describe their models endpoint's response with JSON paths
+const apiConfig = {
+  ...baseConfiguration, // Your endpoint, request body and response paths
+  modelsEndpointPath: '/v2/models',
+  modelList: { itemsJsonPath: 'items', idJsonPath: 'slug', contextWindowJsonPath: 'limits.context' }
+};
+
+const client = createClient('claude', { model: 'claude-sonnet-4-20250514' });`
   };
 
   return (
@@ -943,6 +1401,291 @@ try {
             copied={copiedCode === 'error-handling'}
           />
         </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Provider Fallback
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Keep features running during single-vendor outages by falling back to other providers.
+          </p>
+          <CodeBlock
+            code={examples.fallback}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.fallback, 'fallback')}
+            copied={copiedCode === 'fallback'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Response Caching
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Avoid paying for identical requests while iterating on prompts and agents.
+          </p>
+          <CodeBlock
+            code={examples.caching}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.caching, 'caching')}
+            copied={copiedCode === 'caching'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Tool Calling
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Let models call your TypeScript functions with one tool definition for every provider.
+          </p>
+          <CodeBlock
+            code={examples.tools}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.tools, 'tools')}
+            copied={copiedCode === 'tools'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Structured Output
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Get typed objects that match a JSON Schema instead of parsing free text.
+          </p>
+          <CodeBlock
+            code={examples.structuredOutput}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.structuredOutput, 'structured-output')}
+            copied={copiedCode === 'structured-output'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Images and Documents
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Send images and PDFs to multimodal providers using one attachment format.
+          </p>
+          <CodeBlock
+            code={examples.attachments}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.attachments, 'attachments')}
+            copied={copiedCode === 'attachments'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Embeddings
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Turn texts into vectors with any embedding provider through one call.
+          </p>
+          <CodeBlock
+            code={examples.embeddings}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.embeddings, 'embeddings')}
+            copied={copiedCode === 'embeddings'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Node and Server Code
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Reuse the same provider configs and clients outside the browser with the Node adapter.
+          </p>
+          <CodeBlock
+            code={examples.nodeUsage}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.nodeUsage, 'node-usage')}
+            copied={copiedCode === 'node-usage'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Middleware
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Rewrite outgoing requests, transform responses and observe timing and errors in one place.
+          </p>
+          <CodeBlock
+            code={examples.middleware}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.middleware, 'middleware')}
+            copied={copiedCode === 'middleware'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Token Counting
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Count prompts with each model's tokenizer and check them against its context window before sending.
+          </p>
+          <CodeBlock
+            code={examples.tokenCounting}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.tokenCounting, 'tokenCounting')}
+            copied={copiedCode === 'tokenCounting'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Cost Estimation
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Price requests per model from their prompt and completion tokens, including cached-input and batch discounts.
+          </p>
+          <CodeBlock
+            code={examples.costEstimation}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.costEstimation, 'costEstimation')}
+            copied={copiedCode === 'costEstimation'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Mock Provider
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Run demos and CI without API keys: scripted or echoed responses with configurable latency, usage, streaming and failures.
+          </p>
+          <CodeBlock
+            code={examples.mockProvider}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.mockProvider, 'mockProvider')}
+            copied={copiedCode === 'mockProvider'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Record and Replay
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Capture real provider exchanges into fixture files and replay them offline to catch body-building and extraction regressions.
+          </p>
+          <CodeBlock
+            code={examples.fixtures}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.fixtures, 'fixtures')}
+            copied={copiedCode === 'fixtures'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Rate Limits
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Keep fan-out within each provider's limits with per-provider and per-key request, token and concurrency budgets.
+          </p>
+          <CodeBlock
+            code={examples.rateLimits}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.rateLimits, 'rateLimits')}
+            copied={copiedCode === 'rateLimits'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Provider Health
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Track success rate and latency per provider, and let a circuit breaker route around providers that keep failing.
+          </p>
+          <CodeBlock
+            code={examples.providerHealth}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.providerHealth, 'providerHealth')}
+            copied={copiedCode === 'providerHealth'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Self-Hosted Models
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Call Ollama, vLLM, LM Studio or any OpenAI-compatible server at a base URL of your choice, and discover the models it serves.
+          </p>
+          <CodeBlock
+            code={examples.selfHosted}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.selfHosted, 'selfHosted')}
+            copied={copiedCode === 'selfHosted'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Azure OpenAI and Regional Endpoints
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Fill URLs, headers and request bodies from key data and the model, for per-resource endpoints such as Azure OpenAI deployments or IBM WatsonX regions.
+          </p>
+          <CodeBlock
+            code={examples.regionalEndpoints}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.regionalEndpoints, 'regionalEndpoints')}
+            copied={copiedCode === 'regionalEndpoints'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Token Exchange
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Exchange a stored key for a short-lived access token before calling the provider, as IBM WatsonX requires, with tokens cached and refreshed per key.
+          </p>
+          <CodeBlock
+            code={examples.tokenExchange}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.tokenExchange, 'tokenExchange')}
+            copied={copiedCode === 'tokenExchange'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Amazon Bedrock
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Call Claude and Llama models hosted on Bedrock with an AWS access key pair; requests are signed with Signature Version 4 as they are sent, after middleware has run.
+          </p>
+          <CodeBlock
+            code={examples.bedrock}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.bedrock, 'bedrock')}
+            copied={copiedCode === 'bedrock'}
+          />
+        </div>
+
+        <div>
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-white mb-3">
+            Model Catalog
+          </h3>
+          <p className="text-neutral-600 dark:text-neutral-400 mb-4">
+            Look up and search each provider's models, and refresh the catalog from the provider's own model list to pick up models your account can use.
+          </p>
+          <CodeBlock
+            code={examples.modelCatalog}
+            language="typescript"
+            onCopy={() => copyToClipboard(examples.modelCatalog, 'modelCatalog')}
+            copied={copiedCode === 'modelCatalog'}
+          />
+        </div>
       </div>
 
       {/* Best Practices */}
@@ -3,8 +3,9 @@ import { Clock, Eye, Trash2, Search, Filter, Download, RefreshCw, AlertTriangle,
 import { AgentService } from '../../lib/agents';
 import { providers } from '../../data/providers';
 import { db } from '../../lib/supabase';
+import { estimateCost, formatCost } from '../../lib/pricing';
 import { useAuth } from '../../contexts/AuthContext';
-import type { PromptExecution } from '../../types';
+import type { PromptExecution, ProviderResponse } from '../../types';
 import toast from 'react-hot-toast';
 
 export function HistoryView() {
@@ -156,14 +157,21 @@ export function HistoryView() {
     return providers.find(provider => provider.id === providerId);
   };
 
+  // Cost recorded with the response, or an estimate from its tokens for older records
+  const getResponseCost = (execution: PromptExecution, response: ProviderResponse): number => {
+    if (response.cost !== undefined) return response.cost;
+    if (!response.success || response.tokens === 0) return 0;
+    return estimateCost({
+      providerId: response.provider,
+      model: response.model,
+      usage: response.usage,
+      prompt: execution.prompt,
+      response: response.response
+    }).total;
+  };
+
   const calculateTotalCost = (execution: PromptExecution): number => {
-    return execution.responses.reduce((total, response) => {
-      const provider = getProviderInfo(response.provider);
-      if (provider && response.tokens > 0) {
-        return total + (response.tokens * provider.capabilities.pricing.output) / 1000;
-      }
-      return total;
-    }, 0);
+    return execution.responses.reduce((total, response) => total + getResponseCost(execution, response), 0);
   };
 
   const getSuccessRate = (execution: PromptExecution): number => {
@@ -473,7 +481,7 @@ export function HistoryView() {
                           {execution.tokens_used.toLocaleString()} tokens
                         </div>
                         <div>
-                          ${totalCost.toFixed(4)} cost
+                          {formatCost(totalCost)} cost
                         </div>
                         <div>
                           {execution.responses.filter(r => r.success).length}/{execution.responses.length} successful
@@ -554,9 +562,7 @@ export function HistoryView() {
                             <div className="flex items-center justify-between text-xs text-neutral-500 dark:text-neutral-400">
                               <span>{response.latency}ms</span>
                               <span>{response.tokens.toLocaleString()} tokens</span>
-                              {providerInfo && (
-                                <span>${((response.tokens * providerInfo.capabilities.pricing.output) / 1000).toFixed(4)}</span>
-                              )}
+                              <span>{formatCost(getResponseCost(execution, response))}</span>
                             </div>
                           </div>
                         );
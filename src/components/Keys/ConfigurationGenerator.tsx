@@ -554,22 +554,15 @@ ${curlHeaders} \\
   const getEndpoint = () => {
     const endpoints = {
       openai: 'https://api.openai.com/v1/chat/completions',
-      gemini: `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent${showKeys && keyData.apiKey ? `?key=${keyData.apiKey}` : '?key=YOUR_API_KEY'}`,
+      gemini: `https://generativelanguage.googleapis.com/v1beta/models/${getModel()}:generateContent${showKeys && keyData.apiKey ? `?key=${keyData.apiKey}` : '?key=YOUR_API_KEY'}`,
       claude: 'https://api.anthropic.com/v1/messages',
       ibm: 'https://us-south.ml.cloud.ibm.com/ml/v1/text/generation'
     };
     return endpoints[provider as keyof typeof endpoints] || '';
   };
 
-  const getModel = () => {
-    const models = {
-      openai: 'gpt-4',
-      gemini: 'gemini-2.0-flash',
-      claude: 'claude-3-sonnet-20240229',
-      ibm: 'ibm/granite-13b-chat-v2'
-    };
-    return models[provider as keyof typeof models] || '';
-  };
+  // The snippets call the provider's default model from the catalog
+  const getModel = () => providerData.apiConfig.defaultModel;
 
   const generateHeaders = () => {
     const baseHeaders: Record<string, string> = {
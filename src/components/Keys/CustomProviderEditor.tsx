@@ -392,13 +392,16 @@ export function CustomProviderEditor({ onClose, onSave }: CustomProviderEditorPr
               Base URL *
             </label>
             <input
-              type="url"
+              type="text"
               value={apiConfig.baseUrl}
               onChange={(e) => setApiConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
               placeholder="https://api.example.com"
               className="w-full px-3 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white"
               required
             />
+            <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+              URL, path, headers and body may use {'{{keyData.field}}'} and {'{{model}}'}, e.g. https://{'{{keyData.region}}'}.api.example.com
+            </p>
           </div>
 
           <div>
@@ -515,7 +518,7 @@ export function CustomProviderEditor({ onClose, onSave }: CustomProviderEditorPr
               required
             />
             <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
-              Where to extract the response text from the API response
+              Where to extract the response text from the API response. Use [*] or filters such as [?(@.type=='text')] with | join to combine several blocks
             </p>
           </div>
         </div>
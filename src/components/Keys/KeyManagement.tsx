@@ -1,12 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Key, Eye, EyeOff, Trash2, Shield, AlertTriangle, Code, Upload, Download, Edit, Settings, FileText } from 'lucide-react';
+import { Plus, Key, Eye, EyeOff, Trash2, Shield, AlertTriangle, Code, Upload, Download, Edit, Settings, FileText, RefreshCw } from 'lucide-react';
 import { providers } from '../../data/providers';
 import { keyVault } from '../../lib/encryption';
+import { ProxyService } from '../../lib/api/ProxyService';
 import { ConfigurationGenerator } from './ConfigurationGenerator';
 import { ConfigurationExporter } from './ConfigurationExporter';
 import { ConfigurationImporter } from './ConfigurationImporter';
 import { CustomProviderEditor } from './CustomProviderEditor';
 import { CodeSnippetModal } from './CodeSnippetModal';
+import type { DiscoveredModel } from '../../lib/openaiCompatible';
 import type { APIKey, Provider } from '../../types';
 import toast from 'react-hot-toast';
 
@@ -556,9 +558,21 @@ function AddKeyModal({ editingKey, allProviders, onClose, onAdd }: AddKeyModalPr
   const [selectedProvider, setSelectedProvider] = useState(editingKey?.provider || '');
   const [keyFieldValues, setKeyFieldValues] = useState<Record<string, string>>(editingKey?.keyData || {});
   const [keyName, setKeyName] = useState('');
+  const [discovery, setDiscovery] = useState<{ loading: boolean; models?: DiscoveredModel[]; error?: string }>({ loading: false });
 
   const selectedProviderData = allProviders.find(p => p.id === selectedProvider);
 
+  // Lists the server's models with the values entered so far, which also confirms the server is reachable
+  const testConnection = async () => {
+    setDiscovery({ loading: true });
+    try {
+      const models = await ProxyService.listModels(selectedProvider, keyFieldValues);
+      setDiscovery({ loading: false, models });
+    } catch (error) {
+      setDiscovery({ loading: false, error: error instanceof Error ? error.message : 'Could not list models' });
+    }
+  };
+
   const handleFieldChange = (fieldName: string, value: string) => {
     setKeyFieldValues(prev => ({
       ...prev,
@@ -622,6 +636,7 @@ function AddKeyModal({ editingKey, allProviders, onClose, onAdd }: AddKeyModalPr
       setKeyFieldValues({});
       setKeyName('');
     }
+    setDiscovery({ loading: false });
   }, [selectedProvider, editingKey]);
 
   return (
@@ -646,7 +661,7 @@ function AddKeyModal({ editingKey, allProviders, onClose, onAdd }: AddKeyModalPr
                 disabled={!!editingKey}
               >
                 <option value="">Select a provider</option>
-                {allProviders.map((provider) => (
+                {allProviders.filter((provider) => provider.keyRequirements.length > 0).map((provider) => (
                   <option key={provider.id} value={provider.id}>
                     {provider.displayName}
                   </option>
@@ -685,7 +700,7 @@ function AddKeyModal({ editingKey, allProviders, onClose, onAdd }: AddKeyModalPr
               <div className="space-y-4">
                 <div className="border-t border-neutral-200 dark:border-neutral-700 pt-4">
                   <h4 className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-3">
-                    Required Credentials
+                    {selectedProviderData.type === 'openai-compatible' ? 'Connection' : 'Required Credentials'}
                   </h4>
                   {selectedProviderData.keyRequirements.map((requirement) => (
                     <div key={requirement.name} className="mb-4">
@@ -703,6 +718,32 @@ function AddKeyModal({ editingKey, allProviders, onClose, onAdd }: AddKeyModalPr
                       />
                     </div>
                   ))}
+
+                  {selectedProviderData.apiConfig.modelsEndpointPath && (
+                    <div>
+                      <button
+                        type="button"
+                        onClick={testConnection}
+                        disabled={discovery.loading}
+                        className="flex items-center space-x-2 px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-300 rounded-lg hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+                      >
+                        {discovery.loading && <RefreshCw className="w-4 h-4 animate-spin" />}
+                        <span>Test Connection</span>
+                      </button>
+                      {discovery.error && (
+                        <p className="text-xs text-red-600 dark:text-red-400 mt-2">{discovery.error}</p>
+                      )}
+                      {discovery.models && (
+                        <p className="text-xs text-green-600 dark:text-green-400 mt-2">
+                          {discovery.models.length === 0
+                            ? 'Connected, but the server reported no models'
+                            : `Connected. Models: ${discovery.models.slice(0, 8).map(model => model.id).join(', ')}${
+                                discovery.models.length > 8 ? ` and ${discovery.models.length - 8} more` : ''
+                              }`}
+                        </p>
+                      )}
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -1,5 +1,5 @@
-import React, { useState, useEffect } from 'react';
-import { Swords, Play, X, Settings, Plus, Minus, RefreshCw, AlertTriangle, Info, Download, Copy, Check, Calendar, Filter } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Swords, Play, Square, X, Settings, Plus, Minus, RefreshCw, AlertTriangle, Info, Download, Copy, Check, Calendar, Filter } from 'lucide-react';
 import { ProviderSelector } from './ProviderSelector';
 import { AgentSelector } from './AgentSelector';
 import { ResponseComparison } from './ResponseComparison';
@@ -7,6 +7,7 @@ import { ProxyService } from '../../lib/api/ProxyService';
 import { useAuth } from '../../contexts/AuthContext';
 import { AgentService } from '../../lib/agents';
 import { db } from '../../lib/supabase';
+import { resolveTotalTokens } from '../../lib/usage';
 import { v4 as uuidv4 } from 'uuid';
 import toast from 'react-hot-toast';
 import type { DebateSideConfig, ComparisonResult } from '../../types';
@@ -74,6 +75,7 @@ export function DebateView() {
   const [activePosition, setActivePosition] = useState<'A' | 'B'>('A');
   const [copiedText, setCopiedText] = useState<string | null>(null);
   const [executionId, setExecutionId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Debate configuration
   const [sideA, setSideA] = useState<DebateSideConfig>({
@@ -101,6 +103,14 @@ export function DebateView() {
     }
   }, []);
 
+  // Cancel any in-flight round when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Stop every provider in the current round, keeping the text received so far
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Handle topic selection from prompt packs
   const handleTopicSelect = (topic: string) => {
     setPrompt(topic);
@@ -132,6 +142,8 @@ export function DebateView() {
     setIsLoading(true);
     setResults([]);
     setDebateRound(1);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     // Generate a unique ID for this debate execution
     const debateId = uuidv4();
@@ -164,14 +176,15 @@ export function DebateView() {
     // Process each provider in parallel
     const promises = [
       ...sideA.selectedProviders.map((provider, index) => 
-        processProvider(provider, sideA.selectedAgent, 'A', sideA.label, index, promptToUse, 1, user.id)
+        processProvider(provider, sideA.selectedAgent, 'A', sideA.label, index, promptToUse, 1, user.id, abortController.signal)
       ),
       ...sideB.selectedProviders.map((provider, index) => 
-        processProvider(provider, sideB.selectedAgent, 'B', sideB.label, sideA.selectedProviders.length + index, promptToUse, 1, user.id)
+        processProvider(provider, sideB.selectedAgent, 'B', sideB.label, sideA.selectedProviders.length + index, promptToUse, 1, user.id, abortController.signal)
       )
     ];
     
     await Promise.all(promises);
+    abortControllerRef.current = null;
     
     // Record the debate execution in the database
     try {
@@ -180,6 +193,7 @@ export function DebateView() {
         response: r.response,
         latency: r.metrics.latency,
         tokens: r.metrics.tokens,
+        cost: r.metrics.cost,
         success: !r.error,
         error: r.error
       }));
@@ -212,7 +226,8 @@ export function DebateView() {
     resultIndex: number,
     promptText: string,
     round: number,
-    userId: string
+    userId: string,
+    signal: AbortSignal
   ) => {
     try {
       // Start tracking execution time
@@ -260,29 +275,55 @@ Now, provide a rebuttal for round ${round}. Address the arguments made by the op
 Your response should be 3-4 paragraphs, focused on the strongest counterarguments and most compelling points for your position.`;
       }
 
-      // Make the API call
-      const response = await ProxyService.callProvider({
+      // Make the API call, showing text in the result card as it streams in
+      const response = await ProxyService.streamProvider({
         providerId,
         prompt: debateContext,
         agentId: agentId || undefined,
         userId: userId,
-        useUserKey: connectionMode === 'browser'
+        useUserKey: connectionMode === 'browser',
+        signal,
+        // Show where the request waits when the provider's rate limits queue it
+        onQueuePosition: (position) => {
+          setResults(prevResults => {
+            const newResults = [...prevResults];
+            newResults[resultIndex] = { ...newResults[resultIndex], queuePosition: position || undefined };
+            return newResults;
+          });
+        }
+      }, (_delta, text) => {
+        setResults(prevResults => {
+          const newResults = [...prevResults];
+          newResults[resultIndex] = {
+            ...newResults[resultIndex],
+            response: text,
+            loading: false,
+            streaming: true
+          };
+          return newResults;
+        });
       });
 
       // Calculate execution time
       const executionTime = Date.now() - startTime;
 
+      // Stopped responses keep their partial text and only count as failed when nothing arrived
+      const responseText = response.success || response.cancelled ? response.response || '' : '';
+      const stoppedError = response.cancelled && !responseText ? 'Stopped' : undefined;
+
       // Update the result
       setResults(prevResults => {
         const newResults = [...prevResults];
         newResults[resultIndex] = {
           provider: providerId,
-          response: response.success ? response.response || '' : '',
+          response: responseText,
           loading: false,
-          error: response.success ? undefined : response.error,
+          streaming: false,
+          stopped: response.cancelled,
+          error: response.success ? undefined : response.cancelled ? stoppedError : response.error,
           metrics: {
             latency: executionTime,
-            tokens: response.metrics?.tokens || Math.ceil((debateContext.length + (response.response?.length || 0)) / 4),
+            tokens: response.metrics?.tokens || resolveTotalTokens(response.usage, debateContext, response.response || ''),
             cost: response.metrics?.cost || 0
           },
           sideId,
@@ -301,6 +342,7 @@ Your response should be 3-4 paragraphs, focused on the strongest counterargument
           provider: providerId,
           response: '',
           loading: false,
+          streaming: false,
           error: error instanceof Error ? error.message : 'Unknown error',
           metrics: { latency: 0, tokens: 0, cost: 0 },
           sideId,
@@ -458,6 +500,8 @@ Return ONLY the improved prompt text without any explanations, introductions, or
     const nextRound = debateRound + 1;
     setDebateRound(nextRound);
     setIsLoading(true);
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
     
     // Initialize results with loading state for next round
     const initialResults: ComparisonResult[] = [
@@ -487,14 +531,15 @@ Return ONLY the improved prompt text without any explanations, introductions, or
     const promptToUse = improvedPrompt || prompt;
     const promises = [
       ...sideA.selectedProviders.map((provider, index) => 
-        processProvider(provider, sideA.selectedAgent, 'A', sideA.label, index, promptToUse, nextRound, user.id)
+        processProvider(provider, sideA.selectedAgent, 'A', sideA.label, index, promptToUse, nextRound, user.id, abortController.signal)
       ),
       ...sideB.selectedProviders.map((provider, index) => 
-        processProvider(provider, sideB.selectedAgent, 'B', sideB.label, sideA.selectedProviders.length + index, promptToUse, nextRound, user.id)
+        processProvider(provider, sideB.selectedAgent, 'B', sideB.label, sideA.selectedProviders.length + index, promptToUse, nextRound, user.id, abortController.signal)
       )
     ];
     
     await Promise.all(promises);
+    abortControllerRef.current = null;
     
     // Record the debate continuation in the database
     try {
@@ -503,6 +548,7 @@ Return ONLY the improved prompt text without any explanations, introductions, or
         response: r.response,
         latency: r.metrics.latency,
         tokens: r.metrics.tokens,
+        cost: r.metrics.cost,
         success: !r.error,
         error: r.error
       }));
@@ -994,9 +1040,19 @@ Return ONLY the improved prompt text without any explanations, introductions, or
               </div>
               
               <div className="flex items-center space-x-3">
+                {isLoading && (
+                  <button
+                    onClick={handleStop}
+                    className="flex items-center space-x-2 px-3 py-2 bg-neutral-600 text-white rounded-lg hover:bg-neutral-700 transition-colors"
+                  >
+                    <Square className="w-4 h-4" />
+                    <span>Stop</span>
+                  </button>
+                )}
+                
                 <button
                   onClick={continueDebate}
-                  disabled={isLoading || results.some(r => r.loading) || !user}
+                  disabled={isLoading || results.some(r => r.loading || r.streaming) || !user}
                   className="flex items-center space-x-2 px-3 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
                 >
                   <Play className="w-4 h-4" />
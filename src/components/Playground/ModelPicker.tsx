@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react';
+import { Check, Search, RefreshCw } from 'lucide-react';
+import { ProxyService } from '../../lib/api/ProxyService';
+import { getModelCatalog, searchModels } from '../../lib/modelCatalog';
+import type { ModelInfo, Provider } from '../../types';
+
+interface ModelPickerProps {
+  provider: Provider;
+  selected: string;
+  onChange: (model: string) => void;
+}
+
+// Token counts as 128K or 1M, short enough for a list row
+function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${Number((tokens / 1_000_000).toFixed(1))}M`;
+  if (tokens >= 1000) return `${Math.round(tokens / 1000)}K`;
+  return String(tokens);
+}
+
+function describeLimits(model: ModelInfo): string {
+  return [
+    model.contextWindow && `${formatTokens(model.contextWindow)} context`,
+    model.maxOutputTokens && `${formatTokens(model.maxOutputTokens)} output`,
+    model.pricing && `$${model.pricing.input} / $${model.pricing.output} per 1M tokens`
+  ].filter(Boolean).join(' · ');
+}
+
+export function ModelPicker({ provider, selected, onChange }: ModelPickerProps) {
+  const [models, setModels] = useState<ModelInfo[]>(() => getModelCatalog(provider));
+  const [query, setQuery] = useState('');
+  const [refresh, setRefresh] = useState<{ loading: boolean; error?: string }>({ loading: false });
+
+  useEffect(() => {
+    setModels(getModelCatalog(provider));
+    setQuery('');
+    setRefresh({ loading: false });
+  }, [provider]);
+
+  const refreshModels = async () => {
+    setRefresh({ loading: true });
+    try {
+      setModels(await ProxyService.refreshModels(provider.id));
+      setRefresh({ loading: false });
+    } catch (error) {
+      setRefresh({ loading: false, error: error instanceof Error ? error.message : 'Could not list models' });
+    }
+  };
+
+  const matches = searchModels(models, query);
+  // A model the catalog does not know yet, e.g. one released after this build, can still be typed in
+  const customId = query.trim();
+  const canUseCustomId = customId.length > 0 && !/\s/.test(customId) && !models.some(model => model.id === customId);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-neutral-400" />
+          <input
+            type="text"
+            placeholder={`Search ${models.length} models...`}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-neutral-300 dark:border-neutral-600 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-transparent bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white text-sm"
+          />
+        </div>
+        {provider.apiConfig.modelsEndpointPath && (
+          <button
+            type="button"
+            onClick={refreshModels}
+            disabled={refresh.loading}
+            title={`List the models available to your ${provider.displayName} account`}
+            className="flex items-center space-x-1 px-3 py-2 text-sm border border-neutral-300 dark:border-neutral-600 text-neutral-700 dark:text-neutral-300 rounded-lg hover:bg-neutral-50 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${refresh.loading ? 'animate-spin' : ''}`} />
+            <span>Refresh</span>
+          </button>
+        )}
+      </div>
+
+      {refresh.error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{refresh.error}</p>
+      )}
+
+      <div className="max-h-64 overflow-y-auto border border-neutral-200 dark:border-neutral-700 rounded-lg divide-y divide-neutral-200 dark:divide-neutral-700">
+        {matches.map((model) => {
+          const isSelected = model.id === selected;
+          const limits = describeLimits(model);
+
+          return (
+            <button
+              key={model.id}
+              type="button"
+              onClick={() => onChange(model.id)}
+              className={`w-full text-left px-3 py-2 flex items-start justify-between transition-colors ${
+                isSelected
+                  ? 'bg-primary-50 dark:bg-primary-900/20'
+                  : 'hover:bg-neutral-50 dark:hover:bg-neutral-700'
+              }`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm font-medium text-neutral-900 dark:text-white">
+                    {model.displayName || model.id}
+                  </span>
+                  {model.modalities?.filter(modality => modality !== 'text').map(modality => (
+                    <span
+                      key={modality}
+                      className="px-1.5 py-0.5 bg-neutral-100 dark:bg-neutral-700 text-neutral-600 dark:text-neutral-400 rounded text-xs"
+                    >
+                      {modality}
+                    </span>
+                  ))}
+                  {model.discovered && (
+                    <span className="px-1.5 py-0.5 bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300 rounded text-xs">
+                      Listed
+                    </span>
+                  )}
+                </div>
+                {model.displayName && (
+                  <div className="text-xs font-mono text-neutral-500 dark:text-neutral-400 truncate">{model.id}</div>
+                )}
+                {limits && (
+                  <div className="text-xs text-neutral-500 dark:text-neutral-400">{limits}</div>
+                )}
+              </div>
+              {isSelected && <Check className="w-4 h-4 text-primary-600 dark:text-primary-400 flex-shrink-0 mt-0.5" />}
+            </button>
+          );
+        })}
+
+        {canUseCustomId && (
+          <button
+            type="button"
+            onClick={() => onChange(customId)}
+            className="w-full text-left px-3 py-2 text-sm text-primary-600 dark:text-primary-400 hover:bg-neutral-50 dark:hover:bg-neutral-700"
+          >
+            Use <span className="font-mono">{customId}</span>
+          </button>
+        )}
+
+        {matches.length === 0 && !canUseCustomId && (
+          <p className="px-3 py-2 text-sm text-neutral-500 dark:text-neutral-400">No models match your search</p>
+        )}
+      </div>
+    </div>
+  );
+}
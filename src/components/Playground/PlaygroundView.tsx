@@ -1,11 +1,19 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import toast from 'react-hot-toast';
+import { Paperclip, X, FileText } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { ProviderSelector } from './ProviderSelector';
 import { AgentSelector } from './AgentSelector';
+import { TokenBudget } from '../TokenBudget';
 import { ProxyService } from '../../lib/api/ProxyService';
 import { AgentService } from '../../lib/agents';
 import { db } from '../../lib/supabase';
+import { resolveTotalTokens } from '../../lib/usage';
+import { checkContextWindow } from '../../lib/tokens';
+import { getAttachmentSupportError, readFileAsAttachment } from '../../lib/attachments';
+import { findModel } from '../../lib/modelCatalog';
+import { getProvider, providers } from '../../data/providers';
+import type { Attachment, ChatMessage, Provider } from '../../types';
 import type { MessageType } from './types';
 
 export function PlaygroundView() {
@@ -14,10 +22,32 @@ export function PlaygroundView() {
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState('gemini');
-  const [selectedModel, setSelectedModel] = useState('gemini-2.0-flash');
+  const [selectedModel, setSelectedModel] = useState(() => getProvider('gemini')?.apiConfig.defaultModel || '');
   const [selectedParameters, setSelectedParameters] = useState({ maxOutputTokens: 256 });
   const [selectedAgent, setSelectedAgent] = useState<{ id: string } | null>(null);
   const [connectionMode, setConnectionMode] = useState('browser'); // Default to browser mode for development
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const currentProvider = providers.find(p => p.id === selectedProvider);
+  const currentModel = currentProvider && findModel(currentProvider, selectedModel);
+  const attachmentConfig = currentProvider?.apiConfig.attachments;
+  // Earlier attachments are sent again with the history, so they count too
+  const conversationAttachments = [...messages.flatMap(m => m.attachments || []), ...attachments];
+  // Only completed turns are sent as history
+  const history = messages.filter((m) => !m.streaming && (m.text || m.attachments?.length));
+  // What the next request would send, for the token budget
+  const pendingConversation: ChatMessage[] = [
+    ...history.map((m): ChatMessage => ({ role: m.role, content: m.text, attachments: m.attachments })),
+    { role: 'user', content: input, ...(attachments.length > 0 && { attachments }) }
+  ];
+  const contextWindowOptions = {
+    model: selectedModel,
+    provider: selectedProvider,
+    parameters: selectedParameters,
+    contextWindow: currentProvider?.apiConfig.contextWindow ?? currentModel?.contextWindow
+  };
 
   // Load connection mode from localStorage
   useEffect(() => {
@@ -30,13 +60,75 @@ export function PlaygroundView() {
     }
   }, []);
 
-  const executeProviderRequest = async (prompt: string) => {
+  // Cancel any in-flight request when leaving the page
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Replace the text of the assistant message currently being streamed
+  const updateStreamingMessage = (text: string, streaming: boolean, stopped?: boolean) => {
+    setMessages((msgs) => {
+      const next = [...msgs];
+      next[next.length - 1] = { role: 'assistant', text, streaming, stopped };
+      return next;
+    });
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Explains why a provider cannot take the attachments in this conversation
+  const getAttachmentBlocker = (provider: Provider | undefined, pending: Attachment[]): string | null => {
+    if (pending.length === 0) return null;
+    if (connectionMode !== 'browser') return 'Attachments require direct browser mode';
+    return getAttachmentSupportError(provider?.apiConfig.attachments, pending);
+  };
+
+  const getAttachButtonTitle = (): string => {
+    if (connectionMode !== 'browser') return 'Attachments require direct browser mode';
+    if (!attachmentConfig) return `${currentProvider?.displayName || 'This provider'} does not accept attachments`;
+    return 'Attach images or documents';
+  };
+
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow selecting the same file again
+
+    for (const file of files) {
+      try {
+        const attachment = await readFileAsAttachment(file);
+        const error = getAttachmentSupportError(attachmentConfig, [attachment]);
+        if (error) {
+          toast.error(error);
+          continue;
+        }
+        setAttachments((current) => [...current, attachment]);
+      } catch (error) {
+        console.error('Failed to read attachment:', error);
+        toast.error(`Could not read ${file.name}`);
+      }
+    }
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments((current) => current.filter((_, i) => i !== index));
+  };
+
+  // File types the selected provider accepts, for the file picker
+  const acceptedFileTypes = [
+    ...(attachmentConfig?.kinds.includes('image') ? ['image/*'] : []),
+    ...(attachmentConfig?.kinds.includes('document') ? ['application/pdf'] : [])
+  ].join(',');
+
+  const executeProviderRequest = async (prompt: string, history: MessageType[], files: Attachment[]) => {
     if (!user) {
       toast.error('You must be logged in to use this feature');
       return;
     }
     
     setIsLoading(true);
+    let placeholderAdded = false;
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
       // Start tracking execution time
@@ -53,22 +145,51 @@ export function PlaygroundView() {
         }
       }
 
-      // Use the ProxyService to handle the request based on connection mode
-      const response = await ProxyService.callProvider({
+      // Send the earlier turns along with the new prompt so the model sees the whole conversation
+      const conversation: ChatMessage[] = [
+        ...history.map((m): ChatMessage => ({ role: m.role, content: m.text, attachments: m.attachments })),
+        { role: 'user', content: finalPrompt, ...(files.length > 0 && { attachments: files }) }
+      ];
+
+      // Add an empty assistant message that fills in as the response streams
+      setMessages((msgs) => [...msgs, { role: 'assistant', text: '', streaming: true }]);
+      placeholderAdded = true;
+
+      // Use the ProxyService to stream the request based on connection mode
+      const response = await ProxyService.streamProvider({
         providerId: selectedProvider,
         prompt: finalPrompt,
+        messages: conversation,
         model: selectedModel,
         parameters: selectedParameters,
         agentId: selectedAgent?.id || null,
         userId: user.id,
         useUserKey: true, // Always use user key in BYOK architecture
-      });
+        signal: abortController.signal
+      }, (_delta, text) => updateStreamingMessage(text, true));
+
+      if (response.cancelled) {
+        // Keep the text that arrived before the user pressed Stop
+        if (response.response) {
+          updateStreamingMessage(response.response, false, true);
+        } else {
+          setMessages((msgs) => msgs.slice(0, -1));
+        }
+        return;
+      }
+
+      if (!response.success) {
+        throw new Error(response.error || 'Request failed');
+      }
 
       // Calculate execution time
       const executionTime = Date.now() - startTime;
       
-      // Add response to messages
-      setMessages((msgs) => [...msgs, { role: 'assistant', text: response.response || '' }]);
+      // Finalize the streamed message
+      updateStreamingMessage(response.response || '', false);
+      
+      // Reported usage from the provider when available, otherwise an estimate
+      const tokensUsed = response.metrics?.tokens || resolveTotalTokens(response.usage, finalPrompt, response.response || '', selectedModel);
       
       // Record execution in database
       try {
@@ -81,11 +202,15 @@ export function PlaygroundView() {
             provider: selectedProvider,
             response: response.response || '',
             latency: response.metrics?.latency || executionTime,
-            tokens: response.metrics?.tokens || Math.ceil((finalPrompt.length + (response.response?.length || 0)) / 4),
+            tokens: tokensUsed,
+            usage: response.usage,
+            model: response.model,
+            cost: response.metrics?.cost,
+            finishReason: response.finishReason,
             success: true
           }],
           execution_time: executionTime,
-          tokens_used: response.metrics?.tokens || Math.ceil((finalPrompt.length + (response.response?.length || 0)) / 4)
+          tokens_used: tokensUsed
         });
       } catch (dbError) {
         console.error('Failed to record execution in database:', dbError);
@@ -97,6 +222,11 @@ export function PlaygroundView() {
       // Updated: More user-friendly error message
       toast.error(`Request failed: ${err.message}`);
       
+      // Drop the unfinished assistant message
+      if (placeholderAdded) {
+        setMessages((msgs) => msgs.slice(0, -1));
+      }
+      
       // Record failed execution
       if (user) {
         try {
@@ -122,22 +252,39 @@ export function PlaygroundView() {
         }
       }
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
     }
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim()) return;
+    if (!input.trim() && attachments.length === 0) return;
     
     if (!user) {
       toast.error('You must be logged in to use this feature');
       return;
     }
+
+    const attachmentBlocker = getAttachmentBlocker(currentProvider, conversationAttachments);
+    if (attachmentBlocker) {
+      toast.error(attachmentBlocker);
+      return;
+    }
+
+    const contextCheck = checkContextWindow(pendingConversation, contextWindowOptions);
+    if (contextCheck.exceeds) {
+      toast.error(`This conversation does not fit the ${contextCheck.contextWindow?.toLocaleString()}-token context window of ${selectedModel}`);
+      return;
+    }
     
-    setMessages((msgs) => [...msgs, { role: 'user', text: input }]);
-    executeProviderRequest(input);
+    const files = attachments;
+    setMessages((msgs) => [...msgs, { role: 'user', text: input, ...(files.length > 0 && { attachments: files }) }]);
+    executeProviderRequest(input, history, files);
     setInput('');
+    setAttachments([]);
   };
 
   return (
@@ -150,9 +297,14 @@ export function PlaygroundView() {
             onChange={(providers) => {
               if (providers.length > 0) {
                 setSelectedProvider(providers[0]);
+                // Start each provider on its default model; custom providers fall back to theirs when the request is sent
+                setSelectedModel(getProvider(providers[0])?.apiConfig.defaultModel || '');
               }
             }}
             singleSelect={true} // Enable single selection mode
+            getDisabledReason={(provider) => getAttachmentBlocker(provider, conversationAttachments)}
+            model={selectedModel}
+            onModelChange={setSelectedModel}
           />
         </div>
         <div className="w-full md:w-1/2">
@@ -205,32 +357,107 @@ export function PlaygroundView() {
                 <div className="text-sm font-medium mb-1">
                   {m.role === 'user' ? 'You' : 'AI Assistant'}
                 </div>
+                {m.attachments && m.attachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mb-2">
+                    {m.attachments.map((attachment, j) => attachment.kind === 'image' ? (
+                      <img
+                        key={j}
+                        src={attachment.data ? `data:${attachment.mimeType};base64,${attachment.data}` : attachment.url}
+                        alt={attachment.name || 'Attached image'}
+                        className="h-20 rounded border border-neutral-200 dark:border-neutral-600"
+                      />
+                    ) : (
+                      <span key={j} className="inline-flex items-center space-x-1 text-xs px-2 py-1 rounded bg-white/60 dark:bg-neutral-800/60">
+                        <FileText className="w-3 h-3" />
+                        <span>{attachment.name || 'Document'}</span>
+                      </span>
+                    ))}
+                  </div>
+                )}
                 <div className="text-neutral-800 dark:text-neutral-200 whitespace-pre-wrap">
                   {m.text}
+                  {m.streaming && (
+                    <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-neutral-500 animate-pulse" />
+                  )}
                 </div>
+                {m.stopped && (
+                  <div className="text-xs text-neutral-500 dark:text-neutral-400 mt-1">
+                    Stopped
+                  </div>
+                )}
               </div>
             ))}
           </div>
         )}
       </div>
 
+      {attachments.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-2">
+          {attachments.map((attachment, i) => (
+            <span
+              key={i}
+              className="inline-flex items-center space-x-1 text-xs px-2 py-1 rounded-full bg-neutral-100 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-300"
+            >
+              <FileText className="w-3 h-3" />
+              <span>{attachment.name || attachment.kind}</span>
+              <button
+                type="button"
+                onClick={() => removeAttachment(i)}
+                className="hover:text-neutral-900 dark:hover:text-white"
+                aria-label={`Remove ${attachment.name || attachment.kind}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="flex">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          accept={acceptedFileTypes}
+          onChange={handleFilesSelected}
+          className="hidden"
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading || !attachmentConfig || connectionMode !== 'browser'}
+          title={getAttachButtonTitle()}
+          className="border border-r-0 border-neutral-300 dark:border-neutral-600 rounded-l-lg px-3 py-2 bg-white dark:bg-neutral-700 text-neutral-600 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Paperclip className="w-4 h-4" />
+        </button>
         <input
           type="text"
-          className="flex-grow border border-neutral-300 dark:border-neutral-600 rounded-l-lg px-4 py-2 bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white"
+          className="flex-grow border border-neutral-300 dark:border-neutral-600 px-4 py-2 bg-white dark:bg-neutral-700 text-neutral-900 dark:text-white"
           placeholder="Type your prompt here..."
           value={input}
           onChange={(e) => setInput(e.target.value)}
           disabled={isLoading}
         />
-        <button
-          type="submit"
-          disabled={isLoading || !user}
-          className="bg-primary-600 text-white px-6 py-2 rounded-r-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
-        >
-          {isLoading ? 'Thinking...' : 'Send'}
-        </button>
+        {isLoading ? (
+          <button
+            type="button"
+            onClick={handleStop}
+            className="bg-neutral-600 text-white px-6 py-2 rounded-r-lg hover:bg-neutral-700"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!user}
+            className="bg-primary-600 text-white px-6 py-2 rounded-r-lg hover:bg-primary-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Send
+          </button>
+        )}
       </form>
+      <TokenBudget input={pendingConversation} {...contextWindowOptions} className="mt-1 text-right" />
     </div>
   );
 
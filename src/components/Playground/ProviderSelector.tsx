@@ -3,7 +3,10 @@ import { Check, AlertCircle, RefreshCw } from 'lucide-react';
 import { providers } from '../../data/providers';
 import { keyVault } from '../../lib/encryption';
 import { ProxyService } from '../../lib/api/ProxyService';
+import { ModelPicker } from './ModelPicker';
+import { providerHealth } from '../../lib/health';
 import { useAuth } from '../../contexts/AuthContext';
+import type { ProviderHealthStatus } from '../../lib/health';
 import type { Provider } from '../../types';
 
 interface ProviderSelectorProps {
@@ -11,9 +14,20 @@ interface ProviderSelectorProps {
   onChange: (selected: string[]) => void;
   userApiKeys?: Record<string, boolean>;
   singleSelect?: boolean; // New prop for single selection mode
+  getDisabledReason?: (provider: Provider) => string | null; // Disables providers that cannot handle the current request
+  model?: string; // Model of the selected provider, shown in the model picker
+  onModelChange?: (model: string) => void; // Shows a model picker when exactly one provider is selected
 }
 
-export function ProviderSelector({ selected, onChange, userApiKeys, singleSelect = false }: ProviderSelectorProps) {
+export function ProviderSelector({
+  selected,
+  onChange,
+  userApiKeys,
+  singleSelect = false,
+  getDisabledReason,
+  model,
+  onModelChange
+}: ProviderSelectorProps) {
   const { user } = useAuth();
   const [customProviders, setCustomProviders] = useState<Provider[]>([]);
   const [proxyHealth, setProxyHealth] = useState<{
@@ -22,10 +36,14 @@ export function ProviderSelector({ selected, onChange, userApiKeys, singleSelect
     errors: string[];
   } | null>(null);
   const [isCheckingHealth, setIsCheckingHealth] = useState(false);
+  const [, setHealthVersion] = useState(0);
   const [connectionMode, setConnectionMode] = useState(() => 
     localStorage.getItem('modelshift-connection-mode') || 'server'
   );
 
+  // Re-render when a provider's health changes, so badges follow the circuit state
+  useEffect(() => providerHealth.subscribe(() => setHealthVersion((version) => version + 1)), []);
+
   useEffect(() => {
     loadCustomProviders();
     checkServerHealth();
@@ -111,16 +129,12 @@ export function ProviderSelector({ selected, onChange, userApiKeys, singleSelect
   const hasValidCredentials = (providerId: string): boolean => {
     // In browser mode, check if the user has a key for this provider
     if (connectionMode === 'browser') {
-      const keyData = keyVault.retrieveDefault(providerId);
-      if (!keyData) {
-        return false;
-      }
-
       const allProviders = [...providers, ...customProviders];
       const provider = allProviders.find(p => p.id === providerId);
       if (!provider) return false;
 
-      // Check if all required fields are present
+      // Check if all required fields are present; providers without any, like local servers, need no stored key
+      const keyData = keyVault.retrieveDefault(providerId) || {};
       return provider.keyRequirements
         .filter(req => req.required)
         .every(req => keyData[req.name] && keyData[req.name].trim().length > 0);
@@ -133,6 +147,9 @@ export function ProviderSelector({ selected, onChange, userApiKeys, singleSelect
 
   // Combine built-in and custom providers
   const allProviders = [...providers, ...customProviders];
+  const pickerProvider = onModelChange && selected.length === 1
+    ? allProviders.find(p => p.id === selected[0])
+    : undefined;
 
   // Get status message for server health
   const getServerStatusMessage = () => {
@@ -163,6 +180,15 @@ export function ProviderSelector({ selected, onChange, userApiKeys, singleSelect
     return 'bg-red-500';
   };
 
+  const getHealthDescription = (status: ProviderHealthStatus) => {
+    if (status.state === 'open' && status.retryAt) {
+      return `Skipped by routing after ${status.consecutiveFailures} consecutive failures; next probe at ${new Date(status.retryAt).toLocaleTimeString()}`;
+    }
+    const rate = status.successRate !== undefined ? `${Math.round(status.successRate * 100)}% success` : 'No recent requests';
+    const latency = status.averageLatencyMs !== undefined ? `, ${Math.round(status.averageLatencyMs)}ms average` : '';
+    return `${rate}${latency} over the last ${status.requests} requests`;
+  };
+
   return (
     <div className="space-y-4">
       {/* Server Health Status (only show in server mode) */}
@@ -227,12 +253,16 @@ export function ProviderSelector({ selected, onChange, userApiKeys, singleSelect
           const isSelected = selected.includes(provider.id);
           const hasCredentials = hasValidCredentials(provider.id);
           const isCustom = customProviders.some(p => p.id === provider.id);
-          const isDisabled = false; // In BYOK, we don't disable providers
+          // In BYOK, providers are only disabled when they cannot handle the current request
+          const disabledReason = getDisabledReason?.(provider) ?? null;
+          const isDisabled = Boolean(disabledReason);
+          const health = providerHealth.getStatus(provider.id);
           
           return (
             <div
               key={provider.id}
               onClick={() => !isDisabled && toggleProvider(provider.id)}
+              title={disabledReason || undefined}
               className={`relative p-4 border-2 rounded-lg transition-all duration-200 ${
                 isDisabled ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'
               } ${
@@ -264,6 +294,26 @@ export function ProviderSelector({ selected, onChange, userApiKeys, singleSelect
                           Custom
                         </span>
                       )}
+                      {provider.type === 'openai-compatible' && (
+                        <span
+                          title={`OpenAI-compatible server at ${keyVault.retrieveDefault(provider.id)?.baseUrl || provider.apiConfig.baseUrl}`}
+                          className="px-2 py-1 bg-sky-100 dark:bg-sky-900/30 text-sky-700 dark:text-sky-300 rounded-full text-xs font-medium"
+                        >
+                          Self-hosted
+                        </span>
+                      )}
+                      {(health.health === 'degraded' || health.health === 'down') && (
+                        <span
+                          title={getHealthDescription(health)}
+                          className={`px-2 py-1 rounded-full text-xs font-medium ${
+                            health.health === 'down'
+                              ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300'
+                              : 'bg-amber-100 dark:bg-amber-900/30 text-amber-700 dark:text-amber-300'
+                          }`}
+                        >
+                          {health.health === 'down' ? 'Down' : 'Degraded'}
+                        </span>
+                      )}
                     </div>
                     <p className="text-xs text-neutral-500 dark:text-neutral-400">
                       Max: {provider.capabilities.maxTokens} tokens
@@ -302,11 +352,26 @@ export function ProviderSelector({ selected, onChange, userApiKeys, singleSelect
                 <div className="text-xs text-neutral-500 dark:text-neutral-400">
                   ${provider.capabilities.pricing.input}/1K input tokens
                 </div>
+
+                {disabledReason && (
+                  <div className="text-xs text-neutral-500 dark:text-neutral-400 mt-2">
+                    {disabledReason}
+                  </div>
+                )}
               </div>
             </div>
           );
         })}
       </div>
+
+      {pickerProvider && onModelChange && (
+        <div>
+          <h4 className="text-sm font-medium text-neutral-700 dark:text-neutral-300 mb-2">
+            {pickerProvider.displayName} Model
+          </h4>
+          <ModelPicker provider={pickerProvider} selected={model || ''} onChange={onModelChange} />
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
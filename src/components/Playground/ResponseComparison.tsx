@@ -1,6 +1,7 @@
 import React from 'react';
 import { Clock, Zap, DollarSign, AlertCircle, Copy, Check, Swords } from 'lucide-react';
 import { providers } from '../../data/providers';
+import { formatCost } from '../../lib/pricing';
 import type { ComparisonResult } from '../../types';
 import { useState } from 'react';
 import toast from 'react-hot-toast';
@@ -169,7 +170,7 @@ export function ResponseComparison({ results, isDebateMode = false }: ResponseCo
                         </div>
                         <div className="flex items-center space-x-1">
                           <DollarSign className="w-3 h-3" />
-                          <span>${result.metrics.cost.toFixed(4)}</span>
+                          <span>{formatCost(result.metrics.cost)}</span>
                         </div>
                       </div>
                     </div>
@@ -199,7 +200,7 @@ export function ResponseComparison({ results, isDebateMode = false }: ResponseCo
                     <div className="text-center">
                       <div className="w-8 h-8 border-3 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto mb-4"></div>
                       <p className="text-neutral-500 dark:text-neutral-400">
-                        Generating response...
+                        {result.queuePosition ? `Queued (#${result.queuePosition}) for rate limits...` : 'Generating response...'}
                       </p>
                     </div>
                   </div>
@@ -230,9 +231,9 @@ export function ResponseComparison({ results, isDebateMode = false }: ResponseCo
                   <div className="flex items-center justify-between text-sm">
                     <div className="flex items-center space-x-4">
                       <div className="flex items-center space-x-1">
-                        <div className="w-2 h-2 bg-accent-500 rounded-full"></div>
+                        <div className={`w-2 h-2 rounded-full ${result.streaming ? 'bg-primary-500 animate-pulse' : 'bg-accent-500'}`}></div>
                         <span className="text-neutral-500 dark:text-neutral-400">
-                          Response generated
+                          {result.streaming ? 'Streaming response...' : result.stopped ? 'Response stopped' : 'Response generated'}
                         </span>
                       </div>
                     </div>
@@ -300,7 +301,7 @@ function DebateResponseCard({ result, index, onCopy, copied, sideColor }: Debate
                 </div>
                 <div className="flex items-center space-x-1">
                   <DollarSign className="w-3 h-3" />
-                  <span>${result.metrics.cost.toFixed(4)}</span>
+                  <span>{formatCost(result.metrics.cost)}</span>
                 </div>
               </div>
             </div>
@@ -330,7 +331,7 @@ function DebateResponseCard({ result, index, onCopy, copied, sideColor }: Debate
             <div className="text-center">
               <div className="w-6 h-6 border-2 border-primary-500 border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
               <p className="text-neutral-500 dark:text-neutral-400 text-sm">
-                Generating...
+                {result.queuePosition ? `Queued (#${result.queuePosition})` : 'Generating...'}
               </p>
             </div>
           </div>
@@ -360,9 +361,9 @@ function DebateResponseCard({ result, index, onCopy, copied, sideColor }: Debate
         <div className="px-4 pb-3">
           <div className="flex items-center justify-between text-xs">
             <div className="flex items-center space-x-1">
-              <div className="w-2 h-2 bg-accent-500 rounded-full"></div>
+              <div className={`w-2 h-2 rounded-full ${result.streaming ? 'bg-primary-500 animate-pulse' : 'bg-accent-500'}`}></div>
               <span className="text-neutral-500 dark:text-neutral-400">
-                Complete
+                {result.streaming ? 'Streaming...' : result.stopped ? 'Stopped' : 'Complete'}
               </span>
             </div>
             
@@ -1,4 +1,9 @@
+import type { Attachment } from '../../types';
+
 export interface MessageType {
   role: 'user' | 'assistant';
   text: string;
+  streaming?: boolean; // True while the response is still arriving
+  stopped?: boolean; // True when the user stopped the response before it finished
+  attachments?: Attachment[]; // Images or documents sent with a user message
 }
\ No newline at end of file
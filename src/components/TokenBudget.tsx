@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { checkContextWindow, getTokenizerProfile, isBpeEncodingLoaded, loadBpeEncoding } from '../lib/tokens';
+import type { ChatMessage } from '../types';
+
+interface TokenBudgetProps {
+  input: string | ChatMessage[];
+  model?: string;
+  provider?: string;
+  parameters?: Record<string, unknown>;
+  contextWindow?: number;
+  className?: string;
+}
+
+// Live token count for a prompt or conversation, with the budget left in the model's context window
+export function TokenBudget({ input, model, provider, parameters, contextWindow, className = '' }: TokenBudgetProps) {
+  const [, setLoadedEncodings] = useState(0);
+  const encoding = getTokenizerProfile(model, provider).encoding;
+
+  // Counts are approximate until the model's encoding is downloaded, then exact
+  useEffect(() => {
+    if (!encoding || isBpeEncodingLoaded(encoding)) return;
+
+    let active = true;
+    loadBpeEncoding(encoding)
+      .then(() => active && setLoadedEncodings((count) => count + 1))
+      .catch((error) => console.warn('Falling back to approximate token counts:', error));
+    return () => {
+      active = false;
+    };
+  }, [encoding]);
+
+  const check = checkContextWindow(input, { model, provider, parameters, contextWindow });
+  const count = `${check.exact ? '' : '≈'}${check.promptTokens.toLocaleString()} tokens`;
+
+  return (
+    <div
+      className={`text-xs ${check.exceeds ? 'text-red-600 dark:text-red-400' : 'text-neutral-500 dark:text-neutral-400'} ${className}`}
+      title={check.maxOutputTokens > 0 ? `Includes ${check.maxOutputTokens.toLocaleString()} tokens reserved for the response` : undefined}
+    >
+      {count}
+      {check.contextWindow !== undefined && check.remaining !== undefined && (
+        check.exceeds
+          ? ` · ${Math.abs(check.remaining).toLocaleString()} over the ${check.contextWindow.toLocaleString()}-token context window`
+          : ` · ${check.remaining.toLocaleString()} left of ${check.contextWindow.toLocaleString()}`
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+// Context window sizes in tokens, matched against model names by prefix; the longest prefix wins
+export const modelContextWindows: Record<string, number> = {
+  // OpenAI
+  'gpt-4.1': 1047576,
+  'gpt-4o': 128000,
+  'chatgpt-4o': 128000,
+  'gpt-4-turbo': 128000,
+  'gpt-4-1106': 128000,
+  'gpt-4-0125': 128000,
+  'gpt-4-32k': 32768,
+  'gpt-4': 8192,
+  'gpt-3.5-turbo-instruct': 4096,
+  'gpt-3.5-turbo': 16385,
+  'o1-mini': 128000,
+  'o1': 200000,
+  'o3': 200000,
+  'o4-mini': 200000,
+
+  // Anthropic
+  'claude-instant': 100000,
+  'claude-2': 100000,
+  'claude': 200000,
+
+  // Google
+  'gemini-1.0-pro': 32760,
+  'gemini-pro': 32760,
+  'gemini-1.5-pro': 2097152,
+  'gemini-1.5-flash': 1048576,
+  'gemini-2.0-flash': 1048576,
+  'gemini-2.5': 1048576,
+
+  // IBM watsonx.ai
+  'ibm/granite-13b': 8192,
+  'ibm/granite-20b-multilingual': 8192,
+  'ibm/granite-3': 131072,
+  'meta-llama/llama-3-1': 131072,
+  'meta-llama/llama-3-3': 131072,
+  'meta-llama/llama-3': 8192,
+  'mistralai/mixtral-8x7b': 32768
+};
+
+/**
+ * Looks up a model's context window
+ * @param model - Model name, e.g. 'gpt-4o-2024-08-06' or 'models/gemini-1.5-pro'
+ * @returns The window in tokens, or undefined for unknown models
+ */
+export function getContextWindow(model?: string): number | undefined {
+  if (!model) return undefined;
+
+  const name = model.toLowerCase().replace(/^models\//, '');
+  const prefix = Object.keys(modelContextWindows)
+    .filter(candidate => name.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? modelContextWindows[prefix] : undefined;
+}
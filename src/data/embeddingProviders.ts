@@ -0,0 +1,78 @@
+import type { EmbeddingConfiguration } from '../types';
+
+// Embedding endpoints keyed by provider id; pass any other EmbeddingConfiguration to EmbeddingClient for custom providers
+export const embeddingProviders: Record<string, EmbeddingConfiguration> = {
+  openai: {
+    baseUrl: 'https://api.openai.com',
+    endpointPath: '/v1/embeddings',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    authHeaderName: 'Authorization',
+    authHeaderPrefix: 'Bearer ',
+    requestBodyStructure: {
+      model: 'text-embedding-ada-002',
+      input: []
+    },
+    inputJsonPath: 'input',
+    modelJsonPath: 'model',
+    dimensionsJsonPath: 'dimensions',
+    vectorsJsonPath: 'data',
+    vectorJsonPath: 'embedding',
+    tokensJsonPath: 'usage.total_tokens',
+    errorJsonPath: 'error.message',
+    defaultModel: 'text-embedding-ada-002',
+    dimensions: 1536,
+    maxBatchSize: 2048
+  },
+  gemini: {
+    baseUrl: 'https://generativelanguage.googleapis.com',
+    endpointPath: '/v1beta/models/{model}:batchEmbedContents',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    apiKeyInUrlParam: true,
+    urlParamName: 'key',
+    requestBodyStructure: {
+      requests: []
+    },
+    inputJsonPath: 'requests',
+    inputTemplate: {
+      model: 'models/{model}',
+      content: { parts: [{ text: '' }] }
+    },
+    inputTextJsonPath: 'content.parts[0].text',
+    dimensionsJsonPath: 'outputDimensionality',
+    inputType: { jsonPath: 'taskType', document: 'RETRIEVAL_DOCUMENT', query: 'RETRIEVAL_QUERY' },
+    vectorsJsonPath: 'embeddings',
+    vectorJsonPath: 'values',
+    errorJsonPath: 'error.message',
+    defaultModel: 'text-embedding-004',
+    dimensions: 768,
+    maxBatchSize: 100
+  },
+  cohere: {
+    baseUrl: 'https://api.cohere.com',
+    endpointPath: '/v2/embed',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    authHeaderName: 'Authorization',
+    authHeaderPrefix: 'Bearer ',
+    requestBodyStructure: {
+      model: 'embed-english-v3.0',
+      texts: [],
+      input_type: 'search_document',
+      embedding_types: ['float']
+    },
+    inputJsonPath: 'texts',
+    modelJsonPath: 'model',
+    inputType: { jsonPath: 'input_type', document: 'search_document', query: 'search_query' },
+    vectorsJsonPath: 'embeddings.float',
+    tokensJsonPath: 'meta.billed_units.input_tokens',
+    errorJsonPath: 'message',
+    defaultModel: 'embed-english-v3.0',
+    dimensions: 1024,
+    maxBatchSize: 96
+  }
+};
@@ -1,4 +1,144 @@
-import type { Provider } from '../types';
+import { MOCK_PROVIDER_BASE_URL } from '../lib/mockProvider';
+import { ibmIamTokenExchange } from '../lib/tokenExchange';
+import type { AwsSigV4Auth, KeyRequirement, Provider } from '../types';
+
+interface OpenAICompatiblePreset {
+  id: string;
+  displayName: string;
+  icon: string;
+  color: string;
+  baseUrl: string; // Where the server listens by default; users can point the preset elsewhere
+  defaultModel: string;
+  baseUrlRequired?: boolean; // Set for the generic preset, which has no meaningful default
+}
+
+// Self-hosted servers share the OpenAI request format; the base URL and an optional bearer
+// token are stored with the provider's keys, so one preset covers any host running the server
+function openAICompatibleProvider(preset: OpenAICompatiblePreset): Provider {
+  return {
+    id: preset.id,
+    name: preset.id,
+    displayName: preset.displayName,
+    icon: preset.icon,
+    color: preset.color,
+    type: 'openai-compatible',
+    keyRequirements: [
+      {
+        name: 'baseUrl',
+        label: 'Base URL',
+        type: 'text',
+        placeholder: preset.baseUrl,
+        required: Boolean(preset.baseUrlRequired)
+      },
+      {
+        name: 'apiKey',
+        label: 'API Key (optional)',
+        type: 'password',
+        placeholder: 'Only if the server requires a bearer token',
+        required: false
+      }
+    ],
+    capabilities: {
+      streaming: true,
+      maxTokens: 4096,
+      pricing: {
+        input: 0,
+        output: 0
+      }
+    },
+    isAvailable: true,
+    apiConfig: {
+      baseUrl: preset.baseUrl,
+      baseUrlKeyName: 'baseUrl',
+      endpointPath: '/v1/chat/completions',
+      modelsEndpointPath: '/v1/models',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      authHeaderName: 'Authorization',
+      authHeaderPrefix: 'Bearer ',
+      requestBodyStructure: {
+        model: preset.defaultModel,
+        messages: [{ role: 'user', content: '' }]
+      },
+      promptJsonPath: 'messages[0].content',
+      modelJsonPath: 'model',
+      parametersJsonPath: '', // Parameters are merged at root level
+      responseJsonPath: "choices[*].message.content | join('\\n\\n')",
+      errorJsonPath: 'error.message',
+      usage: {
+        promptTokensJsonPath: 'usage.prompt_tokens',
+        completionTokensJsonPath: 'usage.completion_tokens',
+        totalTokensJsonPath: 'usage.total_tokens'
+      },
+      finishReasonJsonPath: 'choices[0].finish_reason',
+      modelResponseJsonPath: 'model',
+      defaultModel: preset.defaultModel,
+      defaultParameters: {
+        temperature: 0.7,
+        max_tokens: 1000
+      },
+      streaming: {
+        format: 'openai',
+        bodyOverrides: {
+          stream: true,
+          stream_options: { include_usage: true }
+        }
+      },
+      chat: {
+        messagesJsonPath: 'messages',
+        roleJsonPath: 'role',
+        contentJsonPath: 'content'
+      },
+      tools: {
+        format: 'openai',
+        toolsJsonPath: 'tools',
+        toolCallsJsonPath: 'choices[0].message.tool_calls'
+      }
+    }
+  };
+}
+
+// Amazon Bedrock signs requests with an AWS access key pair instead of sending an API key
+const bedrockKeyRequirements: KeyRequirement[] = [
+  {
+    name: 'accessKeyId',
+    label: 'Access Key ID',
+    type: 'text',
+    placeholder: 'AKIA...',
+    required: true
+  },
+  {
+    name: 'secretAccessKey',
+    label: 'Secret Access Key',
+    type: 'password',
+    placeholder: 'Enter your AWS secret access key',
+    required: true
+  },
+  {
+    name: 'sessionToken',
+    label: 'Session Token (optional)',
+    type: 'password',
+    placeholder: 'Only for temporary credentials from STS or SSO',
+    required: false
+  },
+  {
+    name: 'region',
+    label: 'Region (optional)',
+    type: 'text',
+    placeholder: 'us-east-1',
+    required: false
+  }
+];
+
+const bedrockBaseUrl = 'https://bedrock-runtime.{{keyData.region|us-east-1}}.amazonaws.com';
+
+const bedrockAuth: AwsSigV4Auth = {
+  type: 'aws-sigv4',
+  service: 'bedrock',
+  region: '{{keyData.region|us-east-1}}'
+};
 
 export const providers: Provider[] = [
   {
@@ -25,9 +165,23 @@ export const providers: Provider[] = [
       }
     },
     isAvailable: true,
+    models: [
+      { id: 'gpt-4.1', displayName: 'GPT-4.1', contextWindow: 1047576, maxOutputTokens: 32768, modalities: ['text', 'image', 'document'] },
+      { id: 'gpt-4.1-mini', displayName: 'GPT-4.1 mini', contextWindow: 1047576, maxOutputTokens: 32768, modalities: ['text', 'image', 'document'] },
+      { id: 'gpt-4.1-nano', displayName: 'GPT-4.1 nano', contextWindow: 1047576, maxOutputTokens: 32768, modalities: ['text', 'image', 'document'] },
+      { id: 'gpt-4o', displayName: 'GPT-4o', maxOutputTokens: 16384, modalities: ['text', 'image', 'document'] },
+      { id: 'gpt-4o-mini', displayName: 'GPT-4o mini', maxOutputTokens: 16384, modalities: ['text', 'image', 'document'] },
+      { id: 'o4-mini', displayName: 'o4-mini', maxOutputTokens: 100000, modalities: ['text', 'image', 'document'] },
+      { id: 'o3', displayName: 'o3', maxOutputTokens: 100000, modalities: ['text', 'image', 'document'] },
+      { id: 'gpt-4-turbo', displayName: 'GPT-4 Turbo', maxOutputTokens: 4096, modalities: ['text', 'image'] },
+      { id: 'gpt-4', displayName: 'GPT-4', maxOutputTokens: 8192 },
+      { id: 'gpt-3.5-turbo', displayName: 'GPT-3.5 Turbo', maxOutputTokens: 4096 }
+    ],
     apiConfig: {
       baseUrl: 'https://api.openai.com',
       endpointPath: '/v1/chat/completions',
+      modelsEndpointPath: '/v1/models',
+      modelList: { include: '^(?!.*(audio|realtime|transcribe|tts|image))(gpt-|chatgpt-|o\\d)' }, // Chat models only
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -43,12 +197,148 @@ export const providers: Provider[] = [
       promptJsonPath: 'messages[0].content',
       modelJsonPath: 'model',
       parametersJsonPath: '', // Parameters are merged at root level
-      responseJsonPath: 'choices[0].message.content',
+      responseJsonPath: "choices[*].message.content | join('\\n\\n')",
       errorJsonPath: 'error.message',
+      usage: {
+        promptTokensJsonPath: 'usage.prompt_tokens',
+        completionTokensJsonPath: 'usage.completion_tokens',
+        totalTokensJsonPath: 'usage.total_tokens',
+        cachedPromptTokensJsonPath: 'usage.prompt_tokens_details.cached_tokens'
+      },
+      finishReasonJsonPath: 'choices[0].finish_reason',
+      modelResponseJsonPath: 'model',
+      rateLimits: { requestsPerMinute: 500, tokensPerMinute: 30000 }, // Usage tier 1; raise with requestScheduler.setLimits
       defaultModel: 'gpt-4',
       defaultParameters: {
         temperature: 0.7,
         max_tokens: 1000
+      },
+      streaming: {
+        format: 'openai',
+        bodyOverrides: {
+          stream: true,
+          stream_options: { include_usage: true }
+        }
+      },
+      chat: {
+        messagesJsonPath: 'messages',
+        roleJsonPath: 'role',
+        contentJsonPath: 'content'
+      },
+      tools: {
+        format: 'openai',
+        toolsJsonPath: 'tools',
+        toolCallsJsonPath: 'choices[0].message.tool_calls'
+      },
+      structuredOutput: {
+        format: 'openai',
+        jsonPath: 'response_format'
+      },
+      attachments: {
+        format: 'openai',
+        partsJsonPath: 'content',
+        kinds: ['image', 'document'],
+        maxBytes: 20 * 1024 * 1024
+      }
+    }
+  },
+  {
+    // Deployments in the user's own Azure resource; the resource, deployment and API version
+    // are stored with the key and filled into the URL
+    id: 'azure-openai',
+    name: 'azure-openai',
+    displayName: 'Azure OpenAI',
+    icon: '☁️',
+    color: '#0078D4',
+    keyRequirements: [
+      {
+        name: 'apiKey',
+        label: 'API Key',
+        type: 'password',
+        placeholder: 'Key 1 or Key 2 from the resource',
+        required: true
+      },
+      {
+        name: 'resource',
+        label: 'Resource Name',
+        type: 'text',
+        placeholder: 'my-resource, from https://my-resource.openai.azure.com',
+        required: true
+      },
+      {
+        name: 'deployment',
+        label: 'Deployment Name',
+        type: 'text',
+        placeholder: 'e.g. gpt-4o',
+        required: true
+      },
+      {
+        name: 'apiVersion',
+        label: 'API Version (optional)',
+        type: 'text',
+        placeholder: '2024-10-21',
+        required: false
+      }
+    ],
+    capabilities: {
+      streaming: true,
+      maxTokens: 4096,
+      pricing: {
+        input: 0.0025,
+        output: 0.01
+      }
+    },
+    isAvailable: true,
+    apiConfig: {
+      baseUrl: 'https://{{keyData.resource}}.openai.azure.com',
+      endpointPath: '/openai/deployments/{{keyData.deployment}}/chat/completions?api-version={{keyData.apiVersion|2024-10-21}}',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'api-key': '{{keyData.apiKey}}'
+      },
+      requestBodyStructure: {
+        messages: [{ role: 'user', content: '' }],
+        temperature: 0.7,
+        max_tokens: 1000
+      },
+      promptJsonPath: 'messages[0].content',
+      parametersJsonPath: '', // Parameters are merged at root level
+      responseJsonPath: "choices[*].message.content | join('\\n\\n')",
+      errorJsonPath: 'error.message',
+      usage: {
+        promptTokensJsonPath: 'usage.prompt_tokens',
+        completionTokensJsonPath: 'usage.completion_tokens',
+        totalTokensJsonPath: 'usage.total_tokens',
+        cachedPromptTokensJsonPath: 'usage.prompt_tokens_details.cached_tokens'
+      },
+      finishReasonJsonPath: 'choices[0].finish_reason',
+      modelResponseJsonPath: 'model',
+      defaultModel: 'gpt-4o', // The deployment decides the model; this only sizes requests and costs
+      defaultParameters: {
+        temperature: 0.7,
+        max_tokens: 1000
+      },
+      streaming: {
+        format: 'openai',
+        bodyOverrides: {
+          stream: true,
+          stream_options: { include_usage: true }
+        }
+      },
+      chat: {
+        messagesJsonPath: 'messages',
+        roleJsonPath: 'role',
+        contentJsonPath: 'content'
+      },
+      tools: {
+        format: 'openai',
+        toolsJsonPath: 'tools',
+        toolCallsJsonPath: 'choices[0].message.tool_calls'
+      },
+      structuredOutput: {
+        format: 'openai',
+        jsonPath: 'response_format'
       }
     }
   },
@@ -76,9 +366,26 @@ export const providers: Provider[] = [
       }
     },
     isAvailable: true,
+    models: [
+      { id: 'gemini-2.5-pro', displayName: 'Gemini 2.5 Pro', maxOutputTokens: 65536, modalities: ['text', 'image', 'document', 'audio'] },
+      { id: 'gemini-2.5-flash', displayName: 'Gemini 2.5 Flash', maxOutputTokens: 65536, modalities: ['text', 'image', 'document', 'audio'] },
+      { id: 'gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', maxOutputTokens: 8192, modalities: ['text', 'image', 'document', 'audio'] },
+      { id: 'gemini-2.0-flash-lite', displayName: 'Gemini 2.0 Flash-Lite', maxOutputTokens: 8192, modalities: ['text', 'image', 'document', 'audio'] },
+      { id: 'gemini-1.5-pro', displayName: 'Gemini 1.5 Pro', maxOutputTokens: 8192, modalities: ['text', 'image', 'document', 'audio'] },
+      { id: 'gemini-1.5-flash', displayName: 'Gemini 1.5 Flash', maxOutputTokens: 8192, modalities: ['text', 'image', 'document', 'audio'] }
+    ],
     apiConfig: {
       baseUrl: 'https://generativelanguage.googleapis.com',
-      endpointPath: '/v1beta/models/gemini-2.0-flash:generateContent',
+      endpointPath: '/v1beta/models/{{model}}:generateContent',
+      modelsEndpointPath: '/v1beta/models?pageSize=1000',
+      modelList: {
+        idJsonPath: 'name',
+        idPrefix: 'models/',
+        displayNameJsonPath: 'displayName',
+        contextWindowJsonPath: 'inputTokenLimit',
+        maxOutputTokensJsonPath: 'outputTokenLimit',
+        include: '^gemini-'
+      },
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -95,13 +402,48 @@ export const providers: Provider[] = [
       },
       promptJsonPath: 'contents[0].parts[0].text',
       parametersJsonPath: 'generationConfig',
-      responseJsonPath: 'candidates[0].content.parts[0].text',
+      responseJsonPath: 'candidates[0].content.parts[*].text | join',
       errorJsonPath: 'error.message',
+      usage: {
+        promptTokensJsonPath: 'usageMetadata.promptTokenCount',
+        completionTokensJsonPath: 'usageMetadata.candidatesTokenCount',
+        totalTokensJsonPath: 'usageMetadata.totalTokenCount',
+        cachedPromptTokensJsonPath: 'usageMetadata.cachedContentTokenCount'
+      },
+      finishReasonJsonPath: 'candidates[0].finishReason',
+      modelResponseJsonPath: 'modelVersion',
+      rateLimits: { requestsPerMinute: 15, tokensPerMinute: 1000000 }, // Free tier
       defaultModel: 'gemini-2.0-flash',
       defaultParameters: {
         temperature: 0.5,
         topP: 1,
         maxOutputTokens: 1000
+      },
+      streaming: {
+        format: 'gemini',
+        endpointPath: '/v1beta/models/{{model}}:streamGenerateContent?alt=sse'
+      },
+      chat: {
+        messagesJsonPath: 'contents',
+        roleJsonPath: 'role',
+        contentJsonPath: 'parts[0].text',
+        roleNames: { assistant: 'model' },
+        systemJsonPath: 'systemInstruction.parts[0].text'
+      },
+      tools: {
+        format: 'gemini',
+        toolsJsonPath: 'tools',
+        toolCallsJsonPath: 'candidates[0].content.parts'
+      },
+      structuredOutput: {
+        format: 'gemini',
+        jsonPath: 'generationConfig'
+      },
+      attachments: {
+        format: 'gemini',
+        partsJsonPath: 'parts',
+        kinds: ['image', 'document'],
+        maxBytes: 20 * 1024 * 1024 // Inline data limit; larger files need the File API
       }
     }
   },
@@ -129,9 +471,21 @@ export const providers: Provider[] = [
       }
     },
     isAvailable: true,
+    models: [
+      { id: 'claude-opus-4-20250514', displayName: 'Claude Opus 4', maxOutputTokens: 32000, modalities: ['text', 'image', 'document'] },
+      { id: 'claude-sonnet-4-20250514', displayName: 'Claude Sonnet 4', maxOutputTokens: 64000, modalities: ['text', 'image', 'document'] },
+      { id: 'claude-3-7-sonnet-20250219', displayName: 'Claude 3.7 Sonnet', maxOutputTokens: 64000, modalities: ['text', 'image', 'document'] },
+      { id: 'claude-3-5-sonnet-20241022', displayName: 'Claude 3.5 Sonnet', maxOutputTokens: 8192, modalities: ['text', 'image', 'document'] },
+      { id: 'claude-3-5-haiku-20241022', displayName: 'Claude 3.5 Haiku', maxOutputTokens: 8192, modalities: ['text', 'image', 'document'] },
+      { id: 'claude-3-opus-20240229', displayName: 'Claude 3 Opus', maxOutputTokens: 4096, modalities: ['text', 'image', 'document'] },
+      { id: 'claude-3-sonnet-20240229', displayName: 'Claude 3 Sonnet', maxOutputTokens: 4096, modalities: ['text', 'image', 'document'] },
+      { id: 'claude-3-haiku-20240307', displayName: 'Claude 3 Haiku', maxOutputTokens: 4096, modalities: ['text', 'image', 'document'] }
+    ],
     apiConfig: {
       baseUrl: 'https://api.anthropic.com',
       endpointPath: '/v1/messages',
+      modelsEndpointPath: '/v1/models?limit=1000',
+      modelList: { displayNameJsonPath: 'display_name' },
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -148,12 +502,40 @@ export const providers: Provider[] = [
       promptJsonPath: 'messages[0].content',
       modelJsonPath: 'model',
       parametersJsonPath: '', // Parameters are merged at root level
-      responseJsonPath: 'content[0].text',
+      responseJsonPath: "content[?(@.type=='text')].text | join",
       errorJsonPath: 'error.message',
+      usage: {
+        promptTokensJsonPath: 'usage.input_tokens',
+        completionTokensJsonPath: 'usage.output_tokens'
+      },
+      finishReasonJsonPath: 'stop_reason',
+      modelResponseJsonPath: 'model',
+      rateLimits: { requestsPerMinute: 50, tokensPerMinute: 40000 }, // Build tier 1
       defaultModel: 'claude-3-sonnet-20240229',
       defaultParameters: {
         max_tokens: 1000,
         temperature: 0.7
+      },
+      streaming: {
+        format: 'claude',
+        bodyOverrides: { stream: true }
+      },
+      chat: {
+        messagesJsonPath: 'messages',
+        roleJsonPath: 'role',
+        contentJsonPath: 'content',
+        systemJsonPath: 'system' // Claude takes the system prompt as a top-level field
+      },
+      tools: {
+        format: 'claude',
+        toolsJsonPath: 'tools',
+        toolCallsJsonPath: 'content' // tool_use blocks sit alongside text blocks
+      },
+      attachments: {
+        format: 'claude',
+        partsJsonPath: 'content',
+        kinds: ['image', 'document'],
+        maxBytes: 5 * 1024 * 1024
       }
     }
   },
@@ -177,10 +559,17 @@ export const providers: Provider[] = [
         type: 'text',
         placeholder: 'Enter your IBM Project ID',
         required: true
+      },
+      {
+        name: 'region',
+        label: 'Region (optional)',
+        type: 'text',
+        placeholder: 'us-south, eu-de, eu-gb, jp-tok, au-syd or ca-tor',
+        required: false
       }
     ],
     capabilities: {
-      streaming: false,
+      streaming: true,
       maxTokens: 2048,
       pricing: {
         input: 0.02,
@@ -188,15 +577,31 @@ export const providers: Provider[] = [
       }
     },
     isAvailable: true,
+    models: [
+      { id: 'ibm/granite-13b-chat-v2', displayName: 'Granite 13B Chat v2', maxOutputTokens: 4096 },
+      { id: 'ibm/granite-3-8b-instruct', displayName: 'Granite 3 8B Instruct', maxOutputTokens: 8192 },
+      { id: 'meta-llama/llama-3-3-70b-instruct', displayName: 'Llama 3.3 70B Instruct', maxOutputTokens: 8192 },
+      { id: 'meta-llama/llama-3-1-8b-instruct', displayName: 'Llama 3.1 8B Instruct', maxOutputTokens: 8192 },
+      { id: 'mistralai/mixtral-8x7b-instruct-v01', displayName: 'Mixtral 8x7B Instruct', maxOutputTokens: 16384 }
+    ],
     apiConfig: {
-      baseUrl: 'https://us-south.ml.cloud.ibm.com',
+      baseUrl: 'https://{{keyData.region|us-south}}.ml.cloud.ibm.com',
       endpointPath: '/ml/v1/text/generation',
+      modelsEndpointPath: '/ml/v1/foundation_model_specs?version=2024-05-01&filters=function_text_generation&limit=200',
+      modelList: {
+        itemsJsonPath: 'resources',
+        idJsonPath: 'model_id',
+        displayNameJsonPath: 'label',
+        contextWindowJsonPath: 'model_limits.max_sequence_length',
+        maxOutputTokensJsonPath: 'model_limits.max_output_tokens'
+      },
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
       },
       authHeaderName: 'Authorization',
       authHeaderPrefix: 'Bearer ',
+      auth: ibmIamTokenExchange, // watsonx.ai takes IAM access tokens, not API keys
       requestBodyStructure: {
         input: '',
         model_id: 'ibm/granite-13b-chat-v2',
@@ -212,19 +617,262 @@ export const providers: Provider[] = [
       parametersJsonPath: 'parameters',
       responseJsonPath: 'results[0].generated_text',
       errorJsonPath: 'error.message',
+      usage: {
+        promptTokensJsonPath: 'results[0].input_token_count',
+        completionTokensJsonPath: 'results[0].generated_token_count'
+      },
+      finishReasonJsonPath: 'results[0].stop_reason',
+      modelResponseJsonPath: 'model_id',
+      rateLimits: { requestsPerMinute: 120 }, // Lite plan, 2 requests per second
       defaultModel: 'ibm/granite-13b-chat-v2',
       defaultParameters: {
         temperature: 0.7,
         max_new_tokens: 500
+      },
+      streaming: {
+        format: 'ibm',
+        endpointPath: '/ml/v1/text/generation_stream'
       }
     }
-  }
+  },
+  {
+    // Claude models through the Bedrock runtime, which takes the Messages API body with the
+    // model in the URL. Bedrock streams in the binary AWS event stream format, which is not
+    // supported, so responses arrive in one piece. Bedrock lists models on its control plane
+    // rather than the runtime host, so the Bedrock catalogs are not refreshable.
+    id: 'bedrock-claude',
+    name: 'bedrock-claude',
+    displayName: 'Claude on Amazon Bedrock',
+    icon: '🪨',
+    color: '#FF9900',
+    keyRequirements: bedrockKeyRequirements,
+    capabilities: {
+      streaming: false,
+      maxTokens: 4096,
+      pricing: {
+        input: 0.003,
+        output: 0.015
+      }
+    },
+    isAvailable: true,
+    models: [
+      { id: 'anthropic.claude-3-5-sonnet-20241022-v2:0', displayName: 'Claude 3.5 Sonnet v2', contextWindow: 200000, maxOutputTokens: 8192, modalities: ['text', 'image'], pricing: { input: 3, output: 15 } },
+      { id: 'anthropic.claude-3-5-sonnet-20240620-v1:0', displayName: 'Claude 3.5 Sonnet', contextWindow: 200000, maxOutputTokens: 8192, modalities: ['text', 'image'], pricing: { input: 3, output: 15 } },
+      { id: 'anthropic.claude-3-5-haiku-20241022-v1:0', displayName: 'Claude 3.5 Haiku', contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 0.8, output: 4 } },
+      { id: 'anthropic.claude-3-opus-20240229-v1:0', displayName: 'Claude 3 Opus', contextWindow: 200000, maxOutputTokens: 4096, modalities: ['text', 'image'], pricing: { input: 15, output: 75 } },
+      { id: 'anthropic.claude-3-haiku-20240307-v1:0', displayName: 'Claude 3 Haiku', contextWindow: 200000, maxOutputTokens: 4096, modalities: ['text', 'image'], pricing: { input: 0.25, output: 1.25 } }
+    ],
+    apiConfig: {
+      baseUrl: bedrockBaseUrl,
+      endpointPath: '/model/{{model}}/invoke',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json'
+      },
+      auth: bedrockAuth,
+      requestBodyStructure: {
+        anthropic_version: 'bedrock-2023-05-31',
+        max_tokens: 1000,
+        messages: [{ role: 'user', content: '' }]
+      },
+      promptJsonPath: 'messages[0].content',
+      parametersJsonPath: '', // Parameters are merged at root level
+      responseJsonPath: "content[?(@.type=='text')].text | join",
+      errorJsonPath: 'message',
+      usage: {
+        promptTokensJsonPath: 'usage.input_tokens',
+        completionTokensJsonPath: 'usage.output_tokens'
+      },
+      finishReasonJsonPath: 'stop_reason',
+      modelResponseJsonPath: 'model',
+      defaultModel: 'anthropic.claude-3-5-sonnet-20240620-v1:0',
+      defaultParameters: {
+        max_tokens: 1000,
+        temperature: 0.7
+      },
+      chat: {
+        messagesJsonPath: 'messages',
+        roleJsonPath: 'role',
+        contentJsonPath: 'content',
+        systemJsonPath: 'system'
+      },
+      tools: {
+        format: 'claude',
+        toolsJsonPath: 'tools',
+        toolCallsJsonPath: 'content'
+      },
+      attachments: {
+        format: 'claude',
+        partsJsonPath: 'content',
+        kinds: ['image'],
+        maxBytes: 3.75 * 1024 * 1024
+      }
+    }
+  },
+  {
+    // Llama models through the Bedrock Converse API, which gives every Bedrock model the same
+    // request and response shape
+    id: 'bedrock-llama',
+    name: 'bedrock-llama',
+    displayName: 'Llama on Amazon Bedrock',
+    icon: '🦙',
+    color: '#FF9900',
+    keyRequirements: bedrockKeyRequirements,
+    capabilities: {
+      streaming: false,
+      maxTokens: 2048,
+      pricing: {
+        input: 0.00099,
+        output: 0.00099
+      }
+    },
+    isAvailable: true,
+    models: [
+      { id: 'meta.llama3-3-70b-instruct-v1:0', displayName: 'Llama 3.3 70B Instruct', contextWindow: 128000, maxOutputTokens: 8192, pricing: { input: 0.72, output: 0.72 } },
+      { id: 'meta.llama3-1-405b-instruct-v1:0', displayName: 'Llama 3.1 405B Instruct', contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 2.4, output: 2.4 } },
+      { id: 'meta.llama3-1-70b-instruct-v1:0', displayName: 'Llama 3.1 70B Instruct', contextWindow: 128000, maxOutputTokens: 2048, pricing: { input: 0.72, output: 0.72 } },
+      { id: 'meta.llama3-1-8b-instruct-v1:0', displayName: 'Llama 3.1 8B Instruct', contextWindow: 128000, maxOutputTokens: 2048, pricing: { input: 0.22, output: 0.22 } }
+    ],
+    apiConfig: {
+      baseUrl: bedrockBaseUrl,
+      endpointPath: '/model/{{model}}/converse',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json'
+      },
+      auth: bedrockAuth,
+      requestBodyStructure: {
+        messages: [{ role: 'user', content: [{ text: '' }] }],
+        inferenceConfig: {
+          maxTokens: 1000,
+          temperature: 0.7
+        }
+      },
+      promptJsonPath: 'messages[0].content[0].text',
+      parametersJsonPath: 'inferenceConfig',
+      responseJsonPath: 'output.message.content[0].text',
+      errorJsonPath: 'message',
+      usage: {
+        promptTokensJsonPath: 'usage.inputTokens',
+        completionTokensJsonPath: 'usage.outputTokens',
+        totalTokensJsonPath: 'usage.totalTokens'
+      },
+      finishReasonJsonPath: 'stopReason',
+      defaultModel: 'meta.llama3-1-70b-instruct-v1:0',
+      defaultParameters: {
+        maxTokens: 1000,
+        temperature: 0.7
+      },
+      chat: {
+        messagesJsonPath: 'messages',
+        roleJsonPath: 'role',
+        contentJsonPath: 'content[0].text',
+        systemJsonPath: 'system[0].text'
+      }
+    }
+  },
+  {
+    // Answers locally with scripted or echoed responses, for demos and tests without keys or network
+    id: 'mock',
+    name: 'mock',
+    displayName: 'Mock Provider',
+    icon: '🧪',
+    color: '#6B7280',
+    keyRequirements: [],
+    capabilities: {
+      streaming: true,
+      maxTokens: 4096,
+      pricing: {
+        input: 0,
+        output: 0
+      }
+    },
+    isAvailable: true,
+    apiConfig: {
+      baseUrl: MOCK_PROVIDER_BASE_URL,
+      endpointPath: '/v1/chat/completions',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      requestBodyStructure: {
+        model: 'mock-echo',
+        messages: [{ role: 'user', content: '' }]
+      },
+      promptJsonPath: 'messages[0].content',
+      modelJsonPath: 'model',
+      parametersJsonPath: '', // Parameters, including the mock options object, are merged at root level
+      responseJsonPath: "choices[*].message.content | join('\\n\\n')",
+      errorJsonPath: 'error.message',
+      usage: {
+        promptTokensJsonPath: 'usage.prompt_tokens',
+        completionTokensJsonPath: 'usage.completion_tokens',
+        totalTokensJsonPath: 'usage.total_tokens'
+      },
+      finishReasonJsonPath: 'choices[0].finish_reason',
+      modelResponseJsonPath: 'model',
+      rateLimits: { maxConcurrent: 2 }, // Low enough for demos to show queued requests
+      defaultModel: 'mock-echo',
+      defaultParameters: {},
+      streaming: {
+        format: 'openai',
+        bodyOverrides: {
+          stream: true
+        }
+      },
+      chat: {
+        messagesJsonPath: 'messages',
+        roleJsonPath: 'role',
+        contentJsonPath: 'content'
+      }
+    }
+  },
+  openAICompatibleProvider({
+    id: 'ollama',
+    displayName: 'Ollama',
+    icon: '🦙',
+    color: '#1F2937',
+    baseUrl: 'http://localhost:11434',
+    defaultModel: 'llama3.2'
+  }),
+  openAICompatibleProvider({
+    id: 'vllm',
+    displayName: 'vLLM',
+    icon: '⚡',
+    color: '#7C3AED',
+    baseUrl: 'http://localhost:8000',
+    defaultModel: 'meta-llama/Llama-3.1-8B-Instruct'
+  }),
+  openAICompatibleProvider({
+    id: 'lmstudio',
+    displayName: 'LM Studio',
+    icon: '🖥️',
+    color: '#4F46E5',
+    baseUrl: 'http://localhost:1234',
+    defaultModel: 'llama-3.2-3b-instruct'
+  }),
+  openAICompatibleProvider({
+    id: 'openai-compatible',
+    displayName: 'OpenAI-Compatible Server',
+    icon: '🔌',
+    color: '#0EA5E9',
+    baseUrl: 'http://localhost:8080',
+    defaultModel: 'default',
+    baseUrlRequired: true
+  })
 ];
 
 export function getProvider(id: string): Provider | undefined {
   return providers.find(p => p.id === id);
 }
 
+// Providers such as the mock provider or a local server without auth can be called without stored keys
+export function requiresKeys(provider: Provider): boolean {
+  return provider.keyRequirements.some(requirement => requirement.required);
+}
+
 export function getAvailableProviders(): Provider[] {
   return providers.filter(p => p.isAvailable);
 }
\ No newline at end of file
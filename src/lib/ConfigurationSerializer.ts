@@ -461,7 +461,7 @@ urlpatterns = [
         };
         break;
       case 'ibm':
-        endpoint = 'https://us-south.ml.cloud.ibm.com/ml/v1/text/generation';
+        endpoint = `https://${keyData.region || 'us-south'}.ml.cloud.ibm.com/ml/v1/text/generation`;
         headers = [`"Authorization: Bearer ${keyData.apiKey}"`, '"Content-Type: application/json"'];
         body = {
           input: 'Your prompt here',
@@ -523,7 +523,7 @@ ${headers.map(h => `  -H ${h}`).join(' \\\n')} \\
 
       case 'ibm':
         return `
-    const endpoint = 'https://us-south.ml.cloud.ibm.com/ml/v1/text/generation';
+    const endpoint = \`https://\${keyData.region || 'us-south'}.ml.cloud.ibm.com/ml/v1/text/generation\`;
     const headers = {
       'Content-Type': 'application/json',
       'Authorization': \`Bearer \${keyData.apiKey}\`
@@ -587,7 +587,7 @@ ${headers.map(h => `  -H ${h}`).join(' \\\n')} \\
 
       case 'ibm':
         return `
-    endpoint = 'https://us-south.ml.cloud.ibm.com/ml/v1/text/generation'
+    endpoint = f"https://{key_data.get('region') or 'us-south'}.ml.cloud.ibm.com/ml/v1/text/generation"
     headers = {
         'Content-Type': 'application/json',
         'Authorization': f"Bearer {key_data['apiKey']}"
@@ -0,0 +1,57 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createAbortError, createTimeoutSignal, isAbortError, throwIfAborted } from './abort';
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createTimeoutSignal', () => {
+  it('aborts with the caller reason when the caller aborts first', () => {
+    const caller = new AbortController();
+    const timeout = createTimeoutSignal(1000, 'Timed out', caller.signal);
+
+    caller.abort();
+
+    expect(timeout.signal.aborted).toBe(true);
+    expect(isAbortError(timeout.signal.reason)).toBe(true);
+    timeout.clear();
+  });
+
+  it('aborts with the timeout message when the time runs out', () => {
+    vi.useFakeTimers();
+    const timeout = createTimeoutSignal(1000, 'Timed out after 1 second');
+
+    vi.advanceTimersByTime(1000);
+
+    expect(timeout.signal.reason).toEqual(new Error('Timed out after 1 second'));
+    expect(isAbortError(timeout.signal.reason)).toBe(false);
+  });
+
+  it('starts aborted when the caller already gave up', () => {
+    const timeout = createTimeoutSignal(1000, 'Timed out', AbortSignal.abort());
+
+    expect(timeout.signal.aborted).toBe(true);
+    timeout.clear();
+  });
+
+  it('stops following the caller and the timer once cleared', () => {
+    vi.useFakeTimers();
+    const caller = new AbortController();
+    const timeout = createTimeoutSignal(1000, 'Timed out', caller.signal);
+
+    timeout.clear();
+    caller.abort();
+    vi.advanceTimersByTime(1000);
+
+    expect(timeout.signal.aborted).toBe(false);
+  });
+});
+
+describe('throwIfAborted', () => {
+  it('throws a cancellation error only for aborted signals', () => {
+    expect(() => throwIfAborted(undefined)).not.toThrow();
+    expect(() => throwIfAborted(new AbortController().signal)).not.toThrow();
+    expect(() => throwIfAborted(AbortSignal.abort())).toThrow('Request cancelled');
+    expect(isAbortError(createAbortError())).toBe(true);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Cancellation utilities
+ * Combines a caller's AbortSignal with a timeout so that either one aborts
+ * the underlying fetch instead of leaving it running in the background
+ */
+
+export interface TimeoutSignal {
+  signal: AbortSignal;
+  clear: () => void; // Stops the timer and detaches from the caller's signal
+}
+
+/**
+ * Creates a signal that aborts when the timeout elapses or the caller's signal aborts
+ * Timeouts abort with an Error carrying the given message, so they can be told apart from cancellation
+ * @param timeoutMs - Time allowed before the request is aborted
+ * @param message - Error message used when the timeout elapses
+ * @param signal - The caller's signal, if any
+ */
+export function createTimeoutSignal(timeoutMs: number, message: string, signal?: AbortSignal): TimeoutSignal {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(new Error(message)), timeoutMs);
+  const onAbort = () => controller.abort(signal?.reason);
+
+  if (signal?.aborted) {
+    onAbort();
+  } else {
+    signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  return {
+    signal: controller.signal,
+    clear: () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    }
+  };
+}
+
+/**
+ * Returns true for the error fetch and stream readers throw when a request is aborted
+ * @param error - The caught error
+ */
+export function isAbortError(error: unknown): boolean {
+  return (error instanceof Error || error instanceof DOMException) && error.name === 'AbortError';
+}
+
+/**
+ * Creates the error thrown when a caller cancels a request
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Request cancelled', 'AbortError');
+}
+
+/**
+ * Throws an AbortError if the signal has already been aborted
+ * @param signal - The caller's signal, if any
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
@@ -2,14 +2,25 @@ import { supabase } from '../supabase';
 import { keyVault } from '../encryption';
 import { getProxyUrl } from '../devProxy';
 import { sanitizeHeaders } from '../headerSanitizer';
-import { setValueAtPath, getValueAtPath } from '../jsonPathUtils';
-import type { ApiConfiguration } from '../../types';
+import { setValueAtPath, getValueAtPath, getStringAtPath } from '../jsonPathUtils';
+import { parseResponseDetails, resolveTotalTokens } from '../usage';
+import { estimateCost } from '../pricing';
+import { fetchWithRetry } from '../retry';
+import { clientMiddleware } from '../middleware';
+import { renderTemplate, renderTemplates } from '../templates';
+import { authenticate, invalidateAuth } from '../auth';
+import type { ApiConfiguration, Middleware, TokenUsage } from '../../types';
 
 export interface CustomProviderResponse {
   success: boolean;
   response?: string;
   error?: string;
   provider: string;
+  model?: string; // Model reported by the provider
+  usage?: TokenUsage; // Provider-reported token counts, when usage paths are configured
+  finishReason?: string;
+  attempts?: number; // HTTP attempts made, including retries
+  cancelled?: boolean; // Set when the caller aborted the request
   metrics?: {
     latency: number;
     tokens: number;
@@ -29,15 +40,22 @@ export class CustomProviderService {
     options: {
       model?: string;
       parameters?: Record<string, any>;
+      signal?: AbortSignal;
+      middleware?: Middleware[]; // Runs after the globally registered middleware
     } = {}
   ): Promise<CustomProviderResponse> {
     const startTime = Date.now();
+    let lastAttempts: number | undefined;
+    let providerError: string | undefined;
     
     try {
       console.log(`Making direct request to custom provider ${providerId}`);
       
+      // Placeholders such as {{keyData.region}} and {{model}} are filled from the key data and model
+      const templateContext = { keyData, model: options.model || apiConfig.defaultModel };
+      
       // Build the endpoint URL
-      let endpoint = `${apiConfig.baseUrl}${apiConfig.endpointPath}`;
+      let endpoint = renderTemplate(`${apiConfig.baseUrl}${apiConfig.endpointPath}`, templateContext);
       
       // Handle API key in URL parameter
       if (apiConfig.apiKeyInUrlParam && apiConfig.urlParamName) {
@@ -49,10 +67,10 @@ export class CustomProviderService {
       const proxyEndpoint = getProxyUrl(endpoint);
       
       // Build headers
-      const headers: Record<string, string> = { ...apiConfig.headers };
+      const headers: Record<string, string> = renderTemplates(apiConfig.headers, templateContext);
       
-      // Add authentication header if not using URL parameter
-      if (!apiConfig.apiKeyInUrlParam && apiConfig.authHeaderName) {
+      // Add authentication header if not using URL parameter; auth strategies add theirs as the request is sent
+      if (!apiConfig.auth && !apiConfig.apiKeyInUrlParam && apiConfig.authHeaderName) {
         const authValue = `${apiConfig.authHeaderPrefix || ''}${keyData.apiKey}`;
         headers[apiConfig.authHeaderName] = authValue;
       }
@@ -60,8 +78,8 @@ export class CustomProviderService {
       // Sanitize headers to ensure they only contain valid characters
       const sanitizedHeaders = sanitizeHeaders(headers);
       
-      // Build request body
-      let requestBody = JSON.parse(JSON.stringify(apiConfig.requestBodyStructure));
+      // Build request body, filling placeholders before the prompt is set
+      let requestBody = renderTemplates(apiConfig.requestBodyStructure, templateContext);
       
       // Set the prompt
       requestBody = setValueAtPath(requestBody, apiConfig.promptJsonPath, prompt);
@@ -92,95 +110,62 @@ export class CustomProviderService {
       console.log('Request method:', apiConfig.method);
       console.log('Request body:', JSON.stringify(requestBody, null, 2));
       
-      // Make the API request
-      const response = await fetch(proxyEndpoint, {
-        method: apiConfig.method,
-        headers: sanitizedHeaders,
-        body: JSON.stringify(requestBody),
-        mode: 'cors',
-        credentials: 'omit'
-      });
-      
-      const latency = Date.now() - startTime;
-      
-      if (!response.ok) {
-        let errorText = '';
-        let errorDetails = null;
-        
-        try {
-          errorText = await response.text();
-          // Try to parse as JSON to get structured error
-          if (errorText.trim().startsWith('{')) {
-            errorDetails = JSON.parse(errorText);
+      // Send through the client middleware, retrying rate limits and transient server errors
+      const { body: responseData, attempts } = await clientMiddleware.execute(
+        {
+          client: 'CustomProviderService',
+          provider: providerId,
+          endpoint: proxyEndpoint,
+          headers: sanitizedHeaders,
+          body: requestBody,
+          stream: false
+        },
+        async request => {
+          // Signatures cover the provider URL and the final body, so auth headers come last
+          const payload = JSON.stringify(request.body);
+          const requestHeaders = sanitizeHeaders(request.headers);
+          Object.assign(requestHeaders, sanitizeHeaders(await authenticate(
+            apiConfig,
+            keyData,
+            { method: apiConfig.method, url: endpoint, headers: requestHeaders, body: payload },
+            options.signal
+          )));
+
+          const { response, attempts } = await fetchWithRetry(request.endpoint, {
+            method: apiConfig.method,
+            headers: requestHeaders,
+            body: payload,
+            mode: 'cors',
+            credentials: 'omit',
+            signal: options.signal
+          }, {
+            policy: apiConfig.retry,
+            onRetry: (attempt, delayMs, reason) =>
+              console.warn(`Custom provider attempt ${attempt} failed (${reason}), retrying in ${delayMs}ms`)
+          });
+          lastAttempts = attempts;
+
+          if (!response.ok) {
+            if (response.status === 401) invalidateAuth(apiConfig, keyData);
+            providerError = await this.readErrorMessage(response, apiConfig);
+            throw new Error(providerError);
           }
-        } catch (parseError) {
-          // If we can't parse the error, use the raw text
-          errorText = errorText || `HTTP ${response.status}`;
-        }
-        
-        console.error(`API request failed: ${response.status} ${errorText}`);
-        
-        // Try to extract error using errorJsonPath if provided
-        let errorMessage = '';
-        if (apiConfig.errorJsonPath && errorDetails) {
+
+          // Parse response
           try {
-            const extractedError = getValueAtPath(errorDetails, apiConfig.errorJsonPath);
-            if (extractedError) {
-              errorMessage = extractedError;
-            }
-          } catch (pathError) {
-            // Ignore path errors
-          }
-        }
-        
-        if (!errorMessage) {
-          // Enhanced error messages for common issues
-          if (response.status === 401) {
-            errorMessage = `Authentication failed: Invalid API key`;
-          } else if (response.status === 403) {
-            errorMessage = `Access forbidden: Check your API key permissions`;
-          } else if (response.status === 429) {
-            errorMessage = `Rate limit exceeded: Too many requests`;
-          } else if (response.status >= 500) {
-            errorMessage = `Server error: The service is temporarily unavailable`;
-          } else if (response.status === 404) {
-            errorMessage = `Endpoint not found: The API endpoint "${apiConfig.endpointPath}" could not be found`;
-          } else {
-            errorMessage = errorDetails?.error?.message || errorDetails?.message || errorText || 'Unknown error';
+            return { status: response.status, body: await response.json(), attempts };
+          } catch (jsonError) {
+            providerError = `Failed to parse response: ${jsonError.message}`;
+            throw new Error(providerError);
           }
-        }
-        
-        return {
-          success: false,
-          error: errorMessage,
-          provider: providerId,
-          metrics: {
-            latency,
-            tokens: 0,
-            cost: 0
-          }
-        };
-      }
+        },
+        options.middleware
+      );
       
-      // Parse response
-      let responseData;
-      try {
-        responseData = await response.json();
-      } catch (jsonError) {
-        return {
-          success: false,
-          error: `Failed to parse response: ${jsonError.message}`,
-          provider: providerId,
-          metrics: {
-            latency,
-            tokens: 0,
-            cost: 0
-          }
-        };
-      }
+      const latency = Date.now() - startTime;
       
       // Extract response text using responseJsonPath
-      const generatedText = getValueAtPath(responseData, apiConfig.responseJsonPath);
+      const generatedText = getStringAtPath(responseData, apiConfig.responseJsonPath);
       
       if (!generatedText) {
         console.warn(`No text generated from response:`, responseData);
@@ -188,6 +173,7 @@ export class CustomProviderService {
           success: false,
           error: `No text found in response at path "${apiConfig.responseJsonPath}"`,
           provider: providerId,
+          attempts,
           metrics: {
             latency,
             tokens: 0,
@@ -196,30 +182,56 @@ export class CustomProviderService {
         };
       }
       
-      // Estimate token usage
-      const inputTokens = Math.ceil(prompt.length / 4);
-      const outputTokens = Math.ceil(generatedText.length / 4);
+      // Use reported token usage when configured, otherwise estimate it
+      const { usage, finishReason, model } = parseResponseDetails(responseData, apiConfig);
+      const tokens = resolveTotalTokens(usage, prompt, generatedText, options.model || apiConfig.defaultModel);
       
       return {
         success: true,
         response: generatedText,
         provider: providerId,
+        attempts,
+        model,
+        usage,
+        finishReason,
         metrics: {
           latency,
-          tokens: inputTokens + outputTokens,
-          cost: 0.01 * (inputTokens + outputTokens) / 1000 // Generic cost estimate
+          tokens,
+          cost: estimateCost({
+            providerId,
+            model: model || options.model || apiConfig.defaultModel,
+            usage,
+            prompt,
+            response: generatedText
+          }).total
         }
       };
       
     } catch (error) {
       const latency = Date.now() - startTime;
+
+      if (options.signal?.aborted) {
+        return {
+          success: false,
+          error: 'Request cancelled',
+          provider: providerId,
+          cancelled: true,
+          metrics: {
+            latency,
+            tokens: 0,
+            cost: 0
+          }
+        };
+      }
       
       console.error('Custom provider error:', error);
       
-      // Enhance error messages for common issues
+      // Enhance error messages for common issues; provider errors are already user-facing
       let errorMessage = error instanceof Error ? error.message : 'Unknown error';
       
-      if (errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError')) {
+      if (providerError !== undefined) {
+        errorMessage = providerError;
+      } else if (errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError')) {
         errorMessage = `Network error: Unable to connect to the provider. Please check your internet connection and the API endpoint.`;
       } else if (errorMessage.includes('timeout')) {
         errorMessage = `Request timeout: The operation took too long to complete. Please try again with a shorter prompt.`;
@@ -231,6 +243,7 @@ export class CustomProviderService {
         success: false,
         error: errorMessage,
         provider: providerId,
+        attempts: lastAttempts,
         metrics: {
           latency,
           tokens: 0,
@@ -239,4 +252,51 @@ export class CustomProviderService {
       };
     }
   }
+
+  /**
+   * Read a user-facing error message from a failed provider response
+   */
+  private static async readErrorMessage(response: Response, apiConfig: ApiConfiguration): Promise<string> {
+    let errorText = '';
+    let errorDetails = null;
+    
+    try {
+      errorText = await response.text();
+      // Try to parse as JSON to get structured error
+      if (errorText.trim().startsWith('{')) {
+        errorDetails = JSON.parse(errorText);
+      }
+    } catch (parseError) {
+      // If we can't parse the error, use the raw text
+      errorText = errorText || `HTTP ${response.status}`;
+    }
+    
+    console.error(`API request failed: ${response.status} ${errorText}`);
+    
+    // Try to extract error using errorJsonPath if provided
+    if (apiConfig.errorJsonPath && errorDetails) {
+      try {
+        const extractedError = getStringAtPath(errorDetails, apiConfig.errorJsonPath);
+        if (extractedError) {
+          return extractedError;
+        }
+      } catch (pathError) {
+        // Ignore path errors
+      }
+    }
+    
+    // Enhanced error messages for common issues
+    if (response.status === 401) {
+      return `Authentication failed: Invalid API key`;
+    } else if (response.status === 403) {
+      return `Access forbidden: Check your API key permissions`;
+    } else if (response.status === 429) {
+      return `Rate limit exceeded: Too many requests`;
+    } else if (response.status >= 500) {
+      return `Server error: The service is temporarily unavailable`;
+    } else if (response.status === 404) {
+      return `Endpoint not found: The API endpoint "${apiConfig.endpointPath}" could not be found`;
+    }
+    return errorDetails?.error?.message || errorDetails?.message || errorText || 'Unknown error';
+  }
 }
\ No newline at end of file
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DynamicProxyService } from './DynamicProxyService';
+
+vi.mock('../supabase', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: { access_token: 'session-token', user: { id: 'user-1' } } }, error: null }) } }
+}));
+
+// dynamic-ai-proxy that never answers and fails like fetch once the request is aborted
+function hangingEdgeFunction() {
+  const fetch = vi.fn<typeof globalThis.fetch>((_input, init) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(init.signal!.reason), { once: true });
+  }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+beforeEach(() => {
+  vi.stubGlobal('localStorage', { getItem: () => null, setItem: vi.fn(), removeItem: vi.fn() });
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://modelshift.supabase.co');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key');
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('DynamicProxyService cancellation', () => {
+  it('aborts the Edge Function request in flight and returns a cancelled response', async () => {
+    const fetch = hangingEdgeFunction();
+    const controller = new AbortController();
+
+    const pending = DynamicProxyService.callProvider('vllm', 'Hello', { signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    expect(await pending).toMatchObject({ success: false, cancelled: true, error: 'Request cancelled', provider: 'vllm' });
+    expect(localStorage.setItem).not.toHaveBeenCalled();
+  });
+
+  it('does not call the Edge Function when the signal is aborted before the request', async () => {
+    const fetch = hangingEdgeFunction();
+
+    expect(await DynamicProxyService.callProvider('vllm', 'Hello', { signal: AbortSignal.abort() }))
+      .toMatchObject({ success: false, cancelled: true });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('ends a stream with an AbortError when aborted while waiting for the Edge Function', async () => {
+    const fetch = hangingEdgeFunction();
+    const controller = new AbortController();
+
+    const next = DynamicProxyService.streamProvider('vllm', 'Hello', { signal: controller.signal }).next();
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(next).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
@@ -1,8 +1,16 @@
 import { supabase } from '../supabase';
-import { providers } from '../../data/providers';
+import { providers, requiresKeys } from '../../data/providers';
 import { keyVault } from '../encryption';
 import { getProxyUrl } from '../devProxy';
-import type { Provider } from '../../types';
+import { readProviderStream, textToStream } from '../streaming';
+import { estimateTokens } from '../usage';
+import { estimateCost } from '../pricing';
+import { createTimeoutSignal, throwIfAborted } from '../abort';
+import { assertNoAttachments } from '../attachments';
+import type { TimeoutSignal } from '../abort';
+import type { StreamEvent } from '../streaming';
+import type { DiscoveredModel } from '../openaiCompatible';
+import type { ChatMessage, Provider, TokenUsage } from '../../types';
 
 export interface DynamicProxyResponse {
   success: boolean;
@@ -10,6 +18,10 @@ export interface DynamicProxyResponse {
   error?: string;
   provider: string;
   model?: string;
+  usage?: TokenUsage; // Provider-reported token counts, when available
+  finishReason?: string;
+  cancelled?: boolean; // Set when the caller aborted the request
+  usingUserKey?: boolean; // Whether the request carried the user's own API key
   metrics?: {
     latency: number;
     tokens: number;
@@ -18,7 +30,25 @@ export interface DynamicProxyResponse {
   metadata?: Record<string, any>;
 }
 
+export interface DynamicProxyOptions {
+  model?: string;
+  parameters?: Record<string, any>;
+  messages?: ChatMessage[]; // Full conversation, sent in place of the single prompt when provided
+  agentId?: string;
+  userId?: string;
+  useUserKey?: boolean; // Built-in providers only: false uses the shared key instead of the user's own
+  signal?: AbortSignal; // Aborts the Edge Function request
+  headers?: Record<string, string>; // Extra headers for the Edge Function request, e.g. from middleware
+}
+
 export class DynamicProxyService {
+  /**
+   * Edge Function that serves a provider: built-in providers use ai-proxy, custom ones dynamic-ai-proxy
+   */
+  static getFunctionName(providerId: string): string {
+    return ['openai', 'gemini', 'claude', 'ibm', 'mock'].includes(providerId) ? 'ai-proxy' : 'dynamic-ai-proxy';
+  }
+
   /**
    * Make a dynamic API call through the existing ai-proxy Edge Function
    * This works with the current deployed infrastructure
@@ -26,131 +56,34 @@ export class DynamicProxyService {
   static async callProvider(
     providerId: string,
     prompt: string,
-    options: {
-      model?: string;
-      parameters?: Record<string, any>;
-      agentId?: string;
-      userId?: string;
-    } = {}
+    options: DynamicProxyOptions = {}
   ): Promise<DynamicProxyResponse> {
     const startTime = Date.now();
+    let timeout: TimeoutSignal | undefined;
     
     try {
-      // Get the current session for authentication with timeout
-      const sessionPromise = supabase.auth.getSession();
-      const sessionTimeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Session timeout after 5 seconds')), 5000)
-      );
-      
-      let sessionResult;
-      try {
-        sessionResult = await Promise.race([sessionPromise, sessionTimeoutPromise]) as any;
-      } catch (timeoutError) {
-        throw new Error('Authentication timeout: Unable to verify session. Please check your connection and try again.');
-      }
-      
-      const { data: { session }, error: sessionError } = sessionResult;
-      
-      if (sessionError || !session) {
-        console.error(`[Auth Error] ${sessionError?.message || 'No active session'}`);
-        throw new Error('No active session. Please sign in to continue.');
-      }
-
-      // Check if Supabase is properly configured for proxy mode
-      const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-      const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-      
-      const shouldUseProxy = supabaseUrl && supabaseAnonKey && 
-                            !supabaseUrl.includes('demo') && !supabaseAnonKey.includes('demo');
+      const { session, isCustomProvider, proxyEndpoint, requestBody, usingUserKey } =
+        await this.prepareRequest(providerId, prompt, options);
 
-      if (!shouldUseProxy) {
-        throw new Error('Server connection not configured. Please configure your environment variables or use direct browser mode.');
-      }
-
-      // Get provider configuration
-      const provider = providers.find(p => p.id === providerId);
-      if (!provider) {
-        throw new Error(`Provider '${providerId}' not found in configuration`);
-      }
-
-      // Determine if this is a custom provider or a built-in provider
-      const isCustomProvider = !['openai', 'gemini', 'claude', 'ibm'].includes(providerId);
-      
-      // Prepare the request body based on provider type
-      let requestBody;
-      let functionName;
-      
-      if (isCustomProvider) {
-        // For custom providers, use the dynamic-ai-proxy endpoint
-        functionName = 'dynamic-ai-proxy';
-        
-        // Get API keys from key vault
-        const keyData = keyVault.retrieveDefault(providerId);
-        if (!keyData) {
-          throw new Error(`No API key found for ${provider.displayName}. Please add your API key in the API Keys section.`);
-        }
-        
-        // Build the request body for dynamic-ai-proxy
-        requestBody = {
-          providerConfig: {
-            id: provider.id,
-            name: provider.displayName,
-            apiConfig: provider.apiConfig
-          },
-          prompt,
-          model: options.model || provider.apiConfig.defaultModel,
-          parameters: options.parameters || provider.apiConfig.defaultParameters,
-          agentId: options.agentId,
-          userId: options.userId || session.user.id,
-          apiKeys: keyData
-        };
-      } else {
-        // For built-in providers, use the ai-proxy endpoint
-        functionName = 'ai-proxy';
-        
-        // Build the standard proxy request (compatible with existing ai-proxy function)
-        requestBody = {
-          providerId: provider.id,
-          prompt,
-          model: options.model || provider.apiConfig.defaultModel,
-          parameters: options.parameters || provider.apiConfig.defaultParameters,
-          agentId: options.agentId,
-          userId: options.userId || session.user.id,
-          useUserKey: true // Use the user's own API key
-        };
-      }
-
-      console.log(`Making ${isCustomProvider ? 'custom' : 'standard'} proxy request to ${provider.displayName} via ${functionName}:`, {
-        providerId,
-        model: requestBody.model,
-        promptLength: prompt.length,
-        userId: requestBody.userId
-      });
-
-      // Build the URL for the Edge Function
-      const originalEndpoint = `${supabaseUrl}/functions/v1/${functionName}`;
-      const proxyEndpoint = getProxyUrl(originalEndpoint);
-      
-      console.log(`Using proxy endpoint: ${proxyEndpoint}`);
-
-      // Call the Edge Function with timeout
-      const fetchPromise = fetch(proxyEndpoint, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      const fetchTimeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Edge Function timeout after 30 seconds')), 30000)
-      );
+      // Call the Edge Function with a timeout that also aborts the fetch
+      timeout = createTimeoutSignal(30000, 'Edge Function timeout after 30 seconds', options.signal);
 
       let response;
       try {
-        response = await Promise.race([fetchPromise, fetchTimeoutPromise]) as Response;
+        response = await fetch(proxyEndpoint, {
+          method: 'POST',
+          headers: {
+            ...options.headers,
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(requestBody),
+          signal: timeout.signal
+        });
       } catch (fetchError) {
+        // Cancellation is not a connection problem, so leave the connection mode alone
+        if (options.signal?.aborted) throw fetchError;
+
         // If we get a network error, switch to browser mode
         if (fetchError.message.includes('Failed to fetch') || 
             fetchError.message.includes('NetworkError') ||
@@ -221,25 +154,35 @@ export class DynamicProxyService {
         throw new Error(data.error || 'Request failed. Please try again.');
       }
 
-      // Extract metrics from response or estimate them
-      const inputTokens = Math.ceil(prompt.length / 4);
-      const outputTokens = Math.ceil((data.response?.length || 0) / 4);
+      // Prefer provider-reported usage, then function metrics, then an estimate
+      const tokens = data.usage?.totalTokens || data.metrics?.tokens ||
+        estimateTokens(prompt, options.model, providerId) + estimateTokens(data.response || '', options.model, providerId);
       
       const proxyResponse: DynamicProxyResponse = {
         success: true,
         response: data.response,
         provider: providerId,
         model: data.model || options.model,
+        usage: data.usage,
+        finishReason: data.finishReason,
+        usingUserKey: data.using_user_key ?? usingUserKey,
         metrics: {
           latency,
-          tokens: data.metrics?.tokens || (inputTokens + outputTokens),
-          cost: data.metrics?.cost || this.estimateCost(providerId, inputTokens + outputTokens)
+          tokens,
+          cost: data.metrics?.cost ?? estimateCost({
+            providerId,
+            model: data.model || options.model,
+            usage: data.usage,
+            prompt: options.messages || prompt,
+            response: data.response
+          }).total
         },
         metadata: {
           requestId: data.requestId,
           timestamp: new Date().toISOString(),
           authenticated: true,
-          isCustomProvider
+          isCustomProvider,
+          attempts: data.attempts
         }
       };
 
@@ -255,6 +198,25 @@ export class DynamicProxyService {
 
     } catch (error) {
       const latency = Date.now() - startTime;
+
+      if (options.signal?.aborted) {
+        return {
+          success: false,
+          error: 'Request cancelled',
+          provider: providerId,
+          model: options.model,
+          cancelled: true,
+          metrics: {
+            latency,
+            tokens: 0,
+            cost: 0
+          },
+          metadata: {
+            timestamp: new Date().toISOString(),
+            authenticated: false
+          }
+        };
+      }
       
       console.error('Proxy service error:', error);
       
@@ -290,7 +252,213 @@ export class DynamicProxyService {
           authenticated: false
         }
       };
+    } finally {
+      timeout?.clear();
+    }
+  }
+
+  /**
+   * Stream a provider response through the Edge Function
+   * Falls back to a single chunk when the function replies with a complete JSON response
+   */
+  static async *streamProvider(
+    providerId: string,
+    prompt: string,
+    options: DynamicProxyOptions = {}
+  ): AsyncGenerator<StreamEvent> {
+    const { session, provider, proxyEndpoint, requestBody } =
+      await this.prepareRequest(providerId, prompt, options, true);
+
+    const response = await fetch(proxyEndpoint, {
+      method: 'POST',
+      headers: {
+        ...options.headers,
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(requestBody),
+      signal: options.signal
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Streaming proxy request failed with status ${response.status}:`, errorText);
+
+      let errorMessage = errorText || `Service error (${response.status}). Please try again later.`;
+      try {
+        errorMessage = JSON.parse(errorText).error || errorMessage;
+      } catch {
+        // Not JSON, keep the raw text
+      }
+      throw new Error(errorMessage);
+    }
+
+    const contentType = response.headers.get('Content-Type') || '';
+    if (contentType.includes('text/event-stream') && provider.apiConfig.streaming) {
+      yield* readProviderStream(response, provider.apiConfig.streaming.format);
+      return;
+    }
+
+    const data = await response.json();
+    if (!data.success) {
+      throw new Error(data.error || 'Request failed. Please try again.');
+    }
+    yield* textToStream(data.response || '', { finishReason: data.finishReason, usage: data.usage });
+  }
+
+  /**
+   * List a custom provider's models through dynamic-ai-proxy, which calls the provider's
+   * models endpoint from the server
+   * @param keyData - Key data to use instead of the stored default
+   */
+  static async listModels(providerId: string, keyData?: Record<string, string>, signal?: AbortSignal): Promise<DiscoveredModel[]> {
+    const { session, isCustomProvider, proxyEndpoint, requestBody } =
+      await this.prepareRequest(providerId, '', { signal });
+    if (!isCustomProvider) {
+      throw new Error('Model discovery is only available for self-hosted providers');
+    }
+
+    const response = await fetch(proxyEndpoint, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ action: 'models', providerConfig: requestBody.providerConfig, apiKeys: keyData || requestBody.apiKeys }),
+      signal
+    });
+
+    let data;
+    try {
+      data = await response.json();
+    } catch {
+      throw new Error(`Service error (${response.status}). Please try again later.`);
+    }
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Service error (${response.status}). Please try again later.`);
+    }
+    return data.models;
+  }
+
+  /**
+   * Resolve the session and build the Edge Function request for a provider call
+   */
+  private static async prepareRequest(
+    providerId: string,
+    prompt: string,
+    options: DynamicProxyOptions,
+    stream: boolean = false
+  ) {
+    assertNoAttachments(options.messages);
+
+    // Get the current session for authentication with timeout
+    const sessionPromise = supabase.auth.getSession();
+    const sessionTimeoutPromise = new Promise((_, reject) => 
+      setTimeout(() => reject(new Error('Session timeout after 5 seconds')), 5000)
+    );
+    
+    let sessionResult;
+    try {
+      sessionResult = await Promise.race([sessionPromise, sessionTimeoutPromise]) as any;
+    } catch (timeoutError) {
+      throw new Error('Authentication timeout: Unable to verify session. Please check your connection and try again.');
+    }
+    
+    const { data: { session }, error: sessionError } = sessionResult;
+    
+    if (sessionError || !session) {
+      console.error(`[Auth Error] ${sessionError?.message || 'No active session'}`);
+      throw new Error('No active session. Please sign in to continue.');
+    }
+
+    // The session lookup cannot be aborted, so check whether the caller gave up while it ran
+    throwIfAborted(options.signal);
+
+    // Check if Supabase is properly configured for proxy mode
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    
+    const shouldUseProxy = supabaseUrl && supabaseAnonKey && 
+                          !supabaseUrl.includes('demo') && !supabaseAnonKey.includes('demo');
+
+    if (!shouldUseProxy) {
+      throw new Error('Server connection not configured. Please configure your environment variables or use direct browser mode.');
+    }
+
+    // Get provider configuration
+    const provider = providers.find(p => p.id === providerId);
+    if (!provider) {
+      throw new Error(`Provider '${providerId}' not found in configuration`);
+    }
+
+    // Determine if this is a custom provider or a built-in provider
+    const functionName = this.getFunctionName(providerId);
+    const isCustomProvider = functionName === 'dynamic-ai-proxy';
+    
+    // Prepare the request body based on provider type
+    let requestBody: Record<string, any>;
+    let usingUserKey: boolean;
+    
+    if (isCustomProvider) {
+      // For custom providers, use the dynamic-ai-proxy endpoint
+      // Get API keys from key vault; local servers without auth need none
+      const keyData = keyVault.retrieveDefault(providerId) || (requiresKeys(provider) ? null : {});
+      if (!keyData) {
+        throw new Error(`No API key found for ${provider.displayName}. Please add your API key in the API Keys section.`);
+      }
+      
+      // Build the request body for dynamic-ai-proxy
+      requestBody = {
+        providerConfig: {
+          id: provider.id,
+          name: provider.displayName,
+          apiConfig: provider.apiConfig
+        },
+        prompt,
+        messages: options.messages,
+        model: options.model || provider.apiConfig.defaultModel,
+        parameters: options.parameters || provider.apiConfig.defaultParameters,
+        agentId: options.agentId,
+        userId: options.userId || session.user.id,
+        apiKeys: keyData
+      };
+      // Keyless local servers are called without any key
+      usingUserKey = Object.keys(keyData).length > 0;
+    } else {
+      // For built-in providers, use the ai-proxy endpoint
+      // Build the standard proxy request (compatible with existing ai-proxy function)
+      requestBody = {
+        providerId: provider.id,
+        prompt,
+        messages: options.messages,
+        model: options.model || provider.apiConfig.defaultModel,
+        parameters: options.parameters || provider.apiConfig.defaultParameters,
+        agentId: options.agentId,
+        userId: options.userId || session.user.id,
+        useUserKey: options.useUserKey ?? true // Use the user's own API key unless told otherwise
+      };
+      usingUserKey = requestBody.useUserKey;
     }
+
+    console.log(`Making ${isCustomProvider ? 'custom' : 'standard'} proxy request to ${provider.displayName} via ${functionName}:`, {
+      providerId,
+      model: requestBody.model,
+      promptLength: prompt.length,
+      messageCount: options.messages?.length,
+      userId: requestBody.userId
+    });
+
+    // Build the URL for the Edge Function
+    const originalEndpoint = `${supabaseUrl}/functions/v1/${functionName}`;
+    const proxyEndpoint = getProxyUrl(originalEndpoint);
+    
+    console.log(`Using proxy endpoint: ${proxyEndpoint}`);
+
+    if (stream) {
+      requestBody.stream = true;
+    }
+
+    return { session, provider, isCustomProvider, proxyEndpoint, requestBody, usingUserKey };
   }
 
   /**
@@ -472,19 +640,4 @@ export class DynamicProxyService {
   static getAvailableProviders(): Provider[] {
     return providers.filter(provider => provider.isAvailable);
   }
-
-  /**
-   * Estimate cost based on provider and tokens
-   */
-  private static estimateCost(providerId: string, tokens: number): number {
-    const pricing: Record<string, number> = {
-      openai: 0.06, // GPT-4 output pricing per 1K tokens
-      gemini: 0.0015, // Gemini 2.0 Flash output pricing per 1K tokens
-      claude: 0.075, // Claude 3 Sonnet output pricing per 1K tokens
-      ibm: 0.04 // IBM Granite output pricing per 1K tokens
-    };
-    
-    const pricePerToken = pricing[providerId] || 0.05; // Default fallback
-    return (tokens * pricePerToken) / 1000;
-  }
 }
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProxyService } from './ProxyService';
+import { requestScheduler } from '../scheduler';
+import { providerHealth } from '../health';
+
+vi.mock('../supabase', () => ({
+  supabase: { auth: { getSession: async () => ({ data: { session: { access_token: 'session-token', user: { id: 'user-1' } } }, error: null }) } }
+}));
+
+const storage = new Map<string, string>();
+
+// Edge Function that answers once the test calls respond, and fails like fetch when the request is aborted
+function pendingEdgeFunction() {
+  const respond: Array<() => void> = [];
+  const fetch = vi.fn<typeof globalThis.fetch>((_input, init) => new Promise<Response>((resolve, reject) => {
+    respond.push(() => resolve(new Response(JSON.stringify({ success: true, response: 'Hello from Ollama', model: 'llama3.2' }))));
+    init?.signal?.addEventListener('abort', () => reject(init.signal!.reason), { once: true });
+  }));
+  vi.stubGlobal('fetch', fetch);
+  return { fetch, respond };
+}
+
+// Edge Function that streams the given event and then waits, ending the body when the request is aborted
+function streamingEdgeFunction(event: unknown) {
+  const fetch = vi.fn<typeof globalThis.fetch>(async (_input, init) => new Response(new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(`data: ${JSON.stringify(event)}\n\n`));
+      init?.signal?.addEventListener('abort', () => controller.error(init.signal!.reason), { once: true });
+    }
+  }), { headers: { 'Content-Type': 'text/event-stream' } }));
+  vi.stubGlobal('fetch', fetch);
+  return fetch;
+}
+
+beforeEach(() => {
+  storage.clear();
+  storage.set('modelshift-connection-mode', 'server');
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key)
+  });
+  vi.stubEnv('VITE_SUPABASE_URL', 'https://modelshift.supabase.co');
+  vi.stubEnv('VITE_SUPABASE_ANON_KEY', 'anon-key');
+  requestScheduler.setLimits('ollama', { maxConcurrent: 1 });
+});
+
+afterEach(() => {
+  requestScheduler.setLimits('ollama', undefined);
+  providerHealth.reset();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('ProxyService.callProvider for self-hosted providers', () => {
+  it('returns a cancelled response when a queued request is aborted', async () => {
+    const { fetch, respond } = pendingEdgeFunction();
+    const controller = new AbortController();
+
+    const running = ProxyService.callProvider({ providerId: 'ollama', prompt: 'First' });
+    const queued = ProxyService.callProvider({ providerId: 'ollama', prompt: 'Second', signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+
+    controller.abort();
+    expect(await queued).toMatchObject({ success: false, cancelled: true, error: 'Request cancelled', provider: 'ollama' });
+
+    respond[0]();
+    expect(await running).toMatchObject({ success: true, response: 'Hello from Ollama', usingUserKey: false });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('returns a cancelled response when a request in flight is aborted', async () => {
+    const { fetch } = pendingEdgeFunction();
+    const controller = new AbortController();
+
+    const pending = ProxyService.callProvider({ providerId: 'ollama', prompt: 'Hello', signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    expect(await pending).toMatchObject({ success: false, cancelled: true, error: 'Request cancelled' });
+    expect(fetch.mock.calls[0][1]?.signal?.aborted).toBe(true);
+    expect(storage.get('modelshift-connection-mode')).toBe('server');
+  });
+
+  it('returns a cancelled response when the signal is aborted before the call', async () => {
+    const { fetch } = pendingEdgeFunction();
+
+    const response = await ProxyService.callProvider({ providerId: 'ollama', prompt: 'Hello', signal: AbortSignal.abort() });
+
+    expect(response).toMatchObject({ success: false, cancelled: true });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('ProxyService.streamProvider', () => {
+  it('keeps the text received before the Stop button aborted the stream', async () => {
+    streamingEdgeFunction({ choices: [{ delta: { content: 'Fresh ' } }] });
+    const controller = new AbortController();
+    const onDelta = vi.fn(() => controller.abort());
+
+    const response = await ProxyService.streamProvider({ providerId: 'ollama', prompt: 'Write a tagline', signal: controller.signal }, onDelta);
+
+    expect(onDelta).toHaveBeenCalledWith('Fresh ', 'Fresh ');
+    expect(response).toMatchObject({
+      success: false,
+      cancelled: true,
+      response: 'Fresh ',
+      metadata: { mode: 'server', streamed: true }
+    });
+  });
+});
+
+describe('ProxyService.callProvider through ai-proxy', () => {
+  it('rejects attachments before calling the Edge Function', async () => {
+    const { fetch } = pendingEdgeFunction();
+    const messages = [{ role: 'user' as const, content: 'Describe this', attachments: [{ kind: 'image' as const, mimeType: 'image/png', data: 'iVBORw0K' }] }];
+
+    const response = await ProxyService.callProvider({ providerId: 'openai', prompt: 'Describe this', messages });
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Attachments require direct browser mode');
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
@@ -2,16 +2,39 @@ import { supabase } from '../supabase';
 import { apiKeysDb } from '../api-keys/api-keys-db';
 import { serverEncryption } from '../api-keys/encryption';
 import { getProxyUrl, isDevelopment } from '../devProxy';
-import type { Provider } from '../../types';
+import { collectStream } from '../streaming';
+import { estimateTokens, resolveTotalTokens } from '../usage';
+import { estimateCost } from '../pricing';
+import { createTimeoutSignal, throwIfAborted } from '../abort';
+import { createCacheKey, responseCache } from '../cache';
+import { assertNoAttachments } from '../attachments';
+import { requestScheduler } from '../scheduler';
+import { providerHealth } from '../health';
+import { countInputTokens, getMaxOutputTokens } from '../tokens';
+import { discoverModels } from '../openaiCompatible';
+import { getModelCatalog, storeDiscoveredModels } from '../modelCatalog';
+import { getProvider, requiresKeys } from '../../data/providers';
+import { DynamicProxyService } from './DynamicProxyService';
+import type { TimeoutSignal } from '../abort';
+import type { DiscoveredModel } from '../openaiCompatible';
+import type { RequestSlot } from '../scheduler';
+import type { StreamEvent } from '../streaming';
+import type { ChatMessage, ModelInfo, TokenUsage } from '../../types';
 
  export interface ProxyRequest {
   providerId: string;
   prompt: string;
+  messages?: ChatMessage[]; // Full conversation including the prompt; sent instead of the prompt alone when provided
   model?: string;
   parameters?: Record<string, any>;
   agentId?: string;
   userId?: string;
   useUserKey?: boolean; // Flag to indicate whether to use user's API key
+  signal?: AbortSignal; // Aborts the request in either connection mode
+  cache?: boolean; // Serve identical requests from the response cache
+  headers?: Record<string, string>; // Extra headers for the Edge Function request, e.g. from middleware
+  priority?: number; // Higher-priority requests leave the rate-limit queue first
+  onQueuePosition?: (position: number) => void; // Called while the request waits for a rate-limit slot, with 0 once it is sent
 }
 
 export interface ProxyResponse {
@@ -21,6 +44,10 @@ export interface ProxyResponse {
   provider: string;
   model?: string;
   usingUserKey?: boolean; // Flag to indicate whether user's API key was used
+  usage?: TokenUsage; // Provider-reported token counts, when available
+  finishReason?: string;
+  cancelled?: boolean; // Set when the caller aborted the request
+  cached?: boolean; // True when served from the response cache
   metrics?: {
     latency: number;
     tokens: number;
@@ -63,7 +90,12 @@ export class ProxyService {
    * Make an authenticated API call through the Supabase Edge Function
    */
   static async callProvider(request: ProxyRequest): Promise<ProxyResponse> {
+    if (request.cache) {
+      return this.callProviderCached(request);
+    }
+
     const startTime = Date.now();
+    let timeout: TimeoutSignal | undefined;
     
     try {
       // Check if we should use direct browser mode
@@ -79,6 +111,13 @@ export class ProxyService {
         localStorage.setItem('modelshift-connection-mode', 'browser');
         return this.callProviderDirectly(request);
       }
+
+      // ai-proxy only serves the built-in providers; self-hosted servers go through dynamic-ai-proxy
+      if (DynamicProxyService.getFunctionName(request.providerId) === 'dynamic-ai-proxy') {
+        return await this.callDynamicProvider(request);
+      }
+
+      assertNoAttachments(request.messages);
       
       // Get the current session for authentication with timeout
       const sessionPromise = supabase.auth.getSession();
@@ -101,10 +140,14 @@ export class ProxyService {
         throw new Error('Please sign in to continue.');
       }
 
+      // The session lookup cannot be aborted, so check whether the caller gave up while it ran
+      throwIfAborted(request.signal);
+
       // Prepare the request body - always use user's API key in BYOK mode
       const requestBody = {
         providerId: request.providerId,
         prompt: request.prompt,
+        messages: request.messages,
         model: request.model,
         parameters: request.parameters,
         agentId: request.agentId,
@@ -127,24 +170,27 @@ export class ProxyService {
 
       console.log(`Using proxy endpoint: ${proxyUrl} for provider ${request.providerId}`);
 
-      // Make the authenticated request to the Edge Function with timeout
-      const fetchPromise = fetch(proxyUrl, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${session.access_token}`,
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      const fetchTimeoutPromise = new Promise((_, reject) => 
-        setTimeout(() => reject(new Error('Request timeout after 120 seconds')), 120000)
-      );
+      // Wait for room in the provider's rate limits, then make the authenticated request to the
+      // Edge Function with a timeout that also aborts the fetch
+      const slot = await this.acquireSlot(request);
+      timeout = createTimeoutSignal(120000, 'Request timeout after 120 seconds', request.signal);
       
       let response;
       try {
-        response = await Promise.race([fetchPromise, fetchTimeoutPromise]) as Response;
+        response = await fetch(proxyUrl, {
+          method: 'POST',
+          headers: {
+            ...request.headers,
+            'Authorization': `Bearer ${session.access_token}`,
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(requestBody),
+          signal: timeout.signal
+        });
       } catch (fetchError) {
+        // Cancellation must not fall back to browser mode and resend the request
+        if (request.signal?.aborted) throw fetchError;
+
         console.error('Fetch error:', fetchError);
         
         // If we get a network error, fall back to direct browser mode
@@ -160,6 +206,8 @@ export class ProxyService {
           throw new Error(`Your request timed out. The AI service may be busy or your prompt may be too complex.`);
         }
         throw new Error(`Network error: Please check your internet connection and try again.`);
+      } finally {
+        slot.release();
       }
 
       const latency = Date.now() - startTime;
@@ -230,9 +278,9 @@ export class ProxyService {
         throw new Error(data.error || 'Request failed. Please try again.');
       }
 
-      // Extract metrics from response or estimate them
-      const inputTokens = Math.ceil(request.prompt.length / 4);
-      const outputTokens = Math.ceil((data.response?.length || 0) / 4);
+      // Prefer provider-reported usage, then function metrics, then an estimate
+      const tokens = data.usage?.totalTokens || data.metrics?.tokens ||
+        estimateTokens(request.prompt, request.model, request.providerId) + estimateTokens(data.response || '', request.model, request.providerId);
       
       const proxyResponse: ProxyResponse = {
         success: true,
@@ -240,15 +288,24 @@ export class ProxyService {
         provider: request.providerId,
         model: data.model || request.model,
         usingUserKey: data.using_user_key,
+        usage: data.usage,
+        finishReason: data.finishReason,
         metrics: {
           latency,
-          tokens: data.metrics?.tokens || (inputTokens + outputTokens),
-          cost: data.metrics?.cost || this.estimateCost(request.providerId, inputTokens + outputTokens)
+          tokens,
+          cost: data.metrics?.cost ?? estimateCost({
+            providerId: request.providerId,
+            model: data.model || request.model,
+            usage: data.usage,
+            prompt: request.messages || request.prompt,
+            response: data.response
+          }).total
         },
         metadata: {
           requestId: data.requestId,
           timestamp: new Date().toISOString(),
-          authenticated: true
+          authenticated: true,
+          attempts: data.attempts
         }
       };
 
@@ -260,12 +317,19 @@ export class ProxyService {
         usingUserKey: data.using_user_key
       });
 
+      // Browser mode is tracked by the client middleware, so only Edge Function calls are recorded here
+      providerHealth.recordSuccess(request.providerId, latency);
       return proxyResponse;
 
     } catch (error) {
       const latency = Date.now() - startTime;
+
+      if (request.signal?.aborted) {
+        return this.buildCancelledResponse(request, latency, { authenticated: false });
+      }
       
       console.error('Proxy service error:', error);
+      providerHealth.recordFailure(request.providerId, error, latency);
       
       // If we get a network error, fall back to direct browser mode
       if (error.message && (
@@ -306,7 +370,281 @@ export class ProxyService {
           authenticated: false
         }
       };
+    } finally {
+      timeout?.clear();
+    }
+  }
+
+  /**
+   * Call a provider served by dynamic-ai-proxy, within its rate limits
+   */
+  private static async callDynamicProvider(request: ProxyRequest): Promise<ProxyResponse> {
+    const startTime = Date.now();
+    const slot = await this.acquireSlot(request);
+    try {
+      const response = await DynamicProxyService.callProvider(request.providerId, request.prompt, {
+        model: request.model,
+        parameters: request.parameters,
+        messages: request.messages,
+        agentId: request.agentId,
+        userId: request.userId,
+        useUserKey: request.useUserKey,
+        signal: request.signal,
+        headers: request.headers
+      });
+
+      if (response.success) {
+        providerHealth.recordSuccess(request.providerId, Date.now() - startTime);
+      } else if (!response.cancelled) {
+        providerHealth.recordFailure(request.providerId, new Error(response.error), Date.now() - startTime);
+      }
+      return response;
+    } finally {
+      slot.release();
+    }
+  }
+
+  /**
+   * List the models a provider offers, for providers with a models endpoint
+   * Server mode asks custom and self-hosted providers through dynamic-ai-proxy; built-in
+   * vendors, and every provider in browser mode, are asked directly
+   * @param keyData - Key data to use instead of the stored default, e.g. while it is being entered
+   */
+  static async listModels(providerId: string, keyData?: Record<string, string>, signal?: AbortSignal): Promise<DiscoveredModel[]> {
+    const provider = getProvider(providerId);
+    if (!provider) {
+      throw new Error(`Provider '${providerId}' not found in configuration`);
+    }
+
+    const connectionMode = localStorage.getItem('modelshift-connection-mode') || 'server';
+    if (connectionMode === 'server' && this.isSupabaseConfigured() &&
+        DynamicProxyService.getFunctionName(providerId) === 'dynamic-ai-proxy') {
+      return DynamicProxyService.listModels(providerId, keyData, signal);
+    }
+
+    const { keyVault } = await import('../encryption');
+    return discoverModels(provider.apiConfig, keyData || keyVault.retrieveDefault(providerId) || {}, signal);
+  }
+
+  /**
+   * Refresh a provider's model catalog from its models endpoint, keeping the listed models
+   * for later sessions
+   * @returns The updated catalog
+   */
+  static async refreshModels(providerId: string, signal?: AbortSignal): Promise<ModelInfo[]> {
+    const models = await this.listModels(providerId, undefined, signal);
+    storeDiscoveredModels(providerId, models);
+    return getModelCatalog(getProvider(providerId)!);
+  }
+
+  /**
+   * Id of the signed-in user, if any, so cached responses are kept apart between accounts
+   */
+  private static async getSessionUserId(): Promise<string | undefined> {
+    if (!this.isSupabaseConfigured()) return undefined;
+    try {
+      const { data } = await supabase.auth.getSession();
+      return data.session?.user.id;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Serve a request from the response cache, calling the provider and storing the result on a miss
+   */
+  private static async callProviderCached(request: ProxyRequest): Promise<ProxyResponse> {
+    const startTime = Date.now();
+    const key = createCacheKey({
+      provider: request.providerId,
+      model: request.model,
+      parameters: request.parameters,
+      input: request.messages || request.prompt,
+      userId: request.userId || await this.getSessionUserId(),
+      useUserKey: request.useUserKey ?? true
+    });
+
+    const cached = await responseCache.get(key);
+    if (cached) {
+      console.log(`Serving ${request.providerId} response from cache`);
+      return {
+        success: true,
+        response: cached.text,
+        provider: request.providerId,
+        model: cached.model || request.model,
+        usage: cached.usage,
+        finishReason: cached.finishReason,
+        cached: true,
+        metrics: {
+          latency: Date.now() - startTime,
+          tokens: 0, // Nothing was sent to the provider
+          cost: 0
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          cachedAt: cached.cachedAt
+        }
+      };
+    }
+
+    const response = await this.callProvider({ ...request, cache: false });
+    if (response.success && response.response) {
+      await responseCache.set(key, {
+        text: response.response,
+        usage: response.usage,
+        finishReason: response.finishReason,
+        model: response.model
+      });
     }
+    return response;
+  }
+
+  /**
+   * Stream a provider response, calling onDelta as each piece of text arrives
+   * Resolves with the same response shape as callProvider once the stream completes
+   */
+  static async streamProvider(
+    request: ProxyRequest,
+    onDelta: (delta: string, text: string) => void
+  ): Promise<ProxyResponse> {
+    const startTime = Date.now();
+    const connectionMode = localStorage.getItem('modelshift-connection-mode') || 'server';
+    const useBrowserMode = connectionMode === 'browser' || !this.isSupabaseConfigured();
+    let partialText = '';
+    let firstDeltaAt: number | undefined;
+    let slot: RequestSlot | undefined;
+    
+    try {
+      let stream: AsyncIterable<StreamEvent>;
+      
+      if (useBrowserMode) {
+        console.log('Using direct browser mode for streaming API call');
+        stream = await this.createDirectStream(request);
+      } else {
+        console.log(`Streaming authenticated proxy request to ${request.providerId}`);
+        slot = await this.acquireSlot(request);
+        stream = DynamicProxyService.streamProvider(request.providerId, request.prompt, {
+          model: request.model,
+          parameters: request.parameters,
+          messages: request.messages,
+          agentId: request.agentId,
+          userId: request.userId,
+          signal: request.signal,
+          headers: request.headers
+        });
+      }
+      
+      const { text, usage, finishReason } = await collectStream(stream, (delta, accumulated) => {
+        if (firstDeltaAt === undefined) firstDeltaAt = Date.now();
+        partialText = accumulated;
+        onDelta(delta, accumulated);
+      });
+      const latency = Date.now() - startTime;
+
+      // Time to first text, so long answers do not read as a slow provider
+      if (!useBrowserMode) {
+        providerHealth.recordSuccess(request.providerId, (firstDeltaAt ?? Date.now()) - startTime);
+      }
+      
+      // Prefer provider-reported usage, otherwise estimate
+      const tokens = resolveTotalTokens(usage, request.prompt, text, request.model);
+      
+      return {
+        success: true,
+        response: text,
+        provider: request.providerId,
+        model: request.model,
+        usingUserKey: true,
+        usage,
+        finishReason,
+        metrics: {
+          latency,
+          tokens,
+          cost: estimateCost({
+            providerId: request.providerId,
+            model: request.model,
+            usage,
+            prompt: request.messages || request.prompt,
+            response: text
+          }).total
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          authenticated: !useBrowserMode,
+          mode: useBrowserMode ? 'browser' : 'server',
+          streamed: true
+        }
+      };
+    } catch (error) {
+      const latency = Date.now() - startTime;
+
+      if (request.signal?.aborted) {
+        // Keep whatever arrived before the caller stopped the stream
+        return this.buildCancelledResponse(request, latency, {
+          authenticated: !useBrowserMode,
+          mode: useBrowserMode ? 'browser' : 'server',
+          streamed: true
+        }, partialText);
+      }
+      
+      console.error('Streaming request failed:', error);
+      if (!useBrowserMode) {
+        providerHealth.recordFailure(request.providerId, error, latency);
+      }
+      
+      let errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      
+      if (errorMessage.includes('Failed to fetch') || errorMessage.includes('NetworkError')) {
+        errorMessage = `Network error: Unable to connect to the AI service. Please check your internet connection and try again.`;
+      } else if (errorMessage.includes('401') || errorMessage.includes('Authentication failed')) {
+        errorMessage = `Authentication failed: Your API key appears to be invalid. Please check your API key in the API Keys section.`;
+      } else if (errorMessage.includes('429') || errorMessage.includes('Rate limit')) {
+        errorMessage = `Rate limit exceeded: You've made too many requests in a short period. Please wait a few minutes and try again.`;
+      }
+      
+      return {
+        success: false,
+        error: errorMessage,
+        provider: request.providerId,
+        model: request.model,
+        metrics: {
+          latency,
+          tokens: 0,
+          cost: 0
+        },
+        metadata: {
+          timestamp: new Date().toISOString(),
+          authenticated: false,
+          mode: useBrowserMode ? 'browser' : 'server',
+          streamed: true
+        }
+      };
+    } finally {
+      slot?.release();
+    }
+  }
+
+  /**
+   * Create a direct browser stream for the requested provider using the stored API key
+   */
+  private static async createDirectStream(request: ProxyRequest): Promise<AsyncIterable<StreamEvent>> {
+    const { keyVault } = await import('../encryption');
+    const { providers } = await import('../../data/providers');
+    const { ConfigurableClient, createProviderConfig } = await import('../modelshift-ai-sdk');
+    
+    const provider = providers.find(p => p.id === request.providerId);
+    if (!provider) {
+      throw new Error(`Provider not found. Please select a different AI provider.`);
+    }
+    
+    const keyData = keyVault.retrieveDefault(request.providerId) || (requiresKeys(provider) ? null : {});
+    if (!keyData) {
+      throw new Error(`No API key found for ${provider.displayName}. Please add your API key in the API Keys section.`);
+    }
+    
+    const client = new ConfigurableClient(keyData, createProviderConfig(provider, request.model, request.parameters));
+    const options = { signal: request.signal, priority: request.priority, onQueuePosition: request.onQueuePosition };
+    return request.messages ? client.chatStream(request.messages, options) : client.generateStream(request.prompt, options);
   }
 
   /**
@@ -320,7 +658,7 @@ export class ProxyService {
       // Import the necessary modules dynamically
       const { keyVault } = await import('../encryption');
       const { providers } = await import('../../data/providers');
-      const { ConfigurableClient } = await import('../modelshift-ai-sdk');
+      const { ConfigurableClient, createProviderConfig } = await import('../modelshift-ai-sdk');
       
       // Get provider configuration
       const provider = providers.find(p => p.id === request.providerId);
@@ -329,7 +667,7 @@ export class ProxyService {
       }
       
       // Get API keys from key vault
-      const keyData = keyVault.retrieveDefault(request.providerId);
+      const keyData = keyVault.retrieveDefault(request.providerId) || (requiresKeys(provider) ? null : {});
       if (!keyData) {
         const providerName = provider.displayName;
         const errorMessage = `No API key found for ${providerName}. Please add your API key in the API Keys section.
@@ -346,108 +684,52 @@ To fix this:
       console.log(`Making direct browser request to ${provider.displayName}`);
       
       // Create a client and make the request
-      const client = new ConfigurableClient(keyData, {
-        endpoint: provider.apiConfig.baseUrl + provider.apiConfig.endpointPath,
-        buildRequestBody: (prompt: string) => {
-          let body = JSON.parse(JSON.stringify(provider.apiConfig.requestBodyStructure));
-          
-          // Set the prompt
-          const parts = provider.apiConfig.promptJsonPath.split('.');
-          let current = body;
-          
-          for (let i = 0; i < parts.length - 1; i++) {
-            const part = parts[i];
-            if (part.includes('[')) {
-              const [arrayName, indexStr] = part.split(/\[|\]/);
-              const index = parseInt(indexStr);
-              if (!current[arrayName]) current[arrayName] = [];
-              if (!current[arrayName][index]) current[arrayName][index] = {};
-              current = current[arrayName][index];
-            } else {
-              if (!current[part]) current[part] = {};
-              current = current[part];
-            }
-          }
-          
-          const lastPart = parts[parts.length - 1];
-          if (lastPart.includes('[')) {
-            const [arrayName, indexStr] = lastPart.split(/\[|\]/);
-            const index = parseInt(indexStr);
-            if (!current[arrayName]) current[arrayName] = [];
-            current[arrayName][index] = prompt;
-          } else {
-            current[lastPart] = prompt;
-          }
-          
-          return body;
-        },
-        parseResponse: (response: any) => {
-          const parts = provider.apiConfig.responseJsonPath.split('.');
-          let result = response;
-          
-          for (const part of parts) {
-            if (part.includes('[')) {
-              const [arrayName, indexStr] = part.split(/\[|\]/);
-              const index = parseInt(indexStr);
-              result = result?.[arrayName]?.[index];
-            } else {
-              result = result?.[part];
-            }
-            
-            if (result === undefined) return '';
-          }
-          
-          return result || '';
-        },
-        buildHeaders: (keyData: Record<string, string>) => {
-          const headers = { ...provider.apiConfig.headers };
-          
-          if (provider.apiConfig.authHeaderName) {
-            headers[provider.apiConfig.authHeaderName] = `${provider.apiConfig.authHeaderPrefix || ''}${keyData.apiKey}`;
-          }
-          
-          return headers;
-        },
-        buildEndpoint: (keyData: Record<string, string>) => {
-          let endpoint = provider.apiConfig.baseUrl + provider.apiConfig.endpointPath;
-          
-          // Handle API key in URL parameter (e.g., Gemini)
-          if (provider.apiConfig.apiKeyInUrlParam && provider.apiConfig.urlParamName) {
-            const separator = endpoint.includes('?') ? '&' : '?';
-            endpoint += `${separator}${provider.apiConfig.urlParamName}=${keyData.apiKey}`;
-          }
-          
-          return endpoint;
-        }
-      });
+      const client = new ConfigurableClient(keyData, createProviderConfig(provider, request.model, request.parameters));
       
-      const response = await client.generate(request.prompt);
+      const options = { signal: request.signal, priority: request.priority, onQueuePosition: request.onQueuePosition };
+      const result = request.messages
+        ? await client.chatResult(request.messages, options)
+        : await client.generateResult(request.prompt, options);
+      const response = result.text || 'No response';
       const latency = Date.now() - startTime;
       
-      // Estimate tokens and cost
-      const inputTokens = Math.ceil(request.prompt.length / 4);
-      const outputTokens = Math.ceil(response.length / 4);
-      const estimatedCost = this.estimateCost(request.providerId, inputTokens + outputTokens);
+      // Prefer provider-reported usage, otherwise estimate tokens and cost
+      const tokens = resolveTotalTokens(result.usage, request.prompt, response, request.model);
+      const model = result.model || request.model || provider.apiConfig.defaultModel;
+      const estimatedCost = estimateCost({
+        providerId: request.providerId,
+        model,
+        usage: result.usage,
+        prompt: request.messages || request.prompt,
+        response
+      }).total;
       
       return {
         success: true,
         response,
         provider: request.providerId,
-        model: request.model || provider.apiConfig.defaultModel,
+        model,
         usingUserKey: true,
+        usage: result.usage,
+        finishReason: result.finishReason,
         metrics: {
           latency,
-          tokens: inputTokens + outputTokens,
+          tokens,
           cost: estimatedCost
         },
         metadata: {
           timestamp: new Date().toISOString(),
           authenticated: false,
-          mode: 'browser'
+          mode: 'browser',
+          attempts: result.attempts
         }
       };
     } catch (error) {
       const latency = Date.now() - startTime;
+
+      if (request.signal?.aborted) {
+        return this.buildCancelledResponse(request, latency, { authenticated: false, mode: 'browser' });
+      }
       
       console.error('Direct browser request failed:', error);
       
@@ -678,18 +960,48 @@ To fix this:
   }
 
   /**
-   * Estimate cost based on provider and tokens
+   * Wait for a rate-limit slot for a request sent through the Edge Function
+   * Browser mode needs no slot here, since the SDK clients schedule their own requests
+   */
+  private static acquireSlot(request: ProxyRequest): Promise<RequestSlot> {
+    const apiConfig = getProvider(request.providerId)?.apiConfig;
+    const model = request.model || apiConfig?.defaultModel;
+    return requestScheduler.acquire({
+      provider: request.providerId,
+      limits: apiConfig?.rateLimits,
+      tokens: countInputTokens(request.messages || request.prompt, model, request.providerId) +
+        getMaxOutputTokens({ ...apiConfig?.defaultParameters, ...request.parameters }),
+      priority: request.priority,
+      signal: request.signal,
+      onQueuePosition: request.onQueuePosition
+    });
+  }
+
+  /**
+   * Build the response returned when the caller aborts a request
    */
-  private static estimateCost(providerId: string, tokens: number): number {
-    // Pricing per 1K tokens (as of 2024)
-    const pricing: Record<string, number> = {
-      openai: 0.06, // GPT-4 output pricing per 1K tokens
-      gemini: 0.0015, // Gemini 2.0 Flash output pricing per 1K tokens
-      claude: 0.075, // Claude 3 Sonnet output pricing per 1K tokens
-      ibm: 0.04 // IBM Granite output pricing per 1K tokens
+  private static buildCancelledResponse(
+    request: ProxyRequest,
+    latency: number,
+    metadata: Record<string, any>,
+    partialText?: string
+  ): ProxyResponse {
+    return {
+      success: false,
+      error: 'Request cancelled',
+      response: partialText || undefined,
+      provider: request.providerId,
+      model: request.model,
+      cancelled: true,
+      metrics: {
+        latency,
+        tokens: 0,
+        cost: 0
+      },
+      metadata: {
+        timestamp: new Date().toISOString(),
+        ...metadata
+      }
     };
-    
-    const pricePerToken = pricing[providerId] || 0.05; // Default fallback
-    return (tokens * pricePerToken) / 1000;
   }
 }
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { assertNoAttachments, formatContentParts, getAttachmentSize, getAttachmentSupportError, validateAttachments } from './attachments';
+import { getProvider } from '../data/providers';
+import type { Attachment, ChatMessage } from '../types';
+
+const png: Attachment = { kind: 'image', mimeType: 'image/png', data: 'iVBORw0K', name: 'latte.png' };
+const pdf: Attachment = { kind: 'document', mimeType: 'application/pdf', data: 'JVBERi0=', name: 'menu.pdf' };
+const linkedImage: Attachment = { kind: 'image', mimeType: 'image/jpeg', url: 'https://example.com/beans.jpg' };
+
+const message: ChatMessage = { role: 'user', content: 'What is on the menu?', attachments: [png, pdf] };
+
+const attachmentConfig = (providerId: string) => getProvider(providerId)!.apiConfig.attachments;
+
+// Base64 data that decodes to the given number of bytes
+function ofSize(bytes: number): string {
+  const groups = Math.ceil(bytes / 3);
+  const padding = groups * 3 - bytes;
+  return 'A'.repeat(groups * 4 - padding) + '='.repeat(padding);
+}
+
+describe('formatContentParts', () => {
+  it('puts the text first and inlines attachments as data URLs for OpenAI', () => {
+    expect(formatContentParts('openai', { ...message, attachments: [png, pdf, linkedImage] })).toEqual([
+      { type: 'text', text: 'What is on the menu?' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw0K' } },
+      { type: 'file', file: { filename: 'menu.pdf', file_data: 'data:application/pdf;base64,JVBERi0=' } },
+      { type: 'image_url', image_url: { url: 'https://example.com/beans.jpg' } }
+    ]);
+  });
+
+  it('puts attachments before the text as base64 or url sources for Claude', () => {
+    expect(formatContentParts('claude', { ...message, attachments: [png, pdf, linkedImage] })).toEqual([
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0K' } },
+      { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' } },
+      { type: 'image', source: { type: 'url', url: 'https://example.com/beans.jpg' } },
+      { type: 'text', text: 'What is on the menu?' }
+    ]);
+  });
+
+  it('writes inline data and file references for Gemini', () => {
+    expect(formatContentParts('gemini', { ...message, attachments: [pdf, linkedImage] })).toEqual([
+      { inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' } },
+      { fileData: { mimeType: 'image/jpeg', fileUri: 'https://example.com/beans.jpg' } },
+      { text: 'What is on the menu?' }
+    ]);
+  });
+
+  it('leaves out the text part when the message has no text', () => {
+    expect(formatContentParts('gemini', { role: 'user', content: '', attachments: [png] }))
+      .toEqual([{ inlineData: { mimeType: 'image/png', data: 'iVBORw0K' } }]);
+  });
+});
+
+describe('getAttachmentSupportError', () => {
+  it('accepts attachments within the provider limits', () => {
+    expect(getAttachmentSupportError(attachmentConfig('claude'), [png, pdf])).toBeNull();
+    expect(getAttachmentSupportError(undefined, [])).toBeNull();
+  });
+
+  it('rejects providers without an attachment configuration', () => {
+    expect(getAttachmentSupportError(attachmentConfig('ibm'), [png])).toBe('This provider does not accept attachments');
+  });
+
+  it('rejects kinds the provider does not list', () => {
+    expect(getAttachmentSupportError(attachmentConfig('bedrock-claude'), [png, pdf]))
+      .toBe('This provider does not accept document attachments');
+  });
+
+  it('rejects attachments larger than maxBytes', () => {
+    const config = attachmentConfig('claude')!;
+    const atLimit = { ...png, data: ofSize(config.maxBytes!) };
+    const overLimit = { ...png, data: ofSize(config.maxBytes! + 1) };
+
+    expect(getAttachmentSize(atLimit)).toBe(config.maxBytes);
+    expect(getAttachmentSupportError(config, [atLimit])).toBeNull();
+    expect(getAttachmentSupportError(config, [overLimit])).toBe('Attachment latte.png is larger than the 5 MB limit');
+  });
+
+  it('requires documents to be uploaded rather than linked for OpenAI', () => {
+    const linkedDocument: Attachment = { kind: 'document', mimeType: 'application/pdf', url: 'https://example.com/menu.pdf' };
+
+    expect(getAttachmentSupportError(attachmentConfig('openai'), [linkedImage])).toBeNull();
+    expect(getAttachmentSupportError(attachmentConfig('openai'), [linkedDocument]))
+      .toBe('Attachment document must be uploaded rather than linked for this provider');
+    expect(getAttachmentSupportError(attachmentConfig('claude'), [linkedDocument])).toBeNull();
+  });
+
+  it('rejects attachments without content', () => {
+    expect(getAttachmentSupportError(attachmentConfig('gemini'), [{ kind: 'image', mimeType: 'image/png' }]))
+      .toBe('Attachment image has no content');
+  });
+});
+
+describe('validateAttachments', () => {
+  it('checks the attachments of every message', () => {
+    const conversation: ChatMessage[] = [{ role: 'user', content: 'Hi', attachments: [png] }, message];
+
+    expect(() => validateAttachments(conversation, attachmentConfig('bedrock-claude')))
+      .toThrow('This provider does not accept document attachments');
+    expect(() => validateAttachments(conversation, attachmentConfig('gemini'))).not.toThrow();
+  });
+});
+
+describe('assertNoAttachments', () => {
+  it('only throws when a message carries attachments', () => {
+    expect(() => assertNoAttachments(undefined)).not.toThrow();
+    expect(() => assertNoAttachments([{ role: 'user', content: 'Hi', attachments: [] }])).not.toThrow();
+    expect(() => assertNoAttachments([message])).toThrow('Attachments require direct browser mode');
+  });
+});
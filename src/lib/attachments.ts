@@ -0,0 +1,172 @@
+/**
+ * Attachment utilities for multimodal requests
+ * Encodes image and document attachments on chat messages into the content-part
+ * format of each provider and checks whether a provider can accept them
+ */
+
+import type { Attachment, AttachmentConfiguration, AttachmentFormat, AttachmentKind, ChatMessage } from '../types';
+
+// Content parts as each attachment format writes them; url is only missing for attachments validation rejects
+export type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url?: string } }
+  | { type: 'file'; file: { filename: string; file_data: string } };
+
+export type ClaudeContentPart =
+  | { type: 'text'; text: string }
+  | {
+      type: AttachmentKind;
+      source: { type: 'base64'; media_type: string; data: string } | { type: 'url'; url?: string };
+    };
+
+export type GeminiContentPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { fileData: { mimeType: string; fileUri?: string } };
+
+export type ContentPart = OpenAIContentPart | ClaudeContentPart | GeminiContentPart;
+
+/**
+ * Returns true when any message in a conversation carries attachments
+ * @param messages - The conversation, if any
+ */
+export function hasAttachments(messages?: ChatMessage[]): boolean {
+  return Boolean(messages?.some(message => message.attachments?.length));
+}
+
+/**
+ * Explains why a provider cannot accept a set of attachments
+ * @param config - The provider's attachment configuration, if it has one
+ * @param attachments - The attachments to send
+ * @returns A message describing the problem, or null when every attachment is accepted
+ */
+export function getAttachmentSupportError(
+  config: AttachmentConfiguration | undefined,
+  attachments: Attachment[]
+): string | null {
+  if (attachments.length === 0) return null;
+  if (!config) return 'This provider does not accept attachments';
+
+  for (const attachment of attachments) {
+    const label = attachment.name || attachment.kind;
+    if (!config.kinds.includes(attachment.kind)) {
+      return `This provider does not accept ${attachment.kind} attachments`;
+    }
+    if (!attachment.data && !attachment.url) {
+      return `Attachment ${label} has no content`;
+    }
+    if (attachment.data && config.maxBytes && getAttachmentSize(attachment) > config.maxBytes) {
+      return `Attachment ${label} is larger than the ${formatBytes(config.maxBytes)} limit`;
+    }
+    if (!attachment.data && !supportsUrl(config.format, attachment)) {
+      return `Attachment ${label} must be uploaded rather than linked for this provider`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Throws when a conversation carries attachments the provider cannot accept
+ * @param messages - The conversation, oldest first
+ * @param config - The provider's attachment configuration, if it has one
+ */
+export function validateAttachments(messages: ChatMessage[], config: AttachmentConfiguration | undefined): void {
+  const error = getAttachmentSupportError(config, messages.flatMap(message => message.attachments || []));
+  if (error) {
+    throw new Error(error);
+  }
+}
+
+// The Edge Functions relay text only, so attachments have to go straight to the provider
+export function assertNoAttachments(messages?: ChatMessage[]): void {
+  if (hasAttachments(messages)) {
+    throw new Error('Attachments require direct browser mode. Switch the connection mode to browser to send images or documents.');
+  }
+}
+
+// OpenAI only fetches images from URLs; documents must be sent inline
+function supportsUrl(format: AttachmentFormat, attachment: Attachment): boolean {
+  return format !== 'openai' || attachment.kind === 'image';
+}
+
+/**
+ * Returns the decoded size of an attachment's base64 data in bytes
+ * @param attachment - The attachment to measure
+ */
+export function getAttachmentSize(attachment: Attachment): number {
+  if (!attachment.data) return 0;
+  const padding = attachment.data.endsWith('==') ? 2 : attachment.data.endsWith('=') ? 1 : 0;
+  return Math.floor(attachment.data.length * 3 / 4) - padding;
+}
+
+function formatBytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+function toDataUrl(attachment: Attachment): string {
+  return `data:${attachment.mimeType};base64,${attachment.data}`;
+}
+
+/**
+ * Encodes a message's text and attachments as provider content parts
+ * @param format - The provider's attachment format
+ * @param message - A message with attachments
+ */
+export function formatContentParts(format: AttachmentFormat, message: ChatMessage): ContentPart[] {
+  const attachments = message.attachments || [];
+
+  switch (format) {
+    case 'openai':
+      return [
+        ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+        ...attachments.map((attachment): OpenAIContentPart => attachment.kind === 'image'
+          ? { type: 'image_url', image_url: { url: attachment.data ? toDataUrl(attachment) : attachment.url } }
+          : { type: 'file', file: { filename: attachment.name || 'document', file_data: toDataUrl(attachment) } })
+      ];
+
+    case 'claude':
+      // Claude answers best when images and documents come before the question
+      return [
+        ...attachments.map((attachment): ClaudeContentPart => ({
+          type: attachment.kind,
+          source: attachment.data
+            ? { type: 'base64', media_type: attachment.mimeType, data: attachment.data }
+            : { type: 'url', url: attachment.url }
+        })),
+        ...(message.content ? [{ type: 'text' as const, text: message.content }] : [])
+      ];
+
+    case 'gemini':
+      return [
+        ...attachments.map((attachment): GeminiContentPart => attachment.data
+          ? { inlineData: { mimeType: attachment.mimeType, data: attachment.data } }
+          : { fileData: { mimeType: attachment.mimeType, fileUri: attachment.url } }),
+        ...(message.content ? [{ text: message.content }] : [])
+      ];
+
+    default:
+      throw new Error(`Unsupported attachment format: ${format}`);
+  }
+}
+
+/**
+ * Reads a file selected in the browser into a base64 attachment
+ * @param file - The selected file
+ */
+export function readFileAsAttachment(file: File): Promise<Attachment> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = String(reader.result);
+      resolve({
+        kind: file.type.startsWith('image/') ? 'image' : 'document',
+        mimeType: file.type || 'application/octet-stream',
+        data: dataUrl.slice(dataUrl.indexOf(',') + 1),
+        name: file.name
+      });
+    };
+    reader.onerror = () => reject(reader.error || new Error(`Could not read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
@@ -0,0 +1,59 @@
+/**
+ * Request authentication
+ * Providers whose stored keys cannot be sent as they are declare an auth strategy in their
+ * configuration: a token exchange, as IBM watsonx.ai uses, or AWS Signature Version 4, as
+ * Amazon Bedrock uses. Strategies run as a request is sent, since a signature covers the
+ * final URL and body.
+ */
+
+import { tokenCache } from './tokenExchange';
+import { readAwsCredentials, signRequest } from './sigv4';
+import { renderTemplate } from './templates';
+import { getEnvironment } from './core/environment';
+import type { SignableRequest } from './sigv4';
+import type { ApiConfiguration } from '../types';
+
+/**
+ * Builds the auth headers a provider's auth strategy requires for a request
+ * @param apiConfig - The provider's API configuration
+ * @param keyData - The stored key data
+ * @param request - The request as the provider will receive it, before any proxy rewrite
+ * @param signal - Stops waiting for a token exchange
+ * @returns The headers, or an empty object for providers without an auth strategy
+ */
+export async function authenticate(
+  apiConfig: ApiConfiguration,
+  keyData: Record<string, string>,
+  request: SignableRequest,
+  signal?: AbortSignal
+): Promise<Record<string, string>> {
+  const { auth } = apiConfig;
+  if (!auth) return {};
+
+  switch (auth.type) {
+    case 'token-exchange': {
+      if (!apiConfig.authHeaderName) return {};
+      const environment = getEnvironment();
+      const token = await tokenCache.getToken(
+        auth,
+        keyData,
+        (url, init) => environment.fetch(environment.resolveUrl(url), { ...init, credentials: 'omit' }),
+        signal
+      );
+      return { [apiConfig.authHeaderName]: `${apiConfig.authHeaderPrefix || ''}${token}` };
+    }
+    case 'aws-sigv4':
+      return signRequest(request, {
+        credentials: readAwsCredentials(keyData),
+        region: renderTemplate(auth.region, { keyData }),
+        service: auth.service
+      });
+  }
+}
+
+// Drops cached credentials after a request was rejected, so the next one exchanges the key again
+export function invalidateAuth(apiConfig: ApiConfiguration, keyData: Record<string, string>): void {
+  if (apiConfig.auth?.type === 'token-exchange') {
+    tokenCache.invalidate(apiConfig.auth, keyData);
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Browser adapter for the core SDK
+ * Connects the core environment to localStorage, the encrypted key vault and the
+ * Vite development proxy used by the web app
+ */
+
+import { keyVault } from './encryption';
+import { getProxyUrl, isDevelopment } from './devProxy';
+import { configureEnvironment, createDefaultEnvironment } from './core/environment';
+import type { SDKEnvironment } from './core/environment';
+
+export function createBrowserEnvironment(): SDKEnvironment {
+  return {
+    ...createDefaultEnvironment(),
+    storage: window.localStorage,
+    resolveKeys: provider => keyVault.retrieveDefault(provider) ?? undefined,
+    resolveUrl: getProxyUrl,
+    isDevelopment
+  };
+}
+
+/**
+ * Installs the browser adapter as the core environment
+ */
+export function installBrowserEnvironment(): void {
+  configureEnvironment(createBrowserEnvironment());
+}
@@ -0,0 +1,84 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MemoryCacheStore, ResponseCache, createCacheKey } from './cache';
+
+const fingerprint = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  parameters: { temperature: 0.2, max_tokens: 100 },
+  input: 'Write a tagline for a coffee shop',
+  userId: 'user-1',
+  useUserKey: true
+};
+
+describe('createCacheKey', () => {
+  it('ignores parameter order and undefined values', () => {
+    const reordered = createCacheKey({
+      ...fingerprint,
+      parameters: { max_tokens: 100, top_p: undefined, temperature: 0.2 }
+    });
+
+    expect(reordered).toBe(createCacheKey(fingerprint));
+  });
+
+  it('changes with anything that changes the answer', () => {
+    const key = createCacheKey(fingerprint);
+
+    expect(createCacheKey({ ...fingerprint, model: 'gpt-4o' })).not.toBe(key);
+    expect(createCacheKey({ ...fingerprint, parameters: { temperature: 0.3, max_tokens: 100 } })).not.toBe(key);
+    expect(createCacheKey({ ...fingerprint, input: [{ role: 'user', content: fingerprint.input }] })).not.toBe(key);
+    expect(createCacheKey({ ...fingerprint, responseSchema: { type: 'object' } })).not.toBe(key);
+  });
+
+  it('keeps answers apart between users and key modes', () => {
+    const key = createCacheKey(fingerprint);
+
+    expect(createCacheKey({ ...fingerprint, userId: 'user-2' })).not.toBe(key);
+    expect(createCacheKey({ ...fingerprint, useUserKey: false })).not.toBe(key);
+  });
+});
+
+describe('ResponseCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('serves stored results marked as cached, without the raw response', async () => {
+    const cache = new ResponseCache({ store: new MemoryCacheStore() });
+    await cache.set('key', { text: 'Fresh brews daily', raw: { id: 'chatcmpl-1' } });
+
+    const cached = await cache.get('key');
+
+    expect(cached?.text).toBe('Fresh brews daily');
+    expect(cached?.cached).toBe(true);
+    expect(cached?.raw).toBeUndefined();
+  });
+
+  it('expires entries after the TTL', async () => {
+    vi.useFakeTimers();
+    const cache = new ResponseCache({ store: new MemoryCacheStore(), ttlMs: 1000 });
+    await cache.set('key', { text: 'Fresh brews daily' });
+
+    vi.advanceTimersByTime(1001);
+
+    expect(await cache.get('key')).toBeUndefined();
+  });
+
+  it('drops the oldest entries beyond the maximum count', async () => {
+    const cache = new ResponseCache({ store: new MemoryCacheStore(), maxEntries: 2 });
+    await cache.set('first', { text: 'one' });
+    await cache.set('second', { text: 'two' });
+    await cache.set('third', { text: 'three' });
+
+    expect(await cache.get('first')).toBeUndefined();
+    expect((await cache.get('third'))?.text).toBe('three');
+  });
+
+  it('skips empty and oversized results', async () => {
+    const cache = new ResponseCache({ store: new MemoryCacheStore(), maxEntryBytes: 50 });
+    await cache.set('empty', { text: '' });
+    await cache.set('large', { text: 'x'.repeat(100) });
+
+    expect(await cache.get('empty')).toBeUndefined();
+    expect(await cache.get('large')).toBeUndefined();
+  });
+});
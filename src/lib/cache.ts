@@ -0,0 +1,268 @@
+/**
+ * Response cache for provider calls
+ * Keys results on a hash of provider, model, normalized parameters, the final prompt or
+ * conversation and who asked with which key. Entries live in IndexedDB in the browser and in memory
+ * elsewhere, expire after a TTL and are pruned to a maximum count.
+ */
+
+import CryptoJS from 'crypto-js';
+import { logger } from './core/environment';
+import type { ChatMessage, GenerateResult, JsonSchema, ToolDefinition } from '../types';
+
+const DB_NAME = 'modelshift-response-cache';
+const STORE_NAME = 'responses';
+
+export interface RequestFingerprint {
+  provider: string;
+  model?: string;
+  parameters?: Record<string, unknown>;
+  input: string | ChatMessage[]; // The final prompt, or the whole conversation for chat requests
+  tools?: ToolDefinition[]; // Tools offered to the model, which change what it returns
+  responseSchema?: JsonSchema; // Requested JSON Schema, which also changes what it returns
+  userId?: string; // Account the answer was made for; IndexedDB is shared by every account in the browser
+  useUserKey?: boolean; // Whether the user's own key or the shared one paid for the answer
+}
+
+export interface CacheEntry {
+  key: string;
+  result: GenerateResult; // Stored without the raw provider response
+  createdAt: number;
+  expiresAt: number;
+}
+
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+  prune(maxEntries: number, now: number): Promise<void>; // Drops expired entries, then the oldest beyond maxEntries
+  clear(): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  store?: CacheStore; // Defaults to IndexedDB when available, otherwise memory
+  ttlMs?: number;
+  maxEntries?: number;
+  maxEntryBytes?: number; // Larger results are not cached
+}
+
+const defaultCacheOptions = {
+  ttlMs: 60 * 60 * 1000,
+  maxEntries: 500,
+  maxEntryBytes: 256 * 1024
+};
+
+/**
+ * Builds the cache key for a request
+ * Parameter order and undefined values do not affect the key
+ * @param fingerprint - Everything that determines the provider's answer
+ */
+export function createCacheKey(fingerprint: RequestFingerprint): string {
+  const normalized = stableStringify({
+    provider: fingerprint.provider,
+    model: fingerprint.model || '',
+    parameters: fingerprint.parameters || {},
+    input: fingerprint.input,
+    tools: fingerprint.tools,
+    responseSchema: fingerprint.responseSchema,
+    userId: fingerprint.userId,
+    useUserKey: fingerprint.useUserKey
+  });
+  return CryptoJS.SHA256(normalized).toString();
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(item => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, item]) => `${JSON.stringify(key)}:${stableStringify(item)}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export class ResponseCache {
+  private readonly store: CacheStore;
+  private readonly ttlMs: number;
+  private readonly maxEntries: number;
+  private readonly maxEntryBytes: number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.store = options.store || createDefaultCacheStore();
+    this.ttlMs = options.ttlMs ?? defaultCacheOptions.ttlMs;
+    this.maxEntries = options.maxEntries ?? defaultCacheOptions.maxEntries;
+    this.maxEntryBytes = options.maxEntryBytes ?? defaultCacheOptions.maxEntryBytes;
+  }
+
+  /**
+   * Returns the cached result for a key, marked as cached, or undefined on a miss
+   * Storage failures are treated as misses so the cache never breaks a request
+   */
+  async get(key: string): Promise<GenerateResult | undefined> {
+    try {
+      const entry = await this.store.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        await this.store.delete(key);
+        return undefined;
+      }
+
+      return { ...entry.result, cached: true, cachedAt: new Date(entry.createdAt).toISOString() };
+    } catch (error) {
+      logger.warn('Response cache read failed:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Stores a result unless it is empty or larger than the size limit
+   */
+  async set(key: string, result: GenerateResult): Promise<void> {
+    if (!result.text) return;
+
+    // The raw provider response can be large and is not needed to replay the result
+    const stored: GenerateResult = { ...result };
+    delete stored.raw;
+    delete stored.cached;
+    delete stored.cachedAt;
+    if (JSON.stringify(stored).length > this.maxEntryBytes) return;
+
+    const now = Date.now();
+    try {
+      await this.store.set({ key, result: stored, createdAt: now, expiresAt: now + this.ttlMs });
+      await this.store.prune(this.maxEntries, now);
+    } catch (error) {
+      logger.warn('Response cache write failed:', error);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+export class MemoryCacheStore implements CacheStore {
+  // Map iteration follows insertion order, so the first entries are the oldest
+  private readonly entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    return this.entries.get(key);
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+
+  async prune(maxEntries: number, now: number): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+    for (const key of this.entries.keys()) {
+      if (this.entries.size <= maxEntries) break;
+      this.entries.delete(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export class IndexedDBCacheStore implements CacheStore {
+  private database?: Promise<IDBDatabase>;
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const store = await this.objectStore('readonly');
+    return promisifyRequest<CacheEntry | undefined>(store.get(key));
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisifyRequest(store.put(entry));
+  }
+
+  async delete(key: string): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisifyRequest(store.delete(key));
+  }
+
+  async prune(maxEntries: number, now: number): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    let excess = (await promisifyRequest<number>(store.count())) - maxEntries;
+
+    // Walk entries oldest first, removing expired ones and any beyond the limit
+    await new Promise<void>((resolve, reject) => {
+      const request = store.index('createdAt').openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+
+        const entry = cursor.value as CacheEntry;
+        if (excess > 0 || entry.expiresAt <= now) {
+          cursor.delete();
+          excess--;
+        }
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async clear(): Promise<void> {
+    const store = await this.objectStore('readwrite');
+    await promisifyRequest(store.clear());
+  }
+
+  private async objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+          store.createIndex('createdAt', 'createdAt');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return this.database;
+  }
+}
+
+function promisifyRequest<T>(request: IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Picks IndexedDB in the browser and an in-memory store under Node
+ */
+export function createDefaultCacheStore(): CacheStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBCacheStore() : new MemoryCacheStore();
+}
+
+// Shared cache used by the services when a request opts in
+export const responseCache = new ResponseCache();
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { applyConversation, formatChatAsPrompt, getLatestUserPrompt, resolveChatConfiguration } from './chat';
+import { getProvider } from '../data/providers';
+import type { ChatMessage } from '../types';
+
+const conversation: ChatMessage[] = [
+  { role: 'system', content: 'You name coffee shops.' },
+  { role: 'user', content: 'One name, please.' },
+  { role: 'assistant', content: 'The Daily Grind' },
+  { role: 'user', content: 'Another?' }
+];
+
+function mapConversation(providerId: string, messages: ChatMessage[] = conversation) {
+  const { apiConfig } = getProvider(providerId)!;
+  return applyConversation(apiConfig.requestBodyStructure, apiConfig, messages);
+}
+
+describe('applyConversation', () => {
+  it('keeps system messages in the array for OpenAI', () => {
+    expect(mapConversation('openai').messages).toEqual([
+      { role: 'system', content: 'You name coffee shops.' },
+      { role: 'user', content: 'One name, please.' },
+      { role: 'assistant', content: 'The Daily Grind' },
+      { role: 'user', content: 'Another?' }
+    ]);
+  });
+
+  it('renames the assistant role to model and moves the system prompt for Gemini', () => {
+    const body = mapConversation('gemini');
+
+    expect(body.contents).toEqual([
+      { role: 'user', parts: [{ text: 'One name, please.' }] },
+      { role: 'model', parts: [{ text: 'The Daily Grind' }] },
+      { role: 'user', parts: [{ text: 'Another?' }] }
+    ]);
+    expect(body.systemInstruction).toEqual({ parts: [{ text: 'You name coffee shops.' }] });
+  });
+
+  it('sends the system prompt as the top-level system field for Claude', () => {
+    const body = mapConversation('claude', [{ role: 'system', content: 'Be brief.' }, { role: 'system', content: 'Be kind.' }, conversation[1]]);
+
+    expect(body.system).toBe('Be brief.\n\nBe kind.');
+    expect(body.messages).toEqual([{ role: 'user', content: 'One name, please.' }]);
+  });
+
+  it('writes content blocks and system[0].text for the Bedrock Converse API', () => {
+    const body = mapConversation('bedrock-llama');
+
+    expect(body.system).toEqual([{ text: 'You name coffee shops.' }]);
+    expect(body.messages).toEqual([
+      { role: 'user', content: [{ text: 'One name, please.' }] },
+      { role: 'assistant', content: [{ text: 'The Daily Grind' }] },
+      { role: 'user', content: [{ text: 'Another?' }] }
+    ]);
+    expect(body.inferenceConfig).toEqual({ maxTokens: 1000, temperature: 0.7 });
+  });
+
+  it('falls back to a transcript for providers without a chat mapping', () => {
+    const { apiConfig } = getProvider('ibm')!;
+    const body = applyConversation(apiConfig.requestBodyStructure, { ...apiConfig, chat: undefined }, conversation.slice(1, 3));
+
+    expect(body.input).toBe('User: One name, please.\n\nAssistant: The Daily Grind\n\nAssistant:');
+  });
+});
+
+describe('resolveChatConfiguration', () => {
+  it('infers a mapping from a message-style prompt path', () => {
+    expect(resolveChatConfiguration({
+      ...getProvider('openai')!.apiConfig,
+      chat: undefined
+    })).toEqual({ messagesJsonPath: 'messages', roleJsonPath: 'role', contentJsonPath: 'content' });
+  });
+});
+
+describe('chat helpers', () => {
+  it('formats transcripts and finds the latest user prompt', () => {
+    expect(formatChatAsPrompt([{ role: 'user', content: 'Hi' }])).toBe('User: Hi\n\nAssistant:');
+    expect(getLatestUserPrompt(conversation)).toBe('Another?');
+    expect(getLatestUserPrompt([{ role: 'system', content: 'Only a system prompt' }])).toBe('');
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Chat utilities for multi-turn conversations
+ * Maps provider-neutral chat messages into a request body using the
+ * ApiConfiguration chat mapping, or flattens them into a single prompt
+ * for providers that only accept plain text input
+ */
+
+import { getValueAtPath, setValueAtPath } from './jsonPathUtils';
+import { encodeMessages } from './tools';
+import { formatContentParts, validateAttachments } from './attachments';
+import type {
+  ApiConfiguration,
+  AttachmentConfiguration,
+  ChatConfiguration,
+  ChatMessage,
+  ChatRole,
+  ToolFormat
+} from '../types';
+
+export interface ChatEncodingOptions {
+  toolFormat?: ToolFormat; // Encoding for tool calls and results, when the provider supports tools
+  attachments?: AttachmentConfiguration; // Encoding for images and documents, when the provider accepts them
+}
+
+const transcriptLabels: Record<ChatRole, string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool'
+};
+
+/**
+ * Returns the chat mapping for a configuration, inferring one for message-style
+ * bodies (e.g. promptJsonPath 'messages[0].content' with a 'role' field)
+ * @param apiConfig - The provider's API configuration
+ */
+export function resolveChatConfiguration(apiConfig: ApiConfiguration): ChatConfiguration | undefined {
+  if (apiConfig.chat) {
+    return apiConfig.chat;
+  }
+
+  const match = apiConfig.promptJsonPath.match(/^(.+?)\[0\]\.(.+)$/);
+  if (!match) return undefined;
+
+  const [, messagesJsonPath, contentJsonPath] = match;
+  const template = getValueAtPath(apiConfig.requestBodyStructure, `${messagesJsonPath}[0]`);
+  if (!template || typeof template !== 'object' || !('role' in template)) {
+    return undefined;
+  }
+
+  return { messagesJsonPath, roleJsonPath: 'role', contentJsonPath };
+}
+
+/**
+ * Writes a conversation into a request body using a chat mapping
+ * The first entry of the existing messages array is used as the template for each message
+ * @param body - The request body to modify
+ * @param chat - How roles and content map into the body
+ * @param messages - The conversation, oldest first
+ * @param options - Encodings for tool messages and attachments
+ */
+export function applyChatMessages(
+  body: Record<string, unknown>,
+  chat: ChatConfiguration,
+  messages: ChatMessage[],
+  options: ChatEncodingOptions = {}
+): Record<string, unknown> {
+  let result = body;
+  let conversation = messages;
+
+  if (chat.systemJsonPath) {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    conversation = messages.filter(m => m.role !== 'system');
+    if (system) {
+      result = setValueAtPath(result, chat.systemJsonPath, system);
+    }
+  }
+
+  const template = getValueAtPath(result, `${chat.messagesJsonPath}[0]`) || {};
+  const { attachments } = options;
+  const entries = encodeMessages(conversation, options.toolFormat, message => {
+    const entry = setValueAtPath(template, chat.roleJsonPath, chat.roleNames?.[message.role] || message.role);
+    return attachments && message.attachments?.length
+      ? setValueAtPath(entry, attachments.partsJsonPath, formatContentParts(attachments.format, message))
+      : setValueAtPath(entry, chat.contentJsonPath, message.content);
+  });
+
+  return setValueAtPath(result, chat.messagesJsonPath, entries);
+}
+
+/**
+ * Flattens a conversation into a plain-text transcript ending with an assistant cue
+ * @param messages - The conversation, oldest first
+ */
+export function formatChatAsPrompt(messages: ChatMessage[]): string {
+  const lines = messages.map(m => `${transcriptLabels[m.role]}: ${m.content}`);
+  return [...lines, `${transcriptLabels.assistant}:`].join('\n\n');
+}
+
+/**
+ * Writes a conversation into a request body, falling back to a transcript at
+ * promptJsonPath when the provider has no chat mapping
+ * @param body - The request body to modify
+ * @param apiConfig - The provider's API configuration
+ * @param messages - The conversation, oldest first
+ */
+export function applyConversation(
+  body: Record<string, unknown>,
+  apiConfig: ApiConfiguration,
+  messages: ChatMessage[]
+): Record<string, unknown> {
+  validateAttachments(messages, apiConfig.attachments);
+
+  const chat = resolveChatConfiguration(apiConfig);
+  if (chat) {
+    return applyChatMessages(body, chat, messages, {
+      toolFormat: apiConfig.tools?.format,
+      attachments: apiConfig.attachments
+    });
+  }
+  return setValueAtPath(body, apiConfig.promptJsonPath, formatChatAsPrompt(messages));
+}
+
+/**
+ * Returns the content of the most recent user message, used where a single prompt is expected
+ * @param messages - The conversation, oldest first
+ */
+export function getLatestUserPrompt(messages: ChatMessage[]): string {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') return messages[i].content;
+  }
+  return '';
+}
@@ -0,0 +1,83 @@
+/**
+ * Node adapter for the core SDK
+ * Uses the built-in fetch (Node 18+), in-memory storage and API keys from environment
+ * variables, so scripts and workers can call providers without any browser globals
+ */
+
+import { MemoryStorage, configureEnvironment, createDefaultEnvironment } from '../environment';
+import { withMockProvider } from '../../mockProvider';
+import type { KeyValueStorage, Logger, SDKEnvironment } from '../environment';
+
+// The standard AWS SDK variables, shared by every Bedrock provider
+const awsKeyEnv: Record<string, string> = {
+  accessKeyId: 'AWS_ACCESS_KEY_ID',
+  secretAccessKey: 'AWS_SECRET_ACCESS_KEY',
+  sessionToken: 'AWS_SESSION_TOKEN',
+  region: 'AWS_REGION'
+};
+
+// Environment variables holding each provider's key data
+export const providerKeyEnv: Record<string, Record<string, string>> = {
+  openai: { apiKey: 'OPENAI_API_KEY' },
+  gemini: { apiKey: 'GEMINI_API_KEY' },
+  claude: { apiKey: 'ANTHROPIC_API_KEY' },
+  ibm: { apiKey: 'IBM_API_KEY', projectId: 'IBM_PROJECT_ID' },
+  cohere: { apiKey: 'COHERE_API_KEY' },
+  'bedrock-claude': awsKeyEnv,
+  'bedrock-llama': awsKeyEnv
+};
+
+export interface NodeEnvironmentOptions {
+  env?: Record<string, string | undefined>; // Defaults to process.env
+  keys?: Record<string, Record<string, string>>; // Key data per provider, checked before the environment variables
+  storage?: KeyValueStorage; // Defaults to in-memory storage
+  logger?: Logger; // Defaults to console
+  fetch?: typeof fetch; // Defaults to the global fetch; mock:// requests are still answered in-process
+}
+
+function getProcessEnv(): Record<string, string | undefined> {
+  const host = globalThis as { process?: { env?: Record<string, string | undefined> } };
+  return host.process?.env || {};
+}
+
+/**
+ * Creates a core environment for Node scripts and workers
+ * @param options - Keys, storage, logger and fetch overrides
+ */
+export function createNodeEnvironment(options: NodeEnvironmentOptions = {}): SDKEnvironment {
+  if (!options.fetch && typeof globalThis.fetch !== 'function') {
+    throw new Error('Global fetch is not available. Use Node 18 or later, or pass a fetch implementation.');
+  }
+
+  const env = options.env || getProcessEnv();
+
+  return {
+    ...createDefaultEnvironment(),
+    ...(options.fetch && { fetch: withMockProvider(options.fetch) }),
+    storage: options.storage || new MemoryStorage(),
+    logger: options.logger || console,
+    resolveKeys: provider => {
+      if (options.keys?.[provider]) return options.keys[provider];
+
+      const variables = providerKeyEnv[provider];
+      if (!variables) return undefined;
+
+      // The first field is the credential itself; without it the provider has no keys
+      const [credentialField] = Object.keys(variables);
+      const keyData: Record<string, string> = {};
+      for (const [field, variable] of Object.entries(variables)) {
+        const value = env[variable];
+        if (value) keyData[field] = value;
+      }
+      return keyData[credentialField] ? keyData : undefined;
+    }
+  };
+}
+
+/**
+ * Installs the Node adapter as the core environment
+ * @param options - Keys, storage, logger and fetch overrides
+ */
+export function installNodeEnvironment(options: NodeEnvironmentOptions = {}): void {
+  configureEnvironment(createNodeEnvironment(options));
+}
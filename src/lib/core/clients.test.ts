@@ -0,0 +1,207 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DataDrivenClient, FallbackClient } from './clients';
+import { configureEnvironment, createDefaultEnvironment } from './environment';
+import { providerHealth } from '../health';
+import { requestScheduler } from '../scheduler';
+import { textToStream } from '../streaming';
+import { getProvider } from '../../data/providers';
+import type { ModelShiftAIClient } from './clients';
+import type { StreamEvent } from '../streaming';
+
+const openai = getProvider('openai')!.apiConfig;
+
+// Answers every call with the same JSON body and status
+function mockFetch(status: number, body: unknown) {
+  const fetch = vi.fn(async () => new Response(JSON.stringify(body), { status }));
+  configureEnvironment({ fetch });
+  return fetch;
+}
+
+const queuedFor = (provider: string) => requestScheduler.getStatus().find(status => status.provider === provider)?.queued ?? 0;
+
+// Fetch that never answers and fails the way fetch does once the request's signal aborts
+function hangingFetch() {
+  const fetch = vi.fn<typeof globalThis.fetch>((_input, init) => new Promise<Response>((_resolve, reject) => {
+    init?.signal?.addEventListener('abort', () => reject(init.signal!.reason), { once: true });
+  }));
+  configureEnvironment({ fetch });
+  return fetch;
+}
+
+// Client that answers with the given text, or fails with the given error
+function stubClient(outcome: string | Error): ModelShiftAIClient {
+  const result = async () => {
+    if (outcome instanceof Error) throw outcome;
+    return { text: outcome };
+  };
+  const stream = (): AsyncIterable<StreamEvent> => outcome instanceof Error
+    ? { [Symbol.asyncIterator]: () => ({ next: () => Promise.reject(outcome) }) }
+    : textToStream(outcome);
+  return {
+    generate: async () => (await result()).text,
+    generateResult: vi.fn(result),
+    chat: async () => (await result()).text,
+    chatResult: vi.fn(result),
+    generateStream: stream,
+    chatStream: stream
+  };
+}
+
+const serverError = new Error('API Error: Server error (HTTP 503)');
+
+afterEach(() => {
+  requestScheduler.setLimits('openai', undefined);
+  providerHealth.reset();
+  configureEnvironment(createDefaultEnvironment());
+});
+
+describe('DataDrivenClient', () => {
+  it('reads text, usage and model from the configured paths', async () => {
+    mockFetch(200, {
+      model: 'gpt-4o-mini-2024-07-18',
+      choices: [{ message: { content: 'Fresh brews daily' }, finish_reason: 'stop' }],
+      usage: { prompt_tokens: 9, completion_tokens: 4, total_tokens: 13 }
+    });
+
+    const result = await new DataDrivenClient({ apiKey: 'sk-test' }, openai).generateResult('Write a tagline');
+
+    expect(result.text).toBe('Fresh brews daily');
+    expect(result.usage).toEqual({ promptTokens: 9, completionTokens: 4, totalTokens: 13 });
+    expect(result.finishReason).toBe('stop');
+    expect(result.model).toBe('gpt-4o-mini-2024-07-18');
+  });
+
+  it('reports the provider message found at errorJsonPath', async () => {
+    mockFetch(400, { error: { message: "The model 'gpt-9' does not exist" } });
+
+    await expect(new DataDrivenClient({ apiKey: 'sk-test' }, openai).generate('Hello'))
+      .rejects.toThrow("API Error: The model 'gpt-9' does not exist");
+  });
+
+  it('falls back to the status message when errorJsonPath matches nothing', async () => {
+    mockFetch(401, { detail: 'Unauthorized' });
+
+    await expect(new DataDrivenClient({ apiKey: 'sk-test' }, openai).generate('Hello'))
+      .rejects.toThrow('Authentication failed: Invalid API key or credentials (HTTP 401)');
+  });
+});
+
+describe('DataDrivenClient cancellation', () => {
+  const client = () => new DataDrivenClient({ apiKey: 'sk-test' }, openai, undefined, undefined, 'openai');
+
+  it('aborts the fetch of a request in flight', async () => {
+    const fetch = hangingFetch();
+    const controller = new AbortController();
+
+    const pending = client().generate('Hello', { signal: controller.signal });
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetch.mock.calls[0][1]?.signal?.aborted).toBe(true);
+  });
+
+  it('leaves the queue without calling the provider when aborted while waiting', async () => {
+    const fetch = hangingFetch();
+    requestScheduler.setLimits('openai', { maxConcurrent: 1 });
+    const first = new AbortController();
+    const queued = new AbortController();
+
+    const running = client().generate('First', { signal: first.signal });
+    const waiting = client().generate('Second', { signal: queued.signal });
+    await vi.waitFor(() => expect(queuedFor('openai')).toBe(1));
+    queued.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(queuedFor('openai')).toBe(0);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    first.abort();
+    await expect(running).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('never calls the provider when the signal is aborted before the request starts', async () => {
+    const fetch = hangingFetch();
+
+    await expect(client().generate('Hello', { signal: AbortSignal.abort() })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('FallbackClient', () => {
+  it('falls through to the next provider on provider errors and reports the skips', async () => {
+    const client = new FallbackClient([
+      { provider: 'openai', model: 'gpt-4o', client: stubClient(serverError) },
+      { provider: 'claude', client: stubClient(new Error('Rate limit exceeded (HTTP 429)')) },
+      { provider: 'gemini', client: stubClient('Fresh brews daily') }
+    ]);
+
+    const result = await client.generateResult('Write a tagline');
+
+    expect(result).toEqual({
+      text: 'Fresh brews daily',
+      provider: 'gemini',
+      fallbacks: [
+        { provider: 'openai', model: 'gpt-4o', reason: 'server_error', error: 'API Error: Server error (HTTP 503)' },
+        { provider: 'claude', model: undefined, reason: 'rate_limit', error: 'Rate limit exceeded (HTTP 429)' }
+      ]
+    });
+  });
+
+  it('rethrows errors that would fail on every provider', async () => {
+    const backup = stubClient('unused');
+    const client = new FallbackClient([
+      { provider: 'openai', client: stubClient(new Error("API Error: The model 'gpt-9' does not exist")) },
+      { provider: 'claude', client: backup }
+    ]);
+
+    await expect(client.generate('Hello')).rejects.toThrow("The model 'gpt-9' does not exist");
+    expect(backup.generateResult).not.toHaveBeenCalled();
+  });
+
+  it('skips a provider whose circuit is open without calling it', async () => {
+    for (let i = 0; i < 5; i++) providerHealth.recordFailure('openai', serverError, 100);
+    const primary = stubClient('unused');
+    const client = new FallbackClient([
+      { provider: 'openai', client: primary },
+      { provider: 'claude', client: stubClient('Fresh brews daily') }
+    ]);
+
+    const result = await client.chatResult([{ role: 'user', content: 'Write a tagline' }]);
+
+    expect(primary.chatResult).not.toHaveBeenCalled();
+    expect(result.provider).toBe('claude');
+    expect(result.fallbacks).toEqual([{
+      provider: 'openai',
+      model: undefined,
+      reason: 'circuit_open',
+      error: 'Circuit open after 5 consecutive failures: API Error: Server error (HTTP 503)'
+    }]);
+  });
+
+  it('lists every provider when all of them fail', async () => {
+    const client = new FallbackClient([
+      { provider: 'openai', client: stubClient(serverError) },
+      { provider: 'claude', client: stubClient(new Error('Authentication failed: Invalid API key or credentials (HTTP 401)')) }
+    ]);
+
+    await expect(client.generate('Hello')).rejects.toThrow(
+      'All providers failed. openai (server_error): API Error: Server error (HTTP 503); ' +
+      'claude (auth): Authentication failed: Invalid API key or credentials (HTTP 401)'
+    );
+  });
+
+  it('moves a stream to the next provider before any text arrives', async () => {
+    const client = new FallbackClient([
+      { provider: 'openai', client: stubClient(serverError) },
+      { provider: 'claude', client: stubClient('Fresh brews daily') }
+    ]);
+
+    const text: string[] = [];
+    for await (const event of client.generateStream('Write a tagline')) {
+      if (event.type === 'delta') text.push(event.text);
+    }
+
+    expect(text.join('')).toBe('Fresh brews daily');
+  });
+});
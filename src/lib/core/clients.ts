@@ -0,0 +1,1061 @@
+/**
+ * Core provider clients
+ * Direct, data-driven, fallback and caching clients that run anywhere the core
+ * environment is configured; nothing here depends on the browser or Supabase
+ */
+
+import { setValueAtPath, getStringAtPath, mergeAtPath } from '../jsonPathUtils';
+import { sanitizeHeaders } from '../headerSanitizer';
+import { readProviderStream, textToStream } from '../streaming';
+import { applyConversation, formatChatAsPrompt } from '../chat';
+import { parseGenerateResult, parseResponseDetails } from '../usage';
+import { fetchWithRetry } from '../retry';
+import { createCacheKey, responseCache } from '../cache';
+import { applyToolDefinitions, parseToolCalls } from '../tools';
+import { applyResponseSchema } from '../structured';
+import { validateAttachments } from '../attachments';
+import { clientMiddleware } from '../middleware';
+import { countInputTokens, enforceContextWindow, getMaxOutputTokens } from '../tokens';
+import { keyFingerprint, requestScheduler } from '../scheduler';
+import { classifyProviderError, providerHealth } from '../health';
+import { buildAuthHeaders, isLocalUrl, resolveBaseUrl } from '../openaiCompatible';
+import { renderTemplate, renderTemplates } from '../templates';
+import { authenticate, invalidateAuth } from '../auth';
+import { getEnvironment, logger } from './environment';
+import { getProvider, requiresKeys } from '../../data/providers';
+import type { RequestFingerprint, ResponseCache } from '../cache';
+import type { StreamEvent } from '../streaming';
+import type { RetryResult } from '../retry';
+import type { RequestSlot } from '../scheduler';
+import type { SignableRequest } from '../sigv4';
+import type {
+  ApiConfiguration,
+  AttachmentConfiguration,
+  ChatMessage,
+  FallbackReason,
+  FallbackSkip,
+  GenerateResult,
+  MiddlewareRequest,
+  Provider,
+  RateLimits,
+  RequestOptions,
+  RetryPolicy,
+  StreamFormat,
+  StructuredOutputConfiguration,
+  ToolConfiguration
+} from '../../types';
+
+export interface ModelShiftAIClient {
+  generate(prompt: string, options?: RequestOptions): Promise<string>;
+  generateResult(prompt: string, options?: RequestOptions): Promise<GenerateResult>; // Text plus usage, finish reason and raw response
+  generateStream(prompt: string, options?: RequestOptions): AsyncIterable<StreamEvent>;
+  chat(messages: ChatMessage[], options?: RequestOptions): Promise<string>;
+  chatResult(messages: ChatMessage[], options?: RequestOptions): Promise<GenerateResult>;
+  chatStream(messages: ChatMessage[], options?: RequestOptions): AsyncIterable<StreamEvent>;
+}
+
+export interface ProviderConfig {
+  provider?: string; // Provider id, reported to middleware
+  endpoint: string;
+  buildRequestBody: (prompt: string, keyData: Record<string, string>) => object;
+  buildChatRequestBody?: (messages: ChatMessage[], keyData: Record<string, string>) => object; // Defaults to a transcript passed as the prompt
+  parseResponse: (response: unknown) => string;
+  parseDetails?: (response: unknown) => Omit<GenerateResult, 'text' | 'raw'>; // Usage, finish reason and model
+  buildHeaders?: (keyData: Record<string, string>) => Record<string, string>;
+  authenticate?: ( // Auth headers computed as the request is sent, e.g. an exchanged token or a signature
+    keyData: Record<string, string>,
+    request: SignableRequest,
+    signal?: AbortSignal
+  ) => Promise<Record<string, string>>;
+  invalidateAuth?: (keyData: Record<string, string>) => void; // Drops cached credentials after the provider rejected them
+  buildEndpoint?: (keyData: Record<string, string>) => string;
+  defaultModel?: string;
+  defaultParameters?: Record<string, unknown>;
+  contextWindow?: number; // Overrides the built-in context window table for the model
+  retry?: Partial<RetryPolicy>; // Overrides for the default retry policy
+  rateLimits?: RateLimits; // Per-key limits the request scheduler enforces
+  tools?: ToolConfiguration; // Where tool definitions and calls go; omitted when the provider has no tool support
+  structuredOutput?: StructuredOutputConfiguration; // Native JSON mode; omitted when the provider has none
+  attachments?: AttachmentConfiguration; // Image and document input; omitted when the provider accepts text only
+  stream?: {
+    format: StreamFormat;
+    bodyOverrides?: Record<string, unknown>; // Merged into the regular request body
+    buildEndpoint?: (keyData: Record<string, string>) => string; // Defaults to the regular endpoint
+  };
+}
+
+// Appends the API key as a URL parameter for providers that expect it there (e.g., Gemini)
+function appendApiKeyParam(endpoint: string, apiConfig: ApiConfiguration, keyData: Record<string, string>): string {
+  if (apiConfig.apiKeyInUrlParam && apiConfig.urlParamName) {
+    const separator = endpoint.includes('?') ? '&' : '?';
+    return `${endpoint}${separator}${apiConfig.urlParamName}=${keyData.apiKey}`;
+  }
+  return endpoint;
+}
+
+// Builds a request URL, filling {{keyData.x}} and {{model}} placeholders before the key is appended
+function buildProviderEndpoint(
+  apiConfig: ApiConfiguration,
+  endpointPath: string,
+  keyData: Record<string, string>,
+  model?: string
+): string {
+  const endpoint = renderTemplate(resolveBaseUrl(apiConfig, keyData) + endpointPath, { keyData, model });
+  return appendApiKeyParam(endpoint, apiConfig, keyData);
+}
+
+// Explains a failed fetch to a self-hosted server, which needs no proxy but must be running and allow this origin
+function localServerError(endpoint: string): Error | undefined {
+  if (!isLocalUrl(endpoint)) return undefined;
+  return new Error(
+    `Could not reach the server at ${new URL(endpoint).origin}. Check that it is running and accepts requests from this origin ` +
+    '(OLLAMA_ORIGINS for Ollama, --allowed-origins for vLLM, or the CORS setting in LM Studio).'
+  );
+}
+
+// Builds a ConfigurableClient config from a provider's data-driven API configuration
+export function createProviderConfig(
+  provider: Provider,
+  customModel?: string,
+  customParameters?: Record<string, unknown>
+): ProviderConfig {
+  const { apiConfig } = provider;
+  const model = customModel || apiConfig.defaultModel;
+
+  const buildBody = (input: string | ChatMessage[], keyData: Record<string, string>) => {
+    // Placeholders are filled before the prompt is set so prompt text is never treated as a template
+    let body = renderTemplates(apiConfig.requestBodyStructure, { keyData, model });
+    
+    // Set the prompt using the promptJsonPath, or the whole conversation using the chat mapping
+    body = typeof input === 'string'
+      ? setValueAtPath(body, apiConfig.promptJsonPath, input)
+      : applyConversation(body, apiConfig, input);
+    
+    // Set model if provided
+    if (customModel && apiConfig.modelJsonPath) {
+      body = setValueAtPath(body, apiConfig.modelJsonPath, customModel);
+    }
+
+    // Set project ID if required (IBM specific)
+    if (apiConfig.projectIdJsonPath && keyData.projectId) {
+      body = setValueAtPath(body, apiConfig.projectIdJsonPath, keyData.projectId);
+    }
+    
+    // Set parameters if provided
+    if (customParameters) {
+      if (apiConfig.parametersJsonPath) {
+        body = mergeAtPath(body, apiConfig.parametersJsonPath, customParameters);
+      } else {
+        // If no specific path, merge at root level
+        body = { ...body, ...customParameters };
+      }
+    }
+    
+    return body;
+  };
+
+  return {
+    provider: provider.id,
+    endpoint: apiConfig.baseUrl + apiConfig.endpointPath,
+    buildRequestBody: (prompt: string, keyData: Record<string, string>) => buildBody(prompt, keyData),
+    buildChatRequestBody: (messages: ChatMessage[], keyData: Record<string, string>) => buildBody(messages, keyData),
+    parseResponse: (response: unknown) => {
+      return getStringAtPath(response, apiConfig.responseJsonPath) || '';
+    },
+    parseDetails: (response: unknown) => parseResponseDetails(response, apiConfig),
+    defaultModel: model,
+    defaultParameters: { ...apiConfig.defaultParameters, ...customParameters },
+    contextWindow: apiConfig.contextWindow,
+    retry: apiConfig.retry,
+    rateLimits: apiConfig.rateLimits,
+    tools: apiConfig.tools,
+    structuredOutput: apiConfig.structuredOutput,
+    attachments: apiConfig.attachments,
+    buildHeaders: (keyData: Record<string, string>) => {
+      const headers = { ...renderTemplates(apiConfig.headers, { keyData, model }), ...buildAuthHeaders(apiConfig, keyData) };
+      
+      // Sanitize headers to ensure they only contain valid characters
+      return sanitizeHeaders(headers);
+    },
+    ...(apiConfig.auth && {
+      authenticate: (keyData: Record<string, string>, request: SignableRequest, signal?: AbortSignal) =>
+        authenticate(apiConfig, keyData, request, signal),
+      invalidateAuth: (keyData: Record<string, string>) => invalidateAuth(apiConfig, keyData)
+    }),
+    buildEndpoint: (keyData: Record<string, string>) => {
+      return buildProviderEndpoint(apiConfig, apiConfig.endpointPath, keyData, model);
+    },
+    stream: apiConfig.streaming && {
+      format: apiConfig.streaming.format,
+      bodyOverrides: apiConfig.streaming.bodyOverrides,
+      buildEndpoint: (keyData: Record<string, string>) => {
+        const path = apiConfig.streaming?.endpointPath || apiConfig.endpointPath;
+        return buildProviderEndpoint(apiConfig, path, keyData, model);
+      }
+    }
+  };
+}
+
+export interface CreateClientOptions {
+  keyData?: Record<string, string>; // Defaults to the keys returned by the environment's key resolver
+  model?: string;
+  parameters?: Record<string, unknown>;
+}
+
+/**
+ * Creates a client that calls a catalog provider directly
+ * @param providerId - Provider id from the provider catalog (e.g., 'openai', 'claude')
+ * @param options - Keys, model and parameters
+ */
+export function createClient(providerId: string, options: CreateClientOptions = {}): ConfigurableClient {
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw new Error(`Provider '${providerId}' not found in configuration`);
+  }
+
+  // Providers without required keys, such as the mock provider or a local server, work without them
+  const keyData = options.keyData || getEnvironment().resolveKeys(providerId) ||
+    (requiresKeys(provider) ? undefined : {});
+  if (!keyData) {
+    throw new Error(`No API key found for ${provider.displayName}. Pass keyData or configure a key resolver.`);
+  }
+
+  return new ConfigurableClient(keyData, createProviderConfig(provider, options.model, options.parameters));
+}
+
+// Applies tool definitions to a request body, failing when the provider has no tool mapping
+function applyRequestTools<T>(body: T, toolConfig: ToolConfiguration | undefined, options: RequestOptions): T {
+  if (!options.tools?.length) return body;
+  if (!toolConfig) {
+    throw new Error('Tool calling is not supported by this provider configuration');
+  }
+  return applyToolDefinitions(body, toolConfig, options.tools);
+}
+
+// Requests native JSON mode when the provider has one; callers such as generateObject
+// also describe the schema in the prompt, so providers without it are left unchanged
+function applyRequestSchema<T>(body: T, config: StructuredOutputConfiguration | undefined, options: RequestOptions): T {
+  return options.responseSchema && config ? applyResponseSchema(body, config, options.responseSchema) : body;
+}
+
+// Streams deliver text only, so tool calls would be lost
+function assertStreamWithoutTools(options: RequestOptions): void {
+  if (options.tools?.length) {
+    throw new Error('Tool calling is not supported for streaming requests; use generateResult or chatResult instead');
+  }
+}
+
+// Waits for room in the provider's rate limits; the estimate covers the prompt and the requested output
+function acquireSlot(
+  provider: string,
+  keyData: Record<string, string>,
+  limits: RateLimits | undefined,
+  input: string | ChatMessage[],
+  model: string | undefined,
+  parameters: Record<string, unknown> | undefined,
+  options: RequestOptions
+): Promise<RequestSlot> {
+  return requestScheduler.acquire({
+    provider,
+    keyId: keyFingerprint(keyData),
+    limits,
+    tokens: countInputTokens(input, model, provider) + getMaxOutputTokens(parameters),
+    priority: options.priority,
+    signal: options.signal,
+    onQueuePosition: options.onQueuePosition
+  });
+}
+
+// Sends a request through the client middleware; stream bodies are left unread for the caller
+async function sendThroughMiddleware(
+  request: MiddlewareRequest,
+  options: RequestOptions,
+  send: (request: MiddlewareRequest) => Promise<RetryResult>
+): Promise<{ response: Response; json: unknown; attempts: number }> {
+  const sent: { response?: Response } = {};
+  const result = await clientMiddleware.execute(request, async finalRequest => {
+    const { response, attempts } = await send(finalRequest);
+    sent.response = response;
+    return { status: response.status, body: request.stream ? undefined : await response.json(), attempts };
+  }, options.middleware);
+
+  return { response: sent.response as Response, json: result.body, attempts: result.attempts ?? 1 };
+}
+
+// Enhanced ConfigurableClient with better CORS handling
+export class ConfigurableClient implements ModelShiftAIClient {
+  constructor(private readonly keyData: Record<string, string>, private readonly config: ProviderConfig) {}
+
+  async generate(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return (await this.generateResult(prompt, options)).text || 'No response';
+  }
+
+  async generateResult(prompt: string, options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(prompt, options);
+  }
+
+  async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    return (await this.chatResult(messages, options)).text || 'No response';
+  }
+
+  async chatResult(messages: ChatMessage[], options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(messages, options);
+  }
+
+  async *generateStream(prompt: string, options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(prompt, options);
+  }
+
+  async *chatStream(messages: ChatMessage[], options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(messages, options);
+  }
+
+  private async complete(input: string | ChatMessage[], options: RequestOptions): Promise<GenerateResult> {
+    logger.log('Using ConfigurableClient for direct API calls');
+    
+    let slot: RequestSlot | undefined;
+    try {
+      this.checkRequestSize(input, options);
+      slot = await this.acquireSlot(input, options);
+      const providerUrl = this.getEndpoint();
+      const endpoint = getEnvironment().resolveUrl(providerUrl);
+      const body = applyRequestSchema(
+        applyRequestTools(this.buildBody(input), this.config.tools, options),
+        this.config.structuredOutput,
+        options
+      );
+
+      const { json, attempts } = await sendThroughMiddleware(
+        { client: 'ConfigurableClient', provider: this.config.provider, endpoint, headers: this.buildHeaders(), body, stream: false },
+        options,
+        request => this.sendRequest(request.endpoint, request.headers, request.body, providerUrl, options.signal)
+      );
+      const toolCalls = this.config.tools ? parseToolCalls(json, this.config.tools) : [];
+      const result: GenerateResult = {
+        text: this.config.parseResponse(json) || '',
+        ...this.config.parseDetails?.(json),
+        ...(toolCalls.length > 0 && { toolCalls }),
+        attempts,
+        raw: json
+      };
+      slot.release(result.usage?.totalTokens);
+      return result;
+    } catch (error) {
+      logger.error('Error during generate():', error);
+      throw this.translateError(error);
+    } finally {
+      slot?.release();
+    }
+  }
+
+  private async *stream(input: string | ChatMessage[], options: RequestOptions): AsyncGenerator<StreamEvent> {
+    assertStreamWithoutTools(options);
+    const streamConfig = this.config.stream;
+    if (!streamConfig) {
+      // Provider has no streaming endpoint, so deliver the full response as one chunk
+      const result = await this.complete(input, options);
+      yield* textToStream(result.text, result);
+      return;
+    }
+
+    logger.log('Using ConfigurableClient for streaming API calls');
+
+    let slot: RequestSlot | undefined;
+    try {
+      this.checkRequestSize(input, options);
+      slot = await this.acquireSlot(input, options);
+      const originalEndpoint = streamConfig.buildEndpoint
+        ? streamConfig.buildEndpoint(this.keyData)
+        : this.getEndpoint();
+      const endpoint = getEnvironment().resolveUrl(originalEndpoint);
+      const body = { ...applyRequestSchema(this.buildBody(input), this.config.structuredOutput, options), ...streamConfig.bodyOverrides };
+
+      const { response } = await sendThroughMiddleware(
+        { client: 'ConfigurableClient', provider: this.config.provider, endpoint, headers: this.buildHeaders(), body, stream: true },
+        options,
+        request => this.sendRequest(request.endpoint, request.headers, request.body, originalEndpoint, options.signal)
+      );
+      yield* readProviderStream(response, streamConfig.format);
+    } catch (error) {
+      logger.error('Error during generateStream():', error);
+      throw this.translateError(error);
+    } finally {
+      slot?.release();
+    }
+  }
+
+  // providerUrl is the endpoint before any development proxy rewrite, which signatures cover
+  private async sendRequest(
+    endpoint: string,
+    requestHeaders: Record<string, string>,
+    body: object,
+    providerUrl: string,
+    signal?: AbortSignal
+  ): Promise<RetryResult> {
+    // Middleware may have added headers, so sanitize again
+    const payload = JSON.stringify(body);
+    const headers = await this.authenticate(sanitizeHeaders(requestHeaders), providerUrl, payload, signal);
+
+    logger.log(`Making request to: ${endpoint}`);
+    logger.log('Request headers:', headers);
+
+    // Enhanced error handling for WebContainer/CORS issues
+    // A repeated generation is billed again, so server errors are only retried when the
+    // policy or an Idempotency-Key header allows it; rate limits are always retried
+    const { response, attempts } = await fetchWithRetry(endpoint, {
+      method: 'POST',
+      headers: headers,
+      body: payload,
+      mode: 'cors', // Explicitly set CORS mode
+      credentials: 'omit', // Don't send credentials for external APIs
+      signal
+    }, {
+      policy: this.config.retry,
+      onRetry: (attempt, delayMs, reason) =>
+        logger.warn(`Request attempt ${attempt} failed (${reason}), retrying in ${delayMs}ms`)
+    });
+
+    if (!response.ok) {
+      let errorText = '';
+      let errorDetails: unknown = null;
+      
+      try {
+        errorText = await response.text();
+        // Try to parse as JSON to get structured error
+        if (errorText.trim().startsWith('{')) {
+          errorDetails = JSON.parse(errorText);
+        }
+      } catch {
+        // If we can't parse the error, use the raw text
+        errorText = errorText || `HTTP ${response.status}`;
+      }
+
+      logger.error(`API request failed: ${response.status} ${errorText}`);
+      
+      // Enhanced error messages for common issues
+      if (response.status === 401) {
+        this.config.invalidateAuth?.(this.keyData);
+        const providerMessage = getStringAtPath(errorDetails, 'error.message');
+        if (providerMessage) {
+          throw new Error(`Authentication failed: ${providerMessage}`);
+        } else {
+          throw new Error(`Authentication failed: Invalid API key or credentials (HTTP ${response.status})`);
+        }
+      } else if (response.status === 403) {
+        throw new Error(`Access forbidden: Check your API key permissions (HTTP ${response.status})`);
+      } else if (response.status === 429) {
+        throw new Error(`Rate limit exceeded: Too many requests (HTTP ${response.status}, ${attempts} attempt${attempts === 1 ? '' : 's'})`);
+      } else if (response.status >= 500) {
+        throw new Error(`Server error: The API service is temporarily unavailable (HTTP ${response.status}, ${attempts} attempt${attempts === 1 ? '' : 's'})`);
+      } else {
+        const errorMessage = getStringAtPath(errorDetails, 'error.message') || getStringAtPath(errorDetails, 'message') || errorText || 'Unknown error';
+        throw new Error(`API request failed: ${errorMessage} (HTTP ${response.status})`);
+      }
+    }
+
+    return { response, attempts };
+  }
+
+  private translateError(error: unknown): unknown {
+    // Enhanced error handling for different types of network issues
+    if (error instanceof TypeError) {
+      if (error.message === 'Failed to fetch') {
+        const localError = localServerError(this.getEndpoint());
+        if (localError) {
+          return localError;
+        } else if (getEnvironment().isDevelopment()) {
+          return new Error(
+            'Network request failed. This is likely due to CORS restrictions. ' +
+            'The development proxy should handle this automatically. ' +
+            'Please ensure the Vite development server is running correctly. ' +
+            'If the issue persists, try restarting the development server.'
+          );
+        } else {
+          return new Error(
+            'Network request failed. This may be due to CORS restrictions or network connectivity issues. ' +
+            'In a production environment, you would need to either:\n' +
+            '1. Use a backend proxy to make API calls\n' +
+            '2. Configure CORS headers on your server\n' +
+            '3. Use the provider\'s official SDK with proper authentication'
+          );
+        }
+      }
+      if (error.message.includes('NetworkError')) {
+        return new Error(
+          'Network error occurred. Please check your internet connection and try again.'
+        );
+      }
+      if (error.message.includes('Failed to execute \'fetch\'') && error.message.includes('headers')) {
+        return new Error(
+          'Invalid header value detected. Please ensure your API keys and headers contain only valid ASCII characters. ' +
+          'If you\'re using a copied API key, try manually typing it to avoid invisible Unicode characters.'
+        );
+      }
+    }
+    
+    // Return other errors as-is (including our enhanced API errors)
+    return error;
+  }
+
+  private buildBody(input: string | ChatMessage[]): object {
+    return typeof input === 'string'
+      ? this.config.buildRequestBody(input, this.keyData)
+      : this.buildChatRequestBody(input);
+  }
+
+  // Warns about or rejects prompts that would not fit the model's context window
+  private checkRequestSize(input: string | ChatMessage[], options: RequestOptions): void {
+    enforceContextWindow(input, {
+      model: this.config.defaultModel,
+      provider: this.config.provider,
+      parameters: this.config.defaultParameters,
+      contextWindow: this.config.contextWindow
+    }, options.contextWindowCheck);
+  }
+
+  private acquireSlot(input: string | ChatMessage[], options: RequestOptions): Promise<RequestSlot> {
+    return acquireSlot(
+      this.config.provider || this.config.endpoint,
+      this.keyData,
+      this.config.rateLimits,
+      input,
+      this.config.defaultModel,
+      this.config.defaultParameters,
+      options
+    );
+  }
+
+  private buildChatRequestBody(messages: ChatMessage[]): object {
+    validateAttachments(messages, this.config.attachments);
+
+    if (this.config.buildChatRequestBody) {
+      return this.config.buildChatRequestBody(messages, this.keyData);
+    }
+    // Providers without a chat format receive the conversation as a transcript
+    return this.config.buildRequestBody(formatChatAsPrompt(messages), this.keyData);
+  }
+
+  private getEndpoint(): string {
+    if (this.config.buildEndpoint) {
+      return this.config.buildEndpoint(this.keyData);
+    }
+    return this.config.endpoint;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    let headers: Record<string, string>;
+    
+    if (this.config.buildHeaders) {
+      headers = this.config.buildHeaders(this.keyData);
+    } else {
+      headers = {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.keyData.apiKey}`
+      };
+    }
+    
+    // Sanitize headers to ensure they only contain valid characters
+    return sanitizeHeaders(headers);
+  }
+
+  // Adds the provider's auth strategy headers once middleware has settled the request
+  private async authenticate(
+    headers: Record<string, string>,
+    url: string,
+    body: string,
+    signal?: AbortSignal
+  ): Promise<Record<string, string>> {
+    if (!this.config.authenticate) return headers;
+    const authHeaders = await this.config.authenticate(this.keyData, { method: 'POST', url, headers, body }, signal);
+    return { ...headers, ...sanitizeHeaders(authHeaders) };
+  }
+}
+
+// Data-Driven Configurable Client with enhanced CORS handling
+export class DataDrivenClient implements ModelShiftAIClient {
+  constructor(
+    private readonly keyData: Record<string, string>, 
+    private readonly apiConfig: ApiConfiguration,
+    private readonly customModel?: string,
+    private readonly customParameters?: Record<string, unknown>,
+    private readonly providerId?: string // Catalog id; configurations without one are identified by their base URL
+  ) {}
+
+  async generate(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return (await this.complete(prompt, options)).text || 'No response';
+  }
+
+  async generateResult(prompt: string, options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(prompt, options);
+  }
+
+  async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    return (await this.complete(messages, options)).text || 'No response';
+  }
+
+  async chatResult(messages: ChatMessage[], options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(messages, options);
+  }
+
+  async *generateStream(prompt: string, options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(prompt, options);
+  }
+
+  async *chatStream(messages: ChatMessage[], options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(messages, options);
+  }
+
+  private async complete(input: string | ChatMessage[], options: RequestOptions): Promise<GenerateResult> {
+    logger.log('Using DataDrivenClient for direct API calls');
+    
+    let slot: RequestSlot | undefined;
+    try {
+      this.checkRequestSize(input, options);
+      slot = await this.acquireSlot(input, options);
+      const providerUrl = this.buildEndpoint();
+      const endpoint = getEnvironment().resolveUrl(providerUrl);
+      const body = applyRequestSchema(
+        applyRequestTools(this.buildRequestBody(input), this.apiConfig.tools, options),
+        this.apiConfig.structuredOutput,
+        options
+      );
+
+      const { json, attempts } = await sendThroughMiddleware(
+        { client: 'DataDrivenClient', provider: this.providerId, endpoint, headers: this.buildHeaders(), body, stream: false },
+        options,
+        request => this.sendRequest(request.endpoint, request.headers, request.body, providerUrl, options.signal)
+      );
+      const toolCalls = this.apiConfig.tools ? parseToolCalls(json, this.apiConfig.tools) : [];
+      const result: GenerateResult = { ...parseGenerateResult(json, this.apiConfig), ...(toolCalls.length > 0 && { toolCalls }), attempts };
+      slot.release(result.usage?.totalTokens);
+      return result;
+    } catch (error) {
+      logger.error('Error during generate():', error);
+      throw this.translateError(error);
+    } finally {
+      slot?.release();
+    }
+  }
+
+  private async *stream(input: string | ChatMessage[], options: RequestOptions): AsyncGenerator<StreamEvent> {
+    assertStreamWithoutTools(options);
+    const streaming = this.apiConfig.streaming;
+    if (!streaming) {
+      // Configuration has no streaming support, so deliver the full response as one chunk
+      const result = await this.complete(input, options);
+      yield* textToStream(result.text, result);
+      return;
+    }
+
+    logger.log('Using DataDrivenClient for streaming API calls');
+
+    let slot: RequestSlot | undefined;
+    try {
+      this.checkRequestSize(input, options);
+      slot = await this.acquireSlot(input, options);
+      const providerUrl = this.buildEndpoint(streaming.endpointPath);
+      const endpoint = getEnvironment().resolveUrl(providerUrl);
+      const body = {
+        ...applyRequestSchema(this.buildRequestBody(input), this.apiConfig.structuredOutput, options),
+        ...streaming.bodyOverrides
+      };
+
+      const { response } = await sendThroughMiddleware(
+        { client: 'DataDrivenClient', provider: this.providerId, endpoint, headers: this.buildHeaders(), body, stream: true },
+        options,
+        request => this.sendRequest(request.endpoint, request.headers, request.body, providerUrl, options.signal)
+      );
+      yield* readProviderStream(response, streaming.format);
+    } catch (error) {
+      logger.error('Error during generateStream():', error);
+      throw this.translateError(error);
+    } finally {
+      slot?.release();
+    }
+  }
+
+  // providerUrl is the endpoint before any development proxy rewrite, which signatures cover
+  private async sendRequest(
+    endpoint: string,
+    requestHeaders: Record<string, string>,
+    body: object,
+    providerUrl: string,
+    signal?: AbortSignal
+  ): Promise<RetryResult> {
+    // Middleware may have added headers, so sanitize again, then add the auth strategy's headers
+    const payload = JSON.stringify(body);
+    const headers = sanitizeHeaders(requestHeaders);
+    Object.assign(headers, sanitizeHeaders(await authenticate(
+      this.apiConfig,
+      this.keyData,
+      { method: this.apiConfig.method, url: providerUrl, headers, body: payload },
+      signal
+    )));
+
+    logger.log(`Making request to: ${endpoint}`);
+
+    const { response, attempts } = await fetchWithRetry(endpoint, {
+      method: this.apiConfig.method,
+      headers: headers,
+      body: payload,
+      mode: 'cors',
+      credentials: 'omit',
+      signal
+    }, {
+      policy: this.apiConfig.retry,
+      onRetry: (attempt, delayMs, reason) =>
+        logger.warn(`Request attempt ${attempt} failed (${reason}), retrying in ${delayMs}ms`)
+    });
+
+    if (!response.ok) {
+      let errorText = '';
+      let errorDetails: unknown = null;
+      
+      try {
+        errorText = await response.text();
+        if (errorText.trim().startsWith('{')) {
+          errorDetails = JSON.parse(errorText);
+        }
+      } catch {
+        errorText = errorText || `HTTP ${response.status}`;
+      }
+
+      logger.error(`API request failed: ${response.status} ${errorText}`);
+
+      // Rejected credentials are dropped whichever message is reported
+      if (response.status === 401) {
+        invalidateAuth(this.apiConfig, this.keyData);
+      }
+      
+      // Try to parse error from response if errorJsonPath is provided
+      let configuredMessage: string | undefined;
+      if (this.apiConfig.errorJsonPath && errorDetails) {
+        try {
+          configuredMessage = getStringAtPath(errorDetails, this.apiConfig.errorJsonPath);
+        } catch {
+          // Fall back to generic error if the path cannot be read
+        }
+      }
+      if (configuredMessage) {
+        throw new Error(`API Error: ${configuredMessage}`);
+      }
+      
+      // Enhanced error messages
+      if (response.status === 401) {
+        throw new Error(`Authentication failed: Invalid API key or credentials (HTTP ${response.status})`);
+      } else if (response.status === 403) {
+        throw new Error(`Access forbidden: Check your API key permissions (HTTP ${response.status})`);
+      } else if (response.status === 429) {
+        throw new Error(`Rate limit exceeded: Too many requests (HTTP ${response.status}, ${attempts} attempt${attempts === 1 ? '' : 's'})`);
+      } else if (response.status >= 500) {
+        throw new Error(`Server error: The API service is temporarily unavailable (HTTP ${response.status}, ${attempts} attempt${attempts === 1 ? '' : 's'})`);
+      } else {
+        const errorMessage = getStringAtPath(errorDetails, 'error.message') || getStringAtPath(errorDetails, 'message') || errorText || 'Unknown error';
+        throw new Error(`API request failed: ${errorMessage} (HTTP ${response.status})`);
+      }
+    }
+
+    return { response, attempts };
+  }
+
+  private translateError(error: unknown): unknown {
+    if (error instanceof TypeError) {
+      if (error.message === 'Failed to fetch') {
+        const localError = localServerError(this.buildEndpoint());
+        if (localError) {
+          return localError;
+        } else if (getEnvironment().isDevelopment()) {
+          return new Error(
+            'Network request failed. This is likely due to CORS restrictions. ' +
+            'The development proxy should handle this automatically. ' +
+            'Please ensure the Vite development server is running correctly.'
+          );
+        } else {
+          return new Error(
+            'Network request failed. This may be due to CORS restrictions in the development environment. ' +
+            'In a production environment, you would need to either:\n' +
+            '1. Use a backend proxy to make API calls\n' +
+            '2. Configure CORS headers on your server\n' +
+            '3. Use the provider\'s official SDK with proper authentication'
+          );
+        }
+      }
+      if (error.message.includes('Failed to execute \'fetch\'') && error.message.includes('headers')) {
+        return new Error(
+          'Invalid header value detected. Please ensure your API keys and headers contain only valid ASCII characters. ' +
+          'If you\'re using a copied API key, try manually typing it to avoid invisible Unicode characters.'
+        );
+      }
+    }
+    
+    return error;
+  }
+
+  private buildEndpoint(endpointPath: string = this.apiConfig.endpointPath): string {
+    return buildProviderEndpoint(this.apiConfig, endpointPath, this.keyData, this.customModel || this.apiConfig.defaultModel);
+  }
+
+  private buildHeaders(): Record<string, string> {
+    // Add authentication header if not using URL parameter; auth strategies add theirs when the request is sent
+    const headers = {
+      ...renderTemplates(this.apiConfig.headers, { keyData: this.keyData, model: this.customModel || this.apiConfig.defaultModel }),
+      ...buildAuthHeaders(this.apiConfig, this.keyData)
+    };
+    
+    // Sanitize headers to ensure they only contain valid characters
+    return sanitizeHeaders(headers);
+  }
+
+  // Warns about or rejects prompts that would not fit the model's context window
+  private checkRequestSize(input: string | ChatMessage[], options: RequestOptions): void {
+    enforceContextWindow(input, {
+      model: this.customModel || this.apiConfig.defaultModel,
+      parameters: { ...this.apiConfig.defaultParameters, ...this.customParameters },
+      contextWindow: this.apiConfig.contextWindow
+    }, options.contextWindowCheck);
+  }
+
+  // Limits are tracked per provider and key, so clients sharing a provider share its buckets
+  private acquireSlot(input: string | ChatMessage[], options: RequestOptions): Promise<RequestSlot> {
+    return acquireSlot(
+      this.providerId || this.apiConfig.baseUrl,
+      this.keyData,
+      this.apiConfig.rateLimits,
+      input,
+      this.customModel || this.apiConfig.defaultModel,
+      { ...this.apiConfig.defaultParameters, ...this.customParameters },
+      options
+    );
+  }
+
+  private buildRequestBody(input: string | ChatMessage[]): Record<string, unknown> {
+    // Placeholders are filled before the prompt is set so prompt text is never treated as a template
+    let body = renderTemplates(this.apiConfig.requestBodyStructure, {
+      keyData: this.keyData,
+      model: this.customModel || this.apiConfig.defaultModel
+    });
+    
+    // Set the prompt, or the whole conversation using the chat mapping
+    body = typeof input === 'string'
+      ? setValueAtPath(body, this.apiConfig.promptJsonPath, input)
+      : applyConversation(body, this.apiConfig, input);
+    
+    // Set custom model if provided
+    if (this.customModel && this.apiConfig.modelJsonPath) {
+      body = setValueAtPath(body, this.apiConfig.modelJsonPath, this.customModel);
+    }
+    
+    // Set project ID if required (IBM specific)
+    if (this.apiConfig.projectIdJsonPath && this.keyData.projectId) {
+      body = setValueAtPath(body, this.apiConfig.projectIdJsonPath, this.keyData.projectId);
+    }
+    
+    // Merge custom parameters
+    const parameters = { ...this.apiConfig.defaultParameters, ...this.customParameters };
+    if (this.apiConfig.parametersJsonPath) {
+      body = mergeAtPath(body, this.apiConfig.parametersJsonPath, parameters);
+    } else {
+      // If no specific path, merge at root level
+      body = { ...body, ...parameters };
+    }
+    
+    return body;
+  }
+}
+
+export interface FallbackProvider {
+  provider: string;
+  model?: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface FallbackTarget extends FallbackProvider {
+  client: ModelShiftAIClient;
+}
+
+/**
+ * Decides whether an error should move a fallback chain on to the next provider
+ * @param error - The error thrown by a provider client
+ * @returns The reason to skip the provider, or null when the error should be rethrown
+ */
+export function classifyFallbackReason(error: unknown): FallbackReason | null {
+  // A caller cancelling the request classifies as null, so it stops the chain rather than trying another provider
+  return classifyProviderError(error);
+}
+
+// Tries an ordered list of providers, moving to the next one on auth, rate limit, timeout or server errors,
+// and skipping providers whose circuit is open
+export class FallbackClient implements ModelShiftAIClient {
+  constructor(private readonly targets: FallbackTarget[]) {
+    if (targets.length === 0) {
+      throw new Error('FallbackClient requires at least one provider');
+    }
+  }
+
+  async generate(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return (await this.generateResult(prompt, options)).text || 'No response';
+  }
+
+  async generateResult(prompt: string, options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(client => client.generateResult(prompt, options));
+  }
+
+  async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    return (await this.chatResult(messages, options)).text || 'No response';
+  }
+
+  async chatResult(messages: ChatMessage[], options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(client => client.chatResult(messages, options));
+  }
+
+  async *generateStream(prompt: string, options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(client => client.generateStream(prompt, options));
+  }
+
+  async *chatStream(messages: ChatMessage[], options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(client => client.chatStream(messages, options));
+  }
+
+  private async complete(run: (client: ModelShiftAIClient) => Promise<GenerateResult>): Promise<GenerateResult> {
+    const skipped: FallbackSkip[] = [];
+
+    for (const target of this.targets) {
+      if (this.skipUnhealthy(target, skipped)) continue;
+      try {
+        const result = await run(target.client);
+        return { ...result, provider: target.provider, fallbacks: skipped };
+      } catch (error) {
+        this.recordSkip(target, error, skipped);
+      }
+    }
+
+    throw this.buildExhaustedError(skipped);
+  }
+
+  // Streams can only move to another provider before any text has been delivered
+  private async *stream(run: (client: ModelShiftAIClient) => AsyncIterable<StreamEvent>): AsyncGenerator<StreamEvent> {
+    const skipped: FallbackSkip[] = [];
+
+    for (const target of this.targets) {
+      if (this.skipUnhealthy(target, skipped)) continue;
+      let started = false;
+      try {
+        for await (const event of run(target.client)) {
+          started = true;
+          yield event;
+        }
+        return;
+      } catch (error) {
+        if (started) throw error;
+        this.recordSkip(target, error, skipped);
+      }
+    }
+
+    throw this.buildExhaustedError(skipped);
+  }
+
+  // Repeated failures opened the provider's circuit, so only a half-open probe is let through
+  private skipUnhealthy(target: FallbackTarget, skipped: FallbackSkip[]): boolean {
+    if (providerHealth.allowRequest(target.provider)) return false;
+
+    const status = providerHealth.getStatus(target.provider);
+    const error = `Circuit open after ${status.consecutiveFailures} consecutive failures${status.lastError ? `: ${status.lastError}` : ''}`;
+    logger.warn(`FallbackClient: ${target.provider} skipped (circuit_open)`);
+    skipped.push({ provider: target.provider, model: target.model, reason: 'circuit_open', error });
+    return true;
+  }
+
+  private recordSkip(target: FallbackTarget, error: unknown, skipped: FallbackSkip[]): void {
+    const reason = classifyFallbackReason(error);
+    if (!reason) {
+      // Errors such as invalid requests would fail on every provider, so surface them directly
+      throw error;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    logger.warn(`FallbackClient: ${target.provider} skipped (${reason}): ${message}`);
+    skipped.push({ provider: target.provider, model: target.model, reason, error: message });
+  }
+
+  private buildExhaustedError(skipped: FallbackSkip[]): Error {
+    const summary = skipped.map(skip => `${skip.provider} (${skip.reason}): ${skip.error}`).join('; ');
+    return new Error(`All providers failed. ${summary}`);
+  }
+}
+
+// Serves repeated requests from the response cache instead of calling the provider again
+export class CachingClient implements ModelShiftAIClient {
+  constructor(
+    private readonly client: ModelShiftAIClient,
+    private readonly fingerprint: Omit<RequestFingerprint, 'input'>, // What the wrapped client sends besides the input
+    private readonly cache: ResponseCache = responseCache
+  ) {}
+
+  async generate(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return (await this.generateResult(prompt, options)).text || 'No response';
+  }
+
+  async generateResult(prompt: string, options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(prompt, options, () => this.client.generateResult(prompt, options));
+  }
+
+  async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    return (await this.chatResult(messages, options)).text || 'No response';
+  }
+
+  async chatResult(messages: ChatMessage[], options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(messages, options, () => this.client.chatResult(messages, options));
+  }
+
+  async *generateStream(prompt: string, options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(prompt, options, () => this.client.generateStream(prompt, options));
+  }
+
+  async *chatStream(messages: ChatMessage[], options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(messages, options, () => this.client.chatStream(messages, options));
+  }
+
+  private async complete(
+    input: string | ChatMessage[],
+    options: RequestOptions,
+    run: () => Promise<GenerateResult>
+  ): Promise<GenerateResult> {
+    const key = createCacheKey({ ...this.fingerprint, input, tools: options.tools, responseSchema: options.responseSchema });
+
+    if (!options.bypassCache) {
+      const cached = await this.cache.get(key);
+      if (cached) return cached;
+    }
+
+    const result = await run();
+    await this.cache.set(key, result);
+    return result;
+  }
+
+  // Cache hits replay as a single chunk; misses stream through and are stored once complete
+  private async *stream(
+    input: string | ChatMessage[],
+    options: RequestOptions,
+    run: () => AsyncIterable<StreamEvent>
+  ): AsyncGenerator<StreamEvent> {
+    const key = createCacheKey({ ...this.fingerprint, input, tools: options.tools, responseSchema: options.responseSchema });
+
+    if (!options.bypassCache) {
+      const cached = await this.cache.get(key);
+      if (cached) {
+        yield* textToStream(cached.text, cached);
+        return;
+      }
+    }
+
+    let text = '';
+    for await (const event of run()) {
+      if (event.type === 'delta') {
+        text += event.text;
+      } else {
+        await this.cache.set(key, { text, finishReason: event.finishReason, usage: event.usage });
+      }
+      yield event;
+    }
+  }
+}
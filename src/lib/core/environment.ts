@@ -0,0 +1,85 @@
+/**
+ * Runtime environment for the core SDK
+ * The clients never touch host globals directly: fetch, key/value storage, API key
+ * lookup, logging and URL rewriting all come from the configured environment, so the
+ * same provider configs and clients run in Node scripts, workers and the browser app
+ */
+
+import { withMockProvider } from '../mockProvider';
+
+export interface KeyValueStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// Returns the stored key data for a provider (e.g. { apiKey, projectId }), if any
+export type KeyResolver = (provider: string) => Record<string, string> | undefined;
+
+export interface Logger {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+  error(...args: unknown[]): void;
+}
+
+export interface SDKEnvironment {
+  fetch: typeof fetch;
+  storage: KeyValueStorage;
+  resolveKeys: KeyResolver;
+  logger: Logger;
+  resolveUrl: (url: string) => string; // Rewrites provider URLs, e.g. through a development proxy
+  isDevelopment: () => boolean; // Enables development hints in error messages
+}
+
+export class MemoryStorage implements KeyValueStorage {
+  private readonly items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Creates an environment that only relies on standard globals, used until an adapter is installed
+ */
+export function createDefaultEnvironment(): SDKEnvironment {
+  return {
+    // Looked up on every call so fetch can be replaced after the SDK is loaded; the mock
+    // provider answers in-process, so it works offline and without keys
+    fetch: withMockProvider((input, init) => globalThis.fetch(input, init)),
+    storage: new MemoryStorage(),
+    resolveKeys: () => undefined,
+    logger: console,
+    resolveUrl: url => url,
+    isDevelopment: () => false
+  };
+}
+
+let environment = createDefaultEnvironment();
+
+/**
+ * Replaces parts of the current environment
+ * @param overrides - The services to replace; the rest are kept
+ */
+export function configureEnvironment(overrides: Partial<SDKEnvironment>): void {
+  environment = { ...environment, ...overrides };
+}
+
+export function getEnvironment(): SDKEnvironment {
+  return environment;
+}
+
+// Forwards to the configured logger at call time, so modules can import it before an adapter is installed
+export const logger: Logger = {
+  log: (...args) => environment.logger.log(...args),
+  warn: (...args) => environment.logger.warn(...args),
+  error: (...args) => environment.logger.error(...args)
+};
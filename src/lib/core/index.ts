@@ -0,0 +1,116 @@
+/**
+ * ModelShift AI core SDK
+ * Environment-agnostic entry point: provider configs, clients, tools, structured output,
+ * attachments encoding, embeddings and caching, with no browser globals. Install an
+ * adapter (or call configureEnvironment) before creating clients outside the web app.
+ */
+
+export {
+  ConfigurableClient,
+  DataDrivenClient,
+  FallbackClient,
+  CachingClient,
+  classifyFallbackReason,
+  createClient,
+  createProviderConfig
+} from './clients';
+export type { CreateClientOptions, FallbackProvider, FallbackTarget, ModelShiftAIClient, ProviderConfig } from './clients';
+export {
+  openAIConfig,
+  googleGeminiConfig,
+  anthropicClaudeConfig,
+  ibmWatsonXConfig,
+  providerConfigs,
+  PromptBuilder
+} from './providerConfigs';
+export { MemoryStorage, configureEnvironment, createDefaultEnvironment, getEnvironment } from './environment';
+export type { KeyResolver, KeyValueStorage, Logger, SDKEnvironment } from './environment';
+export { createNodeEnvironment, installNodeEnvironment, providerKeyEnv } from './adapters/node';
+export type { NodeEnvironmentOptions } from './adapters/node';
+export { providers, getProvider, requiresKeys } from '../../data/providers';
+
+export { ResponseCache, MemoryCacheStore, IndexedDBCacheStore, createCacheKey } from '../cache';
+export type { CacheStore, RequestFingerprint, ResponseCacheOptions } from '../cache';
+export { ToolRegistry, runToolLoop } from '../tools';
+export type { ToolHandler, ToolLoopClient, ToolLoopOptions, ToolLoopResult } from '../tools';
+export { generateObject, validateJsonSchema, extractJson } from '../structured';
+export type { GenerateObjectOptions, GenerateObjectResult, JsonSchema, StructuredOutputClient } from '../structured';
+export type { StreamEvent } from '../streaming';
+export { MiddlewarePipeline, clientMiddleware } from '../middleware';
+export { getAttachmentSupportError } from '../attachments';
+export { EmbeddingClient, createEmbeddingClient } from '../embeddings';
+export type { EmbedOptions, EmbedResult } from '../embeddings';
+export { embeddingProviders } from '../../data/embeddingProviders';
+export {
+  countTokens,
+  countInputTokens,
+  checkContextWindow,
+  enforceContextWindow,
+  getTokenizerProfile,
+  loadBpeEncoding,
+  registerBpeEncoding,
+  parseTiktokenRanks
+} from '../tokens';
+export type { BpeEncodingName, ContextWindowCheck, ContextWindowOptions, TokenizerProfile } from '../tokens';
+export { getContextWindow } from '../../data/contextWindows';
+export { calculateCost, estimateCost, formatCost, getModelPricing, pricingCatalog } from '../pricing';
+export type { CostBreakdown, CostEstimateRequest, CostRequest, ModelPricing, PricingCatalog } from '../pricing';
+export { MOCK_PROVIDER_BASE_URL, clearMockFixtures, registerMockFixtures, withMockProvider } from '../mockProvider';
+export type { MockFailure, MockFixture, MockOptions } from '../mockProvider';
+export { discoverModels, isLocalUrl, parseModelList, resolveBaseUrl } from '../openaiCompatible';
+export type { DiscoveredModel } from '../openaiCompatible';
+export { clearDiscoveredModels, findModel, getModelCatalog, searchModels, storeDiscoveredModels } from '../modelCatalog';
+export { renderTemplate, renderTemplates } from '../templates';
+export type { TemplateContext } from '../templates';
+export { TokenCache, ibmIamTokenExchange, tokenCache } from '../tokenExchange';
+export type { TokenExchangeConfiguration, TokenFetch } from '../tokenExchange';
+export { createCanonicalRequest, createStringToSign, readAwsCredentials, signRequest } from '../sigv4';
+export type { AwsCredentials, SignableRequest, SigV4Options } from '../sigv4';
+export { authenticate, invalidateAuth } from '../auth';
+export { FixtureRecorder, FixtureReplayer, parseFixtureFile, scrubRequest, serializeFixtures } from '../fixtures';
+export type {
+  FixtureExpectation,
+  FixtureFile,
+  FixtureRecorderOptions,
+  FixtureReplayerOptions,
+  FixtureVerification,
+  ProviderFixture,
+  RecordedExchange
+} from '../fixtures';
+export { RequestScheduler, keyFingerprint, requestScheduler } from '../scheduler';
+export type { ProviderQueueStatus, RateLimitScope, RequestSlot, ScheduleRequest } from '../scheduler';
+export {
+  ProviderHealthMonitor,
+  classifyProviderError,
+  defaultHealthMonitorOptions,
+  providerHealth,
+  providerHealthMiddleware
+} from '../health';
+export type { CircuitState, HealthMonitorOptions, ProviderHealthLevel, ProviderHealthStatus } from '../health';
+export type {
+  ApiConfiguration,
+  Attachment,
+  AuthStrategy,
+  AwsSigV4Auth,
+  ChatMessage,
+  ContextWindowCheckMode,
+  EmbeddingConfiguration,
+  EmbeddingInputType,
+  FallbackReason,
+  FallbackSkip,
+  GenerateResult,
+  Middleware,
+  MiddlewareEvent,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  ModelInfo,
+  ModelListConfiguration,
+  ModelModality,
+  Provider,
+  RateLimits,
+  RequestOptions,
+  TokenExchangeAuth,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition
+} from '../../types';
@@ -0,0 +1,249 @@
+/**
+ * Built-in provider configurations
+ * Hand-written request builders for OpenAI, Gemini, Claude and IBM, kept for code that
+ * predates the data-driven provider catalog, plus the mock provider and PromptBuilder helpers
+ */
+
+import { encodeMessages } from '../tools';
+import { getStringAtPath } from '../jsonPathUtils';
+import { parseResponseDetails } from '../usage';
+import { renderTemplate } from '../templates';
+import { authenticate, invalidateAuth } from '../auth';
+import type { SignableRequest } from '../sigv4';
+import { formatContentParts } from '../attachments';
+import { createProviderConfig } from './clients';
+import { getProvider } from '../../data/providers';
+import type { JsonSchema } from '../structured';
+import type { ProviderConfig } from './clients';
+import type { ChatMessage } from '../../types';
+
+// Provider Configurations (Legacy - for backward compatibility)
+export const openAIConfig: ProviderConfig = {
+  provider: 'openai',
+  endpoint: 'https://api.openai.com/v1/chat/completions',
+  buildRequestBody: (prompt: string) => ({
+    model: 'gpt-4',
+    messages: [{ role: 'user', content: prompt }],
+    temperature: 0.7,
+    max_tokens: 1000
+  }),
+  buildChatRequestBody: (messages: ChatMessage[]) => ({
+    model: 'gpt-4',
+    messages: encodeMessages(messages, 'openai', m => ({
+      role: m.role,
+      content: m.attachments?.length ? formatContentParts('openai', m) : m.content
+    })),
+    temperature: 0.7,
+    max_tokens: 1000
+  }),
+  parseResponse: (response: unknown) => getStringAtPath(response, "choices[*].message.content | join('\\n\\n')") ?? '',
+  parseDetails: (response: unknown) => parseResponseDetails(response, getProvider('openai')!.apiConfig),
+  buildHeaders: (keyData: Record<string, string>) => ({
+    'Content-Type': 'application/json',
+    'Authorization': `Bearer ${keyData.apiKey}`
+  }),
+  tools: { format: 'openai', toolsJsonPath: 'tools', toolCallsJsonPath: 'choices[0].message.tool_calls' },
+  structuredOutput: { format: 'openai', jsonPath: 'response_format' },
+  attachments: { format: 'openai', partsJsonPath: 'content', kinds: ['image', 'document'], maxBytes: 20 * 1024 * 1024 },
+  defaultModel: 'gpt-4',
+  defaultParameters: {
+    temperature: 0.7,
+    max_tokens: 1000
+  },
+  stream: {
+    format: 'openai',
+    bodyOverrides: { stream: true, stream_options: { include_usage: true } }
+  }
+};
+
+export const googleGeminiConfig: ProviderConfig = {
+  provider: 'gemini',
+  endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent',
+  buildRequestBody: (prompt: string) => ({
+    contents: [{ role: 'user', parts: [{ text: prompt }] }],
+    generationConfig: { temperature: 0.5, topP: 1, maxOutputTokens: 1000 }
+  }),
+  buildChatRequestBody: (messages: ChatMessage[]) => {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return {
+      contents: encodeMessages(
+        messages.filter(m => m.role !== 'system'),
+        'gemini',
+        m => ({
+          role: m.role === 'assistant' ? 'model' : 'user',
+          parts: m.attachments?.length ? formatContentParts('gemini', m) : [{ text: m.content }]
+        })
+      ),
+      ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      generationConfig: { temperature: 0.5, topP: 1, maxOutputTokens: 1000 }
+    };
+  },
+  parseResponse: (response: unknown) => getStringAtPath(response, 'candidates[0].content.parts[*].text | join') ?? '',
+  parseDetails: (response: unknown) => parseResponseDetails(response, getProvider('gemini')!.apiConfig),
+  buildEndpoint: (keyData: Record<string, string>) => 
+    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${keyData.apiKey}`,
+  buildHeaders: () => ({
+    'Content-Type': 'application/json'
+  }),
+  tools: { format: 'gemini', toolsJsonPath: 'tools', toolCallsJsonPath: 'candidates[0].content.parts' },
+  structuredOutput: { format: 'gemini', jsonPath: 'generationConfig' },
+  attachments: { format: 'gemini', partsJsonPath: 'parts', kinds: ['image', 'document'], maxBytes: 20 * 1024 * 1024 },
+  defaultModel: 'gemini-2.0-flash',
+  defaultParameters: {
+    temperature: 0.5,
+    topP: 1,
+    maxOutputTokens: 1000
+  },
+  stream: {
+    format: 'gemini',
+    buildEndpoint: (keyData: Record<string, string>) =>
+      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:streamGenerateContent?alt=sse&key=${keyData.apiKey}`
+  }
+};
+
+export const anthropicClaudeConfig: ProviderConfig = {
+  provider: 'claude',
+  endpoint: 'https://api.anthropic.com/v1/messages',
+  buildRequestBody: (prompt: string) => ({
+    model: 'claude-3-sonnet-20240229',
+    max_tokens: 1000,
+    messages: [{ role: 'user', content: prompt }]
+  }),
+  buildChatRequestBody: (messages: ChatMessage[]) => {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    return {
+      model: 'claude-3-sonnet-20240229',
+      max_tokens: 1000,
+      ...(system && { system }),
+      messages: encodeMessages(
+        messages.filter(m => m.role !== 'system'),
+        'claude',
+        m => ({ role: m.role, content: m.attachments?.length ? formatContentParts('claude', m) : m.content })
+      )
+    };
+  },
+  parseResponse: (response: unknown) => getStringAtPath(response, "content[?(@.type=='text')].text | join") ?? '',
+  parseDetails: (response: unknown) => parseResponseDetails(response, getProvider('claude')!.apiConfig),
+  buildHeaders: (keyData: Record<string, string>) => {
+    // Ensure we're using ASCII-safe header values
+    const headers = {
+      'Content-Type': 'application/json',
+      'x-api-key': keyData.apiKey,
+      'anthropic-version': '2023-06-01'
+    };
+    
+    // Remove the dangerous header that was causing issues
+    // This header is not needed and was causing problems
+    // 'anthropic-dangerous-direct-browser-access': 'true'
+    
+    return headers;
+  },
+  tools: { format: 'claude', toolsJsonPath: 'tools', toolCallsJsonPath: 'content' },
+  attachments: { format: 'claude', partsJsonPath: 'content', kinds: ['image', 'document'], maxBytes: 5 * 1024 * 1024 },
+  defaultModel: 'claude-3-sonnet-20240229',
+  defaultParameters: {
+    max_tokens: 1000,
+    temperature: 0.7
+  },
+  stream: {
+    format: 'claude',
+    bodyOverrides: { stream: true }
+  }
+};
+
+// The region stored with the key picks the host and the key is exchanged for an IAM token,
+// both as configured in the catalog
+const ibmApiConfig = getProvider('ibm')!.apiConfig;
+const ibmBaseUrl = (keyData: Record<string, string>) => renderTemplate(ibmApiConfig.baseUrl, { keyData });
+
+export const ibmWatsonXConfig: ProviderConfig = {
+  provider: 'ibm',
+  endpoint: 'https://us-south.ml.cloud.ibm.com/ml/v1/text/generation',
+  buildEndpoint: (keyData: Record<string, string>) => `${ibmBaseUrl(keyData)}/ml/v1/text/generation`,
+  buildRequestBody: (prompt: string, keyData: Record<string, string>) => ({
+    input: prompt,
+    model_id: 'ibm/granite-13b-chat-v2',
+    project_id: keyData.projectId,
+    parameters: { temperature: 0.7, max_new_tokens: 500 }
+  }),
+  parseResponse: (response: unknown) => getStringAtPath(response, 'results[0].generated_text') ?? '',
+  parseDetails: (response: unknown) => parseResponseDetails(response, ibmApiConfig),
+  buildHeaders: () => ({
+    'Content-Type': 'application/json'
+  }),
+  authenticate: (keyData: Record<string, string>, request: SignableRequest, signal?: AbortSignal) =>
+    authenticate(ibmApiConfig, keyData, request, signal),
+  invalidateAuth: (keyData: Record<string, string>) => invalidateAuth(ibmApiConfig, keyData),
+  defaultModel: 'ibm/granite-13b-chat-v2',
+  defaultParameters: {
+    temperature: 0.7,
+    max_new_tokens: 500
+  },
+  stream: {
+    format: 'ibm',
+    buildEndpoint: (keyData: Record<string, string>) => `${ibmBaseUrl(keyData)}/ml/v1/text/generation_stream`
+  }
+};
+
+// The mock provider has no hand-written builder, so it reuses its catalog configuration
+export const mockConfig: ProviderConfig = createProviderConfig(getProvider('mock')!);
+
+export const providerConfigs: Record<string, ProviderConfig> = {
+  openai: openAIConfig,
+  gemini: googleGeminiConfig,
+  claude: anthropicClaudeConfig,
+  ibm: ibmWatsonXConfig,
+  mock: mockConfig
+};
+
+// Prompt Builder
+export class PromptBuilder {
+  static chainOfThought(taskDescription: string, input: string): string {
+    return `You are an expert assistant. Your task is: ${taskDescription}
+
+Follow these steps before answering:
+1. Analyze input carefully
+2. Reason step-by-step
+3. Identify key factors
+4. Formulate response based on reasoning
+
+Input:
+"""
+${input}
+"""
+
+Provide your reasoning and final answer.`;
+  }
+
+  static simpleInstruction(instruction: string, input: string): string {
+    return `Instruction: ${instruction}
+
+Input: ${input}`;
+  }
+
+  static classification(taskDescription: string, input: string, classes: string[]): string {
+    return `You are a classification AI.
+Task: ${taskDescription}
+
+Input:
+"""
+${input}
+"""
+
+Available categories: ${classes.join(', ')}
+
+Classify the input into one of the categories.`;
+  }
+
+  // Schema for classification answers, for use with generateObject instead of parsing free text
+  static classificationSchema(classes: string[]): JsonSchema {
+    return {
+      type: 'object',
+      properties: {
+        category: { type: 'string', enum: classes },
+        reasoning: { type: 'string' }
+      },
+      required: ['category']
+    };
+  }
+}
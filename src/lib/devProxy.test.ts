@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest';
+import { getProxyUrl } from './devProxy';
+
+describe('getProxyUrl', () => {
+  it('rewrites regional hosts that have a proxy path', () => {
+    expect(getProxyUrl('https://bedrock-runtime.eu-west-1.amazonaws.com/model/meta.llama3-1-70b-instruct-v1:0/converse'))
+      .toBe('/api/bedrock/eu-west-1/model/meta.llama3-1-70b-instruct-v1:0/converse');
+    expect(getProxyUrl('https://eu-de.ml.cloud.ibm.com/ml/v1/text/generation?version=2023-05-29'))
+      .toBe('/api/watsonx/eu-de/ml/v1/text/generation?version=2023-05-29');
+  });
+
+  it('leaves regions without a proxy path unchanged', () => {
+    const url = 'https://bedrock-runtime.ap-northeast-3.amazonaws.com/model/meta.llama3-1-70b-instruct-v1:0/converse';
+
+    expect(getProxyUrl(url)).toBe(url);
+  });
+});
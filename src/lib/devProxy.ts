@@ -3,6 +3,8 @@
  * in local development environment
  */
 
+import { bedrockProxyRegions, ibmProxyRegions } from './devProxyRegions';
+
 /**
  * Check if we're in development environment
  */
@@ -38,6 +40,18 @@ export function getProxyUrl(originalUrl: string): string {
   if (originalUrl.includes('us-south.ml.cloud.ibm.com')) {
     return originalUrl.replace('https://us-south.ml.cloud.ibm.com', '/api/ibm');
   }
+  if (originalUrl.includes('iam.cloud.ibm.com')) {
+    return originalUrl.replace('https://iam.cloud.ibm.com', '/api/iam');
+  }
+  // Only regions with a proxy path in vite.config.ts are rewritten
+  const ibmRegion = originalUrl.match(/^https:\/\/([a-z]+-[a-z]+)\.ml\.cloud\.ibm\.com/);
+  if (ibmRegion && ibmProxyRegions.includes(ibmRegion[1])) {
+    return originalUrl.replace(ibmRegion[0], `/api/watsonx/${ibmRegion[1]}`);
+  }
+  const bedrockRegion = originalUrl.match(/^https:\/\/bedrock-runtime\.([a-z0-9-]+)\.amazonaws\.com/);
+  if (bedrockRegion && bedrockProxyRegions.includes(bedrockRegion[1])) {
+    return originalUrl.replace(bedrockRegion[0], `/api/bedrock/${bedrockRegion[1]}`);
+  }
   
   // Handle Supabase Edge Functions
   if (originalUrl.includes('/functions/v1/')) {
@@ -0,0 +1,15 @@
+/**
+ * Provider regions served by the development proxy
+ * vite.config.ts registers a proxy path for each of these, and src/lib/devProxy.ts only
+ * rewrites URLs for the same regions, so other regions are called directly instead of
+ * through a proxy path that does not exist.
+ */
+
+// IBM WatsonX regions besides us-south, each proxied at /api/watsonx/<region>
+export const ibmProxyRegions = ['eu-de', 'eu-gb', 'jp-tok', 'au-syd', 'ca-tor'];
+
+// Amazon Bedrock runtime regions, each proxied at /api/bedrock/<region>
+export const bedrockProxyRegions = [
+  'us-east-1', 'us-east-2', 'us-west-2', 'ca-central-1', 'sa-east-1', 'eu-central-1', 'eu-west-1',
+  'eu-west-3', 'ap-northeast-1', 'ap-south-1', 'ap-southeast-1', 'ap-southeast-2'
+];
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { buildEmbeddingRequestBody, parseEmbeddingResponse } from './embeddings';
+import { embeddingProviders } from '../data/embeddingProviders';
+
+describe('buildEmbeddingRequestBody', () => {
+  it('inserts the texts and settings into the body', () => {
+    expect(buildEmbeddingRequestBody(embeddingProviders.openai, ['a', 'b'], { model: 'text-embedding-3-small', dimensions: 512 }))
+      .toEqual({ model: 'text-embedding-3-small', input: ['a', 'b'], dimensions: 512 });
+  });
+
+  it('leaves out the default size for the default model', () => {
+    expect(buildEmbeddingRequestBody(embeddingProviders.openai, ['a'], { dimensions: 1536 }))
+      .toEqual({ model: 'text-embedding-ada-002', input: ['a'] });
+  });
+
+  it('wraps each text in the item template for Gemini', () => {
+    expect(buildEmbeddingRequestBody(embeddingProviders.gemini, ['a'], { inputType: 'query' })).toEqual({
+      requests: [{ model: 'models/text-embedding-004', content: { parts: [{ text: 'a' }] }, taskType: 'RETRIEVAL_QUERY' }]
+    });
+  });
+});
+
+describe('parseEmbeddingResponse', () => {
+  it('reads vectors in input order and the token count', () => {
+    const response = { data: [{ embedding: [0.1, 0.2] }, { embedding: [0.3, 0.4] }], usage: { total_tokens: 4 } };
+
+    expect(parseEmbeddingResponse(response, embeddingProviders.openai))
+      .toEqual({ embeddings: [[0.1, 0.2], [0.3, 0.4]], totalTokens: 4 });
+    expect(parseEmbeddingResponse({ embeddings: { float: [[1, 2]] } }, embeddingProviders.cohere))
+      .toEqual({ embeddings: [[1, 2]] });
+  });
+
+  it('rejects responses without numeric vectors', () => {
+    expect(() => parseEmbeddingResponse({ error: { message: 'bad' } }, embeddingProviders.openai))
+      .toThrow('Embedding response has no results at data');
+    expect(() => parseEmbeddingResponse({ data: [{ embedding: ['0.1'] }] }, embeddingProviders.openai))
+      .toThrow('Embedding response has no vector for input 0');
+  });
+});
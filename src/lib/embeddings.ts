@@ -0,0 +1,254 @@
+/**
+ * Embedding utilities
+ * Builds embedding requests from a data-driven EmbeddingConfiguration, splits large
+ * inputs into batches and reads the vectors back in input order
+ */
+
+import { getStringAtPath, getValueAtPath, setValueAtPath } from './jsonPathUtils';
+import { sanitizeHeaders } from './headerSanitizer';
+import { fetchWithRetry } from './retry';
+import { throwIfAborted } from './abort';
+import { getEnvironment, logger } from './core/environment';
+import { embeddingProviders } from '../data/embeddingProviders';
+import type { EmbeddingConfiguration, EmbeddingInputType, RequestOptions, TokenUsage } from '../types';
+
+export interface EmbedOptions extends RequestOptions {
+  model?: string; // Defaults to the configuration's default model
+  dimensions?: number; // Requested vector size; the result is checked against it
+  inputType?: EmbeddingInputType; // Whether the texts are stored documents or search queries
+}
+
+export interface EmbedResult {
+  embeddings: number[][]; // One vector per input text, in input order
+  model: string;
+  dimensions: number;
+  usage?: TokenUsage; // Total tokens across every batch, when the provider reports them
+  attempts?: number; // HTTP attempts made across every batch, including retries
+}
+
+/**
+ * Builds the embedding endpoint for a model, adding the API key for URL-param providers
+ * @param config - The embedding configuration
+ * @param model - The model to use
+ * @param apiKey - The provider API key
+ */
+export function buildEmbeddingEndpoint(config: EmbeddingConfiguration, model: string, apiKey: string): string {
+  let endpoint = `${config.baseUrl}${config.endpointPath.replace('{model}', model)}`;
+
+  if (config.apiKeyInUrlParam && config.urlParamName) {
+    const separator = endpoint.includes('?') ? '&' : '?';
+    endpoint += `${separator}${config.urlParamName}=${apiKey}`;
+  }
+
+  return endpoint;
+}
+
+/**
+ * Builds the request body for one batch of texts
+ * @param config - The embedding configuration
+ * @param texts - The texts to embed
+ * @param options - Model, dimensions and input type
+ */
+export function buildEmbeddingRequestBody(config: EmbeddingConfiguration, texts: string[], options: EmbedOptions = {}): Record<string, unknown> {
+  const model = options.model || config.defaultModel;
+  const dimensions = getRequestedDimensions(config, model, options.dimensions);
+
+  // Settings go on each item for providers that wrap every text, otherwise on the body
+  const applySettings = <T>(target: T): T => {
+    let result = target;
+    if (config.modelJsonPath) {
+      result = setValueAtPath(result, config.modelJsonPath, model);
+    }
+    if (dimensions !== undefined && config.dimensionsJsonPath) {
+      result = setValueAtPath(result, config.dimensionsJsonPath, dimensions);
+    }
+    if (options.inputType && config.inputType) {
+      result = setValueAtPath(result, config.inputType.jsonPath, config.inputType[options.inputType]);
+    }
+    return result;
+  };
+
+  const body: Record<string, unknown> = JSON.parse(JSON.stringify(config.requestBodyStructure));
+
+  if (!config.inputTemplate) {
+    return applySettings(setValueAtPath(body, config.inputJsonPath, texts));
+  }
+
+  const template = replaceModelPlaceholder(config.inputTemplate, model);
+  const items = texts.map(text => applySettings(setValueAtPath(template, config.inputTextJsonPath || 'text', text)));
+  return setValueAtPath(body, config.inputJsonPath, items);
+}
+
+// Only ask for a size when it differs from the default model's native one, since older
+// models such as text-embedding-ada-002 reject the parameter outright
+function getRequestedDimensions(config: EmbeddingConfiguration, model: string, dimensions?: number): number | undefined {
+  if (dimensions === undefined) return undefined;
+  if (model === config.defaultModel && dimensions === config.dimensions) return undefined;
+  return dimensions;
+}
+
+function replaceModelPlaceholder(value: unknown, model: string): unknown {
+  if (typeof value === 'string') return value.replace('{model}', model);
+  if (Array.isArray(value)) return value.map(item => replaceModelPlaceholder(item, model));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceModelPlaceholder(item, model)]));
+  }
+  return value;
+}
+
+/**
+ * Reads the vectors and token count from an embedding response
+ * @param response - The parsed provider response
+ * @param config - The embedding configuration
+ */
+export function parseEmbeddingResponse(
+  response: unknown,
+  config: EmbeddingConfiguration
+): { embeddings: number[][]; totalTokens?: number } {
+  const results = getValueAtPath(response, config.vectorsJsonPath);
+  if (!Array.isArray(results)) {
+    throw new Error(`Embedding response has no results at ${config.vectorsJsonPath}`);
+  }
+
+  const embeddings = results.map((result, index) => {
+    const vector = config.vectorJsonPath ? getValueAtPath(result, config.vectorJsonPath) : result;
+    if (!Array.isArray(vector) || !vector.every(value => typeof value === 'number')) {
+      throw new Error(`Embedding response has no vector for input ${index}`);
+    }
+    return vector;
+  });
+
+  const totalTokens = config.tokensJsonPath ? getValueAtPath(response, config.tokensJsonPath) : undefined;
+  return { embeddings, ...(typeof totalTokens === 'number' && { totalTokens }) };
+}
+
+/**
+ * Throws when any vector has a different size than the one requested
+ * @param embeddings - The vectors returned by the provider
+ * @param dimensions - The expected size
+ * @param model - The model, used in the message
+ */
+export function assertEmbeddingDimensions(embeddings: number[][], dimensions: number, model: string): void {
+  const mismatch = embeddings.find(vector => vector.length !== dimensions);
+  if (mismatch) {
+    throw new Error(`Embedding model ${model} returned ${mismatch.length} dimensions, expected ${dimensions}`);
+  }
+}
+
+// Embeds texts through any data-driven embedding configuration
+export class EmbeddingClient {
+  constructor(
+    private readonly keyData: Record<string, string>,
+    private readonly config: EmbeddingConfiguration
+  ) {}
+
+  /**
+   * Embeds a list of texts, sending several requests when it exceeds the batch size
+   * @param texts - The texts to embed
+   * @param options - Model, dimensions, input type and per-request options
+   */
+  async embed(texts: string[], options: EmbedOptions = {}): Promise<EmbedResult> {
+    const model = options.model || this.config.defaultModel;
+    const batchSize = this.config.maxBatchSize || texts.length || 1;
+    const embeddings: number[][] = [];
+    let totalTokens: number | undefined;
+    let attempts = 0;
+
+    for (let start = 0; start < texts.length; start += batchSize) {
+      throwIfAborted(options.signal);
+      const batch = texts.slice(start, start + batchSize);
+      const response = await this.sendRequest(model, buildEmbeddingRequestBody(this.config, batch, options), options.signal);
+      const parsed = parseEmbeddingResponse(response.json, this.config);
+
+      if (parsed.embeddings.length !== batch.length) {
+        throw new Error(`Embedding response has ${parsed.embeddings.length} vectors for ${batch.length} inputs`);
+      }
+
+      embeddings.push(...parsed.embeddings);
+      attempts += response.attempts;
+      if (parsed.totalTokens !== undefined) {
+        totalTokens = (totalTokens || 0) + parsed.totalTokens;
+      }
+    }
+
+    const dimensions = options.dimensions ?? (model === this.config.defaultModel ? this.config.dimensions : undefined);
+    if (dimensions !== undefined) {
+      assertEmbeddingDimensions(embeddings, dimensions, model);
+    }
+
+    return {
+      embeddings,
+      model,
+      dimensions: embeddings[0]?.length ?? dimensions ?? this.config.dimensions,
+      ...(totalTokens !== undefined && { usage: { promptTokens: totalTokens, totalTokens } }),
+      attempts
+    };
+  }
+
+  private async sendRequest(model: string, body: object, signal?: AbortSignal): Promise<{ json: unknown; attempts: number }> {
+    const endpoint = getEnvironment().resolveUrl(buildEmbeddingEndpoint(this.config, model, this.keyData.apiKey));
+    const headers = { ...this.config.headers };
+    if (!this.config.apiKeyInUrlParam && this.config.authHeaderName) {
+      headers[this.config.authHeaderName] = `${this.config.authHeaderPrefix || ''}${this.keyData.apiKey}`;
+    }
+
+    // Embedding the same texts twice has no side effects, so every failure can be retried
+    const { response, attempts } = await fetchWithRetry(endpoint, {
+      method: 'POST',
+      headers: sanitizeHeaders(headers),
+      body: JSON.stringify(body),
+      mode: 'cors',
+      credentials: 'omit',
+      signal
+    }, {
+      policy: this.config.retry,
+      idempotent: true,
+      onRetry: (attempt, delayMs, reason) =>
+        logger.warn(`Embedding attempt ${attempt} failed (${reason}), retrying in ${delayMs}ms`)
+    });
+
+    const text = await response.text();
+    let json: unknown = null;
+    try {
+      json = text ? JSON.parse(text) : null;
+    } catch {
+      // Reported below with the raw text
+    }
+
+    if (!response.ok) {
+      const message = (this.config.errorJsonPath && getStringAtPath(json, this.config.errorJsonPath)) || text || 'Unknown error';
+      if (response.status === 401) {
+        throw new Error(`Authentication failed: Invalid API key or credentials (HTTP ${response.status})`);
+      }
+      throw new Error(`Embedding request failed: ${message} (HTTP ${response.status}, ${attempts} attempt${attempts === 1 ? '' : 's'})`);
+    }
+
+    if (json === null) {
+      throw new Error('Embedding response is not valid JSON');
+    }
+
+    return { json, attempts };
+  }
+}
+
+/**
+ * Creates an embedding client for a preset provider or a custom configuration
+ * @param provider - Preset id from embeddingProviders, or a custom configuration
+ * @param keyData - Provider keys; defaults to the environment's key resolver for presets
+ */
+export function createEmbeddingClient(
+  provider: string | EmbeddingConfiguration,
+  keyData?: Record<string, string>
+): EmbeddingClient {
+  const config = typeof provider === 'string' ? embeddingProviders[provider] : provider;
+  if (!config) {
+    throw new Error(`Embedding provider '${provider}' not supported`);
+  }
+
+  const resolvedKeys = keyData || (typeof provider === 'string' ? getEnvironment().resolveKeys(provider) : undefined);
+  if (!resolvedKeys) {
+    throw new Error('API keys required for embeddings. Pass keyData or configure a key resolver.');
+  }
+
+  return new EmbeddingClient(resolvedKeys, config);
+}
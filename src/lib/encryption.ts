@@ -1,4 +1,5 @@
 import CryptoJS from 'crypto-js';
+import { getProvider } from '../data/providers';
 
 const SECRET_KEY = import.meta.env.VITE_ENCRYPTION_KEY || 'modelshift-ai-demo-key-2024';
 
@@ -129,6 +130,7 @@ export const keyVault = {
       return providerKeys[0].keyData;
     }
     
-    return null;
+    // Providers that take no key, such as the mock provider, work without a stored one
+    return getProvider(provider)?.keyRequirements.length === 0 ? {} : null;
   }
 };
\ No newline at end of file
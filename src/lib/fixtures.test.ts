@@ -0,0 +1,76 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FixtureReplayer, parseFixtureFile } from './fixtures';
+import { createClient } from './core/clients';
+import { tokenCache } from './tokenExchange';
+import { providers } from '../data/providers';
+
+// One generateResult call per built-in provider, recorded with FixtureRecorder
+const file = parseFixtureFile(readFileSync(new URL('./__fixtures__/providers.json', import.meta.url), 'utf8'));
+const prompt = 'Write a one-line tagline for a neighbourhood coffee shop.';
+
+// Stand-in credentials; the recordings hold none, so any values work as long as they are scrubbed
+const awsKeys = { accessKeyId: 'AKIAREPLAY0000000000', secretAccessKey: 'replaySecretAccessKey000000000000000000', region: 'us-east-1' };
+const keyData: Record<string, Record<string, string>> = {
+  openai: { apiKey: 'sk-replay-openai-key' },
+  'azure-openai': { apiKey: 'replay-azure-openai-key', resource: 'contoso', deployment: 'gpt-4o' },
+  gemini: { apiKey: 'replay-gemini-api-key' },
+  claude: { apiKey: 'sk-ant-replay-claude-key' },
+  ibm: { apiKey: 'replay-ibm-cloud-api-key', projectId: 'fixture-project' },
+  'bedrock-claude': awsKeys,
+  'bedrock-llama': awsKeys,
+  mock: {},
+  ollama: {},
+  vllm: {},
+  lmstudio: {},
+  'openai-compatible': { baseUrl: 'http://localhost:8080' }
+};
+const secrets = Object.values(keyData).flatMap(keys => [keys.apiKey, keys.accessKeyId, keys.secretAccessKey].filter(Boolean));
+
+async function replay(name: string, call: () => Promise<unknown>) {
+  const fixture = file.fixtures.find(item => item.name === name);
+  // Signatures and token expiry depend on the clock, so replay at the time of recording
+  vi.useFakeTimers({ toFake: ['Date'], now: new Date(fixture?.recordedAt ?? Date.now()) });
+  const replayer = new FixtureReplayer(file, { secrets }).install();
+  try {
+    return await replayer.run(name, name, call);
+  } finally {
+    replayer.uninstall();
+  }
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  tokenCache.clear();
+});
+
+describe('provider fixtures', () => {
+  it('cover every built-in provider', () => {
+    expect(file.fixtures.map(fixture => fixture.name).sort()).toEqual(providers.map(provider => provider.id).sort());
+  });
+
+  it('hold no credentials', () => {
+    const text = JSON.stringify(file);
+
+    expect(text).not.toMatch(/"authorization":"(?!\[REDACTED\])/);
+    expect(text).not.toMatch(/[?&]key=(?!\[REDACTED\])/);
+    expect(text).not.toMatch(/apikey=(?!\[REDACTED\])/);
+    expect(text).not.toMatch(/access_token\\":\\"(?!\[REDACTED\])/);
+  });
+
+  it.each(Object.keys(keyData))('replay %s without drift', async provider => {
+    const verification = await replay(provider, () => createClient(provider, { keyData: keyData[provider] }).generateResult(prompt));
+
+    expect(verification.differences).toEqual([]);
+    expect(verification.passed).toBe(true);
+  });
+
+  it('report requests that drifted from the recording', async () => {
+    const verification = await replay('openai', () =>
+      createClient('openai', { keyData: keyData.openai, model: 'gpt-4o' }).generateResult(prompt)
+    );
+
+    expect(verification.passed).toBe(false);
+    expect(verification.differences).toContain('request 1 body.model: expected "gpt-4", got "gpt-4o"');
+  });
+});
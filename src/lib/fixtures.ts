@@ -0,0 +1,486 @@
+/**
+ * Record-and-replay fixtures for provider configurations
+ * FixtureRecorder wraps the environment fetch and captures every provider exchange a call
+ * makes, with keys and tokens scrubbed, together with what the SDK extracted from it.
+ * FixtureReplayer serves those exchanges back through the same clients and services and
+ * reports where the request the SDK now builds, or the result it extracts, has drifted.
+ * Both run named calls with run(name, provider, call), so one script records and replays.
+ */
+
+import { configureEnvironment, getEnvironment } from './core/environment';
+import type { ToolCall, TokenUsage } from '../types';
+
+export interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface RecordedResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: string; // Raw text, so streamed responses replay chunk for chunk
+}
+
+export interface RecordedExchange {
+  request: RecordedRequest;
+  response: RecordedResponse;
+}
+
+// What the SDK extracted from the exchanges; compared field by field on replay
+export interface FixtureExpectation {
+  text?: string;
+  usage?: TokenUsage;
+  finishReason?: string;
+  model?: string;
+  toolCalls?: ToolCall[];
+  error?: string; // Set when the call failed, e.g. a recorded 401
+}
+
+export interface ProviderFixture {
+  name: string;
+  provider?: string;
+  recordedAt: string;
+  exchanges: RecordedExchange[]; // In the order they were sent, including retries
+  expected?: FixtureExpectation;
+}
+
+export interface FixtureFile {
+  version: 1;
+  fixtures: ProviderFixture[];
+}
+
+export interface FixtureVerification {
+  name: string;
+  passed: boolean;
+  differences: string[]; // e.g. 'request 1 body.messages[0].content: expected "Hi", got "Hello"'
+}
+
+// A call whose result the fixture records: client results, custom provider responses or plain text
+export type FixtureCall = () => Promise<unknown>;
+
+export interface FixtureRecorderOptions {
+  secrets?: string[]; // Extra values to scrub wherever they appear; the provider's resolved keys are always scrubbed
+}
+
+export interface FixtureReplayerOptions {
+  secrets?: string[]; // Values scrubbed from live requests before they are compared
+  passthrough?: boolean; // Sends requests no fixture answers to the real fetch instead of failing them
+}
+
+const REDACTED = '[REDACTED]';
+
+// Header names, query parameters and JSON fields that carry credentials
+const secretHeaderPattern = /^(authorization|proxy-authorization|cookie|set-cookie)$|api[-_]?key|secret|token$/i;
+const secretParameterPattern = /key|token|secret|signature|password/i;
+const secretFields = new Set([
+  'apikey', 'api_key', 'access_token', 'refresh_token', 'id_token', 'client_secret', 'password', 'secret', 'token'
+]);
+
+/**
+ * Records provider exchanges into fixtures
+ * Calls run one at a time; exchanges sent outside run() are kept under the name 'unnamed'
+ */
+export class FixtureRecorder {
+  private readonly fixtures: ProviderFixture[] = [];
+  private readonly pending = new Set<Promise<void>>();
+  private current?: ProviderFixture;
+  private originalFetch?: typeof fetch;
+
+  constructor(private readonly options: FixtureRecorderOptions = {}) {}
+
+  /**
+   * Routes the environment fetch through the recorder until uninstall() is called
+   */
+  install(): this {
+    if (this.originalFetch) return this;
+
+    const originalFetch = getEnvironment().fetch;
+    this.originalFetch = originalFetch;
+    configureEnvironment({ fetch: (input, init) => this.record(originalFetch, input, init) });
+    return this;
+  }
+
+  uninstall(): void {
+    if (!this.originalFetch) return;
+    configureEnvironment({ fetch: this.originalFetch });
+    this.originalFetch = undefined;
+  }
+
+  /**
+   * Runs a call and records its exchanges and result as a named fixture
+   * Errors are recorded as the expected outcome and then rethrown
+   * @param name - Fixture name, unique within the file
+   * @param provider - Provider id, used to scrub its resolved keys
+   * @param call - The SDK call to record
+   */
+  async run<T>(name: string, provider: string | undefined, call: () => Promise<T>): Promise<T> {
+    const fixture: ProviderFixture = { name, provider, recordedAt: new Date().toISOString(), exchanges: [] };
+    this.fixtures.push(fixture);
+    this.current = fixture;
+
+    try {
+      const result = await call();
+      fixture.expected = this.scrubExpectation(describeResult(result), provider);
+      return result;
+    } catch (error) {
+      fixture.expected = this.scrubExpectation({ error: error instanceof Error ? error.message : String(error) }, provider);
+      throw error;
+    } finally {
+      await Promise.all(this.pending);
+      this.current = undefined;
+    }
+  }
+
+  /**
+   * Returns the recorded fixtures, once every response body has been read
+   */
+  async toFile(): Promise<FixtureFile> {
+    await Promise.all(this.pending);
+    return { version: 1, fixtures: this.fixtures.map(fixture => ({ ...fixture })) };
+  }
+
+  private async record(send: typeof fetch, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const fixture = this.current || this.unnamedFixture();
+    const secrets = this.secretsFor(fixture.provider);
+    const request = scrubRequest(await readRequest(input, init), secrets);
+    const response = await send(input, init);
+
+    // Keeps the send order, since the bodies below may finish reading out of order
+    const exchange: RecordedExchange = { request, response: { status: response.status, headers: {}, body: '' } };
+    fixture.exchanges.push(exchange);
+
+    // Read a copy in the background, so streamed responses still reach the caller as they arrive
+    const reading = response.clone().text().then(body => {
+      exchange.response = scrubResponse({ status: response.status, headers: headersToRecord(response.headers), body }, secrets);
+    });
+    this.pending.add(reading);
+    reading.finally(() => this.pending.delete(reading)).catch(() => undefined);
+
+    return response;
+  }
+
+  private unnamedFixture(): ProviderFixture {
+    let fixture = this.fixtures.find(item => item.name === 'unnamed');
+    if (!fixture) {
+      fixture = { name: 'unnamed', recordedAt: new Date().toISOString(), exchanges: [] };
+      this.fixtures.push(fixture);
+    }
+    return fixture;
+  }
+
+  private scrubExpectation(expected: FixtureExpectation, provider?: string): FixtureExpectation {
+    return scrubValue(expected, this.secretsFor(provider));
+  }
+
+  private secretsFor(provider?: string): string[] {
+    return collectSecrets(provider, this.options.secrets);
+  }
+}
+
+/**
+ * Serves recorded exchanges in place of the provider and checks the SDK against them
+ * Inside run(), a fixture's exchanges are served in order and each live request is diffed
+ * against the recorded one; outside run(), any exchange with an identical request answers
+ */
+export class FixtureReplayer {
+  private readonly fixtures: ProviderFixture[];
+  private current?: { fixture: ProviderFixture; next: number; differences: string[] };
+  private originalFetch?: typeof fetch;
+
+  constructor(file: FixtureFile, private readonly options: FixtureReplayerOptions = {}) {
+    this.fixtures = file.fixtures;
+  }
+
+  /**
+   * Routes the environment fetch to the fixtures until uninstall() is called
+   */
+  install(): this {
+    if (this.originalFetch) return this;
+
+    const originalFetch = getEnvironment().fetch;
+    this.originalFetch = originalFetch;
+    configureEnvironment({ fetch: (input, init) => this.replay(originalFetch, input, init) });
+    return this;
+  }
+
+  uninstall(): void {
+    if (!this.originalFetch) return;
+    configureEnvironment({ fetch: this.originalFetch });
+    this.originalFetch = undefined;
+  }
+
+  /**
+   * Runs a call against a named fixture and compares its requests and result with the recording
+   * @param name - The fixture to replay
+   * @param provider - Provider id, used to scrub its resolved keys from the live requests
+   * @param call - The same SDK call that was recorded
+   */
+  async run(name: string, provider: string | undefined, call: FixtureCall): Promise<FixtureVerification> {
+    const fixture = this.fixtures.find(item => item.name === name);
+    if (!fixture) {
+      return { name, passed: false, differences: [`No fixture named '${name}'`] };
+    }
+
+    const state = { fixture, next: 0, differences: [] as string[] };
+    this.current = state;
+
+    let actual: FixtureExpectation;
+    try {
+      actual = describeResult(await call());
+    } catch (error) {
+      actual = { error: error instanceof Error ? error.message : String(error) };
+    } finally {
+      this.current = undefined;
+    }
+
+    if (state.next < fixture.exchanges.length) {
+      state.differences.push(`${fixture.exchanges.length - state.next} recorded request(s) were never sent`);
+    }
+    const expected = fixture.expected || {};
+    const scrubbed = scrubValue(actual, collectSecrets(provider, this.options.secrets));
+    for (const key of new Set([...Object.keys(expected), ...Object.keys(scrubbed)]) as Set<keyof FixtureExpectation>) {
+      diffValues(expected[key], scrubbed[key], `result.${key}`, state.differences);
+    }
+
+    return { name, passed: state.differences.length === 0, differences: state.differences };
+  }
+
+  private async replay(send: typeof fetch, input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+    const state = this.current;
+    const request = scrubRequest(
+      await readRequest(input, init),
+      collectSecrets(state?.fixture.provider, this.options.secrets)
+    );
+
+    if (state) {
+      const exchange = state.fixture.exchanges[state.next];
+      if (exchange) {
+        state.next++;
+        diffRequests(exchange.request, request, `request ${state.next}`, state.differences);
+        return toResponse(exchange.response);
+      }
+      state.differences.push(`request ${state.next + 1} was not recorded: ${request.method} ${request.url}`);
+    } else {
+      const exchange = this.fixtures
+        .flatMap(fixture => fixture.exchanges)
+        .find(candidate => {
+          const differences: string[] = [];
+          diffRequests(candidate.request, request, 'request', differences);
+          return differences.length === 0;
+        });
+      if (exchange) return toResponse(exchange.response);
+    }
+
+    if (this.options.passthrough) {
+      return send(input, init);
+    }
+    // 501 is not retried, so a missing recording fails the call at once
+    return new Response(
+      JSON.stringify({ error: { message: `No recorded response for ${request.method} ${request.url}` } }),
+      { status: 501, headers: { 'Content-Type': 'application/json' } }
+    );
+  }
+}
+
+/**
+ * Serializes a fixture file for writing to disk
+ */
+export function serializeFixtures(file: FixtureFile): string {
+  return `${JSON.stringify(file, null, 2)}\n`;
+}
+
+/**
+ * Parses a fixture file read from disk
+ * @throws Error if the text is not a version 1 fixture file
+ */
+export function parseFixtureFile(text: string): FixtureFile {
+  const file = JSON.parse(text);
+  if (file?.version !== 1 || !Array.isArray(file.fixtures)) {
+    throw new Error('Not a ModelShift fixture file (expected version 1 with a fixtures array)');
+  }
+  return file;
+}
+
+/**
+ * Removes credentials from a recorded request: secret headers, query parameters, JSON
+ * fields and any occurrence of the given secret values
+ * @param request - The request as sent
+ * @param secrets - Key values to scrub wherever they appear
+ */
+export function scrubRequest(request: RecordedRequest, secrets: string[] = []): RecordedRequest {
+  return {
+    method: request.method,
+    url: scrubUrl(replaceSecrets(request.url, secrets)),
+    headers: scrubHeaders(request.headers, secrets),
+    ...(request.body !== undefined && { body: scrubBody(request.body, secrets) })
+  };
+}
+
+function scrubResponse(response: RecordedResponse, secrets: string[]): RecordedResponse {
+  return {
+    status: response.status,
+    headers: scrubHeaders(response.headers, secrets),
+    body: scrubBody(response.body, secrets)
+  };
+}
+
+function scrubHeaders(headers: Record<string, string>, secrets: string[]): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [
+      name.toLowerCase(),
+      secretHeaderPattern.test(name) ? REDACTED : replaceSecrets(value, secrets)
+    ])
+  );
+}
+
+function scrubUrl(url: string): string {
+  const index = url.indexOf('?');
+  if (index < 0) return url;
+  const base = url.slice(0, index);
+  const query = url.slice(index + 1);
+
+  const parameters = query.split('&').map(parameter => {
+    const [name] = parameter.split('=', 1);
+    return secretParameterPattern.test(name) ? `${name}=${REDACTED}` : parameter;
+  });
+  return `${base}?${parameters.join('&')}`;
+}
+
+// Scrubs JSON bodies field by field and other bodies (form data, SSE) as text
+function scrubBody(body: string, secrets: string[]): string {
+  try {
+    return JSON.stringify(scrubValue(JSON.parse(body), secrets));
+  } catch {
+    return replaceSecrets(body, secrets).replace(
+      /((?:^|[&"\s])(?:apikey|api_key|access_token|refresh_token|client_secret|password)["=:\s]+"?)[^&"\s]+/gi,
+      `$1${REDACTED}`
+    );
+  }
+}
+
+function scrubValue<T>(value: T, secrets: string[]): T {
+  if (typeof value === 'string') {
+    return replaceSecrets(value, secrets) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => scrubValue(item, secrets)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        secretFields.has(key.toLowerCase()) && typeof item === 'string' ? REDACTED : scrubValue(item, secrets)
+      ])
+    ) as T;
+  }
+  return value;
+}
+
+function replaceSecrets(text: string, secrets: string[]): string {
+  return secrets.reduce((result, secret) => result.split(secret).join(REDACTED), text);
+}
+
+// Longer secrets first, so a key that contains another is scrubbed whole
+function collectSecrets(provider: string | undefined, extra: string[] = []): string[] {
+  const keys = provider ? Object.values(getEnvironment().resolveKeys(provider) || {}) : [];
+  return [...keys, ...extra]
+    .filter(secret => secret.length >= 8)
+    .sort((a, b) => b.length - a.length);
+}
+
+async function readRequest(input: RequestInfo | URL, init: RequestInit = {}): Promise<RecordedRequest> {
+  const request = input instanceof Request ? input : undefined;
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+  const body = typeof init.body === 'string'
+    ? init.body
+    : init.body instanceof URLSearchParams
+      ? init.body.toString()
+      : request && !init.body
+        ? await request.clone().text()
+        : undefined;
+
+  return {
+    method: (init.method || request?.method || 'GET').toUpperCase(),
+    url,
+    headers: headersToRecord(new Headers(init.headers || request?.headers)),
+    ...(body && { body })
+  };
+}
+
+function headersToRecord(headers: Headers): Record<string, string> {
+  const record: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    record[name.toLowerCase()] = value;
+  });
+  return record;
+}
+
+function toResponse(recorded: RecordedResponse): Response {
+  // Statuses such as 204 and 304 cannot carry a body
+  const body = [204, 205, 304].includes(recorded.status) ? null : recorded.body;
+  return new Response(body, { status: recorded.status, headers: recorded.headers });
+}
+
+// Reads the fields a fixture checks from client results and custom provider responses
+function describeResult(result: unknown): FixtureExpectation {
+  if (typeof result === 'string') {
+    return { text: result };
+  }
+  if (!result || typeof result !== 'object') {
+    return {};
+  }
+
+  const value = result as Record<string, unknown>;
+  const text = value.text ?? value.response;
+  const expected: FixtureExpectation = {
+    text: typeof text === 'string' ? text : undefined,
+    usage: value.usage as TokenUsage | undefined,
+    finishReason: typeof value.finishReason === 'string' ? value.finishReason : undefined,
+    model: typeof value.model === 'string' ? value.model : undefined,
+    toolCalls: value.toolCalls as ToolCall[] | undefined,
+    error: value.success === false && typeof value.error === 'string' ? value.error : undefined
+  };
+  return Object.fromEntries(Object.entries(expected).filter(([, item]) => item !== undefined));
+}
+
+function diffRequests(expected: RecordedRequest, actual: RecordedRequest, label: string, differences: string[]): void {
+  if (expected.method !== actual.method || expected.url !== actual.url) {
+    differences.push(`${label}: expected ${expected.method} ${expected.url}, got ${actual.method} ${actual.url}`);
+  }
+  diffValues(expected.headers, actual.headers, `${label} headers`, differences);
+  diffValues(parseJson(expected.body), parseJson(actual.body), `${label} body`, differences);
+}
+
+function parseJson(body?: string): unknown {
+  if (body === undefined) return undefined;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+// Collects one line per differing leaf, so a moved or renamed field is easy to spot
+function diffValues(expected: unknown, actual: unknown, path: string, differences: string[]): void {
+  if (expected && actual && typeof expected === 'object' && typeof actual === 'object' &&
+    Array.isArray(expected) === Array.isArray(actual)) {
+    const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+    for (const key of keys) {
+      const childPath = Array.isArray(expected) ? `${path}[${key}]` : `${path}.${key}`;
+      diffValues((expected as Record<string, unknown>)[key], (actual as Record<string, unknown>)[key], childPath, differences);
+    }
+    return;
+  }
+
+  if (JSON.stringify(expected) !== JSON.stringify(actual)) {
+    differences.push(`${path}: expected ${describe(expected)}, got ${describe(actual)}`);
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === undefined) return 'nothing';
+  const text = JSON.stringify(value);
+  return text.length > 80 ? `${text.slice(0, 77)}...` : text;
+}
@@ -2,6 +2,8 @@
  * Utilities for sanitizing HTTP headers to ensure they only contain valid characters
  */
 
+import { logger } from './core/environment';
+
 /**
  * Checks if a string contains only ISO-8859-1 (Latin-1) characters
  * which are valid for HTTP headers according to the spec
@@ -63,10 +65,10 @@ export function sanitizeHeaderValue(value: string, headerName?: string): string
     }
     
     const errorMsg = `Header ${headerName || ''} contains invalid characters: ${invalidChars.join(', ')}`;
-    console.error(errorMsg);
+    logger.error(errorMsg);
     
     // As a last resort, strip all non-ASCII characters
-    sanitized = sanitized.replace(/[^\x00-\x7F]/g, '');
+    sanitized = Array.from(sanitized).filter(char => char.charCodeAt(0) <= 0x7f).join('');
     
     // If we still have invalid characters, throw an error
     if (!isValidHeaderValue(sanitized)) {
@@ -89,7 +91,7 @@ export function sanitizeHeaders(headers: Record<string, string>): Record<string,
     try {
       sanitizedHeaders[name] = sanitizeHeaderValue(value, name);
     } catch (error) {
-      console.warn(`Failed to sanitize header '${name}': ${error.message}`);
+      logger.warn(`Failed to sanitize header '${name}': ${error.message}`);
       // Skip this header if it can't be sanitized
     }
   }
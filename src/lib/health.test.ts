@@ -0,0 +1,105 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ProviderHealthMonitor, classifyProviderError, providerHealth } from './health';
+import { DataDrivenClient } from './core/clients';
+import { configureEnvironment, createDefaultEnvironment } from './core/environment';
+import { getProvider } from '../data/providers';
+
+const serverError = new Error('API Error: Server error (HTTP 503)');
+
+afterEach(() => {
+  vi.useRealTimers();
+  providerHealth.reset();
+  configureEnvironment(createDefaultEnvironment());
+});
+
+describe('classifyProviderError', () => {
+  it('reads the reason from the error message', () => {
+    expect(classifyProviderError(new Error('Authentication failed: Invalid API key or credentials (HTTP 401)'))).toBe('auth');
+    expect(classifyProviderError(new Error('Rate limit exceeded (HTTP 429)'))).toBe('rate_limit');
+    expect(classifyProviderError(serverError)).toBe('server_error');
+    expect(classifyProviderError(new TypeError('Failed to fetch'))).toBe('network');
+  });
+
+  it('ignores cancellations and invalid requests', () => {
+    expect(classifyProviderError(new DOMException('The operation was aborted', 'AbortError'))).toBeNull();
+    expect(classifyProviderError(new Error("API Error: The model 'gpt-9' does not exist"))).toBeNull();
+    expect(classifyProviderError('503')).toBeNull();
+  });
+});
+
+describe('ProviderHealthMonitor', () => {
+  it('opens the circuit after consecutive provider failures only', () => {
+    const monitor = new ProviderHealthMonitor({ failureThreshold: 2 });
+
+    monitor.recordFailure('openai', new Error('Invalid API key (HTTP 401)'), 100);
+    monitor.recordFailure('openai', serverError, 100);
+    expect(monitor.getStatus('openai')).toMatchObject({ state: 'closed', consecutiveFailures: 1 });
+
+    monitor.recordFailure('openai', serverError, 100);
+    expect(monitor.getStatus('openai')).toMatchObject({ state: 'open', health: 'down', lastError: serverError.message });
+    expect(monitor.allowRequest('openai')).toBe(false);
+  });
+
+  it('admits one probe after the cool-down and closes when it succeeds', () => {
+    vi.useFakeTimers();
+    const monitor = new ProviderHealthMonitor({ failureThreshold: 1, openDurationMs: 1_000 });
+    monitor.recordFailure('claude', serverError, 100);
+
+    vi.advanceTimersByTime(1_000);
+    expect(monitor.allowRequest('claude')).toBe(true);
+    expect(monitor.getStatus('claude').state).toBe('half-open');
+    expect(monitor.allowRequest('claude')).toBe(false);
+
+    monitor.recordSuccess('claude', 200);
+    expect(monitor.getStatus('claude')).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('reports degraded health from the success rate and latency in the window', () => {
+    vi.useFakeTimers();
+    const monitor = new ProviderHealthMonitor({ windowMs: 10_000, degradedLatencyMs: 1_000 });
+
+    monitor.recordSuccess('gemini', 400);
+    expect(monitor.getStatus('gemini')).toMatchObject({ health: 'healthy', successRate: 1, averageLatencyMs: 400 });
+
+    monitor.recordSuccess('gemini', 2_400);
+    expect(monitor.getStatus('gemini').health).toBe('degraded');
+
+    vi.advanceTimersByTime(10_001);
+    expect(monitor.getStatus('gemini')).toMatchObject({ health: 'unknown', requests: 0 });
+  });
+
+  it('notifies listeners and survives failing ones', () => {
+    const monitor = new ProviderHealthMonitor();
+    const listener = vi.fn();
+    monitor.subscribe(() => { throw new Error('listener failed'); });
+    const unsubscribe = monitor.subscribe(listener);
+
+    monitor.recordSuccess('openai', 100);
+    unsubscribe();
+    monitor.recordSuccess('openai', 100);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({ provider: 'openai', requests: 1 }));
+  });
+});
+
+describe('providerHealthMiddleware', () => {
+  const openai = { ...getProvider('openai')!.apiConfig, retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0, retryOnStatus: [] } };
+
+  it('records DataDrivenClient calls under the provider id', async () => {
+    configureEnvironment({ fetch: vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }))) });
+    await new DataDrivenClient({ apiKey: 'sk-test' }, openai, undefined, undefined, 'openai').generate('Hello');
+
+    configureEnvironment({ fetch: vi.fn(async () => new Response('{}', { status: 503 })) });
+    await expect(new DataDrivenClient({ apiKey: 'sk-test' }, openai, undefined, undefined, 'openai').generate('Hello')).rejects.toThrow();
+
+    expect(providerHealth.getStatus('openai')).toMatchObject({ requests: 2, successRate: 0.5, consecutiveFailures: 1 });
+  });
+
+  it('skips configurations without a provider id', async () => {
+    configureEnvironment({ fetch: vi.fn(async () => new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] }))) });
+    await new DataDrivenClient({ apiKey: 'sk-test' }, openai).generate('Hello');
+
+    expect(providerHealth.getAllStatuses()).toEqual([]);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Provider health monitoring
+ * Tracks each provider's success rate and latency over a rolling window and runs a circuit
+ * breaker per provider: repeated failures open the circuit, and after a cool-down a
+ * half-open probe decides whether it closes again. Only failures that say something about
+ * the provider count; invalid requests, missing keys and cancellations do not.
+ */
+
+import { logger } from './core/environment';
+import type { FallbackReason, Middleware } from '../types';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type ProviderHealthLevel = 'unknown' | 'healthy' | 'degraded' | 'down';
+
+export interface HealthMonitorOptions {
+  windowMs: number; // Rolling window for success rate and latency
+  failureThreshold: number; // Consecutive failures that open the circuit
+  openDurationMs: number; // Cool-down before a half-open probe is allowed
+  probeTimeoutMs: number; // How long a probe may run before another one is allowed
+  successesToClose: number; // Successful probes needed to close a half-open circuit
+  degradedSuccessRate: number; // Below this rate a closed circuit is reported as degraded
+  degradedLatencyMs: number; // Above this average latency a closed circuit is reported as degraded
+}
+
+export interface ProviderHealthStatus {
+  provider: string;
+  state: CircuitState;
+  health: ProviderHealthLevel;
+  requests: number; // Outcomes in the rolling window
+  successRate?: number; // 0-1; undefined without outcomes
+  averageLatencyMs?: number;
+  p95LatencyMs?: number;
+  consecutiveFailures: number;
+  lastError?: string;
+  retryAt?: number; // When an open circuit allows its next probe, in epoch milliseconds
+}
+
+export const defaultHealthMonitorOptions: HealthMonitorOptions = {
+  windowMs: 5 * 60_000,
+  failureThreshold: 5,
+  openDurationMs: 30_000,
+  probeTimeoutMs: 60_000,
+  successesToClose: 1,
+  degradedSuccessRate: 0.9,
+  degradedLatencyMs: 20_000
+};
+
+interface Outcome {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface CircuitRecord {
+  state: CircuitState;
+  outcomes: Outcome[];
+  consecutiveFailures: number;
+  probeSuccesses: number;
+  openedAt?: number;
+  probeStartedAt?: number;
+  lastError?: string;
+}
+
+// Error message patterns that mean a provider is unusable right now, checked in order
+const providerErrorPatterns: Array<[FallbackReason, RegExp]> = [
+  ['auth', /authenticat|unauthori[sz]ed|access forbidden|invalid api key|no api key|api keys? required|\b40[13]\b/],
+  ['rate_limit', /rate limit|too many requests|quota|\b429\b/],
+  ['timeout', /timeout|timed out/],
+  ['server_error', /server error|service error|temporarily unavailable|overloaded|\b5\d\d\b/],
+  ['network', /network|failed to fetch/]
+];
+
+// Auth failures are the caller's to fix, so only these count against a provider's health
+const healthFailureReasons: FallbackReason[] = ['rate_limit', 'timeout', 'server_error', 'network'];
+
+/**
+ * Classifies an error from a provider call by what it says about the provider
+ * @param error - The error thrown by a provider client
+ * @returns The reason, or null for cancellations and errors such as invalid requests
+ */
+export function classifyProviderError(error: unknown): FallbackReason | null {
+  if (!(error instanceof Error)) return null;
+
+  if (error.name === 'AbortError') return null;
+  if (error.name === 'TimeoutError') return 'timeout';
+
+  const message = error.message.toLowerCase();
+  const match = providerErrorPatterns.find(([, pattern]) => pattern.test(message));
+  return match ? match[0] : null;
+}
+
+export class ProviderHealthMonitor {
+  private readonly circuits = new Map<string, CircuitRecord>();
+  private readonly listeners = new Set<(status: ProviderHealthStatus) => void>();
+  private readonly options: HealthMonitorOptions;
+
+  constructor(options: Partial<HealthMonitorOptions> = {}) {
+    this.options = { ...defaultHealthMonitorOptions, ...options };
+  }
+
+  recordSuccess(provider: string, latencyMs: number): void {
+    const circuit = this.circuit(provider);
+    this.addOutcome(circuit, { at: Date.now(), ok: true, latencyMs });
+    circuit.consecutiveFailures = 0;
+    circuit.probeStartedAt = undefined;
+
+    if (circuit.state !== 'closed') {
+      circuit.probeSuccesses++;
+      if (circuit.probeSuccesses >= this.options.successesToClose) {
+        logger.log(`Circuit for ${provider} closed after a successful probe`);
+        circuit.state = 'closed';
+        circuit.openedAt = undefined;
+      }
+    }
+    this.notify(provider);
+  }
+
+  /**
+   * Records a failed request; errors that say nothing about the provider are ignored
+   * @param provider - Provider id
+   * @param error - The error the request failed with
+   * @param latencyMs - Time until the request failed
+   */
+  recordFailure(provider: string, error: unknown, latencyMs: number): void {
+    const reason = classifyProviderError(error);
+    if (!reason || !healthFailureReasons.includes(reason)) return;
+
+    const circuit = this.circuit(provider);
+    const now = Date.now();
+    this.addOutcome(circuit, { at: now, ok: false, latencyMs });
+    circuit.consecutiveFailures++;
+    circuit.lastError = error instanceof Error ? error.message : String(error);
+    circuit.probeStartedAt = undefined;
+
+    const tripped = circuit.state === 'closed' && circuit.consecutiveFailures >= this.options.failureThreshold;
+    if (tripped || circuit.state === 'half-open') {
+      logger.warn(`Circuit for ${provider} opened after ${circuit.consecutiveFailures} consecutive failures (${reason})`);
+      circuit.state = 'open';
+      circuit.openedAt = now;
+      circuit.probeSuccesses = 0;
+    }
+    this.notify(provider);
+  }
+
+  /**
+   * Decides whether routing should send a request to a provider
+   * Open circuits refuse requests until the cool-down ends, then admit one probe at a time
+   * @param provider - Provider id
+   */
+  allowRequest(provider: string): boolean {
+    const circuit = this.circuits.get(provider);
+    if (!circuit || circuit.state === 'closed') return true;
+
+    const now = Date.now();
+    if (circuit.state === 'open') {
+      if (now - (circuit.openedAt ?? 0) < this.options.openDurationMs) return false;
+      circuit.state = 'half-open';
+      circuit.probeSuccesses = 0;
+      this.notify(provider);
+    }
+
+    if (circuit.probeStartedAt !== undefined && now - circuit.probeStartedAt < this.options.probeTimeoutMs) {
+      return false;
+    }
+    circuit.probeStartedAt = now;
+    return true;
+  }
+
+  getStatus(provider: string): ProviderHealthStatus {
+    const circuit = this.circuits.get(provider);
+    if (!circuit) {
+      return { provider, state: 'closed', health: 'unknown', requests: 0, consecutiveFailures: 0 };
+    }
+
+    const outcomes = this.pruneOutcomes(circuit);
+    const latencies = outcomes.map(outcome => outcome.latencyMs).sort((a, b) => a - b);
+    const successRate = outcomes.length > 0 ? outcomes.filter(outcome => outcome.ok).length / outcomes.length : undefined;
+    const averageLatencyMs = latencies.length > 0 ? latencies.reduce((sum, value) => sum + value, 0) / latencies.length : undefined;
+
+    return {
+      provider,
+      state: circuit.state,
+      health: this.healthLevel(circuit.state, successRate, averageLatencyMs),
+      requests: outcomes.length,
+      successRate,
+      averageLatencyMs,
+      p95LatencyMs: latencies.length > 0 ? latencies[Math.min(latencies.length - 1, Math.floor(latencies.length * 0.95))] : undefined,
+      consecutiveFailures: circuit.consecutiveFailures,
+      lastError: circuit.lastError,
+      retryAt: circuit.state === 'open' ? (circuit.openedAt ?? 0) + this.options.openDurationMs : undefined
+    };
+  }
+
+  getAllStatuses(): ProviderHealthStatus[] {
+    return [...this.circuits.keys()].map(provider => this.getStatus(provider));
+  }
+
+  /**
+   * Calls the listener whenever a provider's status changes
+   * @returns A function that removes the listener
+   */
+  subscribe(listener: (status: ProviderHealthStatus) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  reset(provider?: string): void {
+    if (provider) {
+      this.circuits.delete(provider);
+      this.notify(provider);
+    } else {
+      const providers = [...this.circuits.keys()];
+      this.circuits.clear();
+      providers.forEach(item => this.notify(item));
+    }
+  }
+
+  private healthLevel(state: CircuitState, successRate?: number, averageLatencyMs?: number): ProviderHealthLevel {
+    if (state === 'open') return 'down';
+    if (state === 'half-open') return 'degraded';
+    if (successRate === undefined) return 'unknown';
+    if (successRate < this.options.degradedSuccessRate) return 'degraded';
+    if (averageLatencyMs !== undefined && averageLatencyMs > this.options.degradedLatencyMs) return 'degraded';
+    return 'healthy';
+  }
+
+  private circuit(provider: string): CircuitRecord {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = { state: 'closed', outcomes: [], consecutiveFailures: 0, probeSuccesses: 0 };
+      this.circuits.set(provider, circuit);
+    }
+    return circuit;
+  }
+
+  private addOutcome(circuit: CircuitRecord, outcome: Outcome): void {
+    this.pruneOutcomes(circuit);
+    circuit.outcomes.push(outcome);
+  }
+
+  private pruneOutcomes(circuit: CircuitRecord): Outcome[] {
+    const cutoff = Date.now() - this.options.windowMs;
+    circuit.outcomes = circuit.outcomes.filter(outcome => outcome.at >= cutoff);
+    return circuit.outcomes;
+  }
+
+  // A failing listener must not break request handling
+  private notify(provider: string): void {
+    const status = this.getStatus(provider);
+    for (const listener of this.listeners) {
+      try {
+        listener(status);
+      } catch (error) {
+        logger.warn('Provider health listener failed:', error);
+      }
+    }
+  }
+}
+
+// Health of every provider the app and SDK clients call
+export const providerHealth = new ProviderHealthMonitor();
+
+// Feeds the outcome of every client request with a provider id into providerHealth
+export const providerHealthMiddleware: Middleware = {
+  name: 'provider-health',
+  onFinish: ({ request, error, durationMs }) => {
+    if (!request.provider) return;
+
+    if (error) {
+      providerHealth.recordFailure(request.provider, error, durationMs);
+    } else {
+      providerHealth.recordSuccess(request.provider, durationMs);
+    }
+  }
+};
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createSampleFromPath,
+  getStringAtPath,
+  getValueAtPath,
+  isDefinitePath,
+  isValidPath,
+  mergeAtPath,
+  parsePath,
+  queryPath,
+  setValueAtPath
+} from './jsonPathUtils';
+
+const claudeResponse = {
+  id: 'msg_01',
+  content: [
+    { type: 'text', text: 'First part.' },
+    { type: 'tool_use', id: 'toolu_01', name: 'get_weather', input: { city: 'Paris' } },
+    { type: 'text', text: 'Second part.' }
+  ],
+  usage: { input_tokens: 12, output_tokens: 30 },
+  headers: { 'x-request-id': 'req_42' }
+};
+
+describe('getValueAtPath', () => {
+  it('reads dotted keys, quoted keys and array indexes', () => {
+    expect(getValueAtPath(claudeResponse, 'usage.output_tokens')).toBe(30);
+    expect(getValueAtPath(claudeResponse, "headers['x-request-id']")).toBe('req_42');
+    expect(getValueAtPath(claudeResponse, 'content[1].input.city')).toBe('Paris');
+    expect(getValueAtPath(claudeResponse, '$.id')).toBe('msg_01');
+  });
+
+  it('counts negative indexes from the end', () => {
+    expect(getValueAtPath(claudeResponse, 'content[-1].text')).toBe('Second part.');
+  });
+
+  it('returns undefined for missing values', () => {
+    expect(getValueAtPath(claudeResponse, 'usage.cache_tokens')).toBeUndefined();
+    expect(getValueAtPath(claudeResponse, 'content[5].text')).toBeUndefined();
+    expect(getValueAtPath(null, 'usage')).toBeUndefined();
+  });
+
+  it('returns every match for wildcards and filters', () => {
+    expect(getValueAtPath(claudeResponse, 'content[*].type')).toEqual(['text', 'tool_use', 'text']);
+    expect(getValueAtPath(claudeResponse, 'usage.*')).toEqual([12, 30]);
+    expect(getValueAtPath(claudeResponse, "content[?(@.type=='text')].text")).toEqual(['First part.', 'Second part.']);
+    expect(getValueAtPath(claudeResponse, 'content[?(@.input)].name')).toEqual(['get_weather']);
+  });
+
+  it('compares numbers and strings in filters', () => {
+    const results = { items: [{ id: 'a', score: 0.2 }, { id: 'b', score: 0.7 }, { id: 'c', score: 0.5 }] };
+
+    expect(getValueAtPath(results, 'items[?(@.score >= 0.5)].id')).toEqual(['b', 'c']);
+    expect(getValueAtPath(results, 'items[?(@.score < 0.5)].id')).toEqual(['a']);
+    expect(getValueAtPath(results, "items[?(@.id != 'b')].id")).toEqual(['a', 'c']);
+    expect(getValueAtPath(results, "items[?(@.score > 'x')].id")).toEqual([]);
+  });
+
+  it('joins and concatenates matches with modifiers', () => {
+    expect(getValueAtPath(claudeResponse, "content[?(@.type=='text')].text | join")).toBe('First part.Second part.');
+    expect(getValueAtPath(claudeResponse, "content[?(@.type=='text')].text | join('\\n\\n')")).toBe('First part.\n\nSecond part.');
+    expect(getValueAtPath({ a: [[1, 2], [3]] }, 'a[*] | concat')).toEqual([1, 2, 3]);
+    expect(getValueAtPath({ parts: ['a', 'b'] }, 'parts | join')).toBe('ab');
+    expect(getValueAtPath(claudeResponse, 'content[?(@.type==\'image\')].text | join')).toBeUndefined();
+  });
+
+  it('rejects malformed paths', () => {
+    expect(() => getValueAtPath(claudeResponse, 'content[abc]')).toThrow('Invalid array notation');
+    expect(() => getValueAtPath(claudeResponse, 'content[0')).toThrow('missing ]');
+    expect(() => getValueAtPath(claudeResponse, 'usage..total')).toThrow('empty key');
+    expect(() => getValueAtPath(claudeResponse, 'content | split')).toThrow('unknown modifier');
+    expect(() => getValueAtPath(claudeResponse, 'content[?(type==1)]')).toThrow('filters must start with @');
+  });
+});
+
+describe('getStringAtPath', () => {
+  it('returns strings only', () => {
+    expect(getStringAtPath(claudeResponse, 'content[0].text')).toBe('First part.');
+    expect(getStringAtPath(claudeResponse, 'usage.output_tokens')).toBeUndefined();
+    expect(getStringAtPath(claudeResponse, 'content')).toBeUndefined();
+  });
+});
+
+describe('setValueAtPath', () => {
+  it('creates missing objects and arrays along the path', () => {
+    expect(setValueAtPath({}, 'messages[0].content', 'Hello')).toEqual({ messages: [{ content: 'Hello' }] });
+    expect(setValueAtPath({ model: 'gpt-4o' }, 'parameters.temperature', 0.2))
+      .toEqual({ model: 'gpt-4o', parameters: { temperature: 0.2 } });
+  });
+
+  it('leaves the original object unchanged', () => {
+    const body = { messages: [{ role: 'user', content: '' }] };
+    const updated = setValueAtPath(body, 'messages[0].content', 'Hello');
+
+    expect(updated.messages[0].content).toBe('Hello');
+    expect(body.messages[0].content).toBe('');
+  });
+
+  it('sets the value on every wildcard and filter match', () => {
+    const body = { messages: [{ role: 'system', cache: false }, { role: 'user', cache: false }] };
+
+    expect(setValueAtPath(body, 'messages[*].cache', true).messages.map(m => m.cache)).toEqual([true, true]);
+    expect(setValueAtPath(body, "messages[?(@.role=='user')].cache", true).messages.map(m => m.cache))
+      .toEqual([false, true]);
+  });
+
+  it('replaces scalars in the way of a nested value', () => {
+    expect(setValueAtPath({ model: 'gpt-4o' }, 'model.name', 'x')).toEqual({ model: { name: 'x' } });
+  });
+
+  it('refuses to write through a modifier or into the wrong container', () => {
+    expect(() => setValueAtPath({}, 'parts | join', 'x')).toThrow("Cannot set a value through a 'join' modifier");
+    expect(() => setValueAtPath('text', 'model', 'x')).toThrow('Expected object');
+    expect(() => setValueAtPath({}, '[0]', 'x')).toThrow('Expected array');
+  });
+});
+
+describe('mergeAtPath', () => {
+  it('merges into the object at the path, creating it when missing', () => {
+    expect(mergeAtPath({ generationConfig: { temperature: 0.2 } }, 'generationConfig', { topK: 40 }))
+      .toEqual({ generationConfig: { temperature: 0.2, topK: 40 } });
+    expect(mergeAtPath({}, 'parameters', { max_new_tokens: 100 })).toEqual({ parameters: { max_new_tokens: 100 } });
+    expect(mergeAtPath({ model: 'x' }, '', { stream: true })).toEqual({ model: 'x', stream: true });
+  });
+});
+
+describe('path helpers', () => {
+  it('parses segments and modifiers', () => {
+    expect(parsePath("choices[*].message.content | join('\\n')")).toEqual({
+      segments: [
+        { type: 'property', key: 'choices' },
+        { type: 'wildcard' },
+        { type: 'property', key: 'message' },
+        { type: 'property', key: 'content' }
+      ],
+      modifier: { type: 'join', separator: '\n' }
+    });
+  });
+
+  it('tells definite paths from ones that can match several values', () => {
+    expect(isDefinitePath('choices[0].message.content')).toBe(true);
+    expect(isDefinitePath('choices[*].message.content')).toBe(false);
+    expect(isDefinitePath('parts | join')).toBe(false);
+  });
+
+  it('checks whether a path matches anything', () => {
+    expect(isValidPath(claudeResponse, 'usage.input_tokens')).toBe(true);
+    expect(isValidPath(claudeResponse, 'usage.cache_tokens')).toBe(false);
+    expect(isValidPath(claudeResponse, 'content[')).toBe(false);
+    expect(queryPath(claudeResponse, 'content[*].id')).toEqual(['toolu_01']);
+  });
+
+  it('builds sample objects from a path', () => {
+    expect(createSampleFromPath('contents[0].parts[0].text', 'Hello'))
+      .toEqual({ contents: [{ parts: [{ text: 'Hello' }] }] });
+  });
+});
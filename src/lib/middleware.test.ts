@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MiddlewarePipeline, clientMiddleware } from './middleware';
+import { providerHealth, providerHealthMiddleware } from './health';
+import type { Middleware, MiddlewareEvent, MiddlewareRequest, MiddlewareResponse } from '../types';
+
+const request: MiddlewareRequest = {
+  client: 'DataDrivenClient',
+  provider: 'openai',
+  endpoint: 'https://api.openai.com/v1/chat/completions',
+  headers: { 'Content-Type': 'application/json' },
+  body: { model: 'gpt-4o-mini' },
+  stream: false
+};
+
+// Middleware that records when each of its hooks ran
+function tracing(name: string, calls: string[]): Middleware {
+  return {
+    name,
+    onRequest: () => { calls.push(`${name}.onRequest`); },
+    onResponse: () => { calls.push(`${name}.onResponse`); },
+    onFinish: () => { calls.push(`${name}.onFinish`); }
+  };
+}
+
+afterEach(() => {
+  providerHealth.reset();
+});
+
+describe('MiddlewarePipeline', () => {
+  it('runs onRequest in order, onResponse in reverse and onFinish in order, with per-request middleware last', async () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline([tracing('first', calls), tracing('second', calls)]);
+
+    await pipeline.execute(request, async () => {
+      calls.push('send');
+      return { status: 200, body: {} };
+    }, [tracing('extra', calls)]);
+
+    expect(calls).toEqual([
+      'first.onRequest', 'second.onRequest', 'extra.onRequest',
+      'send',
+      'extra.onResponse', 'second.onResponse', 'first.onResponse',
+      'first.onFinish', 'second.onFinish', 'extra.onFinish'
+    ]);
+  });
+
+  it('passes rewritten requests and responses along the chain', async () => {
+    const send = vi.fn(async (sent: MiddlewareRequest): Promise<MiddlewareResponse> => ({ status: 200, body: { echoed: sent.headers['X-Trace'] } }));
+    const pipeline = new MiddlewarePipeline([
+      { name: 'trace', onRequest: sent => ({ ...sent, headers: { ...sent.headers, 'X-Trace': 'abc' } }) },
+      { name: 'wrap', onResponse: (received, sent) => ({ ...received, body: { ...received.body, endpoint: sent.endpoint } }) }
+    ]);
+
+    const response = await pipeline.execute(request, send);
+
+    expect(response.body).toEqual({ echoed: 'abc', endpoint: request.endpoint });
+    expect(request.headers).toEqual({ 'Content-Type': 'application/json' });
+  });
+
+  it('stops the chain when a hook throws and reports the error to onFinish', async () => {
+    const calls: string[] = [];
+    const events: MiddlewareEvent[] = [];
+    const send = vi.fn(async () => ({ body: {} }));
+    const pipeline = new MiddlewarePipeline([
+      { name: 'guard', onRequest: () => { throw new Error('Blocked by policy'); }, onFinish: event => { events.push(event); } },
+      tracing('later', calls)
+    ]);
+
+    await expect(pipeline.execute(request, send)).rejects.toThrow('Blocked by policy');
+
+    expect(send).not.toHaveBeenCalled();
+    expect(calls).toEqual(['later.onFinish']);
+    expect(events[0]).toMatchObject({ response: undefined, error: new Error('Blocked by policy') });
+  });
+
+  it('propagates send errors unchanged after every onFinish has seen them', async () => {
+    const error = new Error('API Error: Server error (HTTP 503)');
+    const onFinish = vi.fn();
+    const pipeline = new MiddlewarePipeline([{ name: 'observer', onFinish }]);
+
+    await expect(pipeline.execute(request, async () => { throw error; })).rejects.toBe(error);
+    expect(onFinish).toHaveBeenCalledWith(expect.objectContaining({ request, error }));
+  });
+
+  it('does not fail a request when onFinish throws', async () => {
+    const pipeline = new MiddlewarePipeline([{ name: 'broken', onFinish: () => { throw new Error('Observer failed'); } }]);
+
+    await expect(pipeline.execute(request, async () => ({ status: 200, body: 'ok' }))).resolves.toEqual({ status: 200, body: 'ok' });
+  });
+
+  it('replaces middleware registered under the same name and removes by name', () => {
+    const pipeline = new MiddlewarePipeline([{ name: 'a' }, { name: 'b' }]);
+    const replacement = { name: 'a', onFinish: vi.fn() };
+
+    pipeline.use(replacement);
+
+    expect(pipeline.list()).toEqual([{ name: 'b' }, replacement]);
+    expect(pipeline.remove('b')).toBe(true);
+    expect(pipeline.remove('b')).toBe(false);
+  });
+});
+
+describe('clientMiddleware', () => {
+  it('registers provider health tracking by default', async () => {
+    expect(clientMiddleware.list()).toContain(providerHealthMiddleware);
+
+    await clientMiddleware.execute(request, async () => ({ status: 200, body: {} }));
+    await expect(clientMiddleware.execute({ ...request, provider: 'claude' }, async () => {
+      throw new Error('API Error: Server error (HTTP 503)');
+    })).rejects.toThrow();
+
+    expect(providerHealth.getStatus('openai').consecutiveFailures).toBe(0);
+    expect(providerHealth.getStatus('openai').successRate).toBe(1);
+    expect(providerHealth.getStatus('claude').consecutiveFailures).toBe(1);
+  });
+});
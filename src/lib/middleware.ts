@@ -0,0 +1,101 @@
+/**
+ * Client middleware
+ * Hooks that see every provider request the SDK clients send: onRequest can rewrite the
+ * endpoint, headers and body, onResponse can inspect or replace the parsed response and
+ * onFinish observes timing and errors. Middleware registered on clientMiddleware runs for
+ * every client; RequestOptions.middleware adds more for a single request.
+ */
+
+import { logger } from './core/environment';
+import { providerHealthMiddleware } from './health';
+import type { Middleware, MiddlewareEvent, MiddlewareRequest, MiddlewareResponse } from '../types';
+
+export class MiddlewarePipeline {
+  private middleware: Middleware[] = [];
+
+  constructor(middleware: Middleware[] = []) {
+    middleware.forEach(item => this.use(item));
+  }
+
+  /**
+   * Adds a middleware to the end of the chain, replacing any with the same name
+   * @param middleware - The middleware to add
+   */
+  use(middleware: Middleware): this {
+    this.middleware = [...this.middleware.filter(item => item.name !== middleware.name), middleware];
+    return this;
+  }
+
+  /**
+   * Removes a middleware by name
+   * @returns True if a middleware was removed
+   */
+  remove(name: string): boolean {
+    const count = this.middleware.length;
+    this.middleware = this.middleware.filter(item => item.name !== name);
+    return this.middleware.length < count;
+  }
+
+  clear(): void {
+    this.middleware = [];
+  }
+
+  list(): Middleware[] {
+    return [...this.middleware];
+  }
+
+  /**
+   * Sends a request through the middleware chain
+   * onRequest hooks run in registration order and onResponse hooks in reverse, so the
+   * first middleware sees the outgoing request first and the final response last
+   * @param request - The request the client built
+   * @param send - Sends the (possibly rewritten) request and parses the response
+   * @param extra - Middleware for this request only, run after the registered ones
+   */
+  async execute(
+    request: MiddlewareRequest,
+    send: (request: MiddlewareRequest) => Promise<MiddlewareResponse>,
+    extra: Middleware[] = []
+  ): Promise<MiddlewareResponse> {
+    const chain = [...this.middleware, ...extra];
+    const startTime = Date.now();
+    let current: MiddlewareRequest = { ...request, headers: { ...request.headers } };
+    let response: MiddlewareResponse | undefined;
+
+    try {
+      for (const item of chain) {
+        if (item.onRequest) {
+          current = (await item.onRequest(current)) || current;
+        }
+      }
+
+      let received = await send(current);
+      for (const item of [...chain].reverse()) {
+        if (item.onResponse) {
+          received = (await item.onResponse(received, current)) || received;
+        }
+      }
+      response = received;
+    } catch (error) {
+      await this.finish(chain, { request: current, response, error, durationMs: Date.now() - startTime });
+      throw error;
+    }
+
+    await this.finish(chain, { request: current, response, durationMs: Date.now() - startTime });
+    return response;
+  }
+
+  // Observers must not turn a finished request into a failure
+  private async finish(chain: Middleware[], event: MiddlewareEvent): Promise<void> {
+    for (const item of chain) {
+      try {
+        await item.onFinish?.(event);
+      } catch (error) {
+        logger.warn(`Middleware ${item.name} failed in onFinish:`, error);
+      }
+    }
+  }
+}
+
+// Middleware applied to every client request; provider health tracking is registered by default
+export const clientMiddleware = new MiddlewarePipeline([providerHealthMiddleware]);
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MOCK_PROVIDER_BASE_URL, clearMockFixtures, registerMockFixtures, withMockProvider } from './mockProvider';
+import { createClient } from './core/clients';
+import { configureEnvironment, createDefaultEnvironment } from './core/environment';
+
+const endpoint = `${MOCK_PROVIDER_BASE_URL}/v1/chat/completions`;
+
+function chatBody(content: string, extra: Record<string, unknown> = {}): RequestInit {
+  return { method: 'POST', body: JSON.stringify({ model: 'mock-echo', messages: [{ role: 'user', content }], ...extra }) };
+}
+
+afterEach(() => {
+  clearMockFixtures();
+  configureEnvironment(createDefaultEnvironment());
+});
+
+describe('withMockProvider', () => {
+  it('answers mock:// requests without calling the wrapped fetch', async () => {
+    const baseFetch = vi.fn<typeof fetch>();
+    const response = await withMockProvider(baseFetch)(endpoint, chatBody('Summarise this', { mock: { latencyMs: 0 } }));
+
+    expect(baseFetch).not.toHaveBeenCalled();
+    expect((await response.json()).choices[0].message.content).toBe('Mock response from mock-echo (turn 1): Summarise this');
+  });
+
+  it('passes every other URL to the wrapped fetch', async () => {
+    const baseFetch = vi.fn<typeof fetch>(async () => new Response('ok'));
+    await withMockProvider(baseFetch)('https://api.openai.com/v1/models');
+
+    expect(baseFetch).toHaveBeenCalledWith('https://api.openai.com/v1/models', undefined);
+  });
+
+  it('fails only the first attempts when failTimes is set', async () => {
+    const mockFetch = withMockProvider(vi.fn<typeof fetch>());
+    const init = chatBody('Hello', { mock: { latencyMs: 0, fail: 429, failTimes: 1 } });
+
+    expect((await mockFetch(endpoint, init)).status).toBe(429);
+    expect((await mockFetch(endpoint, init)).status).toBe(200);
+  });
+});
+
+describe('mock provider through the SDK', () => {
+  it('is served by the default environment fetch', async () => {
+    registerMockFixtures([{ match: 'tagline', response: 'Fresh brews daily' }]);
+
+    const client = createClient('mock', { parameters: { mock: { latencyMs: 0 } } });
+
+    expect(await client.generate('Write a tagline')).toBe('Fresh brews daily');
+  });
+});
@@ -0,0 +1,16 @@
+/**
+ * Mock provider
+ * Re-exports the mock:// handler from supabase/functions/_shared/mockProvider.ts. The SDK's
+ * default fetch and the proxies' provider fetch both wrap it with withMockProvider, so fixtures
+ * and failure directives such as [mock:429] behave the same in browser and server mode.
+ */
+
+export {
+  MOCK_PROVIDER_BASE_URL,
+  clearMockFixtures,
+  handleMockRequest,
+  isMockProviderUrl,
+  registerMockFixtures,
+  withMockProvider
+} from '../../supabase/functions/_shared/mockProvider';
+export type { MockFailure, MockFixture, MockOptions } from '../../supabase/functions/_shared/mockProvider';
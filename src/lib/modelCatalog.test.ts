@@ -0,0 +1,80 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, describe, expect, it } from 'vitest';
+import { clearDiscoveredModels, findModel, getModelCatalog, searchModels, storeDiscoveredModels } from './modelCatalog';
+import { parseModelList } from './openaiCompatible';
+import { configureEnvironment, createDefaultEnvironment } from './core/environment';
+import { getProvider } from '../data/providers';
+
+const modelLists: Record<string, unknown> = JSON.parse(readFileSync(new URL('./__fixtures__/modelLists.json', import.meta.url), 'utf8'));
+
+// Stores a provider's recorded model list as discoverModels would have returned it
+function discover(providerId: string) {
+  const provider = getProvider(providerId)!;
+  storeDiscoveredModels(providerId, parseModelList(modelLists[providerId], provider.apiConfig.modelList));
+  return provider;
+}
+
+afterEach(() => {
+  configureEnvironment(createDefaultEnvironment());
+});
+
+describe('getModelCatalog', () => {
+  it('keeps curated details for built-in models and adds listed ones', () => {
+    const provider = discover('gemini');
+    const catalog = getModelCatalog(provider);
+
+    expect(findModel(provider, 'gemini-2.0-flash')).toEqual({
+      id: 'gemini-2.0-flash',
+      displayName: 'Gemini 2.0 Flash',
+      contextWindow: 1048576,
+      maxOutputTokens: 8192,
+      modalities: ['text', 'image', 'document', 'audio'],
+      pricing: { input: 0.1, output: 0.4 },
+      discovered: false
+    });
+    expect(findModel(provider, 'gemini-2.5-flash-lite')).toMatchObject({
+      displayName: 'Gemini 2.5 Flash-Lite',
+      contextWindow: 1048576,
+      maxOutputTokens: 65536,
+      modalities: ['text'],
+      discovered: true
+    });
+    expect(catalog.map(model => model.id).slice(0, 6)).toEqual(provider.models!.map(model => model.id));
+    expect(catalog.some(model => model.id.startsWith('models/'))).toBe(false);
+  });
+
+  it('takes context and output limits from the IBM list for models it does not curate', () => {
+    const provider = discover('ibm');
+
+    expect(findModel(provider, 'ibm/granite-3-2b-instruct')).toMatchObject({
+      displayName: 'granite-3-2b-instruct',
+      contextWindow: 131072,
+      maxOutputTokens: 8192,
+      discovered: true
+    });
+    expect(findModel(provider, 'meta-llama/llama-3-3-70b-instruct')).toMatchObject({
+      displayName: 'Llama 3.3 70B Instruct',
+      maxOutputTokens: 8192,
+      discovered: false
+    });
+  });
+
+  it('falls back to the built-in catalog once the listed models are cleared', () => {
+    const provider = discover('openai');
+    expect(findModel(provider, 'chatgpt-4o-latest')?.discovered).toBe(true);
+
+    clearDiscoveredModels('openai');
+
+    expect(findModel(provider, 'chatgpt-4o-latest')).toBeUndefined();
+    expect(getModelCatalog(provider)).toHaveLength(provider.models!.length);
+  });
+});
+
+describe('searchModels', () => {
+  it('matches every word against the id or display name', () => {
+    const catalog = getModelCatalog(discover('claude'));
+
+    expect(searchModels(catalog, 'haiku 3.5').map(model => model.id)).toEqual(['claude-3-5-haiku-20241022']);
+    expect(searchModels(catalog, '  ')).toBe(catalog);
+  });
+});
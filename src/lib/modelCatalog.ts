@@ -0,0 +1,109 @@
+/**
+ * Model catalog
+ * Each provider lists the models it offers with their context window, output limit, input
+ * modalities and pricing. Models listed by the provider's models endpoint are kept in the
+ * environment's storage and merged in, so the catalog follows what the account can use
+ * while built-in entries keep their details.
+ */
+
+import { getContextWindow } from '../data/contextWindows';
+import { getModelPricing } from './pricing';
+import { getEnvironment } from './core/environment';
+import type { DiscoveredModel } from './openaiCompatible';
+import type { ModelInfo, Provider } from '../types';
+
+const storagePrefix = 'modelshift-models-';
+
+/**
+ * Returns a provider's models, built-in entries first, with missing details filled from the
+ * context window table and the pricing catalog
+ * @param provider - The provider, built-in or custom
+ * @returns The catalog; at least the provider's default model
+ */
+export function getModelCatalog(provider: Provider): ModelInfo[] {
+  const models = new Map<string, ModelInfo>();
+  for (const model of provider.models || []) {
+    models.set(model.id, model);
+  }
+  if (!models.has(provider.apiConfig.defaultModel)) {
+    models.set(provider.apiConfig.defaultModel, { id: provider.apiConfig.defaultModel });
+  }
+
+  // Listed details only fill gaps, since the built-in ones are curated
+  for (const listed of loadDiscoveredModels(provider.id)) {
+    const known = models.get(listed.id);
+    models.set(listed.id, {
+      id: listed.id,
+      displayName: known?.displayName ?? listed.displayName,
+      contextWindow: known?.contextWindow ?? listed.contextWindow,
+      maxOutputTokens: known?.maxOutputTokens ?? listed.maxOutputTokens,
+      modalities: known?.modalities,
+      pricing: known?.pricing,
+      discovered: !known
+    });
+  }
+
+  return Array.from(models.values(), model => describeModel(provider.id, model))
+    .filter(model => model.id);
+}
+
+/**
+ * Looks up a model in a provider's catalog
+ * @param provider - The provider, built-in or custom
+ * @param modelId - Model name, e.g. 'gpt-4o'
+ */
+export function findModel(provider: Provider, modelId?: string): ModelInfo | undefined {
+  if (!modelId) return undefined;
+  return getModelCatalog(provider).find(model => model.id === modelId);
+}
+
+/**
+ * Filters models by a search query; every word must appear in the id or display name
+ * @param models - Models to search, e.g. from getModelCatalog
+ * @param query - Words to match, case-insensitively
+ */
+export function searchModels(models: ModelInfo[], query: string): ModelInfo[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return models;
+
+  return models.filter(model => {
+    const text = `${model.id} ${model.displayName || ''}`.toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+}
+
+/**
+ * Stores the models a provider's models endpoint listed, replacing the previous list
+ * @param providerId - Provider the models belong to
+ * @param models - Models from discoverModels or ProxyService.listModels
+ */
+export function storeDiscoveredModels(providerId: string, models: DiscoveredModel[]): void {
+  const entries = models.map(({ id, displayName, contextWindow, maxOutputTokens }) =>
+    ({ id, displayName, contextWindow, maxOutputTokens }));
+  getEnvironment().storage.setItem(`${storagePrefix}${providerId}`, JSON.stringify(entries));
+}
+
+// Forgets the listed models, leaving the built-in catalog
+export function clearDiscoveredModels(providerId: string): void {
+  getEnvironment().storage.removeItem(`${storagePrefix}${providerId}`);
+}
+
+function loadDiscoveredModels(providerId: string): DiscoveredModel[] {
+  try {
+    const stored = getEnvironment().storage.getItem(`${storagePrefix}${providerId}`);
+    const models = stored ? JSON.parse(stored) : [];
+    return Array.isArray(models) ? models.filter(model => typeof model?.id === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+function describeModel(providerId: string, model: ModelInfo): ModelInfo {
+  const pricing = model.pricing ?? getModelPricing(providerId, model.id)?.pricing;
+  return {
+    ...model,
+    contextWindow: model.contextWindow ?? getContextWindow(model.id),
+    modalities: model.modalities ?? ['text'],
+    pricing: pricing && { input: pricing.input, output: pricing.output }
+  };
+}
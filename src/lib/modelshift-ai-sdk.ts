@@ -1,26 +1,48 @@
 // ModelShift AI Provider SDK Integration
-import { setValueAtPath, getValueAtPath, mergeAtPath } from './jsonPathUtils';
+// Browser entry point: adds the Supabase proxy clients and the app's client factory on top
+// of the environment-agnostic core in ./core, which Node scripts and workers import directly
 import { ProxyService } from './api/ProxyService';
 import { DynamicProxyService } from './api/DynamicProxyService';
 import { apiKeysDb } from './api-keys/api-keys-db';
 import { serverEncryption } from './api-keys/encryption';
-import { isDevelopment, getProxyUrl } from './devProxy';
-import { sanitizeHeaders } from './headerSanitizer';
-import type { ApiConfiguration } from '../types';
-
-export interface ModelShiftAIClient {
-  generate(prompt: string): Promise<string>;
-}
-
-export interface ProviderConfig {
-  endpoint: string;
-  buildRequestBody: (prompt: string, keyData: Record<string, string>) => object;
-  parseResponse: (response: any) => string;
-  buildHeaders?: (keyData: Record<string, string>) => Record<string, string>;
-  buildEndpoint?: (keyData: Record<string, string>) => string;
-  defaultModel?: string;
-  defaultParameters?: Record<string, any>;
-}
+import { textToStream } from './streaming';
+import { getLatestUserPrompt } from './chat';
+import { createAbortError } from './abort';
+import { isToolMessage } from './tools';
+import { assertNoAttachments } from './attachments';
+import { installBrowserEnvironment } from './browserEnvironment';
+import { clientMiddleware } from './middleware';
+import { enforceContextWindow } from './tokens';
+import {
+  CachingClient,
+  ConfigurableClient,
+  DataDrivenClient,
+  FallbackClient,
+  createClient
+} from './core/clients';
+import { providerConfigs } from './core/providerConfigs';
+import { getEnvironment } from './core/environment';
+import { createEmbeddingClient } from './embeddings';
+import { getProvider, requiresKeys } from '../data/providers';
+import type { EmbeddingClient } from './embeddings';
+import type { FallbackProvider, ModelShiftAIClient } from './core/clients';
+import type { RequestFingerprint, ResponseCache } from './cache';
+import type { StreamEvent } from './streaming';
+import type {
+  ApiConfiguration,
+  ChatMessage,
+  EmbeddingConfiguration,
+  GenerateResult,
+  MiddlewareRequest,
+  RequestOptions
+} from '../types';
+
+export * from './core';
+export { readFileAsAttachment } from './attachments';
+export { createBrowserEnvironment, installBrowserEnvironment } from './browserEnvironment';
+
+// The web app runs the core clients against localStorage, the key vault and the development proxy
+installBrowserEnvironment();
 
 // Helper function to check if Supabase proxy is properly configured
 async function isSupabaseProxyConfigured(): Promise<boolean> {
@@ -42,6 +64,80 @@ async function isSupabaseProxyConfigured(): Promise<boolean> {
   }
 }
 
+// Connection mode chosen in the app settings: 'browser' calls providers directly, 'server' uses the Edge Functions
+function getConnectionMode(): string {
+  return getEnvironment().storage.getItem('modelshift-connection-mode') || 'server';
+}
+
+// Direct client for browser connection mode, with the given keys or those in the key vault
+function createBrowserModeClient(
+  providerId: string,
+  customModel?: string,
+  customParameters?: Record<string, any>,
+  providedKeys?: Record<string, string>
+): ConfigurableClient {
+  const provider = getProvider(providerId);
+  if (!provider) {
+    throw new Error(`Provider '${providerId}' not found in configuration`);
+  }
+
+  // Local servers and the mock provider need no keys
+  const keyData = providedKeys || getEnvironment().resolveKeys(providerId) || (requiresKeys(provider) ? undefined : {});
+  if (!keyData) {
+    throw new Error(`No API key found for ${provider.displayName}. Please add your API key in the API Keys section.`);
+  }
+
+  return createClient(providerId, { keyData, model: customModel, parameters: customParameters });
+}
+
+// The edge functions only relay text, so tool calls and attachments have to go straight to the provider
+function assertServerModeSupports(options: RequestOptions, messages?: ChatMessage[]): void {
+  if (options.tools?.length || messages?.some(isToolMessage)) {
+    throw new Error('Tool calling requires direct browser mode. Switch the connection mode to browser to use tools.');
+  }
+  assertNoAttachments(messages);
+}
+
+// Checks server-mode requests against the context window before they reach the Edge Function
+function checkServerRequestSize(
+  providerId: string,
+  input: string | ChatMessage[],
+  options: RequestOptions,
+  customModel?: string,
+  customParameters?: Record<string, any>
+): void {
+  const apiConfig = getProvider(providerId)?.apiConfig;
+  enforceContextWindow(input, {
+    model: customModel || apiConfig?.defaultModel,
+    provider: providerId,
+    parameters: { ...apiConfig?.defaultParameters, ...customParameters },
+    contextWindow: apiConfig?.contextWindow
+  }, options.contextWindowCheck);
+}
+
+// Middleware request for the proxy clients, whose body is the payload they hand to the Edge Function
+function createProxyMiddlewareRequest(
+  client: string,
+  providerId: string,
+  endpoint: string,
+  body: { prompt: string; messages?: ChatMessage[]; model?: string; parameters?: Record<string, any> },
+  stream: boolean
+): MiddlewareRequest {
+  return { client, provider: providerId, endpoint, headers: {}, body, stream };
+}
+
+// Waits for a stream's first event, so connection errors surface inside the middleware chain
+async function startStream(events: AsyncIterable<StreamEvent>): Promise<AsyncIterable<StreamEvent>> {
+  const iterator = events[Symbol.asyncIterator]();
+  const first = await iterator.next();
+
+  return (async function* () {
+    if (first.done) return;
+    yield first.value;
+    yield* { [Symbol.asyncIterator]: () => iterator };
+  })();
+}
+
 // Enhanced Dynamic Proxy Client that uses the new DynamicProxyService
 export class DynamicProxyClient implements ModelShiftAIClient {
   constructor(
@@ -53,37 +149,87 @@ export class DynamicProxyClient implements ModelShiftAIClient {
     private readonly useUserKey: boolean = true
   ) {}
 
-  async generate(prompt: string): Promise<string> {
+  async generate(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return (await this.complete(prompt, options)).text || 'No response';
+  }
+
+  async generateResult(prompt: string, options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(prompt, options);
+  }
+
+  async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    return (await this.complete(getLatestUserPrompt(messages), options, messages)).text || 'No response';
+  }
+
+  async chatResult(messages: ChatMessage[], options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(getLatestUserPrompt(messages), options, messages);
+  }
+
+  async *generateStream(prompt: string, options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(prompt, options);
+  }
+
+  async *chatStream(messages: ChatMessage[], options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(getLatestUserPrompt(messages), options, messages);
+  }
+
+  private async complete(prompt: string, options: RequestOptions, messages?: ChatMessage[]): Promise<GenerateResult> {
     try {
       // Check if we should use direct browser mode
-      const connectionMode = localStorage.getItem('modelshift-connection-mode') || 'server';
+      const connectionMode = getConnectionMode();
       if (connectionMode === 'browser') {
         console.log('DynamicProxyClient: Using direct browser mode');
-        return this.generateDirectly(prompt);
+        const client = await this.createDirectClient();
+        return messages ? await client.chatResult(messages, options) : await client.generateResult(prompt, options);
       }
       
+      assertServerModeSupports(options, messages);
+      checkServerRequestSize(this.providerId, messages || prompt, options, this.customModel, this.customParameters);
       console.log(`DynamicProxyClient: Making authenticated request to ${this.providerId}`);
 
-      const response = await DynamicProxyService.callProvider(
-        this.providerId,
-        prompt,
-        {
-          model: this.customModel,
-          parameters: this.customParameters,
-          agentId: this.agentId,
-          userId: this.userId,
-          useUserKey: this.useUserKey
-        }
-      );
+      const { body: response } = await clientMiddleware.execute(
+        createProxyMiddlewareRequest(
+          'DynamicProxyClient',
+          this.providerId,
+          DynamicProxyService.getFunctionName(this.providerId),
+          { prompt, messages, model: this.customModel, parameters: this.customParameters },
+          false
+        ),
+        async request => {
+          const response = await DynamicProxyService.callProvider(
+            this.providerId,
+            request.body.prompt,
+            {
+              model: request.body.model,
+              parameters: request.body.parameters,
+              messages: request.body.messages,
+              agentId: this.agentId,
+              userId: this.userId,
+              useUserKey: this.useUserKey,
+              signal: options.signal,
+              headers: request.headers
+            }
+          );
 
-      if (!response.success) {
-        throw new Error(response.error || 'Dynamic proxy request failed');
-      }
+          if (!response.success) {
+            throw response.cancelled ? createAbortError() : new Error(response.error || 'Dynamic proxy request failed');
+          }
+          return { body: response, attempts: response.metadata?.attempts };
+        },
+        options.middleware
+      );
 
-      return response.response || 'No response';
+      return {
+        text: response.response || '',
+        usage: response.usage,
+        finishReason: response.finishReason,
+        model: response.model,
+        attempts: response.metadata?.attempts,
+        raw: response
+      };
 
     } catch (error) {
-      console.error('Error during DynamicProxyClient.generate():', error);
+      console.error('Error during DynamicProxyClient request:', error);
       
       if (error instanceof TypeError && error.message === 'Failed to fetch') {
         throw new Error(
@@ -94,77 +240,56 @@ export class DynamicProxyClient implements ModelShiftAIClient {
       throw error;
     }
   }
-  
-  private async generateDirectly(prompt: string): Promise<string> {
-    // Import necessary modules
-    const { keyVault } = await import('./encryption');
-    const { providers } = await import('../data/providers');
-    
-    // Get provider configuration
-    const provider = providers.find(p => p.id === this.providerId);
-    if (!provider) {
-      throw new Error(`Provider '${this.providerId}' not found in configuration`);
-    }
-    
-    // Get API keys from key vault
-    const keyData = keyVault.retrieveDefault(this.providerId);
-    if (!keyData) {
-      throw new Error(`No API key found for ${provider.displayName}. Please add your API key in the API Keys section.`);
+
+  private async *stream(prompt: string, options: RequestOptions, messages?: ChatMessage[]): AsyncGenerator<StreamEvent> {
+    const connectionMode = getConnectionMode();
+    if (connectionMode === 'browser') {
+      console.log('DynamicProxyClient: Streaming in direct browser mode');
+      const client = await this.createDirectClient();
+      yield* messages ? client.chatStream(messages, options) : client.generateStream(prompt, options);
+      return;
     }
-    
-    // Create a client and make the request
-    const client = new ConfigurableClient(keyData, {
-      endpoint: provider.apiConfig.baseUrl + provider.apiConfig.endpointPath,
-      buildRequestBody: (prompt: string) => {
-        let body = JSON.parse(JSON.stringify(provider.apiConfig.requestBodyStructure));
-        
-        // Set the prompt using the promptJsonPath
-        body = setValueAtPath(body, provider.apiConfig.promptJsonPath, prompt);
-        
-        // Set model if provided
-        if (this.customModel && provider.apiConfig.modelJsonPath) {
-          body = setValueAtPath(body, provider.apiConfig.modelJsonPath, this.customModel);
-        }
-        
-        // Set parameters if provided
-        if (this.customParameters) {
-          if (provider.apiConfig.parametersJsonPath) {
-            body = mergeAtPath(body, provider.apiConfig.parametersJsonPath, this.customParameters);
-          } else {
-            // If no specific path, merge at root level
-            body = { ...body, ...this.customParameters };
+
+    assertServerModeSupports(options, messages);
+    checkServerRequestSize(this.providerId, messages || prompt, options, this.customModel, this.customParameters);
+    console.log(`DynamicProxyClient: Streaming authenticated request to ${this.providerId}`);
+
+    const started: { events?: AsyncIterable<StreamEvent> } = {};
+    await clientMiddleware.execute(
+      createProxyMiddlewareRequest(
+        'DynamicProxyClient',
+        this.providerId,
+        DynamicProxyService.getFunctionName(this.providerId),
+        { prompt, messages, model: this.customModel, parameters: this.customParameters },
+        true
+      ),
+      async request => {
+        started.events = await startStream(DynamicProxyService.streamProvider(
+          this.providerId,
+          request.body.prompt,
+          {
+            model: request.body.model,
+            parameters: request.body.parameters,
+            messages: request.body.messages,
+            agentId: this.agentId,
+            userId: this.userId,
+            useUserKey: this.useUserKey,
+            signal: options.signal,
+            headers: request.headers
           }
-        }
-        
-        return body;
+        ));
+        return { body: undefined };
       },
-      parseResponse: (response: any) => {
-        return getValueAtPath(response, provider.apiConfig.responseJsonPath) || '';
-      },
-      buildHeaders: (keyData: Record<string, string>) => {
-        const headers = { ...provider.apiConfig.headers };
-        
-        if (provider.apiConfig.authHeaderName) {
-          headers[provider.apiConfig.authHeaderName] = `${provider.apiConfig.authHeaderPrefix || ''}${keyData.apiKey}`;
-        }
-        
-        // Sanitize headers to ensure they only contain valid characters
-        return sanitizeHeaders(headers);
-      },
-      buildEndpoint: (keyData: Record<string, string>) => {
-        let endpoint = provider.apiConfig.baseUrl + provider.apiConfig.endpointPath;
-        
-        // Handle API key in URL parameter (e.g., Gemini)
-        if (provider.apiConfig.apiKeyInUrlParam && provider.apiConfig.urlParamName) {
-          const separator = endpoint.includes('?') ? '&' : '?';
-          endpoint += `${separator}${provider.apiConfig.urlParamName}=${keyData.apiKey}`;
-        }
-        
-        return endpoint;
-      }
-    });
-    
-    return await client.generate(prompt);
+      options.middleware
+    );
+
+    if (started.events) {
+      yield* started.events;
+    }
+  }
+  
+  private async createDirectClient(): Promise<ConfigurableClient> {
+    return createBrowserModeClient(this.providerId, this.customModel, this.customParameters);
   }
 
   private getProviderDisplayName(): string {
@@ -189,543 +314,122 @@ export class ProxyClient implements ModelShiftAIClient {
     private readonly useUserKey: boolean = true
   ) {}
 
-  async generate(prompt: string): Promise<string> {
-    try {
-      // Check if we should use direct browser mode
-      const connectionMode = localStorage.getItem('modelshift-connection-mode') || 'server';
-      if (connectionMode === 'browser') {
-        console.log('ProxyClient: Using direct browser mode');
-        return this.generateDirectly(prompt);
-      }
-      
-      console.log(`ProxyClient: Making authenticated request to ${this.providerId}`);
-
-      const response = await ProxyService.callProvider({
-        providerId: this.providerId,
-        prompt,
-        model: this.customModel,
-        parameters: this.customParameters,
-        agentId: this.agentId,
-        userId: this.userId,
-        useUserKey: this.useUserKey
-      });
-
-      if (!response.success) {
-        throw new Error(response.error || 'Proxy request failed');
-      }
-
-      return response.response || 'No response';
-
-    } catch (error) {
-      console.error('Error during ProxyClient.generate():', error);
-      
-      if (error instanceof TypeError && error.message === 'Failed to fetch') {
-        throw new Error(
-          'Network request failed. Please check your internet connection and Supabase configuration.'
-        );
-      }
-      
-      throw error;
-    }
-  }
-  
-  private async generateDirectly(prompt: string): Promise<string> {
-    // Import necessary modules
-    const { keyVault } = await import('./encryption');
-    const { providers } = await import('../data/providers');
-    
-    // Get provider configuration
-    const provider = providers.find(p => p.id === this.providerId);
-    if (!provider) {
-      throw new Error(`Provider '${this.providerId}' not found in configuration`);
-    }
-    
-    // Get API keys from key vault
-    const keyData = keyVault.retrieveDefault(this.providerId);
-    if (!keyData) {
-      throw new Error(`No API key found for ${provider.displayName}. Please add your API key in the API Keys section.`);
-    }
-    
-    // Create a client and make the request
-    const client = new ConfigurableClient(keyData, {
-      endpoint: provider.apiConfig.baseUrl + provider.apiConfig.endpointPath,
-      buildRequestBody: (prompt: string) => {
-        let body = JSON.parse(JSON.stringify(provider.apiConfig.requestBodyStructure));
-        
-        // Set the prompt using the promptJsonPath
-        body = setValueAtPath(body, provider.apiConfig.promptJsonPath, prompt);
-        
-        // Set model if provided
-        if (this.customModel && provider.apiConfig.modelJsonPath) {
-          body = setValueAtPath(body, provider.apiConfig.modelJsonPath, this.customModel);
-        }
-        
-        // Set parameters if provided
-        if (this.customParameters) {
-          if (provider.apiConfig.parametersJsonPath) {
-            body = mergeAtPath(body, provider.apiConfig.parametersJsonPath, this.customParameters);
-          } else {
-            // If no specific path, merge at root level
-            body = { ...body, ...this.customParameters };
-          }
-        }
-        
-        return body;
-      },
-      parseResponse: (response: any) => {
-        return getValueAtPath(response, provider.apiConfig.responseJsonPath) || '';
-      },
-      buildHeaders: (keyData: Record<string, string>) => {
-        const headers = { ...provider.apiConfig.headers };
-        
-        if (provider.apiConfig.authHeaderName) {
-          headers[provider.apiConfig.authHeaderName] = `${provider.apiConfig.authHeaderPrefix || ''}${keyData.apiKey}`;
-        }
-        
-        // Sanitize headers to ensure they only contain valid characters
-        return sanitizeHeaders(headers);
-      },
-      buildEndpoint: (keyData: Record<string, string>) => {
-        let endpoint = provider.apiConfig.baseUrl + provider.apiConfig.endpointPath;
-        
-        // Handle API key in URL parameter (e.g., Gemini)
-        if (provider.apiConfig.apiKeyInUrlParam && provider.apiConfig.urlParamName) {
-          const separator = endpoint.includes('?') ? '&' : '?';
-          endpoint += `${separator}${provider.apiConfig.urlParamName}=${keyData.apiKey}`;
-        }
-        
-        return endpoint;
-      }
-    });
-    
-    return await client.generate(prompt);
+  async generate(prompt: string, options: RequestOptions = {}): Promise<string> {
+    return (await this.complete(prompt, options)).text || 'No response';
   }
-}
-
-// Enhanced ConfigurableClient with better CORS handling
-export class ConfigurableClient implements ModelShiftAIClient {
-  constructor(private readonly keyData: Record<string, string>, private readonly config: ProviderConfig) {}
 
-  async generate(prompt: string): Promise<string> {
-    console.log('Using ConfigurableClient for direct API calls');
-    
-    try {
-      const originalEndpoint = this.getEndpoint();
-      const endpoint = getProxyUrl(originalEndpoint);
-      const headers = this.buildHeaders();
-      const body = this.config.buildRequestBody(prompt, this.keyData);
-
-      console.log(`Making request to: ${endpoint}`);
-      console.log('Request headers:', headers);
-
-      // Enhanced error handling for WebContainer/CORS issues
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: headers,
-        body: JSON.stringify(body),
-        mode: 'cors', // Explicitly set CORS mode
-        credentials: 'omit' // Don't send credentials for external APIs
-      });
-
-      if (!response.ok) {
-        let errorText = '';
-        let errorDetails = null;
-        
-        try {
-          errorText = await response.text();
-          // Try to parse as JSON to get structured error
-          if (errorText.trim().startsWith('{')) {
-            errorDetails = JSON.parse(errorText);
-          }
-        } catch (parseError) {
-          // If we can't parse the error, use the raw text
-          errorText = errorText || `HTTP ${response.status}`;
-        }
-
-        console.error(`API request failed: ${response.status} ${errorText}`);
-        
-        // Enhanced error messages for common issues
-        if (response.status === 401) {
-          if (errorDetails?.error?.message) {
-            throw new Error(`Authentication failed: ${errorDetails.error.message}`);
-          } else {
-            throw new Error(`Authentication failed: Invalid API key or credentials (HTTP ${response.status})`);
-          }
-        } else if (response.status === 403) {
-          throw new Error(`Access forbidden: Check your API key permissions (HTTP ${response.status})`);
-        } else if (response.status === 429) {
-          throw new Error(`Rate limit exceeded: Too many requests (HTTP ${response.status})`);
-        } else if (response.status >= 500) {
-          throw new Error(`Server error: The API service is temporarily unavailable (HTTP ${response.status})`);
-        } else {
-          const errorMessage = errorDetails?.error?.message || errorDetails?.message || errorText || 'Unknown error';
-          throw new Error(`API request failed: ${errorMessage} (HTTP ${response.status})`);
-        }
-      }
+  async generateResult(prompt: string, options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(prompt, options);
+  }
 
-      const json = await response.json();
-      const output = this.config.parseResponse(json);
-      return output || 'No response';
-    } catch (error) {
-      console.error('Error during generate():', error);
-      
-      // Enhanced error handling for different types of network issues
-      if (error instanceof TypeError) {
-        if (error.message === 'Failed to fetch') {
-          if (isDevelopment()) {
-            throw new Error(
-              'Network request failed. This is likely due to CORS restrictions. ' +
-              'The development proxy should handle this automatically. ' +
-              'Please ensure the Vite development server is running correctly. ' +
-              'If the issue persists, try restarting the development server.'
-            );
-          } else {
-            throw new Error(
-              'Network request failed. This may be due to CORS restrictions or network connectivity issues. ' +
-              'In a production environment, you would need to either:\n' +
-              '1. Use a backend proxy to make API calls\n' +
-              '2. Configure CORS headers on your server\n' +
-              '3. Use the provider\'s official SDK with proper authentication'
-            );
-          }
-        }
-        if (error.message.includes('NetworkError')) {
-          throw new Error(
-            'Network error occurred. Please check your internet connection and try again.'
-          );
-        }
-        if (error.message.includes('Failed to execute \'fetch\'') && error.message.includes('headers')) {
-          throw new Error(
-            'Invalid header value detected. Please ensure your API keys and headers contain only valid ASCII characters. ' +
-            'If you\'re using a copied API key, try manually typing it to avoid invisible Unicode characters.'
-          );
-        }
-      }
-      
-      // Re-throw other errors as-is (including our enhanced API errors)
-      throw error;
-    }
+  async chat(messages: ChatMessage[], options: RequestOptions = {}): Promise<string> {
+    return (await this.complete(getLatestUserPrompt(messages), options, messages)).text || 'No response';
   }
 
-  private getEndpoint(): string {
-    if (this.config.buildEndpoint) {
-      return this.config.buildEndpoint(this.keyData);
-    }
-    return this.config.endpoint;
+  async chatResult(messages: ChatMessage[], options: RequestOptions = {}): Promise<GenerateResult> {
+    return this.complete(getLatestUserPrompt(messages), options, messages);
   }
 
-  private buildHeaders(): Record<string, string> {
-    let headers: Record<string, string>;
-    
-    if (this.config.buildHeaders) {
-      headers = this.config.buildHeaders(this.keyData);
-    } else {
-      headers = {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${this.keyData.apiKey}`
-      };
-    }
-    
-    // Sanitize headers to ensure they only contain valid characters
-    return sanitizeHeaders(headers);
+  async *generateStream(prompt: string, options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(prompt, options);
   }
-}
 
-// Data-Driven Configurable Client with enhanced CORS handling
-export class DataDrivenClient implements ModelShiftAIClient {
-  constructor(
-    private readonly keyData: Record<string, string>, 
-    private readonly apiConfig: ApiConfiguration,
-    private readonly customModel?: string,
-    private readonly customParameters?: Record<string, any>
-  ) {}
+  async *chatStream(messages: ChatMessage[], options: RequestOptions = {}): AsyncGenerator<StreamEvent> {
+    yield* this.stream(getLatestUserPrompt(messages), options, messages);
+  }
 
-  async generate(prompt: string): Promise<string> {
-    console.log('Using DataDrivenClient for direct API calls');
-    
+  private async complete(prompt: string, options: RequestOptions, messages?: ChatMessage[]): Promise<GenerateResult> {
     try {
-      const originalEndpoint = this.buildEndpoint();
-      const endpoint = getProxyUrl(originalEndpoint);
-      const headers = this.buildHeaders();
-      const body = this.buildRequestBody(prompt);
-
-      console.log(`Making request to: ${endpoint}`);
-
-      const response = await fetch(endpoint, {
-        method: this.apiConfig.method,
-        headers: headers,
-        body: JSON.stringify(body),
-        mode: 'cors',
-        credentials: 'omit'
-      });
+      // Check if we should use direct browser mode
+      const connectionMode = getConnectionMode();
+      if (connectionMode === 'browser') {
+        console.log('ProxyClient: Using direct browser mode');
+        const client = await this.createDirectClient();
+        return messages ? await client.chatResult(messages, options) : await client.generateResult(prompt, options);
+      }
+      
+      assertServerModeSupports(options, messages);
+      checkServerRequestSize(this.providerId, messages || prompt, options, this.customModel, this.customParameters);
+      console.log(`ProxyClient: Making authenticated request to ${this.providerId}`);
 
-      if (!response.ok) {
-        let errorText = '';
-        let errorDetails = null;
-        
-        try {
-          errorText = await response.text();
-          if (errorText.trim().startsWith('{')) {
-            errorDetails = JSON.parse(errorText);
+      const { body: response } = await clientMiddleware.execute(
+        createProxyMiddlewareRequest(
+          'ProxyClient',
+          this.providerId,
+          'ai-proxy',
+          { prompt, messages, model: this.customModel, parameters: this.customParameters },
+          false
+        ),
+        async request => {
+          const response = await ProxyService.callProvider({
+            providerId: this.providerId,
+            prompt: request.body.prompt,
+            messages: request.body.messages,
+            model: request.body.model,
+            parameters: request.body.parameters,
+            agentId: this.agentId,
+            userId: this.userId,
+            useUserKey: this.useUserKey,
+            signal: options.signal,
+            headers: request.headers
+          });
+
+          if (!response.success) {
+            throw response.cancelled ? createAbortError() : new Error(response.error || 'Proxy request failed');
           }
-        } catch (parseError) {
-          errorText = errorText || `HTTP ${response.status}`;
-        }
+          return { body: response, attempts: response.metadata?.attempts };
+        },
+        options.middleware
+      );
 
-        console.error(`API request failed: ${response.status} ${errorText}`);
-        
-        // Try to parse error from response if errorJsonPath is provided
-        if (this.apiConfig.errorJsonPath && errorDetails) {
-          try {
-            const errorMessage = getValueAtPath(errorDetails, this.apiConfig.errorJsonPath);
-            if (errorMessage) {
-              throw new Error(`API Error: ${errorMessage}`);
-            }
-          } catch (parseError) {
-            // Fall back to generic error if parsing fails
-          }
-        }
-        
-        // Enhanced error messages
-        if (response.status === 401) {
-          throw new Error(`Authentication failed: Invalid API key or credentials (HTTP ${response.status})`);
-        } else if (response.status === 403) {
-          throw new Error(`Access forbidden: Check your API key permissions (HTTP ${response.status})`);
-        } else if (response.status === 429) {
-          throw new Error(`Rate limit exceeded: Too many requests (HTTP ${response.status})`);
-        } else if (response.status >= 500) {
-          throw new Error(`Server error: The API service is temporarily unavailable (HTTP ${response.status})`);
-        } else {
-          const errorMessage = errorDetails?.error?.message || errorDetails?.message || errorText || 'Unknown error';
-          throw new Error(`API request failed: ${errorMessage} (HTTP ${response.status})`);
-        }
-      }
+      return {
+        text: response.response || '',
+        usage: response.usage,
+        finishReason: response.finishReason,
+        model: response.model,
+        attempts: response.metadata?.attempts,
+        raw: response
+      };
 
-      const json = await response.json();
-      const output = getValueAtPath(json, this.apiConfig.responseJsonPath);
-      return output || 'No response';
     } catch (error) {
-      console.error('Error during generate():', error);
+      console.error('Error during ProxyClient request:', error);
       
-      if (error instanceof TypeError) {
-        if (error.message === 'Failed to fetch') {
-          if (isDevelopment()) {
-            throw new Error(
-              'Network request failed. This is likely due to CORS restrictions. ' +
-              'The development proxy should handle this automatically. ' +
-              'Please ensure the Vite development server is running correctly.'
-            );
-          } else {
-            throw new Error(
-              'Network request failed. This may be due to CORS restrictions in the development environment. ' +
-              'In a production environment, you would need to either:\n' +
-              '1. Use a backend proxy to make API calls\n' +
-              '2. Configure CORS headers on your server\n' +
-              '3. Use the provider\'s official SDK with proper authentication'
-            );
-          }
-        }
-        if (error.message.includes('Failed to execute \'fetch\'') && error.message.includes('headers')) {
-          throw new Error(
-            'Invalid header value detected. Please ensure your API keys and headers contain only valid ASCII characters. ' +
-            'If you\'re using a copied API key, try manually typing it to avoid invisible Unicode characters.'
-          );
-        }
+      if (error instanceof TypeError && error.message === 'Failed to fetch') {
+        throw new Error(
+          'Network request failed. Please check your internet connection and Supabase configuration.'
+        );
       }
       
       throw error;
     }
   }
 
-  private buildEndpoint(): string {
-    let endpoint = `${this.apiConfig.baseUrl}${this.apiConfig.endpointPath}`;
-    
-    // Handle API key in URL parameter (e.g., Gemini)
-    if (this.apiConfig.apiKeyInUrlParam && this.apiConfig.urlParamName) {
-      const separator = endpoint.includes('?') ? '&' : '?';
-      endpoint += `${separator}${this.apiConfig.urlParamName}=${this.keyData.apiKey}`;
+  // The legacy ai-proxy path returns complete responses, so server mode yields a single chunk
+  private async *stream(prompt: string, options: RequestOptions, messages?: ChatMessage[]): AsyncGenerator<StreamEvent> {
+    const connectionMode = getConnectionMode();
+    if (connectionMode === 'browser') {
+      const client = await this.createDirectClient();
+      yield* messages ? client.chatStream(messages, options) : client.generateStream(prompt, options);
+      return;
     }
-    
-    return endpoint;
-  }
 
-  private buildHeaders(): Record<string, string> {
-    const headers = { ...this.apiConfig.headers };
-    
-    // Add authentication header if not using URL parameter
-    if (!this.apiConfig.apiKeyInUrlParam && this.apiConfig.authHeaderName) {
-      const authValue = `${this.apiConfig.authHeaderPrefix || ''}${this.keyData.apiKey}`;
-      headers[this.apiConfig.authHeaderName] = authValue;
-    }
-    
-    // Sanitize headers to ensure they only contain valid characters
-    return sanitizeHeaders(headers);
+    const result = await this.complete(prompt, options, messages);
+    yield* textToStream(result.text, result);
   }
-
-  private buildRequestBody(prompt: string): any {
-    let body = JSON.parse(JSON.stringify(this.apiConfig.requestBodyStructure));
-    
-    // Set the prompt
-    body = setValueAtPath(body, this.apiConfig.promptJsonPath, prompt);
-    
-    // Set custom model if provided
-    if (this.customModel && this.apiConfig.modelJsonPath) {
-      body = setValueAtPath(body, this.apiConfig.modelJsonPath, this.customModel);
-    }
-    
-    // Set project ID if required (IBM specific)
-    if (this.apiConfig.projectIdJsonPath && this.keyData.projectId) {
-      body = setValueAtPath(body, this.apiConfig.projectIdJsonPath, this.keyData.projectId);
-    }
-    
-    // Merge custom parameters
-    const parameters = { ...this.apiConfig.defaultParameters, ...this.customParameters };
-    if (this.apiConfig.parametersJsonPath) {
-      body = mergeAtPath(body, this.apiConfig.parametersJsonPath, parameters);
-    } else {
-      // If no specific path, merge at root level
-      body = { ...body, ...parameters };
-    }
-    
-    return body;
+  
+  private async createDirectClient(): Promise<ConfigurableClient> {
+    return createBrowserModeClient(this.providerId, this.customModel, this.customParameters);
   }
 }
 
-// Provider Configurations (Legacy - for backward compatibility)
-export const openAIConfig: ProviderConfig = {
-  endpoint: 'https://api.openai.com/v1/chat/completions',
-  buildRequestBody: (prompt: string) => ({
-    model: 'gpt-4',
-    messages: [{ role: 'user', content: prompt }],
-    temperature: 0.7,
-    max_tokens: 1000
-  }),
-  parseResponse: (response: any) => response?.choices?.[0]?.message?.content ?? '',
-  buildHeaders: (keyData: Record<string, string>) => ({
-    'Content-Type': 'application/json',
-    'Authorization': `Bearer ${keyData.apiKey}`
-  }),
-  defaultModel: 'gpt-4',
-  defaultParameters: {
-    temperature: 0.7,
-    max_tokens: 1000
-  }
-};
-
-export const googleGeminiConfig: ProviderConfig = {
-  endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent',
-  buildRequestBody: (prompt: string) => ({
-    contents: [{ role: 'user', parts: [{ text: prompt }] }],
-    generationConfig: { temperature: 0.5, topP: 1, maxOutputTokens: 1000 }
-  }),
-  parseResponse: (response: any) => response?.candidates?.[0]?.content?.parts?.[0]?.text ?? '',
-  buildEndpoint: (keyData: Record<string, string>) => 
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${keyData.apiKey}`,
-  buildHeaders: () => ({
-    'Content-Type': 'application/json'
-  }),
-  defaultModel: 'gemini-2.0-flash',
-  defaultParameters: {
-    temperature: 0.5,
-    topP: 1,
-    maxOutputTokens: 1000
-  }
-};
-
-export const anthropicClaudeConfig: ProviderConfig = {
-  endpoint: 'https://api.anthropic.com/v1/messages',
-  buildRequestBody: (prompt: string) => ({
-    model: 'claude-3-sonnet-20240229',
-    max_tokens: 1000,
-    messages: [{ role: 'user', content: prompt }]
-  }),
-  parseResponse: (response: any) => response?.content?.[0]?.text ?? '',
-  buildHeaders: (keyData: Record<string, string>) => {
-    // Ensure we're using ASCII-safe header values
-    const headers = {
-      'Content-Type': 'application/json',
-      'x-api-key': keyData.apiKey,
-      'anthropic-version': '2023-06-01'
-    };
-    
-    // Remove the dangerous header that was causing issues
-    // This header is not needed and was causing problems
-    // 'anthropic-dangerous-direct-browser-access': 'true'
-    
-    return headers;
-  },
-  defaultModel: 'claude-3-sonnet-20240229',
-  defaultParameters: {
-    max_tokens: 1000,
-    temperature: 0.7
-  }
-};
-
-export const ibmWatsonXConfig: ProviderConfig = {
-  endpoint: 'https://us-south.ml.cloud.ibm.com/ml/v1/text/generation',
-  buildRequestBody: (prompt: string, keyData: Record<string, string>) => ({
-    input: prompt,
-    model_id: 'ibm/granite-13b-chat-v2',
-    project_id: keyData.projectId,
-    parameters: { temperature: 0.7, max_new_tokens: 500 }
-  }),
-  parseResponse: (response: any) => response?.results?.[0]?.generated_text ?? '',
-  buildHeaders: (keyData: Record<string, string>) => ({
-    'Authorization': `Bearer ${keyData.apiKey}`,
-    'Content-Type': 'application/json'
-  }),
-  defaultModel: 'ibm/granite-13b-chat-v2',
-  defaultParameters: {
-    temperature: 0.7,
-    max_new_tokens: 500
-  }
-};
-
-export const providerConfigs: Record<string, ProviderConfig> = {
-  openai: openAIConfig,
-  gemini: googleGeminiConfig,
-  claude: anthropicClaudeConfig,
-  ibm: ibmWatsonXConfig
-};
-
-// Prompt Builder
-export class PromptBuilder {
-  static chainOfThought(taskDescription: string, input: string): string {
-    return `You are an expert assistant. Your task is: ${taskDescription}
-
-Follow these steps before answering:
-1. Analyze input carefully
-2. Reason step-by-step
-3. Identify key factors
-4. Formulate response based on reasoning
-
-Input:
-"""
-${input}
-"""
-
-Provide your reasoning and final answer.`;
-  }
-
-  static simpleInstruction(instruction: string, input: string): string {
-    return `Instruction: ${instruction}
-
-Input: ${input}`;
-  }
-
-  static classification(taskDescription: string, input: string, classes: string[]): string {
-    return `You are a classification AI.
-Task: ${taskDescription}
-
-Input:
-"""
-${input}
-"""
-
-Available categories: ${classes.join(', ')}
-
-Classify the input into one of the categories.`;
-  }
+// Direct client for a serialized config; its model and parameters go where the provider's API configuration puts them
+function createSerializedDirectClient(serializedConfig: import('../types').SerializedConfig): ConfigurableClient {
+  return createBrowserModeClient(
+    serializedConfig.providerId,
+    serializedConfig.model,
+    serializedConfig.parameters,
+    serializedConfig.keyData
+  );
 }
 
 // Client Factory
@@ -739,30 +443,11 @@ export class ModelShiftAIClientFactory {
     useUserKey: boolean = true
   ): Promise<ModelShiftAIClient> {
     // Check if we should use direct browser mode
-    const connectionMode = localStorage.getItem('modelshift-connection-mode') || 'server';
+    const connectionMode = getConnectionMode();
     
     if (connectionMode === 'browser') {
       console.log(`Creating direct browser client for ${provider}`);
-      // For browser mode, we need API keys
-      if (!keyData) {
-        try {
-          const { keyVault } = await import('./encryption');
-          keyData = keyVault.retrieveDefault(provider);
-        } catch (error) {
-          console.error('Failed to import keyVault:', error);
-        }
-        
-        if (!keyData) {
-          throw new Error(`API keys required for direct browser mode. Please configure API keys in the API Keys section.`);
-        }
-      }
-      
-      const config = providerConfigs[provider];
-      if (!config) {
-        throw new Error(`Provider '${provider}' not supported`);
-      }
-      
-      return new ConfigurableClient(keyData, config);
+      return createBrowserModeClient(provider, undefined, undefined, keyData);
     }
     
     // Server mode - check if Supabase is configured
@@ -786,28 +471,8 @@ export class ModelShiftAIClientFactory {
       console.warn(`Supabase not configured, falling back to direct client for ${provider}`);
     }
     
-    // Fallback to legacy direct client
-    const config = providerConfigs[provider];
-    if (!config) {
-      throw new Error(`Provider '${provider}' not supported`);
-    }
-    
-    // Try to get keys from keyVault if not provided
-    if (!keyData) {
-      try {
-        const { keyVault } = await import('./encryption');
-        keyData = keyVault.retrieveDefault(provider);
-        
-        if (!keyData) {
-          throw new Error(`API keys required for direct client mode. Please configure API keys in the API Keys section.`);
-        }
-      } catch (error) {
-        console.error('Failed to import keyVault:', error);
-        throw new Error(`API keys required for direct client mode. Please configure API keys in the API Keys section.`);
-      }
-    }
-    
-    return new ConfigurableClient(keyData, config);
+    // Fallback to a direct client
+    return createBrowserModeClient(provider, undefined, undefined, keyData);
   }
 
   // Synchronous version for backward compatibility
@@ -819,31 +484,11 @@ export class ModelShiftAIClientFactory {
     useUserKey: boolean = true
   ): ModelShiftAIClient {
     // Check if we should use direct browser mode
-    const connectionMode = localStorage.getItem('modelshift-connection-mode') || 'server';
+    const connectionMode = getConnectionMode();
     
     if (connectionMode === 'browser') {
       console.log(`Creating direct browser client for ${provider}`);
-      // For browser mode, we need API keys
-      if (!keyData) {
-        try {
-          const { keyVault } = require('./encryption');
-          keyData = keyVault.retrieveDefault(provider);
-          
-          if (!keyData) {
-            throw new Error(`API keys required for direct browser mode. Please configure API keys in the API Keys section.`);
-          }
-        } catch (error) {
-          console.error('Failed to import keyVault:', error);
-          throw new Error(`API keys required for direct browser mode. Please configure API keys in the API Keys section.`);
-        }
-      }
-      
-      const config = providerConfigs[provider];
-      if (!config) {
-        throw new Error(`Provider '${provider}' not supported`);
-      }
-      
-      return new ConfigurableClient(keyData, config);
+      return createBrowserModeClient(provider, undefined, undefined, keyData);
     }
     
     // Server mode - check if Supabase is configured
@@ -858,27 +503,7 @@ export class ModelShiftAIClientFactory {
     } else {
       // Fallback to legacy direct client for development/demo
       console.warn(`Supabase not configured, falling back to direct client for ${provider}`);
-      const config = providerConfigs[provider];
-      if (!config) {
-        throw new Error(`Provider '${provider}' not supported`);
-      }
-      
-      // Try to get keys from keyVault if not provided
-      if (!keyData) {
-        try {
-          const { keyVault } = require('./encryption');
-          keyData = keyVault.retrieveDefault(provider);
-          
-          if (!keyData) {
-            throw new Error(`API keys required for direct client mode. Please configure API keys in the API Keys section.`);
-          }
-        } catch (error) {
-          console.error('Failed to import keyVault:', error);
-          throw new Error(`API keys required for direct client mode. Please configure API keys in the API Keys section.`);
-        }
-      }
-      
-      return new ConfigurableClient(keyData, config);
+      return createBrowserModeClient(provider, undefined, undefined, keyData);
     }
   }
 
@@ -896,50 +521,57 @@ export class ModelShiftAIClientFactory {
     apiConfig: ApiConfiguration, 
     keyData: Record<string, string>,
     customModel?: string,
-    customParameters?: Record<string, any>
+    customParameters?: Record<string, any>,
+    providerId?: string // Catalog id the configuration belongs to, so rate limits are shared with other clients for it
   ): ModelShiftAIClient {
-    return new DataDrivenClient(keyData, apiConfig, customModel, customParameters);
+    return new DataDrivenClient(keyData, apiConfig, customModel, customParameters, providerId);
+  }
+
+  // Creates a client that tries each provider in order until one answers
+  static createFallback(
+    providers: Array<string | FallbackProvider>,
+    userId: string,
+    agentId?: string
+  ): FallbackClient {
+    const targets = providers.map(entry => {
+      const { provider, model, parameters } = typeof entry === 'string' ? { provider: entry } as FallbackProvider : entry;
+      return {
+        provider,
+        model,
+        parameters,
+        // DynamicProxyClient handles both connection modes and honours per-provider models
+        client: new DynamicProxyClient(provider, userId, model, parameters, agentId)
+      };
+    });
+
+    return new FallbackClient(targets);
+  }
+
+  // Wraps a client with the response cache; the fingerprint must match what the client sends
+  static withCache(
+    client: ModelShiftAIClient,
+    fingerprint: Omit<RequestFingerprint, 'input'>,
+    cache?: ResponseCache
+  ): CachingClient {
+    return new CachingClient(client, fingerprint, cache);
+  }
+
+  // Creates an embedding client for a preset provider, or for a custom configuration
+  static createEmbeddingClient(
+    provider: string | EmbeddingConfiguration,
+    keyData?: Record<string, string>
+  ): EmbeddingClient {
+    return createEmbeddingClient(provider, keyData);
   }
 
   // Enhanced method for creating clients from serialized configurations
   static createFromSerializedConfig(serializedConfig: import('../types').SerializedConfig): ModelShiftAIClient {
     // Check if we should use direct browser mode
-    const connectionMode = localStorage.getItem('modelshift-connection-mode') || 'server';
+    const connectionMode = getConnectionMode();
     
     if (connectionMode === 'browser') {
       console.log(`Creating direct browser client from serialized config for ${serializedConfig.providerId}`);
-      // For browser mode, we use the serialized config directly
-      const baseConfig = providerConfigs[serializedConfig.providerId];
-      if (!baseConfig) {
-        throw new Error(`Provider '${serializedConfig.providerId}' not supported`);
-      }
-
-      // Create a custom config that overrides defaults with serialized values
-      const customConfig: ProviderConfig = {
-        ...baseConfig,
-        buildRequestBody: (prompt: string, keyData: Record<string, string>) => {
-          const baseBody = baseConfig.buildRequestBody(prompt, keyData);
-          
-          // Override model and parameters if specified in serialized config
-          const customBody = { ...baseBody };
-          
-          if (serializedConfig.model) {
-            if ('model' in customBody) {
-              customBody.model = serializedConfig.model;
-            } else if ('model_id' in customBody) {
-              (customBody as any).model_id = serializedConfig.model;
-            }
-          }
-          
-          if (serializedConfig.parameters) {
-            Object.assign(customBody, serializedConfig.parameters);
-          }
-          
-          return customBody;
-        }
-      };
-
-      return new ConfigurableClient(serializedConfig.keyData, customConfig);
+      return createSerializedDirectClient(serializedConfig);
     }
     
     // Server mode
@@ -958,38 +590,8 @@ export class ModelShiftAIClientFactory {
         false // Don't use user key for serialized configs
       );
     } else {
-      // Fallback to legacy client
-      const baseConfig = providerConfigs[serializedConfig.providerId];
-      if (!baseConfig) {
-        throw new Error(`Provider '${serializedConfig.providerId}' not supported`);
-      }
-
-      // Create a custom config that overrides defaults with serialized values
-      const customConfig: ProviderConfig = {
-        ...baseConfig,
-        buildRequestBody: (prompt: string, keyData: Record<string, string>) => {
-          const baseBody = baseConfig.buildRequestBody(prompt, keyData);
-          
-          // Override model and parameters if specified in serialized config
-          const customBody = { ...baseBody };
-          
-          if (serializedConfig.model) {
-            if ('model' in customBody) {
-              customBody.model = serializedConfig.model;
-            } else if ('model_id' in customBody) {
-              (customBody as any).model_id = serializedConfig.model;
-            }
-          }
-          
-          if (serializedConfig.parameters) {
-            Object.assign(customBody, serializedConfig.parameters);
-          }
-          
-          return customBody;
-        }
-      };
-
-      return new ConfigurableClient(serializedConfig.keyData, customConfig);
+      // Fallback to a direct client
+      return createSerializedDirectClient(serializedConfig);
     }
   }
 
@@ -1001,23 +603,11 @@ export class ModelShiftAIClientFactory {
   ): Promise<ModelShiftAIClient> {
     try {
       // Check if we should use direct browser mode
-      const connectionMode = localStorage.getItem('modelshift-connection-mode') || 'server';
+      const connectionMode = getConnectionMode();
       
       if (connectionMode === 'browser') {
         console.log(`Creating direct browser client with user key for ${provider}`);
-        const { keyVault } = await import('./encryption');
-        const keyData = keyVault.retrieveDefault(provider);
-        
-        if (!keyData) {
-          throw new Error(`No API key found for ${provider}. Please add your API key in the API Keys section.`);
-        }
-        
-        const config = providerConfigs[provider];
-        if (!config) {
-          throw new Error(`Provider '${provider}' not supported`);
-        }
-        
-        return new ConfigurableClient(keyData, config);
+        return createBrowserModeClient(provider);
       }
       
       // Server mode - check if user has an API key for this provider
@@ -1027,13 +617,18 @@ export class ModelShiftAIClientFactory {
         // User has a key, decrypt it
         const decryptedKey = serverEncryption.decrypt(userKey.encrypted_key);
         
-        // For IBM, we need to check if the user has a project ID
+        // For IBM, we need to check if the user has a project ID, and a region outside us-south
         let projectId = null;
+        let region = null;
         if (provider === 'ibm') {
           const projectIdKey = await apiKeysDb.getActiveForProvider(userId, 'ibm_project');
           if (projectIdKey) {
             projectId = serverEncryption.decrypt(projectIdKey.encrypted_key);
           }
+          const regionKey = await apiKeysDb.getActiveForProvider(userId, 'ibm_region');
+          if (regionKey) {
+            region = serverEncryption.decrypt(regionKey.encrypted_key);
+          }
         }
         
         // Create key data object
@@ -1044,6 +639,9 @@ export class ModelShiftAIClientFactory {
         if (projectId) {
           keyData.projectId = projectId;
         }
+        if (region) {
+          keyData.region = region;
+        }
         
         // Update last used timestamp
         await apiKeysDb.updateLastUsed(userId, userKey.id);
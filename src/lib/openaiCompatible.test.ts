@@ -0,0 +1,162 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { buildAuthHeaders, discoverModels, isLocalUrl, parseModelList, resolveBaseUrl } from './openaiCompatible';
+import { configureEnvironment, createDefaultEnvironment } from './core/environment';
+import { getProvider } from '../data/providers';
+
+// Models endpoint responses in each provider's format, trimmed to a few entries
+const modelLists: Record<string, unknown> = JSON.parse(readFileSync(new URL('./__fixtures__/modelLists.json', import.meta.url), 'utf8'));
+const modelListConfig = (providerId: string) => getProvider(providerId)!.apiConfig.modelList;
+
+const presets = [
+  { id: 'ollama', baseUrl: 'http://localhost:11434', defaultModel: 'llama3.2' },
+  { id: 'vllm', baseUrl: 'http://localhost:8000', defaultModel: 'meta-llama/Llama-3.1-8B-Instruct' },
+  { id: 'lmstudio', baseUrl: 'http://localhost:1234', defaultModel: 'llama-3.2-3b-instruct' },
+  { id: 'openai-compatible', baseUrl: 'http://localhost:8080', defaultModel: 'default' }
+];
+
+// Models endpoint that records the request it was sent
+function modelsServer() {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () =>
+    new Response(JSON.stringify({ object: 'list', data: [{ id: 'llama3.2', object: 'model', owned_by: 'library', created: 1727000000 }] })));
+  configureEnvironment({ fetch });
+  return fetch;
+}
+
+afterEach(() => {
+  configureEnvironment(createDefaultEnvironment());
+});
+
+describe('OpenAI-compatible presets', () => {
+  it.each(presets)('configures $id for the OpenAI chat API at its default port', ({ id, baseUrl, defaultModel }) => {
+    const provider = getProvider(id)!;
+
+    expect(provider.type).toBe('openai-compatible');
+    expect(provider.apiConfig).toMatchObject({
+      baseUrl,
+      baseUrlKeyName: 'baseUrl',
+      endpointPath: '/v1/chat/completions',
+      modelsEndpointPath: '/v1/models',
+      defaultModel,
+      authHeaderName: 'Authorization',
+      authHeaderPrefix: 'Bearer '
+    });
+  });
+
+  it('only requires a base URL for the generic preset, and never a key', () => {
+    const requirements = Object.fromEntries(presets.map(({ id }) => [
+      id,
+      getProvider(id)!.keyRequirements!.map(({ name, required }) => ({ name, required }))
+    ]));
+
+    expect(requirements).toEqual({
+      ollama: [{ name: 'baseUrl', required: false }, { name: 'apiKey', required: false }],
+      vllm: [{ name: 'baseUrl', required: false }, { name: 'apiKey', required: false }],
+      lmstudio: [{ name: 'baseUrl', required: false }, { name: 'apiKey', required: false }],
+      'openai-compatible': [{ name: 'baseUrl', required: true }, { name: 'apiKey', required: false }]
+    });
+  });
+});
+
+describe('resolveBaseUrl', () => {
+  const apiConfig = getProvider('ollama')!.apiConfig;
+
+  it('uses the preset default when no base URL is stored', () => {
+    expect(resolveBaseUrl(apiConfig)).toBe('http://localhost:11434');
+    expect(resolveBaseUrl(apiConfig, { baseUrl: '  ' })).toBe('http://localhost:11434');
+  });
+
+  it('prefers the stored base URL and drops a trailing slash or /v1', () => {
+    expect(resolveBaseUrl(apiConfig, { baseUrl: 'http://gpu-box.local:11434/' })).toBe('http://gpu-box.local:11434');
+    expect(resolveBaseUrl(apiConfig, { baseUrl: 'https://llm.example.com/v1/' })).toBe('https://llm.example.com');
+  });
+
+  it('ignores stored URLs for providers without a base URL key', () => {
+    expect(resolveBaseUrl(getProvider('openai')!.apiConfig, { baseUrl: 'http://elsewhere' })).toBe('https://api.openai.com');
+  });
+});
+
+describe('buildAuthHeaders', () => {
+  const apiConfig = getProvider('vllm')!.apiConfig;
+
+  it('sends a bearer token only when a key is stored', () => {
+    expect(buildAuthHeaders(apiConfig, { apiKey: 'token-abc' })).toEqual({ Authorization: 'Bearer token-abc' });
+    expect(buildAuthHeaders(apiConfig, {})).toEqual({});
+    expect(buildAuthHeaders(apiConfig, { apiKey: '' })).toEqual({});
+  });
+});
+
+describe('isLocalUrl', () => {
+  it('recognises loopback and private network hosts', () => {
+    expect(['http://localhost:11434', 'http://127.0.0.1:8000', 'http://[::1]:1234', 'http://192.168.1.20:8080', 'http://172.20.0.5', 'http://gpu-box.local']
+      .every(isLocalUrl)).toBe(true);
+    expect(['https://api.openai.com', 'http://172.32.0.1', 'not a url'].some(isLocalUrl)).toBe(false);
+  });
+});
+
+describe('parseModelList', () => {
+  it('keeps only OpenAI chat models', () => {
+    const ids = parseModelList(modelLists.openai, modelListConfig('openai')).map(model => model.id);
+
+    expect(ids).toEqual(['chatgpt-4o-latest', 'gpt-4.1', 'gpt-4o-mini', 'o3-mini']);
+  });
+
+  it('strips the Gemini models/ prefix before matching and reads token limits', () => {
+    expect(parseModelList(modelLists.gemini, modelListConfig('gemini'))).toEqual([
+      { id: 'gemini-2.0-flash', displayName: 'Gemini 2.0 Flash', contextWindow: 1048576, maxOutputTokens: 8192 },
+      { id: 'gemini-2.5-flash-lite', displayName: 'Gemini 2.5 Flash-Lite', contextWindow: 1048576, maxOutputTokens: 65536 }
+    ]);
+  });
+
+  it('reads Claude display names from the default data list', () => {
+    expect(parseModelList(modelLists.claude, modelListConfig('claude'))).toEqual([
+      { id: 'claude-3-5-haiku-20241022', displayName: 'Claude Haiku 3.5' },
+      { id: 'claude-sonnet-4-20250514', displayName: 'Claude Sonnet 4' }
+    ]);
+  });
+
+  it('reads IBM foundation model specs from resources with nested limits', () => {
+    expect(parseModelList(modelLists.ibm, modelListConfig('ibm'))).toEqual([
+      { id: 'google/flan-t5-xl', displayName: 'flan-t5-xl-3b', contextWindow: 4096 },
+      { id: 'ibm/granite-3-2b-instruct', displayName: 'granite-3-2b-instruct', contextWindow: 131072, maxOutputTokens: 8192 },
+      { id: 'meta-llama/llama-3-3-70b-instruct', displayName: 'llama-3-3-70b-instruct', contextWindow: 131072, maxOutputTokens: 8192 }
+    ]);
+  });
+
+  it('reads OpenAI-format lists and Ollama tags without a configuration', () => {
+    expect(parseModelList(modelLists.ollama)).toEqual([
+      { id: 'llama3.2:latest', ownedBy: 'library', created: 1729189330 },
+      { id: 'qwen2.5:7b', ownedBy: 'library', created: 1730294871 }
+    ]);
+    expect(parseModelList(modelLists.ollamaTags)).toEqual([{ id: 'llama3.2:latest' }]);
+  });
+
+  it('returns no models for unrecognised bodies', () => {
+    expect(parseModelList(null)).toEqual([]);
+    expect(parseModelList({ error: { message: 'Unauthorized' } })).toEqual([]);
+    expect(parseModelList({ data: ['not-an-object', { object: 'model' }] })).toEqual([]);
+  });
+});
+
+describe('discoverModels', () => {
+  it('lists models at the stored base URL with the bearer token', async () => {
+    const fetch = modelsServer();
+
+    const models = await discoverModels(getProvider('openai-compatible')!.apiConfig, { baseUrl: 'https://llm.example.com/v1', apiKey: 'token-abc' });
+
+    expect(models).toEqual([{ id: 'llama3.2', ownedBy: 'library', created: 1727000000 }]);
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('https://llm.example.com/v1/models');
+    expect(init?.headers).toEqual({ Authorization: 'Bearer token-abc' });
+  });
+
+  it('calls the preset default without auth when nothing is stored', async () => {
+    const fetch = modelsServer();
+
+    await discoverModels(getProvider('lmstudio')!.apiConfig);
+
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe('http://localhost:1234/v1/models');
+    expect(init?.headers).toEqual({});
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * OpenAI-compatible servers
+ * Re-exports base URL resolution and model list parsing from
+ * supabase/functions/_shared/openaiCompatible.ts, which dynamic-ai-proxy uses to reach the
+ * same servers, and adds direct model discovery for browser mode and SDK scripts.
+ */
+
+import { parseModelList, resolveBaseUrl } from '../../supabase/functions/_shared/openaiCompatible';
+import { createTimeoutSignal } from './abort';
+import { authenticate } from './auth';
+import { renderTemplate, renderTemplates } from './templates';
+import { sanitizeHeaders } from './headerSanitizer';
+import { getEnvironment } from './core/environment';
+import type { DiscoveredModel } from '../../supabase/functions/_shared/openaiCompatible';
+import type { ApiConfiguration } from '../types';
+
+export { isLocalUrl, parseModelList, resolveBaseUrl } from '../../supabase/functions/_shared/openaiCompatible';
+export type { DiscoveredModel } from '../../supabase/functions/_shared/openaiCompatible';
+
+/**
+ * Builds the auth header for a provider, leaving it out when no key is stored so servers
+ * running without auth are not sent an empty bearer token. Providers with an auth strategy
+ * get theirs from authenticate() in auth.ts instead.
+ * @param apiConfig - The provider's API configuration
+ * @param keyData - The stored key data
+ */
+export function buildAuthHeaders(apiConfig: ApiConfiguration, keyData: Record<string, string>): Record<string, string> {
+  if (!apiConfig.authHeaderName || apiConfig.apiKeyInUrlParam || apiConfig.auth || !keyData.apiKey) return {};
+  return { [apiConfig.authHeaderName]: `${apiConfig.authHeaderPrefix || ''}${keyData.apiKey}` };
+}
+
+/**
+ * Lists the models a server offers by calling its models endpoint directly
+ * @param apiConfig - Configuration with a modelsEndpointPath, and a modelList for responses in other formats
+ * @param keyData - The stored key data, which may carry the base URL and a bearer token
+ * @param signal - Cancels the request
+ * @throws Error when the configuration has no models endpoint or the server cannot be reached
+ */
+export async function discoverModels(
+  apiConfig: ApiConfiguration,
+  keyData: Record<string, string> = {},
+  signal?: AbortSignal
+): Promise<DiscoveredModel[]> {
+  if (!apiConfig.modelsEndpointPath) {
+    throw new Error('This provider does not support model discovery');
+  }
+
+  let url = renderTemplate(`${resolveBaseUrl(apiConfig, keyData)}${apiConfig.modelsEndpointPath}`, { keyData });
+  if (apiConfig.apiKeyInUrlParam && apiConfig.urlParamName && keyData.apiKey) {
+    url += `${url.includes('?') ? '&' : '?'}${apiConfig.urlParamName}=${encodeURIComponent(keyData.apiKey)}`;
+  }
+  const displayUrl = url.split('?')[0]; // Leaves out a key sent as a URL parameter
+  const environment = getEnvironment();
+  const timeout = createTimeoutSignal(10000, `Model discovery timed out after 10 seconds: ${displayUrl}`, signal);
+
+  try {
+    // Vendor APIs may need their static headers, e.g. a version header, besides the key
+    const headers = sanitizeHeaders({
+      ...renderTemplates(apiConfig.headers, { keyData, model: apiConfig.defaultModel }),
+      ...buildAuthHeaders(apiConfig, keyData)
+    });
+    delete headers['Content-Type'];
+    Object.assign(headers, sanitizeHeaders(await authenticate(apiConfig, keyData, { method: 'GET', url, headers }, timeout.signal)));
+
+    let response: Response;
+    try {
+      response = await environment.fetch(environment.resolveUrl(url), {
+        method: 'GET',
+        headers,
+        credentials: 'omit',
+        signal: timeout.signal
+      });
+    } catch (error) {
+      if (error instanceof TypeError) {
+        throw new Error(`Could not reach ${displayUrl}. Check that the server is running and allows requests from this origin.`);
+      }
+      throw error;
+    }
+
+    if (!response.ok) {
+      throw new Error(response.status === 401 || response.status === 403
+        ? `Authentication failed listing models (HTTP ${response.status})`
+        : `Listing models failed (HTTP ${response.status})`);
+    }
+    return parseModelList(await response.json(), apiConfig.modelList);
+  } finally {
+    timeout.clear();
+  }
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { calculateCost, estimateCost, formatCost, getModelPricing, pricingCatalog } from './pricing';
+import { countTokens } from './tokens';
+
+const million = 1_000_000;
+
+describe('getModelPricing', () => {
+  it('matches dated snapshots and Gemini model paths by the longest prefix', () => {
+    expect(getModelPricing('openai', 'gpt-4o-mini-2024-07-18')?.model).toBe('gpt-4o-mini');
+    expect(getModelPricing('gemini', 'models/gemini-1.5-pro-002')?.model).toBe('gemini-1.5-pro');
+    expect(getModelPricing('my-gateway', 'claude-3-5-haiku-20241022')?.model).toBe('claude-3-5-haiku');
+    expect(getModelPricing('openai', 'davinci-002')).toBeUndefined();
+  });
+});
+
+describe('calculateCost', () => {
+  it('bills cached prompt tokens at the cached rate', () => {
+    const cost = calculateCost({ provider: 'openai', model: 'gpt-4o-mini-2024-07-18', promptTokens: 1200, completionTokens: 30, cachedPromptTokens: 1024 });
+
+    expect(cost.input).toBeCloseTo(176 * 0.15 / million, 12);
+    expect(cost.cachedInput).toBeCloseTo(1024 * 0.075 / million, 12);
+    expect(cost.output).toBeCloseTo(30 * 0.6 / million, 12);
+    expect(cost.total).toBeCloseTo(cost.input + cost.cachedInput + cost.output, 12);
+    expect(cost).toMatchObject({ currency: 'USD', pricingVersion: pricingCatalog.version, pricedModel: 'gpt-4o-mini' });
+  });
+
+  it('bills cached tokens at the input rate when the model has no cached price, and never more than the prompt', () => {
+    const cost = calculateCost({ provider: 'claude', model: 'claude-3-sonnet-20240229', promptTokens: million, completionTokens: 0, cachedPromptTokens: 2 * million });
+
+    expect(cost.input).toBe(0);
+    expect(cost.cachedInput).toBeCloseTo(3, 9);
+  });
+
+  it('applies the provider batch discount', () => {
+    const cost = calculateCost({ provider: 'claude', model: 'claude-3-5-haiku', promptTokens: million, completionTokens: million, batch: true });
+
+    expect(cost.total).toBeCloseTo((0.8 + 4) / 2, 9);
+  });
+
+  it('prices unknown models from the fallback, or not at all', () => {
+    expect(calculateCost({ provider: 'custom', model: 'house-model', promptTokens: million, completionTokens: 0 }, { input: 1, output: 2 }))
+      .toMatchObject({ total: 1, pricedModel: undefined });
+    expect(calculateCost({ provider: 'custom', model: 'house-model', promptTokens: million, completionTokens: million }).total).toBe(0);
+  });
+});
+
+describe('estimateCost', () => {
+  it('prefers Bedrock per-model prices, per million tokens, over the provider pricing', () => {
+    const cost = estimateCost({
+      providerId: 'bedrock-llama',
+      model: 'meta.llama3-1-8b-instruct-v1:0',
+      usage: { promptTokens: million, completionTokens: million }
+    });
+
+    expect(cost.total).toBeCloseTo(0.22 + 0.22, 9);
+    expect(cost.pricedModel).toBeUndefined();
+  });
+
+  it('converts the provider pricing from per thousand tokens for models without their own price', () => {
+    const cost = estimateCost({
+      providerId: 'bedrock-llama',
+      model: 'meta.llama3-2-1b-instruct-v1:0',
+      usage: { promptTokens: million, completionTokens: million }
+    });
+
+    expect(cost.input).toBeCloseTo(0.99, 9);
+    expect(cost.output).toBeCloseTo(0.99, 9);
+  });
+
+  it('passes cached prompt tokens through to the catalog price', () => {
+    const cost = estimateCost({
+      providerId: 'gemini',
+      model: 'gemini-2.0-flash',
+      usage: { promptTokens: million, completionTokens: 0, cachedPromptTokens: million }
+    });
+
+    expect(cost.input).toBe(0);
+    expect(cost.cachedInput).toBeCloseTo(0.025, 9);
+  });
+
+  it('counts the tokens the provider did not report and prices the default model', () => {
+    const cost = estimateCost({ providerId: 'claude', usage: { promptTokens: 100 }, response: 'Fresh brews daily' });
+    const completionTokens = countTokens('Fresh brews daily', undefined, 'claude');
+
+    expect(cost.pricedModel).toBe('claude-3-sonnet');
+    expect(cost.output).toBeCloseTo(completionTokens * 15 / million, 12);
+  });
+
+  it('reports no cost for self-hosted servers', () => {
+    expect(estimateCost({ providerId: 'ollama', model: 'llama3.2', usage: { promptTokens: 500, completionTokens: 200 } }).total).toBe(0);
+  });
+});
+
+describe('formatCost', () => {
+  it('keeps sub-cent costs readable', () => {
+    expect(formatCost(0.000123)).toBe('$0.000123');
+    expect(formatCost(1.5)).toBe('$1.5000');
+    expect(formatCost(0)).toBe('$0.0000');
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Request cost estimation
+ * Prices requests from the shared pricing catalog using the provider-reported prompt and
+ * completion tokens, counting whatever the provider did not report
+ */
+
+import { calculateCost } from '../../supabase/functions/_shared/pricing';
+import { countInputTokens, countTokens } from './tokens';
+import { getProvider } from '../data/providers';
+import type { CostBreakdown, ModelPricing } from '../../supabase/functions/_shared/pricing';
+import type { ChatMessage, TokenUsage } from '../types';
+
+export { calculateCost, getModelPricing, pricingCatalog } from '../../supabase/functions/_shared/pricing';
+export type {
+  CostBreakdown,
+  CostRequest,
+  ModelPricing,
+  PricingCatalog,
+  ProviderPricing
+} from '../../supabase/functions/_shared/pricing';
+
+export interface CostEstimateRequest {
+  providerId: string;
+  model?: string;
+  usage?: TokenUsage; // Provider-reported counts; missing ones are counted from the texts
+  prompt?: string | ChatMessage[];
+  response?: string;
+  batch?: boolean;
+}
+
+/**
+ * Estimates the cost of a completed request
+ * Models missing from the catalog are priced from the provider's model catalog, then from
+ * the provider's capabilities, which list USD per thousand tokens
+ * @param request - Provider, model, usage and the texts exchanged
+ */
+export function estimateCost(request: CostEstimateRequest): CostBreakdown {
+  const { providerId, model, usage } = request;
+  const pricedModel = model || getProvider(providerId)?.apiConfig.defaultModel;
+  const promptTokens = usage?.promptTokens ?? (request.prompt ? countInputTokens(request.prompt, model, providerId) : 0);
+  const completionTokens = usage?.completionTokens ?? countTokens(request.response || '', model, providerId);
+
+  return calculateCost(
+    {
+      provider: providerId,
+      model: pricedModel,
+      promptTokens,
+      completionTokens,
+      cachedPromptTokens: usage?.cachedPromptTokens,
+      batch: request.batch
+    },
+    getFallbackPricing(providerId, pricedModel)
+  );
+}
+
+/**
+ * Formats a cost for display, keeping sub-cent costs readable
+ * @param cost - Cost in USD
+ */
+export function formatCost(cost: number): string {
+  return `$${cost.toFixed(cost > 0 && cost < 0.01 ? 6 : 4)}`;
+}
+
+function getFallbackPricing(providerId: string, model?: string): ModelPricing | undefined {
+  const provider = getProvider(providerId);
+  const listed = provider?.models?.find(entry => entry.id === model)?.pricing;
+  if (listed) return listed;
+
+  const pricing = provider?.capabilities.pricing;
+  return pricing && { input: pricing.input * 1000, output: pricing.output * 1000 };
+}
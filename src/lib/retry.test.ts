@@ -0,0 +1,161 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { computeBackoffDelay, defaultRetryPolicy, fetchWithRetry, parseRetryAfter } from './retry';
+import { configureEnvironment, createDefaultEnvironment } from './core/environment';
+
+const fastPolicy = { baseDelayMs: 1, maxDelayMs: 5 };
+
+// Answers each call with the next status, or throws when the entry is an Error
+function mockFetch(...outcomes: Array<number | Error>) {
+  const fetch = vi.fn(async () => {
+    const outcome = outcomes[Math.min(fetch.mock.calls.length - 1, outcomes.length - 1)];
+    if (outcome instanceof Error) throw outcome;
+    return new Response(`status ${outcome}`, { status: outcome });
+  });
+  configureEnvironment({ fetch });
+  return fetch;
+}
+
+afterEach(() => {
+  configureEnvironment(createDefaultEnvironment());
+});
+
+describe('fetchWithRetry', () => {
+  it('retries transient failures of idempotent requests until one succeeds', async () => {
+    const fetch = mockFetch(503, 500, 200);
+
+    const { response, attempts } = await fetchWithRetry('https://api.example.com/models', {}, { policy: fastPolicy });
+
+    expect(response.status).toBe(200);
+    expect(attempts).toBe(3);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('returns the last response once attempts run out', async () => {
+    mockFetch(500);
+
+    const { response, attempts } = await fetchWithRetry('https://api.example.com/models', {}, {
+      policy: { ...fastPolicy, maxAttempts: 2 }
+    });
+
+    expect(response.status).toBe(500);
+    expect(attempts).toBe(2);
+  });
+
+  it('does not repeat a POST after a server error by default', async () => {
+    const fetch = mockFetch(500, 200);
+
+    const { response } = await fetchWithRetry('https://api.example.com/generate', { method: 'POST' }, { policy: fastPolicy });
+
+    expect(response.status).toBe(500);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a POST the provider rejected before processing', async () => {
+    const fetch = mockFetch(429, 503, 200);
+
+    const { response } = await fetchWithRetry('https://api.example.com/generate', { method: 'POST' }, { policy: fastPolicy });
+
+    expect(response.status).toBe(200);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it('repeats a POST after a server error when it carries an Idempotency-Key', async () => {
+    mockFetch(500, 200);
+
+    const { response } = await fetchWithRetry('https://api.example.com/generate', {
+      method: 'POST',
+      headers: { 'Idempotency-Key': 'request-1' }
+    }, { policy: fastPolicy });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('repeats a POST after a server error when the policy allows it', async () => {
+    mockFetch(502, 200);
+
+    const { response } = await fetchWithRetry('https://api.example.com/generate', { method: 'POST' }, {
+      policy: { ...fastPolicy, retryNonIdempotent: true }
+    });
+
+    expect(response.status).toBe(200);
+  });
+
+  it('only repeats idempotent requests after a network failure', async () => {
+    mockFetch(new TypeError('Failed to fetch'), 200);
+    const { response } = await fetchWithRetry('https://api.example.com/models', {}, { policy: fastPolicy });
+    expect(response.status).toBe(200);
+
+    mockFetch(new TypeError('Failed to fetch'), 200);
+    await expect(fetchWithRetry('https://api.example.com/generate', { method: 'POST' }, { policy: fastPolicy }))
+      .rejects.toThrow('Failed to fetch');
+  });
+
+  it('reports the failure at once when Retry-After exceeds the policy', async () => {
+    const fetch = vi.fn(async () => new Response('', { status: 429, headers: { 'Retry-After': '60' } }));
+    configureEnvironment({ fetch });
+
+    const { response, attempts } = await fetchWithRetry('https://api.example.com/models', {}, { policy: fastPolicy });
+
+    expect(response.status).toBe(429);
+    expect(attempts).toBe(1);
+  });
+
+  it('calls onRetry before each retry', async () => {
+    mockFetch(503, 200);
+    const onRetry = vi.fn();
+
+    await fetchWithRetry('https://api.example.com/models', {}, { policy: fastPolicy, onRetry });
+
+    expect(onRetry).toHaveBeenCalledTimes(1);
+    expect(onRetry).toHaveBeenCalledWith(1, expect.any(Number), 'HTTP 503');
+  });
+
+  it('stops waiting when the request is aborted', async () => {
+    mockFetch(503, 200);
+    const controller = new AbortController();
+    const request = fetchWithRetry('https://api.example.com/models', { signal: controller.signal }, {
+      policy: { baseDelayMs: 10000, maxDelayMs: 10000 }
+    });
+
+    controller.abort(new DOMException('Aborted', 'AbortError'));
+
+    await expect(request).rejects.toThrow('Aborted');
+  });
+});
+
+describe('computeBackoffDelay', () => {
+  it('doubles the delay on each attempt, keeping at least half of it', () => {
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      const exponential = defaultRetryPolicy.baseDelayMs * 2 ** (attempt - 1);
+      const delay = computeBackoffDelay(attempt, defaultRetryPolicy);
+      expect(delay).toBeGreaterThanOrEqual(exponential / 2);
+      expect(delay).toBeLessThanOrEqual(exponential);
+    }
+  });
+
+  it('never exceeds the maximum delay', () => {
+    expect(computeBackoffDelay(20, defaultRetryPolicy)).toBeLessThanOrEqual(defaultRetryPolicy.maxDelayMs);
+    expect(computeBackoffDelay(1, defaultRetryPolicy, 60000)).toBe(defaultRetryPolicy.maxDelayMs);
+  });
+
+  it('uses the delay the server asked for', () => {
+    expect(computeBackoffDelay(3, defaultRetryPolicy, 1500)).toBe(1500);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('reads retry-after-ms, seconds and HTTP dates', () => {
+    expect(parseRetryAfter(new Headers({ 'retry-after-ms': '250' }))).toBe(250);
+    expect(parseRetryAfter(new Headers({ 'retry-after': '2' }))).toBe(2000);
+
+    const date = new Date(Date.now() + 30000).toUTCString();
+    const delay = parseRetryAfter(new Headers({ 'retry-after': date }));
+    expect(delay).toBeGreaterThan(28000);
+    expect(delay).toBeLessThanOrEqual(30000);
+  });
+
+  it('returns undefined when no delay was given', () => {
+    expect(parseRetryAfter(new Headers())).toBeUndefined();
+    expect(parseRetryAfter(new Headers({ 'retry-after': 'soon' }))).toBeUndefined();
+  });
+});
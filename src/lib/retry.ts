@@ -0,0 +1,154 @@
+/**
+ * Retry utilities for provider calls
+ * Retries rate-limited and transient failures with exponential backoff and jitter,
+ * honouring Retry-After, and only repeats requests that are safe to send twice
+ */
+
+import { isAbortError } from './abort';
+import { getEnvironment } from './core/environment';
+import type { RetryPolicy } from '../types';
+
+export const defaultRetryPolicy: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+  retryOnStatus: [408, 429, 500, 502, 503, 504]
+};
+
+// Methods that can be repeated without changing the outcome
+const idempotentMethods = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+// Statuses that mean the request was rejected before processing, so any method can be retried
+const unprocessedStatuses = [408, 429, 503];
+
+export interface RetryOptions {
+  policy?: Partial<RetryPolicy>;
+  idempotent?: boolean; // Overrides detection from the policy, method and Idempotency-Key header
+  onRetry?: (attempt: number, delayMs: number, reason: string) => void;
+}
+
+export interface RetryResult {
+  response: Response;
+  attempts: number;
+}
+
+/**
+ * Fetches a resource, retrying transient failures according to a retry policy
+ * Resolves with the last response once it succeeds, fails permanently or attempts run out
+ * @param input - The request URL
+ * @param init - Standard fetch options
+ * @param options - Policy overrides, idempotency and a retry callback
+ */
+export async function fetchWithRetry(
+  input: string,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<RetryResult> {
+  const policy = { ...defaultRetryPolicy, ...options.policy };
+  const idempotent = options.idempotent ?? (policy.retryNonIdempotent || isIdempotentRequest(init));
+
+  for (let attempt = 1; ; attempt++) {
+    let response: Response;
+
+    try {
+      response = await getEnvironment().fetch(input, init);
+    } catch (error) {
+      // A network failure may have reached the server, so only idempotent requests are repeated
+      if (attempt >= policy.maxAttempts || !idempotent || isAbortError(error)) {
+        throw error;
+      }
+
+      const delayMs = computeBackoffDelay(attempt, policy);
+      options.onRetry?.(attempt, delayMs, error instanceof Error ? error.message : 'Network error');
+      await sleep(delayMs, init.signal);
+      continue;
+    }
+
+    if (response.ok || attempt >= policy.maxAttempts || !shouldRetryStatus(response.status, idempotent, policy)) {
+      return { response, attempts: attempt };
+    }
+
+    const retryAfterMs = parseRetryAfter(response.headers);
+    if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+      // The provider asked for a longer wait than the policy allows, so report the failure now
+      return { response, attempts: attempt };
+    }
+
+    const delayMs = computeBackoffDelay(attempt, policy, retryAfterMs);
+    options.onRetry?.(attempt, delayMs, `HTTP ${response.status}`);
+
+    // Release the connection before waiting
+    await response.body?.cancel().catch(() => undefined);
+    await sleep(delayMs, init.signal);
+  }
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with jitter
+ * @param attempt - The attempt that just failed, starting at 1
+ * @param policy - The retry policy
+ * @param retryAfterMs - Delay requested by the server, which takes precedence
+ */
+export function computeBackoffDelay(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  if (retryAfterMs !== undefined) {
+    return Math.min(retryAfterMs, policy.maxDelayMs);
+  }
+
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  // Keep at least half the delay so concurrent clients spread out without retrying immediately
+  return Math.round(exponential / 2 + Math.random() * (exponential / 2));
+}
+
+/**
+ * Reads the delay a server asked for from retry-after-ms or Retry-After (seconds or HTTP date)
+ * @param headers - The response headers
+ * @returns The delay in milliseconds, or undefined when none was given
+ */
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const milliseconds = Number(headers.get('retry-after-ms'));
+  if (milliseconds > 0) {
+    return milliseconds;
+  }
+
+  const value = headers.get('retry-after');
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function shouldRetryStatus(status: number, idempotent: boolean, policy: RetryPolicy): boolean {
+  if (!policy.retryOnStatus.includes(status)) return false;
+  return idempotent || unprocessedStatuses.includes(status);
+}
+
+function isIdempotentRequest(init: RequestInit): boolean {
+  const method = (init.method || 'GET').toUpperCase();
+  return idempotentMethods.includes(method) || new Headers(init.headers).has('Idempotency-Key');
+}
+
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    function onAbort() {
+      clearTimeout(timer);
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'));
+    }
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,121 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { RequestScheduler, keyFingerprint, requestScheduler } from './scheduler';
+import { DataDrivenClient } from './core/clients';
+import { configureEnvironment, createDefaultEnvironment } from './core/environment';
+import { getProvider } from '../data/providers';
+
+// Records the order in which queued requests start
+function track(scheduler: RequestScheduler, started: string[], name: string, request: Parameters<RequestScheduler['acquire']>[0]) {
+  return scheduler.acquire(request).then(slot => {
+    started.push(name);
+    return slot;
+  });
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  requestScheduler.setLimits('openai', undefined);
+  configureEnvironment(createDefaultEnvironment());
+});
+
+describe('RequestScheduler', () => {
+  it('limits concurrency per key, leaving other keys free', async () => {
+    const scheduler = new RequestScheduler();
+    const limits = { maxConcurrent: 1 };
+    const started: string[] = [];
+
+    const first = await track(scheduler, started, 'a1', { provider: 'openai', keyId: 'a', limits });
+    const queued = track(scheduler, started, 'a2', { provider: 'openai', keyId: 'a', limits });
+    await track(scheduler, started, 'b1', { provider: 'openai', keyId: 'b', limits });
+
+    expect(started).toEqual(['a1', 'b1']);
+    expect(scheduler.getStatus()).toEqual([{ provider: 'openai', queued: 1, active: 2 }]);
+
+    first.release();
+    await queued;
+    expect(started).toEqual(['a1', 'b1', 'a2']);
+  });
+
+  it('starts higher-priority requests first and reports queue positions', async () => {
+    const scheduler = new RequestScheduler();
+    scheduler.setLimits('claude', { maxConcurrent: 1 }, 'provider');
+    const started: string[] = [];
+    const positions: number[] = [];
+
+    const running = await track(scheduler, started, 'running', { provider: 'claude' });
+    const low = track(scheduler, started, 'low', { provider: 'claude', keyId: 'x' });
+    const high = track(scheduler, started, 'high', { provider: 'claude', keyId: 'y', priority: 5, onQueuePosition: position => positions.push(position) });
+
+    expect(positions).toEqual([1]);
+    running.release();
+    (await high).release();
+    await low;
+    expect(started).toEqual(['running', 'high', 'low']);
+    expect(positions).toEqual([1, 0]);
+  });
+
+  it('waits for the one-minute window when requests per minute run out', async () => {
+    vi.useFakeTimers();
+    const scheduler = new RequestScheduler();
+    const limits = { requestsPerMinute: 1 };
+    const started: string[] = [];
+
+    (await track(scheduler, started, 'first', { provider: 'gemini', limits })).release();
+    const second = track(scheduler, started, 'second', { provider: 'gemini', limits });
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(started).toEqual(['first']);
+    await vi.advanceTimersByTimeAsync(1_000);
+    await second;
+    expect(started).toEqual(['first', 'second']);
+  });
+
+  it('removes aborted requests from the queue', async () => {
+    const scheduler = new RequestScheduler();
+    const controller = new AbortController();
+    const limits = { maxConcurrent: 1 };
+
+    await scheduler.acquire({ provider: 'openai', limits });
+    const queued = scheduler.acquire({ provider: 'openai', limits, signal: controller.signal });
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(scheduler.getStatus()).toEqual([{ provider: 'openai', queued: 0, active: 1 }]);
+  });
+});
+
+describe('keyFingerprint', () => {
+  it('is stable per key and never contains it', () => {
+    const fingerprint = keyFingerprint({ apiKey: 'sk-test-123' });
+
+    expect(keyFingerprint({ apiKey: 'sk-test-123' })).toBe(fingerprint);
+    expect(keyFingerprint({ apiKey: 'sk-test-456' })).not.toBe(fingerprint);
+    expect(fingerprint).not.toContain('sk-test');
+  });
+});
+
+describe('DataDrivenClient scheduling', () => {
+  it('shares the provider and key bucket across configurations for the same provider', async () => {
+    let answer: () => void = () => {};
+    const fetch = vi.fn(() => new Promise<Response>(resolve => {
+      answer = () => resolve(new Response(JSON.stringify({ choices: [{ message: { content: 'ok' } }] })));
+    }));
+    configureEnvironment({ fetch });
+    requestScheduler.setLimits('openai', { maxConcurrent: 1 });
+
+    const openai = getProvider('openai')!.apiConfig;
+    const direct = new DataDrivenClient({ apiKey: 'sk-shared' }, openai, undefined, undefined, 'openai');
+    const gateway = new DataDrivenClient({ apiKey: 'sk-shared' }, { ...openai, baseUrl: 'https://gateway.example.com' }, undefined, undefined, 'openai');
+
+    const first = direct.generate('One');
+    const second = gateway.generate('Two');
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+    expect(requestScheduler.getStatus()).toContainEqual({ provider: 'openai', queued: 1, active: 1 });
+
+    answer();
+    await first;
+    await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(2));
+    answer();
+    expect(await second).toBe('ok');
+  });
+});
@@ -0,0 +1,289 @@
+/**
+ * Client-side rate limiting
+ * Requests wait in a priority queue until every rate-limit bucket they draw from has room:
+ * one per provider and API key (defaulting to the provider's published limits) and,
+ * optionally, one per provider shared by all keys. Requests per minute and tokens per
+ * minute use a sliding one-minute window; concurrency counts requests still in flight.
+ */
+
+import { createAbortError } from './abort';
+import type { RateLimits } from '../types';
+
+export type RateLimitScope = 'key' | 'provider';
+
+export interface ScheduleRequest {
+  provider: string; // Provider id, or the base URL for configurations without one
+  keyId?: string; // Identifies the API key, see keyFingerprint; requests without one share a bucket
+  limits?: RateLimits; // Per-key limits from the provider configuration, used unless overridden with setLimits
+  tokens?: number; // Estimated prompt plus output tokens, counted against tokensPerMinute
+  priority?: number; // Higher runs first; defaults to 0
+  signal?: AbortSignal; // Removes the request from the queue when aborted
+  onQueuePosition?: (position: number) => void; // Position among the provider's queued requests, 0 once started
+}
+
+export interface RequestSlot {
+  /**
+   * Frees the slot once the request has finished
+   * @param tokens - Tokens actually used, replacing the estimate in the window
+   */
+  release(tokens?: number): void;
+}
+
+export interface ProviderQueueStatus {
+  provider: string;
+  queued: number;
+  active: number;
+}
+
+interface WindowEntry {
+  at: number;
+  tokens: number;
+}
+
+interface QueueEntry {
+  request: ScheduleRequest;
+  position: number;
+  resolve: (slot: RequestSlot) => void;
+  reject: (error: unknown) => void;
+  onAbort: () => void;
+}
+
+const WINDOW_MS = 60_000;
+
+class RateLimitBucket {
+  active = 0;
+  private window: WindowEntry[] = [];
+
+  /**
+   * Returns how long a request must wait for room, 0 when it can start now and
+   * Infinity when only a running request finishing can make room
+   */
+  waitTime(limits: RateLimits | undefined, tokens: number, now: number): number {
+    this.window = this.window.filter(entry => now - entry.at < WINDOW_MS);
+    if (!limits) return 0;
+
+    let wait = 0;
+    if (limits.maxConcurrent !== undefined && this.active >= limits.maxConcurrent) {
+      wait = Infinity;
+    }
+    if (limits.requestsPerMinute !== undefined && this.window.length >= limits.requestsPerMinute) {
+      const oldest = this.window[this.window.length - limits.requestsPerMinute];
+      wait = Math.max(wait, oldest.at + WINDOW_MS - now);
+    }
+    if (limits.tokensPerMinute !== undefined) {
+      wait = Math.max(wait, this.tokenWait(limits.tokensPerMinute, tokens, now));
+    }
+    return wait;
+  }
+
+  start(entry: WindowEntry): void {
+    this.active++;
+    this.window.push(entry);
+  }
+
+  // A request larger than the whole budget runs once the window is empty rather than never
+  private tokenWait(budget: number, tokens: number, now: number): number {
+    let used = this.window.reduce((total, entry) => total + entry.tokens, 0);
+    const fits = () => used === 0 || used + tokens <= budget;
+    if (fits()) return 0;
+
+    for (const entry of this.window) {
+      used -= entry.tokens;
+      if (fits()) return entry.at + WINDOW_MS - now;
+    }
+    return 0;
+  }
+}
+
+/**
+ * Queues provider requests so they stay within each provider's rate limits
+ */
+export class RequestScheduler {
+  private readonly buckets = new Map<string, RateLimitBucket>();
+  private readonly keyLimits = new Map<string, RateLimits>();
+  private readonly providerLimits = new Map<string, RateLimits>();
+  private queue: QueueEntry[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  /**
+   * Overrides the limits for a provider
+   * @param provider - Provider id
+   * @param limits - The limits, or undefined to remove the override
+   * @param scope - 'key' applies the limits to each API key separately, 'provider' to all keys together
+   */
+  setLimits(provider: string, limits: RateLimits | undefined, scope: RateLimitScope = 'key'): void {
+    const overrides = scope === 'key' ? this.keyLimits : this.providerLimits;
+    if (limits) {
+      overrides.set(provider, limits);
+    } else {
+      overrides.delete(provider);
+    }
+    this.dispatch();
+  }
+
+  getLimits(provider: string, scope: RateLimitScope = 'key'): RateLimits | undefined {
+    return (scope === 'key' ? this.keyLimits : this.providerLimits).get(provider);
+  }
+
+  /**
+   * Waits for a slot for the request
+   * Release the slot once the response has been read, including after errors
+   * @param request - Provider, key, estimated tokens, priority and callbacks
+   * @throws AbortError if the request's signal aborts while it is queued
+   */
+  acquire(request: ScheduleRequest): Promise<RequestSlot> {
+    if (request.signal?.aborted) {
+      return Promise.reject(createAbortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: QueueEntry = {
+        request,
+        position: 0,
+        resolve,
+        reject,
+        onAbort: () => {
+          this.queue = this.queue.filter(item => item !== entry);
+          reject(createAbortError());
+          this.dispatch();
+        }
+      };
+      request.signal?.addEventListener('abort', entry.onAbort, { once: true });
+
+      const priority = request.priority ?? 0;
+      const index = this.queue.findIndex(item => (item.request.priority ?? 0) < priority);
+      this.queue.splice(index < 0 ? this.queue.length : index, 0, entry);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Runs a task in a slot, releasing it when the task settles
+   * @param request - Provider, key, estimated tokens, priority and callbacks
+   * @param task - The request to send
+   */
+  async schedule<T>(request: ScheduleRequest, task: () => Promise<T>): Promise<T> {
+    const slot = await this.acquire(request);
+    try {
+      return await task();
+    } finally {
+      slot.release();
+    }
+  }
+
+  /**
+   * Lists queued and running requests per provider, for status displays
+   */
+  getStatus(): ProviderQueueStatus[] {
+    const status = new Map<string, ProviderQueueStatus>();
+    const get = (provider: string) => {
+      if (!status.has(provider)) status.set(provider, { provider, queued: 0, active: 0 });
+      return status.get(provider) as ProviderQueueStatus;
+    };
+
+    this.queue.forEach(entry => get(entry.request.provider).queued++);
+    for (const [id, bucket] of this.buckets) {
+      const [provider, scope] = id.split('\n');
+      if (scope === '*' && bucket.active > 0) get(provider).active = bucket.active;
+    }
+    return [...status.values()];
+  }
+
+  // Starts every queued request that fits, keeping priority order within each bucket
+  private dispatch(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const now = Date.now();
+    const blocked = new Set<string>();
+    let nextCheck = Infinity;
+
+    for (const entry of [...this.queue]) {
+      const buckets = this.bucketsFor(entry.request);
+      if (buckets.some(({ id }) => blocked.has(id))) continue;
+
+      const tokens = entry.request.tokens ?? 0;
+      const waits = buckets.map(({ bucket, limits }) => bucket.waitTime(limits, tokens, now));
+      const wait = Math.max(...waits);
+      if (wait > 0) {
+        // Lower-priority requests may not overtake this one in the buckets that are full
+        buckets.forEach(({ id }, index) => waits[index] > 0 && blocked.add(id));
+        nextCheck = Math.min(nextCheck, wait);
+        continue;
+      }
+
+      this.queue = this.queue.filter(item => item !== entry);
+      this.start(entry, buckets.map(({ bucket }) => bucket), tokens, now);
+    }
+
+    if (nextCheck !== Infinity) {
+      this.timer = setTimeout(() => this.dispatch(), nextCheck);
+    }
+    this.reportPositions();
+  }
+
+  private start(entry: QueueEntry, buckets: RateLimitBucket[], tokens: number, now: number): void {
+    entry.request.signal?.removeEventListener('abort', entry.onAbort);
+    const windowEntry: WindowEntry = { at: now, tokens };
+    buckets.forEach(bucket => bucket.start(windowEntry));
+
+    let released = false;
+    entry.request.onQueuePosition?.(0);
+    entry.resolve({
+      release: (usedTokens?: number) => {
+        if (released) return;
+        released = true;
+        if (usedTokens !== undefined) windowEntry.tokens = usedTokens;
+        buckets.forEach(bucket => bucket.active--);
+        this.dispatch();
+      }
+    });
+  }
+
+  // The shared provider bucket always exists so getStatus can count running requests
+  private bucketsFor(request: ScheduleRequest): Array<{ id: string; bucket: RateLimitBucket; limits?: RateLimits }> {
+    const keyId = `${request.provider}\n${request.keyId || 'default'}`;
+    const providerId = `${request.provider}\n*`;
+    return [
+      { id: keyId, bucket: this.bucket(keyId), limits: this.keyLimits.get(request.provider) || request.limits },
+      { id: providerId, bucket: this.bucket(providerId), limits: this.providerLimits.get(request.provider) }
+    ];
+  }
+
+  private bucket(id: string): RateLimitBucket {
+    let bucket = this.buckets.get(id);
+    if (!bucket) {
+      bucket = new RateLimitBucket();
+      this.buckets.set(id, bucket);
+    }
+    return bucket;
+  }
+
+  private reportPositions(): void {
+    const positions = new Map<string, number>();
+    for (const entry of this.queue) {
+      const position = (positions.get(entry.request.provider) || 0) + 1;
+      positions.set(entry.request.provider, position);
+      if (entry.position !== position) {
+        entry.position = position;
+        entry.request.onQueuePosition?.(position);
+      }
+    }
+  }
+}
+
+/**
+ * Derives a short, non-reversible id for an API key, so per-key buckets never hold the key
+ * @param keyData - The provider key data
+ */
+export function keyFingerprint(keyData: Record<string, string>): string {
+  const text = keyData.apiKey || JSON.stringify(keyData);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+// Scheduler shared by every client, so fan-out across views stays within the same limits
+export const requestScheduler = new RequestScheduler();
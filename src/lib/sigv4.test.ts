@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createCanonicalRequest, readAwsCredentials, signRequest } from './sigv4';
+
+// Credentials, scope and date of the AWS Signature Version 4 test suite
+const suite = {
+  credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' },
+  region: 'us-east-1',
+  service: 'service',
+  date: new Date('2015-08-30T12:36:00Z')
+};
+const emptyHash = 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
+
+describe('signRequest', () => {
+  it('signs the get-vanilla request', async () => {
+    const request = { method: 'GET', url: 'https://example.amazonaws.com/', headers: {} };
+
+    expect(await createCanonicalRequest({ ...request, headers: { Host: 'example.amazonaws.com', 'X-Amz-Date': '20150830T123600Z' } }))
+      .toBe(`GET\n/\n\nhost:example.amazonaws.com\nx-amz-date:20150830T123600Z\n\nhost;x-amz-date\n${emptyHash}`);
+    expect(await signRequest(request, suite)).toEqual({
+      'X-Amz-Date': '20150830T123600Z',
+      Authorization: 'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+        'SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+    });
+  });
+
+  it('signs the get-vanilla-query-order-key-case request with sorted parameters', async () => {
+    const request = { method: 'GET', url: 'https://example.amazonaws.com/?Param2=value2&Param1=value1', headers: {} };
+
+    expect(await createCanonicalRequest({ ...request, headers: { Host: 'example.amazonaws.com', 'X-Amz-Date': '20150830T123600Z' } }))
+      .toContain('GET\n/\nParam1=value1&Param2=value2\n');
+    expect((await signRequest(request, suite)).Authorization)
+      .toContain('Signature=b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500');
+  });
+
+  it('signs the session token of temporary credentials', async () => {
+    const request = { method: 'GET', url: 'https://example.amazonaws.com/', headers: {} };
+    const credentials = { ...suite.credentials, sessionToken: 'FQoGZXIvYXdzEXAMPLETOKEN' };
+
+    const headers = await signRequest(request, { ...suite, credentials });
+
+    expect(headers['X-Amz-Security-Token']).toBe('FQoGZXIvYXdzEXAMPLETOKEN');
+    expect(headers.Authorization).toContain('SignedHeaders=host;x-amz-date;x-amz-security-token,');
+    expect(headers.Authorization).not.toBe((await signRequest(request, suite)).Authorization);
+  });
+
+  it('encodes the Bedrock model id in the path once more than it is sent', async () => {
+    const url = 'https://bedrock-runtime.us-east-1.amazonaws.com/model/anthropic.claude-3-5-haiku-20241022-v1:0/converse';
+    const body = JSON.stringify({ messages: [{ role: 'user', content: [{ text: 'Hello' }] }] });
+    const request = { method: 'POST', url, headers: { 'Content-Type': 'application/json' }, body };
+
+    const canonical = await createCanonicalRequest({ ...request, headers: { ...request.headers, Host: 'bedrock-runtime.us-east-1.amazonaws.com' } });
+    const encoded = await createCanonicalRequest({
+      ...request,
+      url: url.replace(':0', '%3A0'),
+      headers: { ...request.headers, Host: 'bedrock-runtime.us-east-1.amazonaws.com' }
+    });
+
+    expect(canonical.split('\n')[1]).toBe('/model/anthropic.claude-3-5-haiku-20241022-v1%3A0/converse');
+    expect(encoded.split('\n')[1]).toBe('/model/anthropic.claude-3-5-haiku-20241022-v1%253A0/converse');
+    expect((await signRequest(request, { ...suite, service: 'bedrock' })).Authorization)
+      .toMatch(/^AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE\/20150830\/us-east-1\/bedrock\/aws4_request, SignedHeaders=content-type;host;x-amz-date, Signature=[0-9a-f]{64}$/);
+  });
+});
+
+describe('readAwsCredentials', () => {
+  it('trims the stored keys and requires the key pair', () => {
+    expect(readAwsCredentials({ accessKeyId: ' AKIDEXAMPLE ', secretAccessKey: 'secret', sessionToken: ' ' }))
+      .toEqual({ accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'secret' });
+    expect(() => readAwsCredentials({ accessKeyId: 'AKIDEXAMPLE' }))
+      .toThrow('AWS credentials required: add an access key ID and secret access key for this provider');
+  });
+});
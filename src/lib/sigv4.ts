@@ -0,0 +1,13 @@
+/**
+ * AWS Signature Version 4
+ * Re-exports the signer from supabase/functions/_shared/sigv4.ts. It needs only Web Crypto,
+ * so the Bedrock presets are signed by the same code in the browser and in dynamic-ai-proxy.
+ */
+
+export {
+  createCanonicalRequest,
+  createStringToSign,
+  readAwsCredentials,
+  signRequest
+} from '../../supabase/functions/_shared/sigv4';
+export type { AwsCredentials, SignableRequest, SigV4Options } from '../../supabase/functions/_shared/sigv4';
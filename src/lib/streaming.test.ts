@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { collectStream, parseServerSentEvents, readProviderStream, textToStream } from './streaming';
+import type { StreamEvent } from './streaming';
+
+// Body that arrives in the given pieces, split wherever the test chooses
+function streamOf(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+}
+
+function sse(...payloads: unknown[]): string {
+  return payloads.map(payload => `data: ${typeof payload === 'string' ? payload : JSON.stringify(payload)}\n\n`).join('');
+}
+
+async function readAll<T>(events: AsyncIterable<T>): Promise<T[]> {
+  const result: T[] = [];
+  for await (const event of events) result.push(event);
+  return result;
+}
+
+// Splits text into pieces of the given size, so events and lines straddle chunk boundaries
+function chunked(text: string, size: number): string[] {
+  const pieces: string[] = [];
+  for (let i = 0; i < text.length; i += size) pieces.push(text.slice(i, i + size));
+  return pieces;
+}
+
+describe('parseServerSentEvents', () => {
+  it('joins events and lines split across chunks', async () => {
+    const events = await readAll(parseServerSentEvents(streamOf('data: {"a"', ':1}\r', '\n\r\nevent: ping\ndata: x\n', '\n')));
+
+    expect(events).toEqual([{ data: '{"a":1}' }, { event: 'ping', data: 'x' }]);
+  });
+
+  it('joins multi-line data and skips comments and events without data', async () => {
+    const events = await readAll(parseServerSentEvents(streamOf(': keep-alive\n\nevent: open\n\ndata: first\ndata:second\n\n')));
+
+    expect(events).toEqual([{ data: 'first\nsecond' }]);
+  });
+
+  it('yields the last event when the stream closes without a blank line', async () => {
+    expect(await readAll(parseServerSentEvents(streamOf('data: tail')))).toEqual([{ data: 'tail' }]);
+  });
+});
+
+describe('readProviderStream', () => {
+  const read = (format: Parameters<typeof readProviderStream>[1], body: string, chunkSize = 7) =>
+    readAll(readProviderStream(new Response(streamOf(...chunked(body, chunkSize))), format));
+
+  it('reads OpenAI deltas, finish reason and usage, and stops at [DONE]', async () => {
+    const body = sse(
+      { choices: [{ delta: { role: 'assistant' } }] },
+      { choices: [{ delta: { content: 'Fresh ' } }] },
+      { choices: [{ delta: { content: 'brews' }, finish_reason: 'stop' }] },
+      { choices: [], usage: { prompt_tokens: 9, completion_tokens: 2, total_tokens: 11 } },
+      '[DONE]',
+      { choices: [{ delta: { content: 'ignored' } }] }
+    );
+
+    expect(await read('openai', body)).toEqual<StreamEvent[]>([
+      { type: 'delta', text: 'Fresh ' },
+      { type: 'delta', text: 'brews' },
+      { type: 'done', finishReason: 'stop', usage: { promptTokens: 9, completionTokens: 2, totalTokens: 11 } }
+    ]);
+  });
+
+  it('reads Claude text deltas and computes the total from input and output tokens', async () => {
+    const body = [
+      'event: message_start\ndata: {"type":"message_start","message":{"usage":{"input_tokens":12}}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"text_delta","text":"Hi"}}\n\n',
+      'event: content_block_delta\ndata: {"type":"content_block_delta","delta":{"type":"input_json_delta","partial_json":"{"}}\n\n',
+      'event: message_delta\ndata: {"type":"message_delta","delta":{"stop_reason":"end_turn"},"usage":{"output_tokens":3}}\n\n',
+      'event: message_stop\ndata: {"type":"message_stop"}\n\n'
+    ].join('');
+
+    expect(await read('claude', body)).toEqual<StreamEvent[]>([
+      { type: 'delta', text: 'Hi' },
+      { type: 'done', finishReason: 'end_turn', usage: { promptTokens: 12, completionTokens: 3, totalTokens: 15 } }
+    ]);
+  });
+
+  it('throws on Claude error events', async () => {
+    const body = sse({ type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } });
+
+    await expect(read('claude', body)).rejects.toThrow('Stream error: Overloaded');
+  });
+
+  it('joins Gemini parts and reads usage metadata', async () => {
+    const body = sse(
+      { candidates: [{ content: { parts: [{ text: 'Small-batch ' }, { text: 'roasts' }] } }] },
+      { candidates: [{ content: { parts: [{ text: '.' }] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 8, candidatesTokenCount: 4, totalTokenCount: 12 } }
+    );
+
+    expect(await read('gemini', body, 5)).toEqual<StreamEvent[]>([
+      { type: 'delta', text: 'Small-batch roasts' },
+      { type: 'delta', text: '.' },
+      { type: 'done', finishReason: 'STOP', usage: { promptTokens: 8, completionTokens: 4, totalTokens: 12 } }
+    ]);
+  });
+
+  it('reads IBM results and ignores the not_finished stop reason', async () => {
+    const body = sse(
+      { results: [{ generated_text: 'Good ', generated_token_count: 1, input_token_count: 6, stop_reason: 'not_finished' }] },
+      { results: [{ generated_text: 'coffee', generated_token_count: 2, input_token_count: 6, stop_reason: 'eos_token' }] }
+    );
+
+    expect(await read('ibm', body)).toEqual<StreamEvent[]>([
+      { type: 'delta', text: 'Good ' },
+      { type: 'delta', text: 'coffee' },
+      { type: 'done', finishReason: 'eos_token', usage: { promptTokens: 6, completionTokens: 2, totalTokens: 8 } }
+    ]);
+  });
+
+  it('skips events that are not JSON and reports no usage when none was sent', async () => {
+    const body = sse('not json', { choices: [{ delta: { content: 'ok' } }] });
+
+    expect(await read('openai', body)).toEqual<StreamEvent[]>([
+      { type: 'delta', text: 'ok' },
+      { type: 'done', finishReason: undefined, usage: undefined }
+    ]);
+  });
+
+  it('rejects responses without a body', async () => {
+    await expect(readAll(readProviderStream(new Response(null), 'openai')))
+      .rejects.toThrow('Streaming is not supported: the response has no body');
+  });
+});
+
+describe('collectStream', () => {
+  it('accumulates deltas and keeps the done details', async () => {
+    const deltas: string[] = [];
+
+    const result = await collectStream(textToStream('Hello', { finishReason: 'stop' }), (_delta, text) => deltas.push(text));
+
+    expect(result).toEqual({ text: 'Hello', finishReason: 'stop', usage: undefined });
+    expect(deltas).toEqual(['Hello']);
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Streaming utilities for provider responses
+ * Parses Server-Sent Events and normalizes each provider's stream format
+ * into a common sequence of text deltas followed by a single completion event
+ */
+
+import { normalizeUsage } from './usage';
+import { getStringAtPath, getValueAtPath } from './jsonPathUtils';
+import { logger } from './core/environment';
+import type { StreamFormat, TokenUsage } from '../types';
+
+export type StreamEvent =
+  | { type: 'delta'; text: string }
+  | { type: 'done'; finishReason?: string; usage?: TokenUsage };
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+/**
+ * Reads a response body and yields each Server-Sent Event as it arrives
+ * @param body - The readable stream returned by fetch
+ */
+export async function* parseServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = findEventBoundary(buffer);
+      while (boundary) {
+        const rawEvent = buffer.slice(0, boundary.index);
+        buffer = buffer.slice(boundary.index + boundary.length);
+
+        const parsed = parseEventBlock(rawEvent);
+        if (parsed) yield parsed;
+
+        boundary = findEventBoundary(buffer);
+      }
+    }
+
+    // Flush whatever is left once the stream closes
+    buffer += decoder.decode();
+    const parsed = parseEventBlock(buffer);
+    if (parsed) yield parsed;
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function findEventBoundary(buffer: string): { index: number; length: number } | null {
+  const match = buffer.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return null;
+  return { index: match.index, length: match[0].length };
+}
+
+function parseEventBlock(block: string): ServerSentEvent | null {
+  if (!block.trim()) return null;
+
+  let event: string | undefined;
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(':')) continue;
+
+    const separatorIndex = line.indexOf(':');
+    const field = separatorIndex === -1 ? line : line.slice(0, separatorIndex);
+    let value = separatorIndex === -1 ? '' : line.slice(separatorIndex + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') {
+      event = value;
+    } else if (field === 'data') {
+      dataLines.push(value);
+    }
+  }
+
+  if (dataLines.length === 0) return null;
+  return { event, data: dataLines.join('\n') };
+}
+
+/**
+ * Mutable state collected while reading a stream, used to build the final done event
+ */
+interface StreamState {
+  finishReason?: string;
+  usage: TokenUsage;
+}
+
+type StreamEventParser = (payload: unknown, state: StreamState) => string | null;
+
+/**
+ * Per-provider parsers. Each one returns the text delta carried by a payload
+ * (or null) and records finish reason and usage in the shared state.
+ */
+const streamParsers: Record<StreamFormat, StreamEventParser> = {
+  openai: (payload, state) => {
+    if (getValueAtPath(payload, 'usage')) {
+      state.usage.promptTokens = numberAt(payload, 'usage.prompt_tokens');
+      state.usage.completionTokens = numberAt(payload, 'usage.completion_tokens');
+      state.usage.totalTokens = numberAt(payload, 'usage.total_tokens');
+    }
+
+    const choice = getValueAtPath(payload, 'choices[0]');
+    if (!choice) return null;
+
+    const finishReason = getStringAtPath(choice, 'finish_reason');
+    if (finishReason) {
+      state.finishReason = finishReason;
+    }
+
+    return getStringAtPath(choice, 'delta.content') ?? null;
+  },
+
+  claude: (payload, state) => {
+    switch (getStringAtPath(payload, 'type')) {
+      case 'message_start':
+        state.usage.promptTokens = numberAt(payload, 'message.usage.input_tokens');
+        return null;
+      case 'content_block_delta':
+        return getStringAtPath(payload, 'delta.type') === 'text_delta' ? getStringAtPath(payload, 'delta.text') ?? null : null;
+      case 'message_delta': {
+        const stopReason = getStringAtPath(payload, 'delta.stop_reason');
+        if (stopReason) {
+          state.finishReason = stopReason;
+        }
+        const outputTokens = numberAt(payload, 'usage.output_tokens');
+        if (outputTokens !== undefined) {
+          state.usage.completionTokens = outputTokens;
+        }
+        return null;
+      }
+      case 'error':
+        throw new Error(`Stream error: ${getStringAtPath(payload, 'error.message') || 'Unknown error'}`);
+      default:
+        return null;
+    }
+  },
+
+  gemini: (payload, state) => {
+    if (getValueAtPath(payload, 'usageMetadata')) {
+      state.usage.promptTokens = numberAt(payload, 'usageMetadata.promptTokenCount');
+      state.usage.completionTokens = numberAt(payload, 'usageMetadata.candidatesTokenCount');
+      state.usage.totalTokens = numberAt(payload, 'usageMetadata.totalTokenCount');
+    }
+
+    const candidate = getValueAtPath(payload, 'candidates[0]');
+    if (!candidate) return null;
+
+    const finishReason = getStringAtPath(candidate, 'finishReason');
+    if (finishReason) {
+      state.finishReason = finishReason;
+    }
+
+    const parts = getValueAtPath(candidate, 'content.parts');
+    const text = Array.isArray(parts) ? parts.map(part => getStringAtPath(part, 'text') || '').join('') : '';
+    return text || null;
+  },
+
+  ibm: (payload, state) => {
+    const result = getValueAtPath(payload, 'results[0]');
+    if (!result) return null;
+
+    const inputTokens = numberAt(result, 'input_token_count');
+    if (inputTokens !== undefined) {
+      state.usage.promptTokens = inputTokens;
+    }
+    const generatedTokens = numberAt(result, 'generated_token_count');
+    if (generatedTokens !== undefined) {
+      state.usage.completionTokens = generatedTokens;
+    }
+    const stopReason = getStringAtPath(result, 'stop_reason');
+    if (stopReason && stopReason !== 'not_finished') {
+      state.finishReason = stopReason;
+    }
+
+    return getStringAtPath(result, 'generated_text') || null;
+  }
+};
+
+function numberAt(payload: unknown, path: string): number | undefined {
+  const value = getValueAtPath(payload, path);
+  return typeof value === 'number' ? value : undefined;
+}
+
+/**
+ * Converts a streaming HTTP response into normalized stream events
+ * @param response - A successful fetch response with an event-stream body
+ * @param format - The provider stream format used to interpret each event
+ */
+export async function* readProviderStream(response: Response, format: StreamFormat): AsyncGenerator<StreamEvent> {
+  if (!response.body) {
+    throw new Error('Streaming is not supported: the response has no body');
+  }
+
+  const parser = streamParsers[format];
+  if (!parser) {
+    throw new Error(`Unsupported stream format: ${format}`);
+  }
+
+  const state: StreamState = { usage: {} };
+
+  for await (const event of parseServerSentEvents(response.body)) {
+    if (event.data === '[DONE]') break;
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(event.data);
+    } catch {
+      logger.warn('Skipping non-JSON stream event:', event.data);
+      continue;
+    }
+
+    const text = parser(payload, state);
+    if (text) {
+      yield { type: 'delta', text };
+    }
+  }
+
+  yield { type: 'done', finishReason: state.finishReason, usage: normalizeUsage(state.usage) };
+}
+
+/**
+ * Collects a stream into its full text, forwarding each delta to an optional callback
+ * @param stream - The stream of events to consume
+ * @param onDelta - Called with each text delta and the text accumulated so far
+ */
+export async function collectStream(
+  stream: AsyncIterable<StreamEvent>,
+  onDelta?: (delta: string, text: string) => void
+): Promise<{ text: string; finishReason?: string; usage?: TokenUsage }> {
+  let text = '';
+  let finishReason: string | undefined;
+  let usage: TokenUsage | undefined;
+
+  for await (const event of stream) {
+    if (event.type === 'delta') {
+      text += event.text;
+      onDelta?.(event.text, text);
+    } else {
+      finishReason = event.finishReason;
+      usage = event.usage;
+    }
+  }
+
+  return { text, finishReason, usage };
+}
+
+/**
+ * Wraps a complete response as a stream, for clients or providers that cannot stream
+ * @param text - The full response text
+ * @param details - Finish reason and usage to report on the done event, when known
+ */
+export async function* textToStream(
+  text: string,
+  details: { finishReason?: string; usage?: TokenUsage } = {}
+): AsyncGenerator<StreamEvent> {
+  if (text) {
+    yield { type: 'delta', text };
+  }
+  yield { type: 'done', finishReason: details.finishReason, usage: details.usage };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyResponseSchema, extractJson, generateObject, validateJsonSchema } from './structured';
+import type { JsonSchema } from '../types';
+
+const personSchema: JsonSchema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    age: { type: 'integer', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    role: { enum: ['admin', 'user'] }
+  },
+  required: ['name', 'age'],
+  additionalProperties: false
+};
+
+describe('validateJsonSchema', () => {
+  it('accepts a matching value', () => {
+    expect(validateJsonSchema({ name: 'Ada', age: 36, tags: ['math'], role: 'admin' }, personSchema)).toEqual([]);
+  });
+
+  it('reports every problem with its location', () => {
+    expect(validateJsonSchema({ name: '', age: -1, tags: ['a', 'b', 3], role: 'guest', extra: true }, personSchema)).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.age: must be >= 0',
+      '$.tags: must have at most 2 items',
+      '$.tags[2]: expected string, got number',
+      '$.role: must be one of "admin", "user"',
+      '$.extra: is not allowed'
+    ]);
+    expect(validateJsonSchema({ age: 1.5 }, personSchema)).toEqual([
+      '$.name: is required',
+      '$.age: expected integer, got number'
+    ]);
+  });
+
+  it('checks anyOf and oneOf alternatives', () => {
+    const schema: JsonSchema = { oneOf: [{ type: 'string' }, { type: 'number' }] };
+
+    expect(validateJsonSchema('text', schema)).toEqual([]);
+    expect(validateJsonSchema(true, schema)).toEqual(['$: must match exactly one allowed schema (matched 0)']);
+    expect(validateJsonSchema(null, { anyOf: [{ type: 'null' }, { type: 'string' }] })).toEqual([]);
+  });
+});
+
+describe('extractJson', () => {
+  it('reads JSON wrapped in code fences or prose', () => {
+    expect(extractJson('```json\n{"a":1}\n```')).toEqual({ a: 1 });
+    expect(extractJson('Here you go: [1, 2] Hope that helps')).toEqual([1, 2]);
+    expect(() => extractJson('no json here')).toThrow('Response is not valid JSON');
+  });
+});
+
+describe('applyResponseSchema', () => {
+  it('uses OpenAI json_schema response format', () => {
+    const body = applyResponseSchema({ model: 'gpt-4o' }, { format: 'openai', jsonPath: 'response_format' }, personSchema);
+
+    expect(body).toEqual({
+      model: 'gpt-4o',
+      response_format: { type: 'json_schema', json_schema: { name: 'response', schema: personSchema, strict: false } }
+    });
+  });
+
+  it('strips keywords Gemini rejects, keeping property names', () => {
+    const schema: JsonSchema = { type: 'object', additionalProperties: false, properties: { default: { type: 'string', default: 'x' } } };
+    const body = applyResponseSchema(
+      { generationConfig: { temperature: 0 } },
+      { format: 'gemini', jsonPath: 'generationConfig' },
+      schema
+    );
+
+    expect(body).toEqual({
+      generationConfig: {
+        temperature: 0,
+        responseMimeType: 'application/json',
+        responseSchema: { type: 'object', properties: { default: { type: 'string' } } }
+      }
+    });
+  });
+});
+
+describe('generateObject', () => {
+  it('asks the model to repair an answer that does not match', async () => {
+    const client = {
+      generateResult: vi.fn().mockResolvedValue({ text: '{"name":"Ada"}' }),
+      chatResult: vi.fn().mockResolvedValue({ text: '{"name":"Ada","age":36}' })
+    };
+
+    const result = await generateObject<{ name: string; age: number }>(client, 'Describe Ada Lovelace', personSchema);
+
+    expect(result.object).toEqual({ name: 'Ada', age: 36 });
+    expect(result.repairs).toBe(1);
+    expect(client.chatResult.mock.calls[0][0][2].content).toContain('$.age: is required');
+  });
+
+  it('gives up after the repair limit', async () => {
+    const client = {
+      generateResult: vi.fn().mockResolvedValue({ text: 'not json' }),
+      chatResult: vi.fn().mockResolvedValue({ text: 'still not json' })
+    };
+
+    await expect(generateObject(client, 'Describe Ada Lovelace', personSchema, { maxRepairs: 1 }))
+      .rejects.toThrow('after 2 attempts');
+  });
+});
@@ -0,0 +1,267 @@
+/**
+ * Structured output utilities
+ * Requests JSON that matches a JSON Schema, using the provider's native JSON mode
+ * where one is configured and prompt instructions everywhere else, then validates
+ * the answer and asks the model to repair it when it does not match
+ */
+
+import { isJsonObject, mergeAtPath, setValueAtPath } from './jsonPathUtils';
+import { logger } from './core/environment';
+import type { ChatMessage, GenerateResult, JsonSchema, RequestOptions, StructuredOutputConfiguration } from '../types';
+
+export type { JsonSchema } from '../types';
+
+// Client surface needed to generate objects, so any ModelShiftAIClient can be passed in
+export interface StructuredOutputClient {
+  generateResult(prompt: string, options?: RequestOptions): Promise<GenerateResult>;
+  chatResult(messages: ChatMessage[], options?: RequestOptions): Promise<GenerateResult>;
+}
+
+export interface GenerateObjectOptions extends RequestOptions {
+  maxRepairs?: number; // Follow-up requests allowed when the answer does not match; defaults to 2
+}
+
+export interface GenerateObjectResult<T> extends GenerateResult {
+  object: T;
+  repairs: number; // Repair requests that were needed before the answer matched
+}
+
+// Keywords Gemini rejects in responseSchema, which accepts only an OpenAPI subset
+const unsupportedGeminiKeywords = ['$schema', '$id', 'additionalProperties', 'const', 'default'];
+
+/**
+ * Attaches a JSON Schema to a request body using the provider's native JSON mode
+ * @param body - The request body to modify
+ * @param config - The provider's structured output configuration
+ * @param schema - The schema the answer must match
+ */
+export function applyResponseSchema<T>(body: T, config: StructuredOutputConfiguration, schema: JsonSchema): T {
+  switch (config.format) {
+    case 'openai':
+      return setValueAtPath(body, config.jsonPath, {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema, strict: false }
+      });
+    case 'gemini':
+      return mergeAtPath(body, config.jsonPath, {
+        responseMimeType: 'application/json',
+        responseSchema: stripKeywords(schema, unsupportedGeminiKeywords)
+      });
+    default:
+      throw new Error(`Unsupported structured output format: ${config.format}`);
+  }
+}
+
+function stripKeywords(value: unknown, keywords: string[]): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => stripKeywords(item, keywords));
+  }
+  if (!isJsonObject(value)) {
+    return value;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    if (keywords.includes(key)) continue;
+    // Property names are user data, so only their schemas are cleaned
+    result[key] = key === 'properties' && isJsonObject(item)
+      ? Object.fromEntries(Object.entries(item).map(([name, schema]) => [name, stripKeywords(schema, keywords)]))
+      : stripKeywords(item, keywords);
+  }
+  return result;
+}
+
+/**
+ * Parses the JSON value in a model answer, tolerating code fences and surrounding prose
+ * @param text - The model's answer
+ */
+export function extractJson(text: string): unknown {
+  const trimmed = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    // Fall back to the outermost object or array in the text
+    const start = trimmed.search(/[{[]/);
+    const end = Math.max(trimmed.lastIndexOf('}'), trimmed.lastIndexOf(']'));
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(trimmed.slice(start, end + 1));
+      } catch {
+        // Reported below
+      }
+    }
+    throw new Error('Response is not valid JSON');
+  }
+}
+
+/**
+ * Checks a value against a JSON Schema
+ * Supports the keywords models are usually given: type, properties, required,
+ * additionalProperties, items, enum, const, anyOf, oneOf and the common length and range limits
+ * @param value - The value to check
+ * @param schema - The schema it must match
+ * @param path - Location of the value, used in messages
+ * @returns A list of problems, empty when the value matches
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.some(option => isEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.anyOf && !schema.anyOf.some(option => validateJsonSchema(value, option, path).length === 0)) {
+    errors.push(`${path}: does not match any allowed schema`);
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(option => validateJsonSchema(value, option, path).length === 0).length;
+    if (matches !== 1) {
+      errors.push(`${path}: must match exactly one allowed schema (matched ${matches})`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    const { items } = schema;
+    if (items) {
+      value.forEach((item, index) => errors.push(...validateJsonSchema(item, items, `${path}[${index}]`)));
+    }
+  } else if (isJsonObject(value)) {
+    const record = value;
+    const properties = schema.properties || {};
+
+    for (const name of schema.required || []) {
+      if (record[name] === undefined) {
+        errors.push(`${path}.${name}: is required`);
+      }
+    }
+
+    for (const [name, item] of Object.entries(record)) {
+      if (properties[name]) {
+        errors.push(...validateJsonSchema(item, properties[name], `${path}.${name}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${name}: is not allowed`);
+      } else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+        errors.push(...validateJsonSchema(item, schema.additionalProperties, `${path}.${name}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+    case 'null': return value === null;
+    default: return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Appends instructions asking for JSON that matches a schema, for providers without a native JSON mode
+ * @param prompt - The original prompt
+ * @param schema - The schema the answer must match
+ */
+export function buildSchemaPrompt(prompt: string, schema: JsonSchema): string {
+  return `${prompt}
+
+Respond with a single JSON value that matches this JSON Schema, with no explanation or code fences:
+${JSON.stringify(schema, null, 2)}`;
+}
+
+/**
+ * Generates a value matching a JSON Schema, asking the model to fix answers that do not match
+ * @param client - The client used for each request
+ * @param prompt - What to generate
+ * @param schema - The schema the answer must match
+ * @param options - Repair limit and per-request options
+ */
+export async function generateObject<T = unknown>(
+  client: StructuredOutputClient,
+  prompt: string,
+  schema: JsonSchema,
+  options: GenerateObjectOptions = {}
+): Promise<GenerateObjectResult<T>> {
+  const { maxRepairs = 2, ...requestOptions } = options;
+  const requestWithSchema = { ...requestOptions, responseSchema: schema };
+  const messages: ChatMessage[] = [{ role: 'user', content: buildSchemaPrompt(prompt, schema) }];
+
+  let result = await client.generateResult(messages[0].content, requestWithSchema);
+
+  for (let repairs = 0; ; repairs++) {
+    let errors: string[];
+    try {
+      const value = extractJson(result.text);
+      errors = validateJsonSchema(value, schema);
+      if (errors.length === 0) {
+        return { ...result, object: value as T, repairs };
+      }
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : String(error)];
+    }
+
+    if (repairs >= maxRepairs) {
+      throw new Error(`Structured output did not match the schema after ${repairs + 1} attempts: ${errors.join('; ')}`);
+    }
+
+    logger.warn(`Structured output invalid (${errors.join('; ')}), requesting a repair`);
+    messages.push(
+      { role: 'assistant', content: result.text },
+      {
+        role: 'user',
+        content: `That response does not match the schema: ${errors.join('; ')}. Reply with only the corrected JSON.`
+      }
+    );
+    result = await client.chatResult(messages, requestWithSchema);
+  }
+}
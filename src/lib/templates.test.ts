@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { renderTemplate, renderTemplates } from './templates';
+
+const context = { keyData: { resource: 'contoso', deployment: 'gpt-4o-prod', region: ' ' }, model: 'gpt-4o' };
+
+describe('renderTemplate', () => {
+  it('fills key data and model placeholders', () => {
+    expect(renderTemplate('https://{{keyData.resource}}.openai.azure.com/openai/deployments/{{ keyData.deployment }}', context))
+      .toBe('https://contoso.openai.azure.com/openai/deployments/gpt-4o-prod');
+    expect(renderTemplate('/v1/models/{{model}}/chat', context)).toBe('/v1/models/gpt-4o/chat');
+  });
+
+  it('uses the default for missing and blank values', () => {
+    expect(renderTemplate('https://{{keyData.region|us-south}}.ml.cloud.ibm.com', context)).toBe('https://us-south.ml.cloud.ibm.com');
+    expect(renderTemplate('{{keyData.apiVersion|2024-10-21}}', context)).toBe('2024-10-21');
+    expect(renderTemplate('{{keyData.suffix|}}', context)).toBe('');
+  });
+
+  it('names the missing value when there is no default', () => {
+    expect(() => renderTemplate('{{keyData.projectId}}', context))
+      .toThrow('Missing "projectId" in the provider\'s key data, required by {{keyData.projectId}}');
+    expect(() => renderTemplate('{{model}}', { keyData: {} })).toThrow('No model set, required by {{model}}');
+  });
+
+  it('inserts values as they are, without reading them as templates', () => {
+    expect(renderTemplate('{{keyData.baseUrl}}/v1', { keyData: { baseUrl: 'http://localhost:8080/{{model}}' } }))
+      .toBe('http://localhost:8080/{{model}}/v1');
+  });
+});
+
+describe('renderTemplates', () => {
+  it('fills every string in nested headers and bodies', () => {
+    const body = { model: '{{model}}', project_id: '{{keyData.deployment}}', parameters: { stop: ['{{keyData.resource}}'], max_new_tokens: 200 } };
+
+    expect(renderTemplates(body, context)).toEqual({
+      model: 'gpt-4o',
+      project_id: 'gpt-4o-prod',
+      parameters: { stop: ['contoso'], max_new_tokens: 200 }
+    });
+    expect(body.model).toBe('{{model}}');
+    expect(renderTemplates(undefined, context)).toBeUndefined();
+  });
+});
@@ -0,0 +1,9 @@
+/**
+ * Request templates
+ * Re-exports the {{keyData.x}} and {{model}} renderer from supabase/functions/_shared/templates.ts,
+ * so a provider's base URL, headers and body expand to the same values in the browser and in
+ * dynamic-ai-proxy.
+ */
+
+export { renderTemplate, renderTemplates } from '../../supabase/functions/_shared/templates';
+export type { TemplateContext } from '../../supabase/functions/_shared/templates';
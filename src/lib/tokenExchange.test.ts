@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { TokenCache, ibmIamTokenExchange } from './tokenExchange';
+import type { TokenFetch } from './tokenExchange';
+
+const keyData = { apiKey: 'ibm-key-1' };
+
+// Answers each exchange with the next token, valid for an hour from the current time
+function tokenEndpoint(...tokens: string[]) {
+  return vi.fn<TokenFetch>(async () => new Response(JSON.stringify({
+    access_token: tokens.shift(),
+    expires_in: 3600,
+    expiration: Math.floor(Date.now() / 1000) + 3600
+  })));
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('TokenCache', () => {
+  it('exchanges the key once and reuses the token', async () => {
+    const cache = new TokenCache();
+    const fetchToken = tokenEndpoint('token-1', 'token-2');
+
+    expect(await cache.getToken(ibmIamTokenExchange, keyData, fetchToken)).toBe('token-1');
+    expect(await cache.getToken(ibmIamTokenExchange, keyData, fetchToken)).toBe('token-1');
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+
+    const [url, init] = fetchToken.mock.calls[0];
+    expect(url).toBe('https://iam.cloud.ibm.com/identity/token');
+    expect(init.headers).toEqual({ 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' });
+    expect(init.body).toBe('grant_type=urn%3Aibm%3Aparams%3Aoauth%3Agrant-type%3Aapikey&apikey=ibm-key-1');
+  });
+
+  it('shares one exchange between concurrent requests', async () => {
+    const cache = new TokenCache();
+    const fetchToken = tokenEndpoint('token-1', 'token-2');
+
+    const tokens = await Promise.all([
+      cache.getToken(ibmIamTokenExchange, keyData, fetchToken),
+      cache.getToken(ibmIamTokenExchange, keyData, fetchToken)
+    ]);
+
+    expect(tokens).toEqual(['token-1', 'token-1']);
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps tokens per key and exchanges again within the refresh margin', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-10-19T09:30:00Z') });
+    const cache = new TokenCache();
+    const fetchToken = tokenEndpoint('token-1', 'token-2', 'token-3');
+
+    await cache.getToken(ibmIamTokenExchange, keyData, fetchToken);
+    expect(await cache.getToken(ibmIamTokenExchange, { apiKey: 'ibm-key-2' }, fetchToken)).toBe('token-2');
+
+    // IBM tokens are refreshed five minutes before their hour is up
+    vi.setSystemTime(new Date('2026-10-19T10:24:59Z'));
+    expect(await cache.getToken(ibmIamTokenExchange, keyData, fetchToken)).toBe('token-1');
+    vi.setSystemTime(new Date('2026-10-19T10:25:01Z'));
+    expect(await cache.getToken(ibmIamTokenExchange, keyData, fetchToken)).toBe('token-3');
+  });
+
+  it('exchanges again after the token is invalidated', async () => {
+    const cache = new TokenCache();
+    const fetchToken = tokenEndpoint('token-1', 'token-2');
+
+    await cache.getToken(ibmIamTokenExchange, keyData, fetchToken);
+    cache.invalidate(ibmIamTokenExchange, keyData);
+
+    expect(await cache.getToken(ibmIamTokenExchange, keyData, fetchToken)).toBe('token-2');
+  });
+
+  it('reports rejected exchanges and responses without a token', async () => {
+    const cache = new TokenCache();
+    const rejected = vi.fn(async () => new Response(JSON.stringify({ errorMessage: 'Provided API key could not be found.' }), { status: 400 }));
+    const empty = vi.fn(async () => new Response(JSON.stringify({ expires_in: 3600 })));
+
+    await expect(cache.getToken(ibmIamTokenExchange, keyData, rejected)).rejects.toThrow(
+      'Authentication failed: could not exchange the API key for an access token (HTTP 400: Provided API key could not be found.)'
+    );
+    await expect(cache.getToken(ibmIamTokenExchange, keyData, empty)).rejects.toThrow(
+      'Authentication failed: the token endpoint returned no token at access_token'
+    );
+  });
+
+  it('stops waiting when aborted while the exchange finishes for the cache', async () => {
+    const cache = new TokenCache();
+    let respond: () => void = () => {};
+    const fetchToken = vi.fn(() => new Promise<Response>(resolve => {
+      respond = () => resolve(new Response(JSON.stringify({ access_token: 'token-1', expires_in: 3600 })));
+    }));
+    const controller = new AbortController();
+
+    const waiting = cache.getToken(ibmIamTokenExchange, keyData, fetchToken, controller.signal);
+    controller.abort(new DOMException('Cancelled', 'AbortError'));
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+
+    respond();
+    expect(await cache.getToken(ibmIamTokenExchange, keyData, fetchToken)).toBe('token-1');
+    expect(fetchToken).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,8 @@
+/**
+ * Token exchange
+ * Re-exports TokenCache and the IBM IAM exchange from supabase/functions/_shared/tokenExchange.ts.
+ * Each runtime holds its own tokenCache, so tokens exchanged in the browser never reach the proxy.
+ */
+
+export { TokenCache, ibmIamTokenExchange, tokenCache } from '../../supabase/functions/_shared/tokenExchange';
+export type { TokenExchangeConfiguration, TokenFetch } from '../../supabase/functions/_shared/tokenExchange';
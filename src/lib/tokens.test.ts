@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkContextWindow,
+  countInputTokens,
+  countTokens,
+  encodeBpe,
+  getMaxOutputTokens,
+  getTokenizerProfile,
+  parseTiktokenRanks,
+  registerBpeEncoding
+} from './tokens';
+
+// A tiny rank file: the bytes of "hello world", then merges in rank order
+const ranks = ['h', 'e', 'l', 'o', ' ', 'w', 'r', 'd', 'll', 'he', 'hello', ' w', 'or']
+  .map((token, rank) => `${btoa(token)} ${rank}`)
+  .join('\n');
+
+describe('getTokenizerProfile', () => {
+  it('picks the profile from the model name, then the provider', () => {
+    expect(getTokenizerProfile('gpt-4o-mini').encoding).toBe('o200k_base');
+    expect(getTokenizerProfile('gpt-4-turbo').encoding).toBe('cl100k_base');
+    expect(getTokenizerProfile('models/gemini-2.0-flash').id).toBe('gemini');
+    expect(getTokenizerProfile('my-finetune', 'claude').id).toBe('claude');
+    expect(getTokenizerProfile('my-finetune').id).toBe('default');
+  });
+});
+
+describe('byte-pair encoding', () => {
+  it('parses rank files and rejects empty ones', () => {
+    expect(parseTiktokenRanks(ranks).get('hello')).toBe(10);
+    expect(() => parseTiktokenRanks('\n')).toThrow('Tokenizer rank file is empty or malformed');
+  });
+
+  it('refuses to encode before the ranks are registered', () => {
+    expect(() => encodeBpe('hello', 'o200k_base')).toThrow('Tokenizer encoding o200k_base is not loaded');
+  });
+
+  it('merges the lowest-ranked pair first within each pre-split piece', () => {
+    registerBpeEncoding('cl100k_base', parseTiktokenRanks(ranks));
+
+    // "hello" is a token of its own; " world" merges " w" (11) before "or" (12)
+    expect(encodeBpe('hello world', 'cl100k_base')).toEqual([10, 11, 12, 2, 7]);
+    // Without a direct rank, "hell" merges "ll" (8) before "he" (9)
+    expect(encodeBpe('hell', 'cl100k_base')).toEqual([9, 8]);
+    expect(countTokens('hello world', 'gpt-4')).toBe(5);
+  });
+});
+
+describe('approximate counts', () => {
+  it('sizes words, digits and other scripts separately', () => {
+    expect(countTokens('hello world', 'claude-3-haiku')).toBe(2);
+    expect(countTokens('12345', 'claude-3-haiku')).toBe(2);
+    expect(countTokens('日本語', 'claude-3-haiku')).toBe(3);
+    expect(countTokens('', 'claude-3-haiku')).toBe(0);
+  });
+
+  it('adds per-message overhead and attachment estimates', () => {
+    const messages = [
+      { role: 'user' as const, content: 'hello world' },
+      { role: 'user' as const, content: '', attachments: [{ kind: 'image' as const, mimeType: 'image/png', data: '' }] }
+    ];
+
+    expect(countInputTokens(messages, 'claude-3-haiku')).toBe(4 + 2 + 4 + 765);
+  });
+});
+
+describe('context window checks', () => {
+  it('reads the output limit from flat and nested parameters', () => {
+    expect(getMaxOutputTokens({ temperature: 0.2, max_tokens: 500 })).toBe(500);
+    expect(getMaxOutputTokens({ generationConfig: { maxOutputTokens: 800 } })).toBe(800);
+    expect(getMaxOutputTokens({ stop: ['\n'] })).toBe(0);
+  });
+
+  it('reports the budget left after the prompt and reserved output', () => {
+    const check = checkContextWindow('hello world', { model: 'claude-3-haiku', contextWindow: 100, parameters: { max_tokens: 90 } });
+
+    expect(check).toMatchObject({ promptTokens: 2, maxOutputTokens: 90, remaining: 8, exceeds: false, exact: false });
+    expect(checkContextWindow('hello world', { contextWindow: 10, parameters: { max_tokens: 9 } }).exceeds).toBe(true);
+  });
+});
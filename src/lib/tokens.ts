@@ -0,0 +1,174 @@
+/**
+ * Token counting and context-window checks
+ * Counts prompts and conversations with the model's tokenizer profile (shared with the
+ * Edge Functions) and compares the prompt plus the requested output against the model's
+ * context window before a request is sent
+ */
+
+import {
+  countWithProfile,
+  getTokenizerProfile,
+  isBpeEncodingLoaded,
+  parseTiktokenRanks,
+  registerBpeEncoding
+} from '../../supabase/functions/_shared/tokens';
+import { isJsonObject } from './jsonPathUtils';
+import { getEnvironment, logger } from './core/environment';
+import { getContextWindow } from '../data/contextWindows';
+import type { BpeEncodingName } from '../../supabase/functions/_shared/tokens';
+import type { AttachmentKind, ChatMessage, ContextWindowCheckMode } from '../types';
+
+export {
+  countTokens,
+  countWithProfile,
+  encodeBpe,
+  getTokenizerProfile,
+  isBpeEncodingLoaded,
+  parseTiktokenRanks,
+  registerBpeEncoding,
+  tokenizerProfiles
+} from '../../supabase/functions/_shared/tokens';
+export type { BpeEncodingName, TokenizerProfile } from '../../supabase/functions/_shared/tokens';
+
+export interface ContextWindowOptions {
+  model?: string; // Selects the tokenizer profile and the context window
+  provider?: string; // Used for models the profile and window tables do not know
+  parameters?: Record<string, unknown>; // Request parameters; the output limit is read from them
+  contextWindow?: number; // Overrides the built-in window table, e.g. for custom providers
+}
+
+export interface ContextWindowCheck {
+  promptTokens: number;
+  maxOutputTokens: number; // Output the request reserves, 0 when no limit is set
+  contextWindow?: number; // Undefined when the model's window is unknown
+  remaining?: number; // Tokens left after the prompt and reserved output
+  exceeds: boolean;
+  exact: boolean; // True when counted with the model's own encoding rather than approximated
+}
+
+// Public rank files published with OpenAI's tiktoken
+const bpeEncodingUrls: Record<BpeEncodingName, string> = {
+  cl100k_base: 'https://openaipublic.blob.core.windows.net/encodings/cl100k_base.tiktoken',
+  o200k_base: 'https://openaipublic.blob.core.windows.net/encodings/o200k_base.tiktoken'
+};
+
+const pendingEncodings = new Map<BpeEncodingName, Promise<void>>();
+
+/**
+ * Downloads and registers a byte-pair encoding so OpenAI models are counted exactly
+ * Concurrent calls share one download; a failed download can be retried
+ * @param name - The encoding name
+ * @param url - Where to load the .tiktoken rank file from; defaults to OpenAI's public copy
+ */
+export function loadBpeEncoding(name: BpeEncodingName, url: string = bpeEncodingUrls[name]): Promise<void> {
+  if (isBpeEncodingLoaded(name)) return Promise.resolve();
+
+  let pending = pendingEncodings.get(name);
+  if (!pending) {
+    pending = (async () => {
+      const response = await getEnvironment().fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load tokenizer encoding ${name} (HTTP ${response.status})`);
+      }
+      registerBpeEncoding(name, parseTiktokenRanks(await response.text()));
+    })().finally(() => pendingEncodings.delete(name));
+    pendingEncodings.set(name, pending);
+  }
+  return pending;
+}
+
+// Rough per-attachment cost; providers size images by resolution and documents by page
+const attachmentTokenEstimates: Record<AttachmentKind, number> = {
+  image: 765,
+  document: 1500
+};
+
+// Parameter names providers use for the output limit
+const maxOutputTokenKeys = ['max_tokens', 'max_completion_tokens', 'max_output_tokens', 'maxOutputTokens', 'max_new_tokens'];
+
+/**
+ * Counts the tokens of a prompt or conversation, including per-message overhead and attachments
+ * @param input - A prompt or chat messages
+ * @param model - Model name, which selects the tokenizer profile
+ * @param provider - Provider id, used for unknown model names
+ */
+export function countInputTokens(input: string | ChatMessage[], model?: string, provider?: string): number {
+  const profile = getTokenizerProfile(model, provider);
+  if (typeof input === 'string') {
+    return countWithProfile(input, profile);
+  }
+
+  return input.reduce((total, message) => {
+    const attachments = (message.attachments || [])
+      .reduce((sum, attachment) => sum + attachmentTokenEstimates[attachment.kind], 0);
+    const toolCalls = message.toolCalls ? countWithProfile(JSON.stringify(message.toolCalls), profile) : 0;
+    return total + profile.messageOverhead + countWithProfile(message.content, profile) + attachments + toolCalls;
+  }, 0);
+}
+
+/**
+ * Reads the output limit from request parameters, including nested ones such as Gemini's generationConfig
+ * @param parameters - Request parameters
+ * @returns The limit, or 0 when none is set
+ */
+export function getMaxOutputTokens(parameters?: Record<string, unknown>): number {
+  if (!parameters) return 0;
+
+  for (const key of maxOutputTokenKeys) {
+    const value = parameters[key];
+    if (typeof value === 'number') return value;
+  }
+  for (const value of Object.values(parameters)) {
+    if (isJsonObject(value)) {
+      const nested = getMaxOutputTokens(value);
+      if (nested) return nested;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Compares the prompt plus the requested output with the model's context window
+ * @param input - A prompt or chat messages
+ * @param options - Model, provider, parameters and an optional window override
+ */
+export function checkContextWindow(input: string | ChatMessage[], options: ContextWindowOptions = {}): ContextWindowCheck {
+  const profile = getTokenizerProfile(options.model, options.provider);
+  const promptTokens = countInputTokens(input, options.model, options.provider);
+  const maxOutputTokens = getMaxOutputTokens(options.parameters);
+  const contextWindow = options.contextWindow ?? getContextWindow(options.model);
+  const remaining = contextWindow !== undefined ? contextWindow - promptTokens - maxOutputTokens : undefined;
+
+  return {
+    promptTokens,
+    maxOutputTokens,
+    contextWindow,
+    remaining,
+    exceeds: remaining !== undefined && remaining < 0,
+    exact: !!profile.encoding && isBpeEncodingLoaded(profile.encoding)
+  };
+}
+
+/**
+ * Warns about or rejects a request that would not fit the model's context window
+ * @param input - A prompt or chat messages
+ * @param options - Model, provider, parameters and an optional window override
+ * @param mode - 'warn' logs, 'block' throws, 'off' skips the check
+ */
+export function enforceContextWindow(
+  input: string | ChatMessage[],
+  options: ContextWindowOptions,
+  mode: ContextWindowCheckMode = 'warn'
+): void {
+  if (mode === 'off') return;
+
+  const check = checkContextWindow(input, options);
+  if (!check.exceeds) return;
+
+  const message = `Prompt (${check.exact ? '' : '~'}${check.promptTokens} tokens) plus max output (${check.maxOutputTokens}) ` +
+    `exceeds the ${check.contextWindow}-token context window of ${options.model || 'the model'}`;
+  if (mode === 'block') {
+    throw new Error(message);
+  }
+  logger.warn(message);
+}
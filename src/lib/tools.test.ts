@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeMessages, parseToolCalls, runToolLoop, ToolRegistry } from './tools';
+import type { ChatMessage } from '../types';
+
+const conversation: ChatMessage[] = [
+  { role: 'user', content: 'Weather in Paris and Rome?' },
+  {
+    role: 'assistant',
+    content: '',
+    toolCalls: [
+      { id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } },
+      { id: 'call_2', name: 'get_weather', arguments: { city: 'Rome' } }
+    ]
+  },
+  { role: 'tool', content: '{"temperature":18}', toolCallId: 'call_1', name: 'get_weather' },
+  { role: 'tool', content: 'sunny', toolCallId: 'call_2', name: 'get_weather' }
+];
+
+const encodeText = (message: ChatMessage) => ({ role: message.role, content: message.content });
+
+describe('parseToolCalls', () => {
+  it('reads OpenAI tool calls, parsing their JSON arguments', () => {
+    const response = {
+      choices: [{
+        message: {
+          tool_calls: [
+            { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+            { id: 'call_2', type: 'function', function: { name: 'get_time', arguments: 'not json' } }
+          ]
+        }
+      }]
+    };
+
+    expect(parseToolCalls(response, { format: 'openai', toolsJsonPath: 'tools', toolCallsJsonPath: 'choices[0].message.tool_calls' }))
+      .toEqual([
+        { id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } },
+        { id: 'call_2', name: 'get_time', arguments: {} }
+      ]);
+  });
+
+  it('reads Claude tool_use blocks alongside text', () => {
+    const response = {
+      content: [
+        { type: 'text', text: 'Let me check.' },
+        { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+      ]
+    };
+
+    expect(parseToolCalls(response, { format: 'claude', toolsJsonPath: 'tools', toolCallsJsonPath: 'content' }))
+      .toEqual([{ id: 'toolu_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+  });
+
+  it('synthesizes ids for Gemini function calls', () => {
+    const response = {
+      candidates: [{ content: { parts: [{ text: 'Checking' }, { functionCall: { name: 'get_weather', args: { city: 'Rome' } } }] } }]
+    };
+
+    expect(parseToolCalls(response, { format: 'gemini', toolsJsonPath: 'tools', toolCallsJsonPath: 'candidates[0].content.parts' }))
+      .toEqual([{ id: 'get_weather_1', name: 'get_weather', arguments: { city: 'Rome' } }]);
+  });
+
+  it('returns no calls when the path holds none', () => {
+    expect(parseToolCalls({ choices: [] }, { format: 'openai', toolsJsonPath: 'tools', toolCallsJsonPath: 'choices[0].message.tool_calls' }))
+      .toEqual([]);
+  });
+});
+
+describe('encodeMessages', () => {
+  it('encodes OpenAI tool calls and one tool message per result', () => {
+    const entries = encodeMessages(conversation, 'openai', encodeText);
+
+    expect(entries).toEqual([
+      { role: 'user', content: 'Weather in Paris and Rome?' },
+      {
+        role: 'assistant',
+        content: null,
+        tool_calls: [
+          { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } },
+          { id: 'call_2', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Rome"}' } }
+        ]
+      },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"temperature":18}' },
+      { role: 'tool', tool_call_id: 'call_2', content: 'sunny' }
+    ]);
+  });
+
+  it('groups Claude tool results into a single user message', () => {
+    const entries = encodeMessages(conversation, 'claude', encodeText);
+
+    expect(entries).toHaveLength(3);
+    expect(entries[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'call_1', content: '{"temperature":18}' },
+        { type: 'tool_result', tool_use_id: 'call_2', content: 'sunny' }
+      ]
+    });
+  });
+
+  it('groups Gemini function responses, wrapping non-object results', () => {
+    const entries = encodeMessages(conversation, 'gemini', encodeText);
+
+    expect(entries[1]).toEqual({
+      role: 'model',
+      parts: [
+        { functionCall: { name: 'get_weather', args: { city: 'Paris' } } },
+        { functionCall: { name: 'get_weather', args: { city: 'Rome' } } }
+      ]
+    });
+    expect(entries[2]).toEqual({
+      role: 'user',
+      parts: [
+        { functionResponse: { name: 'get_weather', response: { temperature: 18 } } },
+        { functionResponse: { name: 'get_weather', response: { result: 'sunny' } } }
+      ]
+    });
+  });
+
+  it('uses the plain encoder for every message when the provider has no tool format', () => {
+    expect(encodeMessages(conversation, undefined, encodeText)).toHaveLength(4);
+  });
+});
+
+describe('runToolLoop', () => {
+  it('runs requested tools until the model answers', async () => {
+    const registry = new ToolRegistry()
+      .register({ name: 'get_weather', parameters: { type: 'object' } }, args => ({ city: args.city, temperature: 18 }));
+    const chatResult = vi.fn()
+      .mockResolvedValueOnce({ text: '', toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }] })
+      .mockResolvedValueOnce({ text: 'It is 18 degrees in Paris.' });
+
+    const result = await runToolLoop({ chatResult }, [{ role: 'user', content: 'Weather in Paris?' }], registry);
+
+    expect(result.text).toBe('It is 18 degrees in Paris.');
+    expect(result.steps).toBe(2);
+    expect(result.messages[2]).toEqual({
+      role: 'tool',
+      content: '{"city":"Paris","temperature":18}',
+      toolCallId: 'call_1',
+      name: 'get_weather'
+    });
+  });
+
+  it('returns handler failures and unknown tools to the model as errors', async () => {
+    const registry = new ToolRegistry().register({ name: 'fail', parameters: {} }, () => {
+      throw new Error('Service down');
+    });
+
+    expect(await registry.execute({ id: '1', name: 'fail', arguments: {} })).toBe('{"error":"Service down"}');
+    expect(await registry.execute({ id: '2', name: 'missing', arguments: {} })).toBe('{"error":"Unknown tool: missing"}');
+  });
+
+  it('gives up after the step limit', async () => {
+    const chatResult = vi.fn().mockResolvedValue({ text: '', toolCalls: [{ id: 'call', name: 'noop', arguments: {} }] });
+    const registry = new ToolRegistry().register({ name: 'noop', parameters: {} }, () => 'ok');
+
+    await expect(runToolLoop({ chatResult }, [{ role: 'user', content: 'Loop' }], registry, { maxSteps: 2 }))
+      .rejects.toThrow('Tool loop stopped after 2 steps');
+  });
+});
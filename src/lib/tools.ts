@@ -0,0 +1,346 @@
+/**
+ * Tool calling utilities
+ * Maps provider-neutral tool definitions, tool calls and tool results to and from
+ * the OpenAI, Claude and Gemini wire formats, and runs registered handlers
+ * until the model produces a final answer
+ */
+
+import { getValueAtPath, isJsonObject, setValueAtPath } from './jsonPathUtils';
+import { throwIfAborted } from './abort';
+import { logger } from './core/environment';
+import type { ChatMessage, GenerateResult, RequestOptions, ToolCall, ToolConfiguration, ToolDefinition, ToolFormat } from '../types';
+
+// Tool calls and results in each provider's message format
+export interface OpenAIToolMessage {
+  role: 'assistant' | 'tool';
+  content: string | null;
+  tool_calls?: Array<{ id: string; type: 'function'; function: { name: string; arguments: string } }>;
+  tool_call_id?: string;
+}
+
+export type ClaudeContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | { type: 'tool_result'; tool_use_id?: string; content: string };
+
+export interface ClaudeToolMessage {
+  role: 'assistant' | 'user';
+  content: ClaudeContentBlock[];
+}
+
+export type GeminiPart =
+  | { text: string }
+  | { functionCall: { name: string; args: Record<string, unknown> } }
+  | { functionResponse: { name?: string; response: Record<string, unknown> } };
+
+export interface GeminiToolMessage {
+  role: 'model' | 'user';
+  parts: GeminiPart[];
+}
+
+export type ToolMessage = OpenAIToolMessage | ClaudeToolMessage | GeminiToolMessage;
+
+/**
+ * Converts tool definitions into a provider's request format
+ * @param format - The provider's tool format
+ * @param tools - Tool definitions with JSON Schema parameters
+ */
+export function formatToolDefinitions(format: ToolFormat, tools: ToolDefinition[]): Record<string, unknown>[] {
+  switch (format) {
+    case 'openai':
+      return tools.map(tool => ({
+        type: 'function',
+        function: { name: tool.name, description: tool.description, parameters: tool.parameters }
+      }));
+    case 'claude':
+      return tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }));
+    case 'gemini':
+      // Gemini groups every function under a single tool entry
+      return [{
+        functionDeclarations: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.parameters
+        }))
+      }];
+    default:
+      throw new Error(`Unsupported tool format: ${format}`);
+  }
+}
+
+/**
+ * Writes tool definitions into a request body at the configured path
+ * @param body - The request body to modify
+ * @param toolConfig - The provider's tool configuration
+ * @param tools - Tool definitions to offer the model
+ */
+export function applyToolDefinitions<T>(body: T, toolConfig: ToolConfiguration, tools: ToolDefinition[]): T {
+  return setValueAtPath(body, toolConfig.toolsJsonPath, formatToolDefinitions(toolConfig.format, tools));
+}
+
+/**
+ * Reads the tool calls requested in a provider response
+ * @param response - The parsed provider response
+ * @param toolConfig - The provider's tool configuration
+ * @returns The tool calls in a common shape, or an empty array when there are none
+ */
+export function parseToolCalls(response: unknown, toolConfig: ToolConfiguration): ToolCall[] {
+  const value = getValueAtPath(response, toolConfig.toolCallsJsonPath);
+  if (!Array.isArray(value)) return [];
+  const entries = value.filter(isJsonObject);
+
+  switch (toolConfig.format) {
+    case 'openai':
+      return entries.flatMap(call => {
+        const fn = call.function;
+        if (!isJsonObject(fn) || typeof fn.name !== 'string') return [];
+        return [{ id: String(call.id), name: fn.name, arguments: parseArguments(fn.arguments) }];
+      });
+    case 'claude':
+      return entries
+        .filter(block => block.type === 'tool_use' && typeof block.name === 'string')
+        .map(block => ({ id: String(block.id), name: String(block.name), arguments: parseArguments(block.input) }));
+    case 'gemini':
+      // Gemini does not always assign call ids, so synthesize stable ones from the position
+      return entries.flatMap((part, index) => {
+        const call = part.functionCall;
+        if (!isJsonObject(call) || typeof call.name !== 'string') return [];
+        return [{
+          id: typeof call.id === 'string' ? call.id : `${call.name}_${index}`,
+          name: call.name,
+          arguments: parseArguments(call.args)
+        }];
+      });
+    default:
+      return [];
+  }
+}
+
+function parseArguments(value: unknown): Record<string, unknown> {
+  if (isJsonObject(value)) return value;
+  if (typeof value !== 'string' || !value.trim()) return {};
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    return isJsonObject(parsed) ? parsed : {};
+  } catch {
+    logger.warn('Tool call arguments are not valid JSON:', value);
+    return {};
+  }
+}
+
+/**
+ * Returns true for messages that carry tool calls or tool results rather than plain text
+ * @param message - A chat message
+ */
+export function isToolMessage(message: ChatMessage): boolean {
+  return message.role === 'tool' || Boolean(message.toolCalls?.length);
+}
+
+/**
+ * Encodes a conversation, using the provider's tool format for tool calls and results
+ * and the given encoder for every other message
+ * @param messages - The conversation, oldest first
+ * @param format - The provider's tool format, if it supports tools
+ * @param encode - Encodes a plain text message
+ */
+export function encodeMessages<T>(
+  messages: ChatMessage[],
+  format: ToolFormat | undefined,
+  encode: (message: ChatMessage) => T
+): Array<T | ToolMessage> {
+  const entries: Array<T | ToolMessage> = [];
+
+  for (const message of messages) {
+    if (format && isToolMessage(message)) {
+      appendToolMessage(entries, format, message);
+    } else {
+      entries.push(encode(message));
+    }
+  }
+
+  return entries;
+}
+
+function appendToolMessage(entries: unknown[], format: ToolFormat, message: ChatMessage): void {
+  const calls = message.toolCalls || [];
+  const previous = entries[entries.length - 1];
+
+  switch (format) {
+    case 'openai': {
+      const entry: OpenAIToolMessage = message.role === 'tool'
+        ? { role: 'tool', tool_call_id: message.toolCallId, content: message.content }
+        : {
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: calls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        };
+      entries.push(entry);
+      return;
+    }
+
+    case 'claude': {
+      if (message.role !== 'tool') {
+        const entry: ClaudeToolMessage = {
+          role: 'assistant',
+          content: [
+            ...(message.content ? [{ type: 'text' as const, text: message.content }] : []),
+            ...calls.map(call => ({ type: 'tool_use' as const, id: call.id, name: call.name, input: call.arguments }))
+          ]
+        };
+        entries.push(entry);
+        return;
+      }
+
+      // Results for one turn must share a single user message
+      const block: ClaudeContentBlock = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      if (isClaudeResultMessage(previous)) {
+        previous.content.push(block);
+      } else {
+        entries.push({ role: 'user', content: [block] } satisfies ClaudeToolMessage);
+      }
+      return;
+    }
+
+    case 'gemini': {
+      if (message.role !== 'tool') {
+        const entry: GeminiToolMessage = {
+          role: 'model',
+          parts: [
+            ...(message.content ? [{ text: message.content }] : []),
+            ...calls.map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+          ]
+        };
+        entries.push(entry);
+        return;
+      }
+
+      const part: GeminiPart = { functionResponse: { name: message.name, response: toResponseObject(message.content) } };
+      if (isGeminiResultMessage(previous)) {
+        previous.parts.push(part);
+      } else {
+        entries.push({ role: 'user', parts: [part] } satisfies GeminiToolMessage);
+      }
+      return;
+    }
+
+    default:
+      throw new Error(`Unsupported tool format: ${format}`);
+  }
+}
+
+// True when an entry is a user message holding only tool results, so the next result can join it
+function isClaudeResultMessage(entry: unknown): entry is ClaudeToolMessage {
+  return isResultEntry(entry, 'content', item => item.type === 'tool_result');
+}
+
+function isGeminiResultMessage(entry: unknown): entry is GeminiToolMessage {
+  return isResultEntry(entry, 'parts', item => 'functionResponse' in item);
+}
+
+function isResultEntry(entry: unknown, field: 'content' | 'parts', isResult: (item: Record<string, unknown>) => boolean): boolean {
+  if (!isJsonObject(entry) || entry.role !== 'user') return false;
+  const items = entry[field];
+  return Array.isArray(items) && items.length > 0 && items.every(item => isJsonObject(item) && isResult(item));
+}
+
+// Gemini expects function responses to be objects
+function toResponseObject(content: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    return isJsonObject(parsed) ? parsed : { result: parsed };
+  } catch {
+    return { result: content };
+  }
+}
+
+export type ToolHandler = (args: Record<string, unknown>, call: ToolCall) => unknown | Promise<unknown>;
+
+// Client surface needed to run a tool loop, so any ModelShiftAIClient can be passed in
+export interface ToolLoopClient {
+  chatResult(messages: ChatMessage[], options?: RequestOptions): Promise<GenerateResult>;
+}
+
+export interface ToolLoopOptions extends RequestOptions {
+  maxSteps?: number; // Model turns allowed before giving up; defaults to 5
+}
+
+export interface ToolLoopResult extends GenerateResult {
+  messages: ChatMessage[]; // The full conversation including tool calls, results and the final answer
+  steps: number;
+}
+
+// Tool definitions paired with the handlers that execute them
+export class ToolRegistry {
+  private readonly tools = new Map<string, { definition: ToolDefinition; handler: ToolHandler }>();
+
+  register(definition: ToolDefinition, handler: ToolHandler): this {
+    this.tools.set(definition.name, { definition, handler });
+    return this;
+  }
+
+  definitions(): ToolDefinition[] {
+    return Array.from(this.tools.values(), tool => tool.definition);
+  }
+
+  /**
+   * Runs the handler for a tool call and returns the result as message content
+   * Handler failures are returned to the model as an error result instead of ending the loop
+   */
+  async execute(call: ToolCall): Promise<string> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return JSON.stringify({ error: `Unknown tool: ${call.name}` });
+    }
+
+    try {
+      const output = await tool.handler(call.arguments, call);
+      return typeof output === 'string' ? output : JSON.stringify(output ?? null);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      logger.warn(`Tool ${call.name} failed:`, message);
+      return JSON.stringify({ error: message });
+    }
+  }
+}
+
+/**
+ * Sends a conversation with tools, executing each requested call and sending the
+ * results back until the model answers without calling a tool
+ * @param client - The client used for each model turn
+ * @param messages - The conversation, oldest first
+ * @param registry - The tools offered to the model and their handlers
+ * @param options - Step limit and per-request options
+ */
+export async function runToolLoop(
+  client: ToolLoopClient,
+  messages: ChatMessage[],
+  registry: ToolRegistry,
+  options: ToolLoopOptions = {}
+): Promise<ToolLoopResult> {
+  const { maxSteps = 5, ...requestOptions } = options;
+  const conversation = [...messages];
+  const tools = registry.definitions();
+
+  for (let step = 1; step <= maxSteps; step++) {
+    const result = await client.chatResult(conversation, { ...requestOptions, tools });
+
+    if (!result.toolCalls?.length) {
+      conversation.push({ role: 'assistant', content: result.text });
+      return { ...result, messages: conversation, steps: step };
+    }
+
+    conversation.push({ role: 'assistant', content: result.text, toolCalls: result.toolCalls });
+    for (const call of result.toolCalls) {
+      throwIfAborted(requestOptions.signal);
+      const content = await registry.execute(call);
+      conversation.push({ role: 'tool', content, toolCallId: call.id, name: call.name });
+    }
+  }
+
+  throw new Error(`Tool loop stopped after ${maxSteps} steps without a final answer`);
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { normalizeUsage, parseGenerateResult, parseResponseDetails, resolveTotalTokens } from './usage';
+import { getProvider } from '../data/providers';
+
+const apiConfig = (providerId: string) => getProvider(providerId)!.apiConfig;
+
+describe('parseResponseDetails', () => {
+  it('reads OpenAI usage including cached prompt tokens', () => {
+    const response = {
+      model: 'gpt-4o-mini-2024-07-18',
+      choices: [{ message: { content: 'Hi' }, finish_reason: 'length' }],
+      usage: { prompt_tokens: 1200, completion_tokens: 30, total_tokens: 1230, prompt_tokens_details: { cached_tokens: 1024 } }
+    };
+
+    expect(parseResponseDetails(response, apiConfig('openai'))).toEqual({
+      usage: { promptTokens: 1200, completionTokens: 30, totalTokens: 1230, cachedPromptTokens: 1024 },
+      finishReason: 'length',
+      model: 'gpt-4o-mini-2024-07-18'
+    });
+  });
+
+  it('computes the total for Claude, which reports none', () => {
+    const response = { model: 'claude-3-5-haiku-20241022', stop_reason: 'end_turn', usage: { input_tokens: 14, output_tokens: 6 } };
+
+    expect(parseResponseDetails(response, apiConfig('claude'))).toEqual({
+      usage: { promptTokens: 14, completionTokens: 6, totalTokens: 20, cachedPromptTokens: undefined },
+      finishReason: 'end_turn',
+      model: 'claude-3-5-haiku-20241022'
+    });
+  });
+
+  it('reads Gemini usage metadata and cached content tokens', () => {
+    const response = {
+      candidates: [{ content: { parts: [{ text: 'Hi' }] }, finishReason: 'STOP' }],
+      usageMetadata: { promptTokenCount: 40, candidatesTokenCount: 2, totalTokenCount: 42, cachedContentTokenCount: 32 }
+    };
+
+    expect(parseResponseDetails(response, apiConfig('gemini')).usage)
+      .toEqual({ promptTokens: 40, completionTokens: 2, totalTokens: 42, cachedPromptTokens: 32 });
+  });
+
+  it('reports no usage when the response has no counts or carries them as strings', () => {
+    expect(parseResponseDetails({ choices: [] }, apiConfig('openai')).usage).toBeUndefined();
+    expect(parseResponseDetails({ usage: { prompt_tokens: '12' } }, apiConfig('openai')).usage).toBeUndefined();
+    expect(parseResponseDetails(null, apiConfig('openai'))).toEqual({ usage: undefined, finishReason: undefined, model: undefined });
+  });
+});
+
+describe('parseGenerateResult', () => {
+  it('reads the text at responseJsonPath and keeps the raw response', () => {
+    const response = { content: [{ type: 'text', text: 'Fresh ' }, { type: 'tool_use', id: 't1' }, { type: 'text', text: 'brews' }] };
+
+    const result = parseGenerateResult(response, apiConfig('claude'));
+
+    expect(result.text).toBe('Fresh brews');
+    expect(result.raw).toBe(response);
+  });
+});
+
+describe('token totals', () => {
+  it('fills in the total from the known counts', () => {
+    expect(normalizeUsage({ completionTokens: 5 })).toEqual({ completionTokens: 5, totalTokens: 5 });
+    expect(normalizeUsage({})).toBeUndefined();
+  });
+
+  it('prefers the reported total over an estimate', () => {
+    expect(resolveTotalTokens({ totalTokens: 99 }, 'hello world', 'hi', 'claude-3-haiku')).toBe(99);
+    expect(resolveTotalTokens(undefined, 'hello world', 'hi', 'claude-3-haiku')).toBe(3);
+  });
+});
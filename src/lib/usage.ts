@@ -0,0 +1,89 @@
+/**
+ * Token usage utilities
+ * Extracts provider-reported usage, finish reason and model from responses
+ * using the ApiConfiguration paths, and estimates tokens when none are reported
+ */
+
+import { getStringAtPath, getValueAtPath } from './jsonPathUtils';
+import { countTokens } from './tokens';
+import type { ApiConfiguration, GenerateResult, TokenUsage } from '../types';
+
+/**
+ * Token estimate used when a provider does not report usage
+ * @param text - The text to estimate
+ * @param model - Model name, which selects the tokenizer profile
+ * @param provider - Provider id, used for unknown model names
+ */
+export function estimateTokens(text: string, model?: string, provider?: string): number {
+  return countTokens(text, model, provider);
+}
+
+/**
+ * Fills in the total when only prompt and completion counts are known
+ * @param usage - Partially populated usage
+ * @returns The usage, or undefined when no counts were reported
+ */
+export function normalizeUsage(usage: TokenUsage): TokenUsage | undefined {
+  if (usage.promptTokens === undefined && usage.completionTokens === undefined && usage.totalTokens === undefined) {
+    return undefined;
+  }
+
+  return {
+    ...usage,
+    totalTokens: usage.totalTokens ?? (usage.promptTokens || 0) + (usage.completionTokens || 0)
+  };
+}
+
+/**
+ * Reads usage, finish reason and model from a provider response
+ * @param response - The parsed provider response
+ * @param apiConfig - The provider's API configuration
+ */
+export function parseResponseDetails(response: unknown, apiConfig: ApiConfiguration): Omit<GenerateResult, 'text' | 'raw'> {
+  const { usage } = apiConfig;
+
+  return {
+    usage: usage && normalizeUsage({
+      promptTokens: readNumber(response, usage.promptTokensJsonPath),
+      completionTokens: readNumber(response, usage.completionTokensJsonPath),
+      totalTokens: readNumber(response, usage.totalTokensJsonPath),
+      cachedPromptTokens: readNumber(response, usage.cachedPromptTokensJsonPath)
+    }),
+    finishReason: apiConfig.finishReasonJsonPath
+      ? getStringAtPath(response, apiConfig.finishReasonJsonPath)
+      : undefined,
+    model: apiConfig.modelResponseJsonPath
+      ? getStringAtPath(response, apiConfig.modelResponseJsonPath)
+      : undefined
+  };
+}
+
+/**
+ * Builds a GenerateResult from a provider response
+ * @param response - The parsed provider response
+ * @param apiConfig - The provider's API configuration
+ */
+export function parseGenerateResult(response: unknown, apiConfig: ApiConfiguration): GenerateResult {
+  return {
+    text: getStringAtPath(response, apiConfig.responseJsonPath) || '',
+    ...parseResponseDetails(response, apiConfig),
+    raw: response
+  };
+}
+
+/**
+ * Returns the total token count, preferring reported usage over an estimate
+ * @param usage - Provider-reported usage, if any
+ * @param promptText - The text sent to the provider
+ * @param responseText - The text received
+ * @param model - Model name, which selects the tokenizer profile for the estimate
+ */
+export function resolveTotalTokens(usage: TokenUsage | undefined, promptText: string, responseText: string, model?: string): number {
+  return usage?.totalTokens || estimateTokens(promptText, model) + estimateTokens(responseText, model);
+}
+
+function readNumber(response: unknown, path?: string): number | undefined {
+  if (!path) return undefined;
+  const value = getValueAtPath(response, path);
+  return typeof value === 'number' ? value : undefined;
+}
@@ -46,18 +46,292 @@ export interface ProviderResponse {
   response: string;
   latency: number;
   tokens: number;
+  usage?: TokenUsage; // Provider-reported token counts, when available
+  model?: string; // Model that served the request
+  cost?: number; // USD, priced when the response was recorded; older records are estimated from tokens
+  finishReason?: string;
+  cached?: boolean; // True when the response was served from the response cache
   success: boolean;
   error?: string;
 }
 
+// Token usage and generation results
+export interface TokenUsage {
+  promptTokens?: number;
+  completionTokens?: number;
+  totalTokens?: number;
+  cachedPromptTokens?: number; // Prompt tokens served from the provider's prompt cache, included in promptTokens
+}
+
+export interface GenerateResult {
+  text: string;
+  usage?: TokenUsage; // Provider-reported token counts, when the response includes them
+  finishReason?: string; // e.g., 'stop', 'length', 'end_turn'
+  model?: string; // Model that served the request, which may differ from the one requested
+  attempts?: number; // HTTP attempts made, including retries
+  provider?: string; // Provider that answered, set when a fallback chain was used
+  fallbacks?: FallbackSkip[]; // Providers tried first and why they were skipped
+  cached?: boolean; // True when served from the response cache
+  cachedAt?: string; // ISO timestamp of the original response, for cache hits
+  toolCalls?: ToolCall[]; // Tools the model asked to call instead of, or alongside, a text answer
+  raw?: unknown; // The unmodified provider response
+}
+
+// Per-request options accepted by every client method
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborts the in-flight request, including retries and streams
+  bypassCache?: boolean; // Skips the cache lookup and refreshes the stored entry
+  tools?: ToolDefinition[]; // Tools the model may call; requires a provider with a tool mapping
+  responseSchema?: JsonSchema; // JSON Schema for the answer, enforced where the provider has a native JSON mode
+  middleware?: Middleware[]; // Runs after the globally registered middleware, for this request only
+  contextWindowCheck?: ContextWindowCheckMode; // What to do when prompt plus max output exceeds the model's context window; defaults to 'warn'
+  priority?: number; // Higher-priority requests leave the rate-limit queue first; defaults to 0
+  onQueuePosition?: (position: number) => void; // Called while the request waits for a rate-limit slot, with 0 once it is sent
+}
+
+// 'warn' logs a warning, 'block' rejects the request before it is sent, 'off' skips the check
+export type ContextWindowCheckMode = 'warn' | 'block' | 'off';
+
+// Client Middleware
+export interface MiddlewareRequest {
+  client: string; // Client sending the request, e.g. 'DataDrivenClient' or 'DynamicProxyClient'
+  provider?: string; // Provider id, when the client knows it
+  endpoint: string; // Provider URL, or the Edge Function name for the proxy clients
+  headers: Record<string, string>;
+  body: any; // Provider request body, or the prompt, messages, model and parameters for the proxy clients
+  stream: boolean;
+}
+
+export interface MiddlewareResponse {
+  status?: number; // HTTP status, when the client sees the provider response
+  body: any; // Parsed response; undefined for streams, which are read after the middleware has run
+  attempts?: number; // HTTP attempts made, including retries
+}
+
+export interface MiddlewareEvent {
+  request: MiddlewareRequest; // The request as sent, after every onRequest hook
+  response?: MiddlewareResponse;
+  error?: unknown; // Set when the request or a middleware hook failed
+  durationMs: number;
+}
+
+export interface Middleware {
+  name: string; // Registering another middleware with the same name replaces it
+  onRequest?: (request: MiddlewareRequest) => MiddlewareRequest | void | Promise<MiddlewareRequest | void>;
+  onResponse?: (
+    response: MiddlewareResponse,
+    request: MiddlewareRequest
+  ) => MiddlewareResponse | void | Promise<MiddlewareResponse | void>;
+  onFinish?: (event: MiddlewareEvent) => void | Promise<void>; // Observes timing and errors; failures here are logged, not thrown
+}
+
+// Provider Fallback
+export type FallbackReason = 'auth' | 'rate_limit' | 'timeout' | 'server_error' | 'network' | 'circuit_open';
+
+export interface FallbackSkip {
+  provider: string;
+  model?: string;
+  reason: FallbackReason;
+  error: string; // Message of the error that caused the skip
+}
+
+// Retry Policy
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first request; 1 disables retries
+  baseDelayMs: number; // Delay before the first retry, doubled on each subsequent one
+  maxDelayMs: number; // Upper bound for any single delay, including Retry-After
+  retryOnStatus: number[]; // HTTP statuses treated as transient
+  retryNonIdempotent?: boolean; // Also repeat POSTs after server errors and network failures, e.g. for a provider that dedupes them
+}
+
+// Client-side rate limits, enforced by the request scheduler before requests are sent
+export interface RateLimits {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number; // Prompt plus requested output tokens
+  maxConcurrent?: number;
+}
+
+// Exchanges the stored key for a short-lived access token, cached until shortly before it expires
+export interface TokenExchangeAuth {
+  type: 'token-exchange';
+  endpoint: string; // May contain {{keyData.name}} placeholders
+  body: Record<string, string>; // Fields sent to the endpoint, e.g. { apikey: '{{keyData.apiKey}}' }
+  bodyFormat?: 'form' | 'json'; // Defaults to form encoding
+  headers?: Record<string, string>;
+  tokenJsonPath: string; // JSON path to the access token in the response
+  expiresInJsonPath?: string; // JSON path to the token lifetime in seconds
+  expirationJsonPath?: string; // JSON path to the expiry in epoch seconds, preferred when present
+  defaultLifetimeSeconds?: number; // Used when the response has no expiry; defaults to 3600
+  refreshMarginSeconds?: number; // Tokens are exchanged again this long before expiry; defaults to 60
+}
+
+// Signs each request with AWS Signature Version 4, using the accessKeyId, secretAccessKey
+// and optional sessionToken fields of the stored key data
+export interface AwsSigV4Auth {
+  type: 'aws-sigv4';
+  service: string; // Signing name, e.g. 'bedrock'
+  region: string; // e.g. '{{keyData.region|us-east-1}}'
+}
+
+// How requests authenticate when the stored key cannot be sent as it is
+export type AuthStrategy = TokenExchangeAuth | AwsSigV4Auth;
+
+export interface UsageConfiguration {
+  promptTokensJsonPath?: string; // e.g., 'usage.prompt_tokens'
+  completionTokensJsonPath?: string; // e.g., 'usage.completion_tokens'
+  totalTokensJsonPath?: string; // Computed from the other two when omitted
+  cachedPromptTokensJsonPath?: string; // e.g., 'usage.prompt_tokens_details.cached_tokens'; billed at the cached input rate
+}
+
+// Streaming Configuration
+export type StreamFormat = 'openai' | 'claude' | 'gemini' | 'ibm';
+
+export interface StreamingConfiguration {
+  format: StreamFormat; // How Server-Sent Events from this provider are parsed
+  endpointPath?: string; // Replaces endpointPath when streaming (e.g., Gemini's streamGenerateContent)
+  bodyOverrides?: Record<string, any>; // Merged into the request body at root level (e.g., { stream: true })
+}
+
+// Chat Configuration
+export type ChatRole = 'system' | 'user' | 'assistant' | 'tool';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  toolCalls?: ToolCall[]; // Calls requested by an assistant message
+  toolCallId?: string; // The call a tool message answers
+  name?: string; // Name of the tool that produced a tool message
+  attachments?: Attachment[]; // Images or documents sent with a user message
+}
+
+// Attachment Configuration
+export type AttachmentKind = 'image' | 'document';
+export type AttachmentFormat = 'openai' | 'claude' | 'gemini';
+
+export interface Attachment {
+  kind: AttachmentKind;
+  mimeType: string; // e.g., 'image/png', 'application/pdf'
+  data?: string; // Base64 content without a data: prefix
+  url?: string; // Remote location, used when data is not given
+  name?: string; // Original file name
+}
+
+export interface AttachmentConfiguration {
+  format: AttachmentFormat; // How attachments are encoded as content parts
+  partsJsonPath: string; // Where the content parts go within each message (e.g., 'content', 'parts')
+  kinds: AttachmentKind[]; // Attachment kinds the provider accepts
+  maxBytes?: number; // Largest accepted attachment after decoding
+}
+
+export interface ChatConfiguration {
+  messagesJsonPath: string; // JSON path of the messages array (e.g., 'messages', 'contents')
+  roleJsonPath: string; // Path of the role within each message (e.g., 'role')
+  contentJsonPath: string; // Path of the text within each message (e.g., 'content', 'parts[0].text')
+  roleNames?: Partial<Record<ChatRole, string>>; // Provider role names when they differ (e.g., { assistant: 'model' })
+  systemJsonPath?: string; // Where system messages go when kept out of the array (e.g., Claude's 'system')
+}
+
+// Tool Calling Configuration
+export type ToolFormat = 'openai' | 'claude' | 'gemini';
+
+export interface ToolDefinition {
+  name: string;
+  description?: string;
+  parameters: Record<string, unknown>; // JSON Schema describing the arguments
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+export interface ToolConfiguration {
+  format: ToolFormat; // How definitions, calls and results are encoded
+  toolsJsonPath: string; // Where tool definitions go in the request body (e.g., 'tools')
+  toolCallsJsonPath: string; // Where tool calls appear in the response (e.g., 'choices[0].message.tool_calls')
+}
+
+// Structured Output Configuration
+export type StructuredOutputFormat = 'openai' | 'gemini';
+
+// JSON Schema; the keywords below are the ones validateJsonSchema checks, others are passed to the provider as given
+export interface JsonSchema {
+  type?: string | string[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  [keyword: string]: unknown;
+}
+
+export interface StructuredOutputConfiguration {
+  format: StructuredOutputFormat; // How the JSON schema is attached to the request
+  jsonPath: string; // Where it goes in the request body (e.g., 'response_format', 'generationConfig')
+}
+
+// Embeddings
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbeddingConfiguration {
+  baseUrl: string;
+  endpointPath: string; // May contain {model}, e.g. '/v1beta/models/{model}:batchEmbedContents'
+  headers: Record<string, string>; // Static headers
+  authHeaderName?: string; // e.g., 'Authorization', 'x-api-key'
+  authHeaderPrefix?: string; // e.g., 'Bearer ', empty string for direct key
+  apiKeyInUrlParam?: boolean; // For providers like Gemini that use URL params
+  urlParamName?: string; // Name of the URL parameter for API key (e.g., 'key')
+  requestBodyStructure: Record<string, unknown>; // Base structure of request body
+  inputJsonPath: string; // JSON path where the list of texts (or per-text items) is inserted
+  inputTemplate?: Record<string, unknown>; // Per-text item for providers that wrap each text; {model} in strings is replaced
+  inputTextJsonPath?: string; // JSON path of the text inside inputTemplate
+  modelJsonPath?: string; // JSON path for the model, relative to inputTemplate when one is used
+  dimensionsJsonPath?: string; // JSON path for a requested output size, relative to inputTemplate when one is used
+  inputType?: { jsonPath: string; document: string; query: string }; // Provider values for document and query embeddings
+  vectorsJsonPath: string; // JSON path to the list of results in the response
+  vectorJsonPath?: string; // JSON path to the vector inside each result; the result itself when omitted
+  tokensJsonPath?: string; // JSON path to the total tokens used
+  errorJsonPath?: string; // JSON path to extract error message
+  defaultModel: string;
+  dimensions: number; // Native vector size of the default model
+  maxBatchSize?: number; // Texts per request; larger inputs are split into several requests
+  retry?: Partial<RetryPolicy>; // Overrides for the default retry policy
+}
+
+// How to read a models endpoint that does not answer in the OpenAI format
+export interface ModelListConfiguration {
+  itemsJsonPath?: string; // e.g. 'resources'; 'data' or 'models' when omitted
+  idJsonPath?: string; // e.g. 'model_id'; 'id' or 'name' when omitted
+  idPrefix?: string; // Removed from ids, e.g. 'models/' for Gemini
+  displayNameJsonPath?: string; // e.g. 'display_name'
+  contextWindowJsonPath?: string; // e.g. 'inputTokenLimit'
+  maxOutputTokensJsonPath?: string; // e.g. 'outputTokenLimit'
+  include?: string; // Regular expression ids must match, to leave out embedding and image models
+}
+
 // API Configuration Interface
 export interface ApiConfiguration {
-  baseUrl: string;
-  endpointPath: string;
+  baseUrl: string; // May contain {{keyData.name}} and {{model}} placeholders, like endpointPath, headers and requestBodyStructure
+  baseUrlKeyName?: string; // Key field that replaces baseUrl when set, for self-hosted servers
+  endpointPath: string; // e.g. '/openai/deployments/{{keyData.deployment}}/chat/completions'
+  modelsEndpointPath?: string; // GET path listing the available models, e.g. '/v1/models'
+  modelList?: ModelListConfiguration; // How to read the models endpoint; the OpenAI format when omitted
   method: 'GET' | 'POST' | 'PUT' | 'DELETE';
-  headers: Record<string, string>; // Static headers
+  headers: Record<string, string>; // Static headers, e.g. { 'api-key': '{{keyData.apiKey}}' }
   authHeaderName?: string; // e.g., 'Authorization', 'x-api-key'
   authHeaderPrefix?: string; // e.g., 'Bearer ', empty string for direct key
+  auth?: AuthStrategy; // Exchanges the stored key for a token or signs requests instead of sending the key
   apiKeyInUrlParam?: boolean; // For providers like Gemini that use URL params
   urlParamName?: string; // Name of the URL parameter for API key (e.g., 'key')
   requestBodyStructure: Record<string, any>; // Base structure of request body
@@ -65,10 +339,35 @@ export interface ApiConfiguration {
   modelJsonPath?: string; // JSON path where model should be inserted
   parametersJsonPath?: string; // JSON path where parameters should be merged
   projectIdJsonPath?: string; // JSON path for project ID (IBM specific)
-  responseJsonPath: string; // JSON path to extract response text
+  responseJsonPath: string; // JSON path to extract response text, e.g. "content[?(@.type=='text')].text | join"
   errorJsonPath?: string; // JSON path to extract error message
+  usage?: UsageConfiguration; // JSON paths to extract token usage
+  finishReasonJsonPath?: string; // JSON path to extract the finish reason
+  modelResponseJsonPath?: string; // JSON path to extract the model that served the request
+  retry?: Partial<RetryPolicy>; // Overrides for the default retry policy
+  rateLimits?: RateLimits; // Published per-key limits the client-side scheduler keeps requests within
   defaultModel: string;
   defaultParameters: Record<string, any>;
+  contextWindow?: number; // Context window in tokens, for models the built-in table does not know
+  streaming?: StreamingConfiguration; // Optional streaming support
+  chat?: ChatConfiguration; // Optional multi-turn mapping; inferred from promptJsonPath when omitted
+  tools?: ToolConfiguration; // Optional tool calling support
+  structuredOutput?: StructuredOutputConfiguration; // Optional native JSON mode; prompt instructions are used otherwise
+  attachments?: AttachmentConfiguration; // Optional image and document input
+}
+
+// Input a model accepts
+export type ModelModality = 'text' | 'image' | 'document' | 'audio';
+
+// An entry in a provider's model catalog
+export interface ModelInfo {
+  id: string; // Sent as the model name, e.g. 'gpt-4o'
+  displayName?: string;
+  contextWindow?: number; // Tokens; looked up in the context window table when omitted
+  maxOutputTokens?: number;
+  modalities?: ModelModality[]; // Text only when omitted
+  pricing?: { input: number; output: number }; // USD per million tokens; looked up in the pricing catalog when omitted
+  discovered?: boolean; // Listed by the provider's models endpoint but not in the built-in catalog
 }
 
 // Provider Types
@@ -78,6 +377,7 @@ export interface Provider {
   displayName: string;
   icon: string;
   color: string;
+  type?: 'openai-compatible'; // Self-hosted server speaking the OpenAI chat completions API at a configurable base URL
   keyRequirements: KeyRequirement[];
   capabilities: {
     streaming: boolean;
@@ -88,6 +388,7 @@ export interface Provider {
     };
   };
   isAvailable: boolean;
+  models?: ModelInfo[]; // Built-in model catalog, refreshable from apiConfig.modelsEndpointPath
   apiConfig: ApiConfiguration; // New: data-driven API configuration
 }
 
@@ -147,6 +448,9 @@ export interface ComparisonResult {
   provider: string;
   response: string;
   loading: boolean;
+  streaming?: boolean; // True while text is still arriving
+  stopped?: boolean; // True when the user stopped the response before it finished
+  queuePosition?: number; // Place in the provider's rate-limit queue while waiting to be sent
   error?: string;
   metrics: {
     latency: number;
@@ -0,0 +1,290 @@
+/**
+ * Embedding utilities shared by the Edge Functions
+ * Mirrors src/lib/embeddings.ts and src/data/embeddingProviders.ts so knowledge bases
+ * are embedded with the same data-driven configurations as the SDK, using provider
+ * keys from the Edge Function secrets
+ */
+
+import { fetchWithRetry } from './retry.ts';
+import type { RetryPolicy } from './retry.ts';
+import { getStringAtPath, getValueAtPath, setValueAtPath } from './jsonPath.ts';
+
+export type EmbeddingInputType = 'document' | 'query';
+
+export interface EmbeddingConfiguration {
+  baseUrl: string;
+  endpointPath: string; // May contain {model}
+  headers: Record<string, string>;
+  authHeaderName?: string;
+  authHeaderPrefix?: string;
+  apiKeyInUrlParam?: boolean;
+  urlParamName?: string;
+  requestBodyStructure: Record<string, unknown>;
+  inputJsonPath: string;
+  inputTemplate?: Record<string, unknown>;
+  inputTextJsonPath?: string;
+  modelJsonPath?: string;
+  dimensionsJsonPath?: string;
+  inputType?: { jsonPath: string; document: string; query: string };
+  vectorsJsonPath: string;
+  vectorJsonPath?: string;
+  tokensJsonPath?: string;
+  errorJsonPath?: string;
+  defaultModel: string;
+  dimensions: number;
+  maxBatchSize?: number;
+  retry?: Partial<RetryPolicy>;
+}
+
+export interface EmbedOptions {
+  model?: string;
+  dimensions?: number;
+  inputType?: EmbeddingInputType;
+}
+
+export interface EmbedResult {
+  embeddings: number[][];
+  model: string;
+  dimensions: number;
+  totalTokens?: number;
+}
+
+export const embeddingProviders: Record<string, EmbeddingConfiguration> = {
+  openai: {
+    baseUrl: 'https://api.openai.com',
+    endpointPath: '/v1/embeddings',
+    headers: { 'Content-Type': 'application/json' },
+    authHeaderName: 'Authorization',
+    authHeaderPrefix: 'Bearer ',
+    requestBodyStructure: { model: 'text-embedding-ada-002', input: [] },
+    inputJsonPath: 'input',
+    modelJsonPath: 'model',
+    dimensionsJsonPath: 'dimensions',
+    vectorsJsonPath: 'data',
+    vectorJsonPath: 'embedding',
+    tokensJsonPath: 'usage.total_tokens',
+    errorJsonPath: 'error.message',
+    defaultModel: 'text-embedding-ada-002',
+    dimensions: 1536,
+    maxBatchSize: 2048
+  },
+  gemini: {
+    baseUrl: 'https://generativelanguage.googleapis.com',
+    endpointPath: '/v1beta/models/{model}:batchEmbedContents',
+    headers: { 'Content-Type': 'application/json' },
+    apiKeyInUrlParam: true,
+    urlParamName: 'key',
+    requestBodyStructure: { requests: [] },
+    inputJsonPath: 'requests',
+    inputTemplate: { model: 'models/{model}', content: { parts: [{ text: '' }] } },
+    inputTextJsonPath: 'content.parts[0].text',
+    dimensionsJsonPath: 'outputDimensionality',
+    inputType: { jsonPath: 'taskType', document: 'RETRIEVAL_DOCUMENT', query: 'RETRIEVAL_QUERY' },
+    vectorsJsonPath: 'embeddings',
+    vectorJsonPath: 'values',
+    errorJsonPath: 'error.message',
+    defaultModel: 'text-embedding-004',
+    dimensions: 768,
+    maxBatchSize: 100
+  },
+  cohere: {
+    baseUrl: 'https://api.cohere.com',
+    endpointPath: '/v2/embed',
+    headers: { 'Content-Type': 'application/json' },
+    authHeaderName: 'Authorization',
+    authHeaderPrefix: 'Bearer ',
+    requestBodyStructure: {
+      model: 'embed-english-v3.0',
+      texts: [],
+      input_type: 'search_document',
+      embedding_types: ['float']
+    },
+    inputJsonPath: 'texts',
+    modelJsonPath: 'model',
+    inputType: { jsonPath: 'input_type', document: 'search_document', query: 'search_query' },
+    vectorsJsonPath: 'embeddings.float',
+    tokensJsonPath: 'meta.billed_units.input_tokens',
+    errorJsonPath: 'message',
+    defaultModel: 'embed-english-v3.0',
+    dimensions: 1024,
+    maxBatchSize: 96
+  }
+};
+
+// Edge Function secret holding each provider's API key
+export const embeddingApiKeyEnv: Record<string, string> = {
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  cohere: 'COHERE_API_KEY'
+};
+
+function replaceModelPlaceholder(value: unknown, model: string): unknown {
+  if (typeof value === 'string') return value.replace('{model}', model);
+  if (Array.isArray(value)) return value.map(item => replaceModelPlaceholder(item, model));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, replaceModelPlaceholder(item, model)]));
+  }
+  return value;
+}
+
+// Only ask for a size when it differs from the default model's native one, since older
+// models such as text-embedding-ada-002 reject the parameter outright
+function getRequestedDimensions(config: EmbeddingConfiguration, model: string, dimensions?: number): number | undefined {
+  if (dimensions === undefined) return undefined;
+  if (model === config.defaultModel && dimensions === config.dimensions) return undefined;
+  return dimensions;
+}
+
+export function buildEmbeddingRequestBody(config: EmbeddingConfiguration, texts: string[], options: EmbedOptions = {}): Record<string, unknown> {
+  const model = options.model || config.defaultModel;
+  const dimensions = getRequestedDimensions(config, model, options.dimensions);
+
+  const applySettings = <T>(target: T): T => {
+    let result = target;
+    if (config.modelJsonPath) {
+      result = setValueAtPath(result, config.modelJsonPath, model);
+    }
+    if (dimensions !== undefined && config.dimensionsJsonPath) {
+      result = setValueAtPath(result, config.dimensionsJsonPath, dimensions);
+    }
+    if (options.inputType && config.inputType) {
+      result = setValueAtPath(result, config.inputType.jsonPath, config.inputType[options.inputType]);
+    }
+    return result;
+  };
+
+  const body: Record<string, unknown> = JSON.parse(JSON.stringify(config.requestBodyStructure));
+
+  if (!config.inputTemplate) {
+    return applySettings(setValueAtPath(body, config.inputJsonPath, texts));
+  }
+
+  const template = replaceModelPlaceholder(config.inputTemplate, model);
+  const items = texts.map(text => applySettings(setValueAtPath(template, config.inputTextJsonPath || 'text', text)));
+  return setValueAtPath(body, config.inputJsonPath, items);
+}
+
+export function parseEmbeddingResponse(
+  response: unknown,
+  config: EmbeddingConfiguration
+): { embeddings: number[][]; totalTokens?: number } {
+  const results = getValueAtPath(response, config.vectorsJsonPath);
+  if (!Array.isArray(results)) {
+    throw new Error(`Embedding response has no results at ${config.vectorsJsonPath}`);
+  }
+
+  const embeddings = results.map((result, index) => {
+    const vector = config.vectorJsonPath ? getValueAtPath(result, config.vectorJsonPath) : result;
+    if (!Array.isArray(vector) || !vector.every(value => typeof value === 'number')) {
+      throw new Error(`Embedding response has no vector for input ${index}`);
+    }
+    return vector;
+  });
+
+  const totalTokens = config.tokensJsonPath ? getValueAtPath(response, config.tokensJsonPath) : undefined;
+  return { embeddings, ...(typeof totalTokens === 'number' && { totalTokens }) };
+}
+
+/**
+ * Embeds texts with a preset provider, using its API key from the Edge Function secrets
+ * @param provider - Embedding provider id (openai, gemini, cohere)
+ * @param texts - The texts to embed
+ * @param options - Model, dimensions and input type; the result is checked against the dimensions
+ */
+export async function embedTexts(provider: string, texts: string[], options: EmbedOptions = {}): Promise<EmbedResult> {
+  const config = embeddingProviders[provider];
+  if (!config) {
+    throw new Error(`Embedding provider '${provider}' not supported`);
+  }
+
+  const apiKey = Deno.env.get(embeddingApiKeyEnv[provider]);
+  if (!apiKey) {
+    throw new Error(`${embeddingApiKeyEnv[provider]} not set in environment variables.`);
+  }
+
+  const model = options.model || config.defaultModel;
+  const batchSize = config.maxBatchSize || texts.length || 1;
+  const embeddings: number[][] = [];
+  let totalTokens: number | undefined;
+
+  for (let start = 0; start < texts.length; start += batchSize) {
+    const batch = texts.slice(start, start + batchSize);
+
+    let endpoint = `${config.baseUrl}${config.endpointPath.replace('{model}', model)}`;
+    const headers = { ...config.headers };
+    if (config.apiKeyInUrlParam && config.urlParamName) {
+      endpoint += `${endpoint.includes('?') ? '&' : '?'}${config.urlParamName}=${apiKey}`;
+    } else if (config.authHeaderName) {
+      headers[config.authHeaderName] = `${config.authHeaderPrefix || ''}${apiKey}`;
+    }
+
+    const { response, attempts } = await fetchWithRetry(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(buildEmbeddingRequestBody(config, batch, options))
+    }, {
+      policy: config.retry,
+      idempotent: true,
+      onRetry: (attempt, delayMs, reason) =>
+        console.warn(`Embedding attempt ${attempt} failed (${reason}), retrying in ${delayMs}ms`)
+    });
+
+    const text = await response.text();
+    let json: unknown = null;
+    try {
+      json = text ? JSON.parse(text) : null;
+    } catch {
+      // Reported below with the raw text
+    }
+
+    if (!response.ok || json === null) {
+      const message = (config.errorJsonPath && getStringAtPath(json, config.errorJsonPath)) || text || 'Unknown error';
+      throw new Error(`${provider} embedding error: ${message} (HTTP ${response.status}, ${attempts} attempt${attempts === 1 ? '' : 's'})`);
+    }
+
+    const parsed = parseEmbeddingResponse(json, config);
+    if (parsed.embeddings.length !== batch.length) {
+      throw new Error(`Embedding response has ${parsed.embeddings.length} vectors for ${batch.length} inputs`);
+    }
+
+    embeddings.push(...parsed.embeddings);
+    if (parsed.totalTokens !== undefined) {
+      totalTokens = (totalTokens || 0) + parsed.totalTokens;
+    }
+  }
+
+  const dimensions = options.dimensions ?? (model === config.defaultModel ? config.dimensions : undefined);
+  const mismatch = dimensions !== undefined && embeddings.find(vector => vector.length !== dimensions);
+  if (mismatch) {
+    throw new Error(`Embedding model ${model} returned ${mismatch.length} dimensions, expected ${dimensions}`);
+  }
+
+  return {
+    embeddings,
+    model,
+    dimensions: embeddings[0]?.length ?? dimensions ?? config.dimensions,
+    ...(totalTokens !== undefined && { totalTokens })
+  };
+}
+
+// Size of the document_chunks.embedding column; knowledge base models must produce vectors of this size
+export const KNOWLEDGE_BASE_DIMENSIONS = 1536;
+
+/**
+ * Embedding options for a knowledge base row, falling back to the original OpenAI model
+ * @param knowledgeBase - Row with the optional embedding_provider and embedding_model columns
+ * @param inputType - Whether the texts are stored chunks or a search query
+ */
+export function getKnowledgeBaseEmbedding(
+  knowledgeBase: { embedding_provider?: string | null; embedding_model?: string | null },
+  inputType: EmbeddingInputType
+): { provider: string; options: EmbedOptions } {
+  return {
+    provider: knowledgeBase.embedding_provider || 'openai',
+    options: {
+      model: knowledgeBase.embedding_model || undefined,
+      dimensions: KNOWLEDGE_BASE_DIMENSIONS,
+      inputType
+    }
+  };
+}
@@ -0,0 +1,504 @@
+/**
+ * JSON path language shared by the SDK and the Edge Functions
+ * Used by provider configurations to insert values into request bodies and read values
+ * back out of responses. src/lib/jsonPathUtils.ts re-exports this module, so both sides
+ * evaluate a configuration's paths the same way.
+ *
+ * Supported syntax:
+ * - Dotted keys and quoted keys: 'usage.total_tokens', "headers['x-request-id']"
+ * - Array indexes, negative from the end: 'choices[0]', 'content[-1]'
+ * - Wildcards over array items or object values: 'choices[*].message.content', 'data.*'
+ * - Filters: "content[?(@.type=='text')].text", 'items[?(@.score >= 0.5)]', 'items[?(@.id)]'
+ * - A trailing modifier applied to the matches: '| join', "| join('\n\n')", '| concat'
+ *
+ * Paths with a wildcard or filter return every match as an array; '| join' turns the
+ * matched strings into one string and '| concat' flattens matched arrays into one.
+ */
+
+export type PathSegment =
+  | { type: 'property'; key: string }
+  | { type: 'index'; index: number } // Negative indexes count from the end
+  | { type: 'wildcard' }
+  | { type: 'filter'; filter: PathFilter };
+
+export type FilterOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export interface PathFilter {
+  path: PathSegment[]; // Relative to the item being tested ('@')
+  operator?: FilterOperator; // Without an operator the filter checks that the path exists
+  value?: string | number | boolean | null;
+}
+
+export type PathModifier = { type: 'join'; separator: string } | { type: 'concat' };
+
+export interface ParsedPath {
+  segments: PathSegment[];
+  modifier?: PathModifier;
+}
+
+// Objects and arrays, the only values a path can step into
+type Container = { [key: string | number]: unknown };
+
+const FILTER_OPERATORS: FilterOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+/**
+ * Parses a JSON path string into segments and an optional modifier
+ * @param path - The JSON path string
+ * @returns The parsed path
+ */
+export function parsePath(path: string): ParsedPath {
+  const pipe = findOutsideQuotes(path, '|');
+  const expression = (pipe === -1 ? path : path.slice(0, pipe)).trim();
+  const segments = parseSegments(expression.startsWith('$') ? expression.slice(1) : expression, path);
+
+  if (pipe === -1) {
+    return { segments };
+  }
+
+  return { segments, modifier: parseModifier(path.slice(pipe + 1).trim(), path) };
+}
+
+/**
+ * Checks whether a path can only ever match a single value
+ * @param path - The JSON path string or parsed path
+ */
+export function isDefinitePath(path: string | ParsedPath): boolean {
+  const parsed = typeof path === 'string' ? parsePath(path) : path;
+  return !parsed.modifier && parsed.segments.every(segment => segment.type === 'property' || segment.type === 'index');
+}
+
+/**
+ * Returns every value matched by a path, ignoring any modifier
+ * @param obj - The object to read from
+ * @param path - The JSON path
+ * @returns The matched values, in document order
+ */
+export function queryPath(obj: unknown, path: string): unknown[] {
+  if (!path || obj === null || obj === undefined) return [];
+  return evaluate([obj], parsePath(path).segments);
+}
+
+/**
+ * Gets a value at a specific JSON path in an object
+ * @param obj - The object to read from
+ * @param path - The JSON path
+ * @returns The value at a definite path, every match for wildcard and filter paths, or
+ * the modifier's result; undefined if nothing matches
+ */
+export function getValueAtPath(obj: unknown, path: string): unknown {
+  if (!path || !obj) return undefined;
+
+  const parsed = parsePath(path);
+  const matches = evaluate([obj], parsed.segments);
+  const definite = parsed.segments.every(segment => segment.type === 'property' || segment.type === 'index');
+
+  if (!parsed.modifier) {
+    return definite ? matches[0] : matches;
+  }
+
+  // A definite path ending at an array applies the modifier to its items
+  const values = definite && Array.isArray(matches[0]) ? matches[0] : matches;
+  return applyModifier(values, parsed.modifier);
+}
+
+/**
+ * Gets the string at a JSON path, such as a response's text or error message
+ * @param obj - The object to read from
+ * @param path - The JSON path; '| join' turns several matched strings into one
+ * @returns The string, or undefined when the path matches nothing or something else
+ */
+export function getStringAtPath(obj: unknown, path: string): string | undefined {
+  const value = getValueAtPath(obj, path);
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Checks for a JSON object, as opposed to an array, a primitive or null
+ * @param value - A parsed JSON value
+ */
+export function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return isContainer(value) && !Array.isArray(value);
+}
+
+/**
+ * Sets a value at a specific JSON path in an object
+ * Missing objects and arrays along a definite path are created; wildcard and filter
+ * segments set the value on every existing match.
+ * @param obj - The object to modify
+ * @param path - The JSON path (e.g., 'messages[0].content', 'parameters.temperature')
+ * @param value - The value to set
+ * @returns A modified copy of the object
+ */
+export function setValueAtPath<T>(obj: T, path: string, value: unknown): T {
+  if (!path) return obj;
+
+  const parsed = parsePath(path);
+  if (parsed.modifier) {
+    throw new Error(`Cannot set a value through a '${parsed.modifier.type}' modifier: ${path}`);
+  }
+
+  const result: T = JSON.parse(JSON.stringify(obj)); // Deep clone
+  assign(result, parsed.segments, 0, value);
+  return result;
+}
+
+/**
+ * Merges an object at a specific JSON path
+ * @param obj - The object to modify
+ * @param path - The JSON path where to merge
+ * @param value - The object to merge
+ * @returns A modified copy of the object
+ */
+export function mergeAtPath<T>(obj: T, path: string, value: Record<string, unknown>): T {
+  if (!path) {
+    return { ...obj, ...value };
+  }
+
+  const existing = getValueAtPath(obj, path);
+  const merged = { ...(isContainer(existing) ? existing : {}), ...value };
+
+  return setValueAtPath(obj, path, merged);
+}
+
+/**
+ * Validates that a JSON path matches at least one value in the given object
+ * @param obj - The object to validate against
+ * @param path - The JSON path to validate
+ * @returns True if the path is valid, false otherwise
+ */
+export function isValidPath(obj: unknown, path: string): boolean {
+  try {
+    return queryPath(obj, path).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Creates a sample object structure based on a JSON path
+ * Useful for generating example request bodies; wildcards, filters and negative indexes
+ * are shown as the first array item
+ * @param path - The JSON path
+ * @param value - The value to place at the path
+ * @returns A sample object with the value at the specified path
+ */
+export function createSampleFromPath(path: string, value: unknown): unknown {
+  const { segments } = parsePath(path);
+  let result = value;
+
+  // Build the structure from the inside out
+  for (let i = segments.length - 1; i >= 0; i--) {
+    const segment = segments[i];
+
+    if (segment.type === 'property') {
+      result = { [segment.key]: result };
+    } else {
+      const arr: unknown[] = [];
+      arr[segment.type === 'index' && segment.index >= 0 ? segment.index : 0] = result;
+      result = arr;
+    }
+  }
+
+  return result;
+}
+
+function isContainer(value: unknown): value is Container {
+  return value !== null && typeof value === 'object';
+}
+
+function evaluate(nodes: unknown[], segments: PathSegment[]): unknown[] {
+  let current = nodes;
+
+  for (const segment of segments) {
+    const next: unknown[] = [];
+
+    for (const node of current) {
+      if (!isContainer(node)) continue;
+
+      if (segment.type === 'property') {
+        if (segment.key in node) next.push(node[segment.key]);
+      } else if (segment.type === 'index') {
+        if (!Array.isArray(node)) continue;
+        const index = segment.index < 0 ? node.length + segment.index : segment.index;
+        if (index >= 0 && index < node.length) next.push(node[index]);
+      } else {
+        const items = Array.isArray(node) ? node : Object.values(node);
+        next.push(...(segment.type === 'wildcard' ? items : items.filter(item => matchesFilter(item, segment.filter))));
+      }
+    }
+
+    current = next;
+  }
+
+  return current;
+}
+
+function matchesFilter(item: unknown, filter: PathFilter): boolean {
+  const matches = evaluate([item], filter.path);
+  if (!filter.operator) {
+    return matches.length > 0 && matches[0] !== undefined;
+  }
+  if (matches.length === 0) {
+    return false;
+  }
+
+  const actual = matches[0];
+  const expected = filter.value;
+  switch (filter.operator) {
+    case '==': return actual === expected;
+    case '!=': return actual !== expected;
+    default:
+      if (typeof actual === 'number' && typeof expected === 'number') return compareOrdered(actual, expected, filter.operator);
+      if (typeof actual === 'string' && typeof expected === 'string') return compareOrdered(actual, expected, filter.operator);
+      return false;
+  }
+}
+
+function compareOrdered<T extends number | string>(actual: T, expected: T, operator: FilterOperator): boolean {
+  if (operator === '<') return actual < expected;
+  if (operator === '<=') return actual <= expected;
+  if (operator === '>') return actual > expected;
+  return actual >= expected;
+}
+
+function applyModifier(values: unknown[], modifier: PathModifier): unknown {
+  if (modifier.type === 'concat') {
+    return values.flatMap(value => (Array.isArray(value) ? value : value === null || value === undefined ? [] : [value]));
+  }
+
+  const parts = values
+    .filter(value => typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean')
+    .map(String);
+  return parts.length > 0 ? parts.join(modifier.separator) : undefined;
+}
+
+function assign(node: unknown, segments: PathSegment[], position: number, value: unknown): void {
+  const segment = segments[position];
+  const isLast = position === segments.length - 1;
+
+  // Creates the container the following segment expects when it is missing
+  const descend = (container: Container, key: string | number) => {
+    if (isLast) {
+      container[key] = value;
+      return;
+    }
+    if (!isContainer(container[key])) {
+      const next = segments[position + 1];
+      container[key] = next.type === 'property' ? {} : [];
+    }
+    assign(container[key], segments, position + 1, value);
+  };
+
+  if (segment.type === 'property') {
+    if (!isContainer(node)) {
+      throw new Error(`Expected object at path segment '${segment.key}', got ${node === null ? 'null' : typeof node}`);
+    }
+    descend(node, segment.key);
+  } else if (segment.type === 'index') {
+    if (!isContainer(node) || !Array.isArray(node)) {
+      throw new Error(`Expected array at path segment, got ${typeof node}`);
+    }
+    const index = segment.index < 0 ? node.length + segment.index : segment.index;
+    if (index < 0) {
+      throw new Error(`Index ${segment.index} is out of range for an array of length ${node.length}`);
+    }
+    // Extend array if necessary
+    while (node.length < index) {
+      node.push({});
+    }
+    descend(node, index);
+  } else {
+    if (!isContainer(node)) return;
+    const keys = Array.isArray(node) ? node.map((_, index) => index) : Object.keys(node);
+    for (const key of keys) {
+      if (segment.type === 'filter' && !matchesFilter(node[key], segment.filter)) continue;
+      descend(node, key);
+    }
+  }
+}
+
+function parseSegments(expression: string, path: string): PathSegment[] {
+  const segments: PathSegment[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+
+    if (char === '.') {
+      i++;
+      if (expression[i] === '.' || i === expression.length) {
+        throw new Error(`Invalid JSON path '${path}': empty key`);
+      }
+      continue;
+    }
+
+    if (char === '[') {
+      const close = findClosingBracket(expression, i, path);
+      segments.push(parseBracket(expression.slice(i + 1, close).trim(), path));
+      i = close + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < expression.length && expression[end] !== '.' && expression[end] !== '[') {
+      end++;
+    }
+    const key = expression.slice(i, end).trim();
+    segments.push(key === '*' ? { type: 'wildcard' } : { type: 'property', key });
+    i = end;
+  }
+
+  return segments;
+}
+
+function parseBracket(content: string, path: string): PathSegment {
+  if (content === '*') {
+    return { type: 'wildcard' };
+  }
+
+  if (content.startsWith('?')) {
+    const filter = content.slice(1).trim();
+    if (!filter.startsWith('(') || !filter.endsWith(')')) {
+      throw new Error(`Invalid JSON path '${path}': filters are written as [?(...)]`);
+    }
+    return { type: 'filter', filter: parseFilter(filter.slice(1, -1).trim(), path) };
+  }
+
+  if (content.startsWith("'") || content.startsWith('"')) {
+    const { value, end } = parseQuoted(content, 0, path);
+    if (end !== content.length) {
+      throw new Error(`Invalid JSON path '${path}': unexpected characters after [${content.slice(0, end)}`);
+    }
+    return { type: 'property', key: value };
+  }
+
+  if (!/^-?\d+$/.test(content)) {
+    throw new Error(`Invalid array notation in path: [${content}]`);
+  }
+  return { type: 'index', index: parseInt(content, 10) };
+}
+
+function parseFilter(expression: string, path: string): PathFilter {
+  let operatorIndex = -1;
+  let operator: FilterOperator | undefined;
+
+  for (let i = 0, quote = ''; i < expression.length && !operator; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = '';
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else {
+      operator = FILTER_OPERATORS.find(candidate => expression.startsWith(candidate, i));
+      operatorIndex = i;
+    }
+  }
+
+  const left = (operator ? expression.slice(0, operatorIndex) : expression).trim();
+  if (!left.startsWith('@')) {
+    throw new Error(`Invalid JSON path '${path}': filters must start with @`);
+  }
+
+  const filter: PathFilter = { path: parseSegments(left.slice(1), path) };
+  if (operator) {
+    filter.operator = operator;
+    filter.value = parseLiteral(expression.slice(operatorIndex + operator.length).trim(), path);
+  }
+  return filter;
+}
+
+function parseLiteral(literal: string, path: string): string | number | boolean | null {
+  if (literal.startsWith("'") || literal.startsWith('"')) {
+    const { value, end } = parseQuoted(literal, 0, path);
+    if (end !== literal.length) {
+      throw new Error(`Invalid JSON path '${path}': unexpected characters after ${literal.slice(0, end)}`);
+    }
+    return value;
+  }
+  if (literal === 'true') return true;
+  if (literal === 'false') return false;
+  if (literal === 'null') return null;
+  if (literal !== '' && !isNaN(Number(literal))) return Number(literal);
+
+  throw new Error(`Invalid JSON path '${path}': unsupported filter value ${literal}`);
+}
+
+function parseModifier(modifier: string, path: string): PathModifier {
+  if (modifier === 'concat' || modifier === 'concat()') {
+    return { type: 'concat' };
+  }
+  if (modifier === 'join' || modifier === 'join()') {
+    return { type: 'join', separator: '' };
+  }
+
+  const match = modifier.match(/^join\(\s*(['"].*['"])\s*\)$/s);
+  if (match) {
+    const { value, end } = parseQuoted(match[1], 0, path);
+    if (end === match[1].length) {
+      return { type: 'join', separator: value };
+    }
+  }
+
+  throw new Error(`Invalid JSON path '${path}': unknown modifier '${modifier}'`);
+}
+
+// Reads a quoted string starting at `start`, supporting \n, \t, \\ and escaped quotes
+function parseQuoted(text: string, start: number, path: string): { value: string; end: number } {
+  const quote = text[start];
+  let value = '';
+
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === quote) {
+      return { value, end: i + 1 };
+    }
+    if (char === '\\' && i + 1 < text.length) {
+      const escaped = text[++i];
+      value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped === 'r' ? '\r' : escaped;
+    } else {
+      value += char;
+    }
+  }
+
+  throw new Error(`Invalid JSON path '${path}': unterminated string`);
+}
+
+function findClosingBracket(expression: string, open: number, path: string): number {
+  let depth = 0;
+  let quote = '';
+
+  for (let i = open; i < expression.length; i++) {
+    const char = expression[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = '';
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '[') {
+      depth++;
+    } else if (char === ']' && --depth === 0) {
+      return i;
+    }
+  }
+
+  throw new Error(`Invalid JSON path '${path}': missing ]`);
+}
+
+function findOutsideQuotes(text: string, target: string): number {
+  let quote = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') i++;
+      else if (char === quote) quote = '';
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === target) {
+      return i;
+    }
+  }
+
+  return -1;
+}
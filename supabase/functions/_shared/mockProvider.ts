@@ -0,0 +1,274 @@
+/**
+ * Mock provider shared by the SDK and the Edge Functions
+ * Answers requests to mock:// URLs in-process with the OpenAI chat completions format, so
+ * the mock provider runs through the same clients, proxies, retries and stream parsers as
+ * a real one without keys or network access. Responses are deterministic: a scripted
+ * fixture matching the last user message, otherwise an echo template.
+ *
+ * Behaviour is set per request with a `mock` object in the request parameters, or with a
+ * directive in the prompt such as [mock:429] or [mock:timeout] for views without a
+ * parameters editor.
+ */
+
+import { isJsonObject } from './jsonPath.ts';
+import { countTokens } from './tokens.ts';
+
+export const MOCK_PROVIDER_BASE_URL = 'mock://modelshift';
+
+export type MockFailure = 401 | 429 | 500 | 'timeout';
+
+export interface MockFixture {
+  match: string; // Case-insensitive substring of the last user message, or a /regex/ with optional flags
+  response: string;
+  finishReason?: string; // Defaults to 'stop'
+}
+
+export interface MockOptions {
+  latencyMs?: number; // Delay before the response or first chunk; defaults to 250
+  template?: string; // Echo template with {prompt}, {model} and {turn} placeholders
+  fixtures?: MockFixture[]; // Checked before the registered and built-in fixtures
+  chunkSize?: number; // Words per streamed chunk; defaults to 3
+  chunkDelayMs?: number; // Delay between streamed chunks; defaults to 30
+  fail?: MockFailure;
+  failTimes?: number; // Fails only the first N attempts of an identical request, so retries recover
+  timeoutMs?: number; // How long a timeout hangs before answering 504 when never aborted; defaults to 120000
+  usage?: { promptTokens?: number; completionTokens?: number }; // Overrides the counted usage
+}
+
+const defaultTemplate = 'Mock response from {model} (turn {turn}): {prompt}';
+
+// Canned answers for demos, e.g. both sides of a debate
+const builtInFixtures: MockFixture[] = [
+  {
+    match: '/\\b(hello|hi|hey)\\b/i',
+    response: 'Hello! This is the ModelShift mock provider. Responses are generated locally, so no API key or network access is needed.'
+  },
+  {
+    match: '/\\b(debate|argue|argument|position)\\b/i',
+    response: 'My position rests on three points. First, the evidence favours a cautious approach. Second, the costs of acting too late outweigh the costs of acting early. Third, the strongest counterargument assumes conditions that rarely hold in practice.'
+  },
+  {
+    match: '/\\b(code|function|typescript|javascript)\\b/i',
+    response: 'Here is a minimal example:\n\n```typescript\nexport function add(a: number, b: number): number {\n  return a + b;\n}\n```'
+  }
+];
+
+const registeredFixtures: MockFixture[] = [];
+
+// Attempts seen per failing request, so failTimes can let a retry through
+const failureCounts = new Map<string, number>();
+
+/**
+ * Adds fixtures that every mock request in this process checks before the built-in ones
+ * @param fixtures - Fixtures in priority order
+ */
+export function registerMockFixtures(fixtures: MockFixture[]): void {
+  registeredFixtures.push(...fixtures);
+}
+
+export function clearMockFixtures(): void {
+  registeredFixtures.length = 0;
+  failureCounts.clear();
+}
+
+export function isMockProviderUrl(url: string): boolean {
+  return url.startsWith(MOCK_PROVIDER_BASE_URL);
+}
+
+/**
+ * Wraps a fetch so mock:// requests are answered in-process and every other URL is passed on
+ * @param baseFetch - The fetch used for real providers
+ */
+export function withMockProvider(baseFetch: typeof fetch): typeof fetch {
+  return (input, init) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    return isMockProviderUrl(url) ? handleMockRequest(url, init) : baseFetch(input, init);
+  };
+}
+
+/**
+ * Answers a request to the mock provider as the provider's server would
+ * @param url - The mock:// URL
+ * @param init - The fetch options the client built
+ */
+export async function handleMockRequest(url: string, init: RequestInit = {}): Promise<Response> {
+  const body = parseBody(init.body);
+  const options = (isJsonObject(body.mock) ? body.mock : {}) as MockOptions;
+  const messages = readMessages(body);
+  const lastUserMessage = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+  const model = typeof body.model === 'string' ? body.model : 'mock-echo';
+  const failure = options.fail ?? readDirective(lastUserMessage);
+
+  await delay(options.latencyMs ?? 250, init.signal);
+
+  if (failure !== undefined && shouldFail(`${url} ${String(init.body)}`, options.failTimes)) {
+    return failureResponse(failure, options, init.signal);
+  }
+
+  const fixture = findFixture(lastUserMessage, [...(options.fixtures || []), ...registeredFixtures, ...builtInFixtures]);
+  const text = fixture?.response ?? (options.template || defaultTemplate)
+    .replace(/\{prompt\}/g, lastUserMessage.replace(/\[mock:[^\]]*\]\s*/g, ''))
+    .replace(/\{model\}/g, model)
+    .replace(/\{turn\}/g, String(messages.filter(message => message.role === 'user').length));
+  const promptTokens = options.usage?.promptTokens ??
+    messages.reduce((total, message) => total + countTokens(message.content, model, 'mock') + 4, 0);
+  const completionTokens = options.usage?.completionTokens ?? countTokens(text, model, 'mock');
+  const usage = { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens };
+  const finishReason = fixture?.finishReason || 'stop';
+  const id = `chatcmpl-mock-${hash(JSON.stringify(messages))}`;
+
+  if (body.stream) {
+    return streamResponse(id, model, text, finishReason, usage, options, init.signal);
+  }
+
+  return jsonResponse(200, {
+    id,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: text }, finish_reason: finishReason }],
+    usage
+  });
+}
+
+function parseBody(body: RequestInit['body']): Record<string, unknown> {
+  if (typeof body !== 'string') return {};
+  try {
+    const parsed: unknown = JSON.parse(body);
+    return isJsonObject(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Reads OpenAI-style messages, keeping only the text of multi-part content
+function readMessages(body: Record<string, unknown>): Array<{ role: string; content: string }> {
+  const messages = Array.isArray(body.messages) ? body.messages.filter(isJsonObject) : [];
+  return messages.map(message => ({
+    role: String(message.role || 'user'),
+    content: typeof message.content === 'string'
+      ? message.content
+      : Array.isArray(message.content)
+        ? message.content.filter(isJsonObject).filter(part => part.type === 'text').map(part => String(part.text ?? '')).join('\n')
+        : ''
+  }));
+}
+
+function readDirective(prompt: string): MockFailure | undefined {
+  const directive = prompt.match(/\[mock:(401|429|500|timeout)\]/)?.[1];
+  if (!directive) return undefined;
+  return directive === 'timeout' ? 'timeout' : Number(directive) as MockFailure;
+}
+
+function shouldFail(key: string, failTimes?: number): boolean {
+  if (failTimes === undefined) return true;
+
+  const count = (failureCounts.get(key) || 0) + 1;
+  if (count > failTimes) {
+    failureCounts.delete(key);
+    return false;
+  }
+  failureCounts.set(key, count);
+  return true;
+}
+
+function findFixture(prompt: string, fixtures: MockFixture[]): MockFixture | undefined {
+  return fixtures.find(fixture => {
+    const regex = fixture.match.match(/^\/(.*)\/([a-z]*)$/s);
+    return regex
+      ? new RegExp(regex[1], regex[2]).test(prompt)
+      : prompt.toLowerCase().includes(fixture.match.toLowerCase());
+  });
+}
+
+async function failureResponse(failure: MockFailure, options: MockOptions, signal?: AbortSignal | null): Promise<Response> {
+  switch (failure) {
+    case 401:
+      return jsonResponse(401, { error: { message: 'Incorrect API key provided (mock)', type: 'invalid_request_error', code: 'invalid_api_key' } });
+    case 429:
+      return jsonResponse(429, { error: { message: 'Rate limit reached (mock)', type: 'rate_limit_error', code: 'rate_limit_exceeded' } }, { 'Retry-After': '1' });
+    case 500:
+      return jsonResponse(500, { error: { message: 'The server had an error while processing your request (mock)', type: 'server_error' } });
+    case 'timeout':
+      // Hangs like an unresponsive provider until the caller gives up
+      await delay(options.timeoutMs ?? 120000, signal);
+      return jsonResponse(504, { error: { message: 'Gateway timeout (mock)', type: 'timeout' } });
+  }
+}
+
+function streamResponse(
+  id: string,
+  model: string,
+  text: string,
+  finishReason: string,
+  usage: Record<string, number>,
+  options: MockOptions,
+  signal?: AbortSignal | null
+): Response {
+  const encoder = new TextEncoder();
+  const words = text.split(/(?<=\s)/);
+  const chunkSize = Math.max(1, options.chunkSize ?? 3);
+  const created = Math.floor(Date.now() / 1000);
+  const event = (payload: Record<string, unknown>) =>
+    encoder.encode(`data: ${JSON.stringify({ id, object: 'chat.completion.chunk', created, model, ...payload })}\n\n`);
+
+  return new Response(new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (let i = 0; i < words.length; i += chunkSize) {
+          if (i > 0) await delay(options.chunkDelayMs ?? 30, signal);
+          const content = words.slice(i, i + chunkSize).join('');
+          controller.enqueue(event({ choices: [{ index: 0, delta: { content }, finish_reason: null }] }));
+        }
+        controller.enqueue(event({ choices: [{ index: 0, delta: {}, finish_reason: finishReason }] }));
+        controller.enqueue(event({ choices: [], usage }));
+        controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    }
+  }), {
+    status: 200,
+    headers: { 'Content-Type': 'text/event-stream' }
+  });
+}
+
+function jsonResponse(status: number, body: unknown, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers }
+  });
+}
+
+function delay(ms: number, signal?: AbortSignal | null): Promise<void> {
+  if (signal?.aborted) return Promise.reject(abortError());
+  if (ms <= 0) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Matches the error fetch raises when a request is aborted
+function abortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+function hash(text: string): string {
+  let value = 0;
+  for (let i = 0; i < text.length; i++) {
+    value = (value * 31 + text.charCodeAt(i)) | 0;
+  }
+  return (value >>> 0).toString(36);
+}
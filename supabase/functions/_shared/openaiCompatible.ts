@@ -0,0 +1,114 @@
+/**
+ * OpenAI-compatible servers shared by the SDK and the Edge Functions
+ * Self-hosted servers such as Ollama, vLLM and LM Studio speak the OpenAI chat completions
+ * API at a base URL the user chooses, with no auth or a bearer token, and list their
+ * models at /v1/models. Vendor model lists in other formats are read with a
+ * ModelListConfiguration. src/lib/openaiCompatible.ts re-exports this module for the app.
+ */
+
+import { getValueAtPath, isJsonObject } from './jsonPath.ts';
+
+export interface DiscoveredModel {
+  id: string;
+  ownedBy?: string;
+  created?: number; // Epoch seconds, when the server reports it
+  displayName?: string;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ModelListConfiguration {
+  itemsJsonPath?: string; // e.g. 'resources'; 'data' or 'models' when omitted
+  idJsonPath?: string; // e.g. 'model_id'; 'id' or 'name' when omitted
+  idPrefix?: string; // Removed from ids, e.g. 'models/' for Gemini
+  displayNameJsonPath?: string;
+  contextWindowJsonPath?: string;
+  maxOutputTokensJsonPath?: string;
+  include?: string; // Regular expression ids must match
+}
+
+interface BaseUrlConfiguration {
+  baseUrl: string;
+  baseUrlKeyName?: string;
+}
+
+/**
+ * Returns the base URL to call, preferring the one stored with the provider's keys
+ * Servers document their base URL both with and without /v1, so a trailing /v1 is dropped
+ * for key-supplied URLs; the endpoint paths already include it
+ * @param apiConfig - The provider's API configuration
+ * @param keyData - The stored key data, e.g. { baseUrl, apiKey }
+ */
+export function resolveBaseUrl(apiConfig: BaseUrlConfiguration, keyData: Record<string, string> = {}): string {
+  const override = apiConfig.baseUrlKeyName ? keyData[apiConfig.baseUrlKeyName]?.trim() : '';
+  if (!override) return apiConfig.baseUrl;
+  return override.replace(/\/+$/, '').replace(/\/v1$/, '');
+}
+
+/**
+ * Checks whether a URL points at this machine or a private network, where a self-hosted
+ * server is reachable directly and no development proxy applies
+ */
+export function isLocalUrl(url: string): boolean {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.replace(/^\[|\]$/g, '');
+  } catch {
+    return false;
+  }
+
+  return hostname === 'localhost' ||
+    hostname.endsWith('.localhost') ||
+    hostname.endsWith('.local') ||
+    hostname === 'host.docker.internal' ||
+    hostname === '::1' ||
+    hostname === '0.0.0.0' ||
+    /^127\./.test(hostname) ||
+    /^10\./.test(hostname) ||
+    /^192\.168\./.test(hostname) ||
+    /^172\.(1[6-9]|2\d|3[01])\./.test(hostname);
+}
+
+/**
+ * Reads a model list in the OpenAI format ({ data: [{ id }] }), Ollama's native format
+ * ({ models: [{ name }] }) for servers reached at /api/tags, or the format a provider
+ * describes with a ModelListConfiguration
+ * @param body - The models endpoint's response
+ * @param config - Where the list, ids and limits sit in the response
+ * @returns The models sorted by id; an empty list for unrecognised bodies
+ */
+export function parseModelList(body: unknown, config: ModelListConfiguration = {}): DiscoveredModel[] {
+  const listed = config.itemsJsonPath ? getValueAtPath(body, config.itemsJsonPath) : undefined;
+  const json = isJsonObject(body) ? body : {};
+  const entries: unknown[] = Array.isArray(listed) ? listed
+    : Array.isArray(json.data) ? json.data
+    : Array.isArray(json.models) ? json.models
+    : [];
+  const include = config.include ? new RegExp(config.include) : undefined;
+
+  return entries
+    .map(entry => {
+      const item = isJsonObject(entry) ? entry : {};
+      const id = String((config.idJsonPath ? getValueAtPath(entry, config.idJsonPath) : item.id ?? item.name) ?? '');
+      return {
+        id: config.idPrefix && id.startsWith(config.idPrefix) ? id.slice(config.idPrefix.length) : id,
+        ownedBy: typeof item.owned_by === 'string' ? item.owned_by : undefined,
+        created: typeof item.created === 'number' ? item.created : undefined,
+        displayName: readString(entry, config.displayNameJsonPath),
+        contextWindow: readCount(entry, config.contextWindowJsonPath),
+        maxOutputTokens: readCount(entry, config.maxOutputTokensJsonPath)
+      };
+    })
+    .filter(model => model.id && (!include || include.test(model.id)))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function readString(entry: unknown, path?: string): string | undefined {
+  const value = path ? getValueAtPath(entry, path) : undefined;
+  return typeof value === 'string' && value ? value : undefined;
+}
+
+function readCount(entry: unknown, path?: string): number | undefined {
+  const value = path ? Number(getValueAtPath(entry, path)) : NaN;
+  return value > 0 ? value : undefined;
+}
@@ -0,0 +1,160 @@
+/**
+ * Model pricing shared by the SDK and the Edge Functions
+ * Prices are list prices in USD per million tokens, keyed by provider and model name prefix
+ * (the longest matching prefix wins, so dated snapshots resolve to their family). Bump
+ * pricingCatalog.version whenever a price changes, since recorded costs carry the version
+ * they were computed with. src/lib/pricing.ts re-exports this module for the app.
+ */
+
+export interface ModelPricing {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+  cachedInput?: number; // USD per million prompt tokens served from the provider's prompt cache
+}
+
+export interface ProviderPricing {
+  batchDiscount?: number; // Fraction taken off every price for batch requests, e.g. 0.5
+  models: Record<string, ModelPricing>;
+}
+
+export interface PricingCatalog {
+  version: string;
+  currency: 'USD';
+  providers: Record<string, ProviderPricing>;
+}
+
+export interface CostRequest {
+  provider: string;
+  model?: string;
+  promptTokens: number; // Includes any cached prompt tokens
+  completionTokens: number;
+  cachedPromptTokens?: number;
+  batch?: boolean;
+}
+
+export interface CostBreakdown {
+  input: number; // USD for uncached prompt tokens
+  cachedInput: number; // USD for cached prompt tokens
+  output: number; // USD for completion tokens
+  total: number;
+  currency: 'USD';
+  pricingVersion: string;
+  pricedModel?: string; // Catalog entry the prices came from; undefined when a fallback price was used
+}
+
+export const pricingCatalog: PricingCatalog = {
+  version: '2025-07-01',
+  currency: 'USD',
+  providers: {
+    openai: {
+      batchDiscount: 0.5,
+      models: {
+        'gpt-4.1': { input: 2, output: 8, cachedInput: 0.5 },
+        'gpt-4.1-mini': { input: 0.4, output: 1.6, cachedInput: 0.1 },
+        'gpt-4.1-nano': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+        'gpt-4o': { input: 2.5, output: 10, cachedInput: 1.25 },
+        'gpt-4o-mini': { input: 0.15, output: 0.6, cachedInput: 0.075 },
+        'chatgpt-4o': { input: 5, output: 15 },
+        'gpt-4-turbo': { input: 10, output: 30 },
+        'gpt-4-32k': { input: 60, output: 120 },
+        'gpt-4': { input: 30, output: 60 },
+        'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+        'o1': { input: 15, output: 60, cachedInput: 7.5 },
+        'o1-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+        'o3': { input: 2, output: 8, cachedInput: 0.5 },
+        'o3-mini': { input: 1.1, output: 4.4, cachedInput: 0.55 },
+        'o4-mini': { input: 1.1, output: 4.4, cachedInput: 0.275 }
+      }
+    },
+    claude: {
+      batchDiscount: 0.5,
+      models: {
+        'claude-opus-4': { input: 15, output: 75, cachedInput: 1.5 },
+        'claude-sonnet-4': { input: 3, output: 15, cachedInput: 0.3 },
+        'claude-3-7-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+        'claude-3-5-sonnet': { input: 3, output: 15, cachedInput: 0.3 },
+        'claude-3-5-haiku': { input: 0.8, output: 4, cachedInput: 0.08 },
+        'claude-3-opus': { input: 15, output: 75, cachedInput: 1.5 },
+        'claude-3-sonnet': { input: 3, output: 15 },
+        'claude-3-haiku': { input: 0.25, output: 1.25, cachedInput: 0.03 }
+      }
+    },
+    gemini: {
+      batchDiscount: 0.5,
+      models: {
+        'gemini-2.5-pro': { input: 1.25, output: 10, cachedInput: 0.31 },
+        'gemini-2.5-flash': { input: 0.3, output: 2.5, cachedInput: 0.075 },
+        'gemini-2.0-flash': { input: 0.1, output: 0.4, cachedInput: 0.025 },
+        'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+        'gemini-1.5-pro': { input: 1.25, output: 5, cachedInput: 0.3125 },
+        'gemini-1.5-flash': { input: 0.075, output: 0.3, cachedInput: 0.01875 },
+        'gemini-1.0-pro': { input: 0.5, output: 1.5 },
+        'gemini-pro': { input: 0.5, output: 1.5 }
+      }
+    },
+    ibm: {
+      models: {
+        'ibm/granite-13b': { input: 0.6, output: 0.6 },
+        'ibm/granite-3': { input: 0.2, output: 0.2 },
+        'meta-llama/llama-3-3-70b': { input: 0.71, output: 0.71 },
+        'meta-llama/llama-3-1-8b': { input: 0.1, output: 0.1 },
+        'meta-llama/llama-3-1-70b': { input: 1.8, output: 1.8 },
+        'mistralai/mixtral-8x7b': { input: 0.6, output: 0.6 }
+      }
+    }
+  }
+};
+
+/**
+ * Looks up the catalog price of a model
+ * Providers outside the catalog (custom providers, for example) are matched against every
+ * provider's models, so a custom endpoint serving a known model is still priced
+ * @param provider - Provider id, e.g. 'openai'
+ * @param model - Model name, e.g. 'gpt-4o-2024-08-06' or 'models/gemini-1.5-pro'
+ * @returns The matching catalog entry and its prices, or undefined for unknown models
+ */
+export function getModelPricing(provider: string, model?: string): { model: string; pricing: ModelPricing } | undefined {
+  if (!model) return undefined;
+  const models: Record<string, ModelPricing> = pricingCatalog.providers[provider]?.models ||
+    Object.assign({}, ...Object.values(pricingCatalog.providers).map(entry => entry.models));
+
+  const name = model.toLowerCase().replace(/^models\//, '');
+  const prefix = Object.keys(models)
+    .filter(candidate => name.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return prefix ? { model: prefix, pricing: models[prefix] } : undefined;
+}
+
+/**
+ * Computes the cost of a request from its prompt and completion tokens
+ * Cached prompt tokens are billed at the cached rate when the model has one, and batch
+ * requests get the provider's batch discount
+ * @param request - Provider, model and token counts
+ * @param fallback - Prices for models the catalog does not know, e.g. a custom provider's
+ */
+export function calculateCost(request: CostRequest, fallback?: ModelPricing): CostBreakdown {
+  const entry = getModelPricing(request.provider, request.model);
+  const pricing = entry?.pricing || fallback;
+  const discount = request.batch ? pricingCatalog.providers[request.provider]?.batchDiscount || 0 : 0;
+  const perToken = (price: number) => (price * (1 - discount)) / 1_000_000;
+
+  if (!pricing) {
+    return { input: 0, cachedInput: 0, output: 0, total: 0, currency: 'USD', pricingVersion: pricingCatalog.version };
+  }
+
+  const cachedTokens = Math.min(request.cachedPromptTokens || 0, request.promptTokens);
+  const input = (request.promptTokens - cachedTokens) * perToken(pricing.input);
+  const cachedInput = cachedTokens * perToken(pricing.cachedInput ?? pricing.input);
+  const output = request.completionTokens * perToken(pricing.output);
+
+  return {
+    input,
+    cachedInput,
+    output,
+    total: input + cachedInput + output,
+    currency: 'USD',
+    pricingVersion: pricingCatalog.version,
+    pricedModel: entry?.model
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * AWS Signature Version 4 shared by the SDK and the Edge Functions
+ * Signs requests to AWS services such as Amazon Bedrock with an access key pair from the
+ * stored key data. Signing is deterministic for a given date, so results can be checked
+ * against the canonical requests, strings to sign and signatures of the AWS test suite.
+ * src/lib/sigv4.ts re-exports this module for the app.
+ */
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string; // Temporary credentials from STS or SSO
+}
+
+export interface SignableRequest {
+  method: string;
+  url: string; // The URL the provider receives, before any development proxy rewrite
+  headers: Record<string, string>;
+  body?: string;
+}
+
+export interface SigV4Options {
+  credentials: AwsCredentials;
+  region: string;
+  service: string; // Signing name, e.g. 'bedrock'
+  date?: Date; // Defaults to now
+}
+
+const algorithm = 'AWS4-HMAC-SHA256';
+const encoder = new TextEncoder();
+
+// Headers that clients, proxies or the runtime may change after signing
+const unsignedHeaders = new Set(['authorization', 'connection', 'content-length', 'expect', 'user-agent', 'x-amzn-trace-id']);
+
+/**
+ * Reads AWS credentials from key data stored as accessKeyId, secretAccessKey and sessionToken
+ * @throws Error when the access key id or secret is missing
+ */
+export function readAwsCredentials(keyData: Record<string, string>): AwsCredentials {
+  const accessKeyId = keyData.accessKeyId?.trim();
+  const secretAccessKey = keyData.secretAccessKey?.trim();
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error('AWS credentials required: add an access key ID and secret access key for this provider');
+  }
+  const sessionToken = keyData.sessionToken?.trim();
+  return { accessKeyId, secretAccessKey, ...(sessionToken && { sessionToken }) };
+}
+
+/**
+ * Signs a request, returning the headers to add to it
+ * @param request - Method, URL, headers and body exactly as they will be sent
+ * @param options - Credentials, region, service and signing date
+ * @returns The Authorization and X-Amz-Date headers, plus X-Amz-Security-Token for temporary credentials
+ */
+export async function signRequest(request: SignableRequest, options: SigV4Options): Promise<Record<string, string>> {
+  const { credentials, region, service } = options;
+  const amzDate = toAmzDate(options.date ?? new Date());
+  const scope = `${amzDate.slice(0, 8)}/${region}/${service}/aws4_request`;
+
+  const added: Record<string, string> = {
+    'X-Amz-Date': amzDate,
+    ...(credentials.sessionToken && { 'X-Amz-Security-Token': credentials.sessionToken })
+  };
+  const signed = { ...request, headers: { ...request.headers, ...added, Host: new URL(request.url).host } };
+
+  const canonicalRequest = await createCanonicalRequest(signed);
+  const stringToSign = await createStringToSign(canonicalRequest, amzDate, scope);
+  const signingKey = await deriveSigningKey(credentials.secretAccessKey, amzDate.slice(0, 8), region, service);
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  return {
+    ...added,
+    Authorization: `${algorithm} Credential=${credentials.accessKeyId}/${scope}, ` +
+      `SignedHeaders=${signedHeaderNames(signed.headers).join(';')}, Signature=${signature}`
+  };
+}
+
+/**
+ * Builds the canonical request, step 1 of signing
+ * The path is encoded once more as sent, as every service but S3 expects; the Host header
+ * must already be present
+ */
+export async function createCanonicalRequest(request: SignableRequest): Promise<string> {
+  const url = new URL(request.url);
+  const headers = canonicalHeaders(request.headers);
+  const names = signedHeaderNames(request.headers);
+
+  return [
+    request.method.toUpperCase(),
+    url.pathname.split('/').map(uriEncode).join('/') || '/',
+    canonicalQuery(url.search),
+    names.map(name => `${name}:${headers[name]}\n`).join(''),
+    names.join(';'),
+    await sha256Hex(request.body ?? '')
+  ].join('\n');
+}
+
+// Builds the string to sign from the canonical request, step 2 of signing
+export async function createStringToSign(canonicalRequest: string, amzDate: string, scope: string): Promise<string> {
+  return [algorithm, amzDate, scope, await sha256Hex(canonicalRequest)].join('\n');
+}
+
+async function deriveSigningKey(secret: string, date: string, region: string, service: string): Promise<ArrayBuffer> {
+  const dateKey = await hmac(encoder.encode(`AWS4${secret}`), date);
+  const regionKey = await hmac(dateKey, region);
+  const serviceKey = await hmac(regionKey, service);
+  return hmac(serviceKey, 'aws4_request');
+}
+
+function canonicalHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const key = name.toLowerCase();
+    if (unsignedHeaders.has(key)) continue;
+    result[key] = String(value).trim().replace(/\s+/g, ' ');
+  }
+  return result;
+}
+
+function signedHeaderNames(headers: Record<string, string>): string[] {
+  return Object.keys(canonicalHeaders(headers)).sort();
+}
+
+// Sorts parameters by name, then value, each encoded the same way as the path
+function canonicalQuery(search: string): string {
+  if (!search || search === '?') return '';
+
+  return search.slice(1).split('&')
+    .filter(pair => pair)
+    .map(pair => {
+      const [name, value = ''] = pair.split('=');
+      return [uriEncode(decodeURIComponent(name)), uriEncode(decodeURIComponent(value))];
+    })
+    .sort(([nameA, valueA], [nameB, valueB]) =>
+      nameA < nameB ? -1 : nameA > nameB ? 1 : valueA < valueB ? -1 : valueA > valueB ? 1 : 0)
+    .map(([name, value]) => `${name}=${value}`)
+    .join('&');
+}
+
+// RFC 3986 encoding, which also covers the characters encodeURIComponent leaves alone
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]|\.\d{3}/g, '');
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  return toHex(await crypto.subtle.digest('SHA-256', encoder.encode(value)));
+}
+
+async function hmac(key: ArrayBuffer | Uint8Array, value: string): Promise<ArrayBuffer> {
+  const cryptoKey = await crypto.subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return crypto.subtle.sign('HMAC', cryptoKey, encoder.encode(value));
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
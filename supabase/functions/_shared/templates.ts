@@ -0,0 +1,54 @@
+/**
+ * Request templates shared by the SDK and the Edge Functions
+ * Base URLs, endpoint paths, headers and request bodies may contain {{keyData.name}} and
+ * {{model}} placeholders, filled from the stored key data and the requested model, e.g.
+ * 'https://{{keyData.resource}}.openai.azure.com' or '{{keyData.region|us-south}}'. Text
+ * after a | is the default for an empty value. Values are inserted as they are, without
+ * URL encoding, so a placeholder can also hold a whole base URL.
+ * src/lib/templates.ts re-exports this module for the app.
+ */
+
+export interface TemplateContext {
+  keyData: Record<string, string>;
+  model?: string;
+}
+
+const placeholderPattern = /\{\{\s*(model|keyData\.([\w-]+))\s*(?:\|([^}]*))?\}\}/g;
+
+/**
+ * Fills the placeholders in a string
+ * @param text - Text with {{keyData.name}} or {{model}} placeholders
+ * @param context - Key data and model to fill them with
+ * @throws Error naming the missing value when a placeholder without default has no value
+ */
+export function renderTemplate(text: string, context: TemplateContext): string {
+  return text.replace(placeholderPattern, (placeholder, _name: string, keyName: string | undefined, fallback: string | undefined) => {
+    const value = keyName ? context.keyData[keyName]?.trim() : context.model;
+    if (value) return value;
+    if (fallback !== undefined) return fallback.trim();
+
+    throw new Error(keyName
+      ? `Missing "${keyName}" in the provider's key data, required by ${placeholder}`
+      : `No model set, required by ${placeholder}`);
+  });
+}
+
+/**
+ * Fills the placeholders in every string of a header map or request body
+ * @param value - Strings, arrays and plain objects; other values are returned unchanged
+ * @param context - Key data and model to fill them with
+ */
+export function renderTemplates<T>(value: T, context: TemplateContext): T {
+  if (typeof value === 'string') {
+    return renderTemplate(value, context) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderTemplates(item, context)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, renderTemplates(item, context)])
+    ) as T;
+  }
+  return value;
+}
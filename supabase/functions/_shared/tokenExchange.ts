@@ -0,0 +1,169 @@
+/**
+ * Token exchange shared by the SDK and the Edge Functions
+ * Some providers do not accept the stored API key on requests, but expect a short-lived
+ * access token obtained by exchanging it, as IBM watsonx.ai does with IAM. Tokens are cached
+ * per key until shortly before they expire, and concurrent requests share one exchange.
+ * src/lib/tokenExchange.ts re-exports this module for the app.
+ */
+
+import { getValueAtPath } from './jsonPath.ts';
+import { renderTemplate, renderTemplates } from './templates.ts';
+
+export interface TokenExchangeConfiguration {
+  type: 'token-exchange';
+  endpoint: string; // May contain {{keyData.name}} placeholders
+  body: Record<string, string>; // Fields sent to the endpoint, e.g. { apikey: '{{keyData.apiKey}}' }
+  bodyFormat?: 'form' | 'json'; // Defaults to form encoding
+  headers?: Record<string, string>;
+  tokenJsonPath: string; // JSON path to the access token in the response
+  expiresInJsonPath?: string; // JSON path to the token lifetime in seconds
+  expirationJsonPath?: string; // JSON path to the expiry in epoch seconds, preferred when present
+  defaultLifetimeSeconds?: number; // Used when the response has no expiry; defaults to 3600
+  refreshMarginSeconds?: number; // Tokens are exchanged again this long before expiry; defaults to 60
+}
+
+export type TokenFetch = (url: string, init: RequestInit) => Promise<Response>;
+
+interface CachedToken {
+  token: string;
+  expiresAt: number; // Epoch milliseconds
+}
+
+// IBM Cloud IAM, which exchanges an IBM Cloud API key for a bearer token valid for an hour
+export const ibmIamTokenExchange: TokenExchangeConfiguration = {
+  type: 'token-exchange',
+  endpoint: 'https://iam.cloud.ibm.com/identity/token',
+  body: {
+    grant_type: 'urn:ibm:params:oauth:grant-type:apikey',
+    apikey: '{{keyData.apiKey}}'
+  },
+  bodyFormat: 'form',
+  headers: { Accept: 'application/json' },
+  tokenJsonPath: 'access_token',
+  expiresInJsonPath: 'expires_in',
+  expirationJsonPath: 'expiration',
+  refreshMarginSeconds: 300
+};
+
+const maxCachedTokens = 500;
+const exchangeTimeoutMs = 15000;
+
+export class TokenCache {
+  private readonly tokens = new Map<string, CachedToken>();
+  private readonly pending = new Map<string, Promise<CachedToken>>();
+
+  /**
+   * Returns a cached token for the key data, exchanging the key when none is fresh
+   * @param auth - The provider's token exchange configuration
+   * @param keyData - The stored key data the exchange body is filled from
+   * @param fetchToken - Sends the exchange request
+   * @param signal - Stops waiting for the token; a shared exchange keeps running for other requests
+   * @throws Error when the exchange is rejected or returns no token
+   */
+  async getToken(
+    auth: TokenExchangeConfiguration,
+    keyData: Record<string, string>,
+    fetchToken: TokenFetch,
+    signal?: AbortSignal
+  ): Promise<string> {
+    signal?.throwIfAborted();
+    const cacheKey = this.cacheKey(auth, keyData);
+    const refreshAt = Date.now() + (auth.refreshMarginSeconds ?? 60) * 1000;
+
+    const cached = this.tokens.get(cacheKey);
+    if (cached && cached.expiresAt > refreshAt) return cached.token;
+
+    let exchange = this.pending.get(cacheKey);
+    if (!exchange) {
+      exchange = requestToken(auth, keyData, fetchToken)
+        .then(token => {
+          this.store(cacheKey, token);
+          return token;
+        })
+        .finally(() => this.pending.delete(cacheKey));
+      this.pending.set(cacheKey, exchange);
+    }
+
+    return (await abortable(exchange, signal)).token;
+  }
+
+  // Drops the token for the key data, e.g. after the provider rejected it
+  invalidate(auth: TokenExchangeConfiguration, keyData: Record<string, string>): void {
+    this.tokens.delete(this.cacheKey(auth, keyData));
+  }
+
+  clear(): void {
+    this.tokens.clear();
+  }
+
+  // The filled endpoint and body identify the credentials without a separate key id
+  private cacheKey(auth: TokenExchangeConfiguration, keyData: Record<string, string>): string {
+    return JSON.stringify([renderTemplate(auth.endpoint, { keyData }), renderTemplates(auth.body, { keyData })]);
+  }
+
+  private store(cacheKey: string, token: CachedToken): void {
+    const now = Date.now();
+    for (const [key, entry] of this.tokens) {
+      if (entry.expiresAt <= now) this.tokens.delete(key);
+    }
+    if (this.tokens.size >= maxCachedTokens) {
+      const oldest = this.tokens.keys().next().value;
+      if (oldest !== undefined) this.tokens.delete(oldest);
+    }
+    this.tokens.set(cacheKey, token);
+  }
+}
+
+// Tokens for every client in this runtime; one cache per browser tab or Edge Function instance
+export const tokenCache = new TokenCache();
+
+async function requestToken(
+  auth: TokenExchangeConfiguration,
+  keyData: Record<string, string>,
+  fetchToken: TokenFetch
+): Promise<CachedToken> {
+  const fields = renderTemplates(auth.body, { keyData });
+  const json = auth.bodyFormat === 'json';
+
+  const response = await fetchToken(renderTemplate(auth.endpoint, { keyData }), {
+    method: 'POST',
+    headers: {
+      'Content-Type': json ? 'application/json' : 'application/x-www-form-urlencoded',
+      ...renderTemplates(auth.headers ?? {}, { keyData })
+    },
+    body: json ? JSON.stringify(fields) : new URLSearchParams(fields).toString(),
+    signal: AbortSignal.timeout(exchangeTimeoutMs)
+  });
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const detail = data?.errorMessage || data?.error_description || data?.error?.message || data?.message;
+    throw new Error(
+      `Authentication failed: could not exchange the API key for an access token (HTTP ${response.status}${detail ? `: ${detail}` : ''})`
+    );
+  }
+
+  const token = getValueAtPath(data, auth.tokenJsonPath);
+  if (typeof token !== 'string' || !token) {
+    throw new Error(`Authentication failed: the token endpoint returned no token at ${auth.tokenJsonPath}`);
+  }
+
+  const expiration = auth.expirationJsonPath ? Number(getValueAtPath(data, auth.expirationJsonPath)) : NaN;
+  const expiresIn = auth.expiresInJsonPath ? Number(getValueAtPath(data, auth.expiresInJsonPath)) : NaN;
+  const expiresAt = expiration > 0
+    ? expiration * 1000
+    : Date.now() + (expiresIn > 0 ? expiresIn : auth.defaultLifetimeSeconds ?? 3600) * 1000;
+
+  return { token, expiresAt };
+}
+
+// Rejects when the caller's signal aborts, leaving the shared exchange to finish for others
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,218 @@
+/**
+ * Token counting shared by the SDK and the Edge Functions
+ * Each model maps to a tokenizer profile. OpenAI models are counted exactly with their
+ * byte-pair encoding once its ranks are registered (see registerBpeEncoding); every other
+ * model, and OpenAI models before the ranks arrive, are approximated by splitting text the
+ * way the tokenizers pre-split it and sizing each piece from the profile's average.
+ * src/lib/tokens.ts re-exports this module and adds rank loading and context-window checks.
+ */
+
+export type BpeEncodingName = 'cl100k_base' | 'o200k_base';
+
+export interface TokenizerProfile {
+  id: string;
+  encoding?: BpeEncodingName; // Exact byte-pair encoding, used once its ranks are registered
+  charsPerToken: number; // Average characters per token for English prose, used by the approximation
+  messageOverhead: number; // Tokens added per chat message for roles and separators
+}
+
+export const tokenizerProfiles: Record<string, TokenizerProfile> = {
+  'openai-o200k': { id: 'openai-o200k', encoding: 'o200k_base', charsPerToken: 4.2, messageOverhead: 3 },
+  'openai-cl100k': { id: 'openai-cl100k', encoding: 'cl100k_base', charsPerToken: 4, messageOverhead: 3 },
+  claude: { id: 'claude', charsPerToken: 3.5, messageOverhead: 4 },
+  gemini: { id: 'gemini', charsPerToken: 4, messageOverhead: 4 },
+  llama: { id: 'llama', charsPerToken: 3.8, messageOverhead: 4 },
+  default: { id: 'default', charsPerToken: 4, messageOverhead: 4 }
+};
+
+// Model name patterns, checked in order; the provider id is used when no pattern matches
+const modelProfilePatterns: Array<[RegExp, string]> = [
+  [/^(gpt-4o|gpt-4\.1|gpt-4\.5|chatgpt-4o|o1|o3|o4)/, 'openai-o200k'],
+  [/^(gpt-4|gpt-3\.5|text-embedding-(ada|3))/, 'openai-cl100k'],
+  [/claude/, 'claude'],
+  [/gemini|text-embedding-004/, 'gemini'],
+  [/llama|granite|mistral|mixtral/, 'llama']
+];
+
+const providerProfiles: Record<string, string> = {
+  openai: 'openai-cl100k',
+  claude: 'claude',
+  gemini: 'gemini',
+  ibm: 'llama'
+};
+
+/**
+ * Picks the tokenizer profile for a model, falling back to the provider's and then the default
+ * @param model - Model name, e.g. 'gpt-4o' or 'claude-3-sonnet-20240229'
+ * @param provider - Provider id, used for unknown model names
+ */
+export function getTokenizerProfile(model?: string, provider?: string): TokenizerProfile {
+  const name = (model || '').toLowerCase().replace(/^models\//, '');
+  const match = modelProfilePatterns.find(([pattern]) => pattern.test(name));
+  const id = match?.[1] || (provider && providerProfiles[provider]) || 'default';
+  return tokenizerProfiles[id];
+}
+
+// Pre-tokenization patterns of the OpenAI encodings; (?i:...) groups are spelled out for JavaScript
+const contractions = "'[sS]|'[tT]|'[rR][eE]|'[vV][eE]|'[mM]|'[lL][lL]|'[dD]";
+const splitPatterns: Record<BpeEncodingName, RegExp> = {
+  cl100k_base: new RegExp(
+    `${contractions}|[^\\r\\n\\p{L}\\p{N}]?\\p{L}+|\\p{N}{1,3}| ?[^\\s\\p{L}\\p{N}]+[\\r\\n]*|\\s*[\\r\\n]+|\\s+(?!\\S)|\\s+`,
+    'gu'
+  ),
+  o200k_base: new RegExp(
+    [
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]*[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]+(?:${contractions})?`,
+      `[^\\r\\n\\p{L}\\p{N}]?[\\p{Lu}\\p{Lt}\\p{Lm}\\p{Lo}\\p{M}]+[\\p{Ll}\\p{Lm}\\p{Lo}\\p{M}]*(?:${contractions})?`,
+      '\\p{N}{1,3}',
+      ' ?[^\\s\\p{L}\\p{N}]+[\\r\\n/]*',
+      '\\s*[\\r\\n]+',
+      '\\s+(?!\\S)',
+      '\\s+'
+    ].join('|'),
+    'gu'
+  )
+};
+
+// Ranks keyed by the token's bytes as a binary string (one character per byte)
+const encodings = new Map<BpeEncodingName, Map<string, number>>();
+const textEncoder = new TextEncoder();
+
+/**
+ * Parses a .tiktoken rank file (one base64 token and its rank per line)
+ * @param text - The file contents
+ */
+export function parseTiktokenRanks(text: string): Map<string, number> {
+  const ranks = new Map<string, number>();
+
+  for (const line of text.split('\n')) {
+    const [token, rank] = line.trim().split(' ');
+    if (token && rank !== undefined) {
+      ranks.set(atob(token), Number(rank));
+    }
+  }
+
+  if (ranks.size === 0) {
+    throw new Error('Tokenizer rank file is empty or malformed');
+  }
+  return ranks;
+}
+
+/**
+ * Registers the ranks of a byte-pair encoding so models using it are counted exactly
+ * @param name - The encoding name
+ * @param ranks - Ranks from parseTiktokenRanks
+ */
+export function registerBpeEncoding(name: BpeEncodingName, ranks: Map<string, number>): void {
+  encodings.set(name, ranks);
+}
+
+export function isBpeEncodingLoaded(name: BpeEncodingName): boolean {
+  return encodings.has(name);
+}
+
+/**
+ * Encodes text into token ids with a registered byte-pair encoding
+ * Special tokens such as <|endoftext|> are encoded as ordinary text
+ * @param text - The text to encode
+ * @param name - The encoding name
+ */
+export function encodeBpe(text: string, name: BpeEncodingName): number[] {
+  const ranks = encodings.get(name);
+  if (!ranks) {
+    throw new Error(`Tokenizer encoding ${name} is not loaded`);
+  }
+
+  const tokens: number[] = [];
+  for (const piece of text.match(splitPatterns[name]) || []) {
+    tokens.push(...bytePairEncode(toBinaryString(piece), ranks));
+  }
+  return tokens;
+}
+
+/**
+ * Counts the tokens in a text for a model
+ * @param text - The text to count
+ * @param model - Model name, which selects the tokenizer profile
+ * @param provider - Provider id, used for unknown model names
+ */
+export function countTokens(text: string, model?: string, provider?: string): number {
+  return countWithProfile(text, getTokenizerProfile(model, provider));
+}
+
+/**
+ * Counts tokens with a specific profile, exactly when its encoding is registered
+ * @param text - The text to count
+ * @param profile - The tokenizer profile
+ */
+export function countWithProfile(text: string, profile: TokenizerProfile): number {
+  if (!text) return 0;
+  if (profile.encoding && encodings.has(profile.encoding)) {
+    return encodeBpe(text, profile.encoding).length;
+  }
+  return approximateTokens(text, profile);
+}
+
+// Sizes each pre-split piece from the profile's average, since common words are single tokens
+// while long or rare words, digits, symbols and non-Latin scripts split into several
+function approximateTokens(text: string, profile: TokenizerProfile): number {
+  let count = 0;
+
+  for (const piece of text.match(splitPatterns.cl100k_base) || []) {
+    const trimmed = piece.trimStart();
+    if (!trimmed) {
+      count += 1; // Runs of whitespace merge into one token
+    } else if (/^\p{N}+$/u.test(trimmed)) {
+      count += Math.ceil(trimmed.length / 3);
+    } else if (/^[A-Za-z']+$/.test(trimmed)) {
+      count += Math.max(1, Math.ceil(trimmed.length / (profile.charsPerToken * 1.5)));
+    } else if (/^[\x20-\x7e\s]+$/.test(trimmed)) {
+      count += Math.ceil(trimmed.length / 2); // Punctuation and symbols
+    } else {
+      count += Math.max(1, Math.ceil(textEncoder.encode(trimmed).length / 3)); // Roughly one token per CJK character
+    }
+  }
+
+  return count;
+}
+
+function toBinaryString(text: string): string {
+  let binary = '';
+  for (const byte of textEncoder.encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return binary;
+}
+
+// Repeatedly merges the adjacent pair with the lowest rank, as tiktoken does
+function bytePairEncode(piece: string, ranks: Map<string, number>): number[] {
+  const direct = ranks.get(piece);
+  if (direct !== undefined) return [direct];
+
+  const boundaries = Array.from({ length: piece.length + 1 }, (_, index) => index);
+  while (boundaries.length > 2) {
+    let lowestRank = Infinity;
+    let lowestIndex = -1;
+
+    for (let i = 0; i < boundaries.length - 2; i++) {
+      const rank = ranks.get(piece.slice(boundaries[i], boundaries[i + 2]));
+      if (rank !== undefined && rank < lowestRank) {
+        lowestRank = rank;
+        lowestIndex = i;
+      }
+    }
+
+    if (lowestIndex === -1) break;
+    boundaries.splice(lowestIndex + 1, 1);
+  }
+
+  const tokens: number[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const rank = ranks.get(piece.slice(boundaries[i], boundaries[i + 1]));
+    if (rank === undefined) {
+      throw new Error('Tokenizer ranks are missing a single-byte token');
+    }
+    tokens.push(rank);
+  }
+  return tokens;
+}
@@ -1,5 +1,13 @@
 import { serve } from "https://deno.land/std@0.224.2/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.0';
+import { fetchWithRetry } from '../_shared/retry.ts';
+import { MOCK_PROVIDER_BASE_URL, withMockProvider } from '../_shared/mockProvider.ts';
+import { getStringAtPath } from '../_shared/jsonPath.ts';
+import { countTokens } from '../_shared/tokens.ts';
+import { calculateCost, pricingCatalog } from '../_shared/pricing.ts';
+import { renderTemplate } from '../_shared/templates.ts';
+import { ibmIamTokenExchange, tokenCache } from '../_shared/tokenExchange.ts';
+import type { TokenExchangeConfiguration } from '../_shared/tokenExchange.ts';
 
 // CORS headers must be included in all responses
 const corsHeaders = {
@@ -8,14 +16,31 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
+// Sends provider calls; mock:// requests are answered in-process, so the mock provider needs no network access
+const providerFetch = withMockProvider(fetch);
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
 interface RequestBody {
   providerId: string;
   prompt: string;
+  messages?: ChatMessage[]; // Full conversation; replaces the single prompt when provided
   model?: string;
   parameters?: Record<string, any>;
   agentId?: string;
   userId?: string;
   useUserKey?: boolean; // Flag to indicate whether to use user's API key
+  stream?: boolean; // Pass the provider's Server-Sent Events through to the client
+}
+
+interface ResponseDetails {
+  promptTokens?: number;
+  completionTokens?: number;
+  finishReason?: string;
+  model?: string;
 }
 
 interface ProviderConfig {
@@ -23,9 +48,17 @@ interface ProviderConfig {
   apiKeyEnvVar: string;
   endpoint: string;
   buildRequest: (prompt: string, model?: string, parameters?: Record<string, any>) => any;
+  buildMessages?: (messages: ChatMessage[]) => Record<string, any>; // Request fields that carry a conversation
   parseResponse: (response: any) => string;
+  parseDetails: (response: any) => ResponseDetails; // Provider-reported usage, finish reason and model
   additionalHeaders?: Record<string, string>;
   requiresProjectId?: boolean;
+  requiresApiKey?: boolean; // Defaults to true; the mock provider runs without one
+  auth?: TokenExchangeConfiguration; // Exchanges the key for the bearer token sent instead of it
+  stream?: {
+    endpoint?: string; // Streaming endpoint, when it differs from the regular one
+    bodyOverrides?: Record<string, any>; // Merged into the request body when streaming
+  };
 }
 
 // Provider configurations
@@ -41,13 +74,25 @@ const PROVIDERS: Record<string, ProviderConfig> = {
       max_tokens: 1000,
       ...parameters,
     }),
-    parseResponse: (response: any) => response?.choices?.[0]?.message?.content || '',
-    additionalHeaders: {}
+    buildMessages: (messages: ChatMessage[]) => ({
+      messages: messages.map(({ role, content }) => ({ role, content })),
+    }),
+    parseResponse: (response: any) => getStringAtPath(response, "choices[*].message.content | join('\\n\\n')") || '',
+    parseDetails: (response: any) => ({
+      promptTokens: response?.usage?.prompt_tokens,
+      completionTokens: response?.usage?.completion_tokens,
+      finishReason: response?.choices?.[0]?.finish_reason,
+      model: response?.model,
+    }),
+    additionalHeaders: {},
+    stream: {
+      bodyOverrides: { stream: true, stream_options: { include_usage: true } }
+    }
   },
   gemini: {
     name: 'Google Gemini',
     apiKeyEnvVar: 'GEMINI_API_KEY',
-    endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent',
+    endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/{{model|gemini-2.0-flash}}:generateContent',
     buildRequest: (prompt: string, model = 'gemini-2.0-flash', parameters = {}) => ({
       contents: [{ role: 'user', parts: [{ text: prompt }] }],
       generationConfig: {
@@ -57,8 +102,26 @@ const PROVIDERS: Record<string, ProviderConfig> = {
         ...parameters,
       },
     }),
-    parseResponse: (response: any) => response?.candidates?.[0]?.content?.parts?.[0]?.text || '',
-    additionalHeaders: {}
+    buildMessages: (messages: ChatMessage[]) => {
+      const system = joinSystemMessages(messages);
+      return {
+        contents: messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] })),
+        ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+      };
+    },
+    parseResponse: (response: any) => getStringAtPath(response, 'candidates[0].content.parts[*].text | join') || '',
+    parseDetails: (response: any) => ({
+      promptTokens: response?.usageMetadata?.promptTokenCount,
+      completionTokens: response?.usageMetadata?.candidatesTokenCount,
+      finishReason: response?.candidates?.[0]?.finishReason,
+      model: response?.modelVersion,
+    }),
+    additionalHeaders: {},
+    stream: {
+      endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/{{model|gemini-2.0-flash}}:streamGenerateContent?alt=sse'
+    }
   },
   claude: {
     name: 'Anthropic Claude',
@@ -71,15 +134,33 @@ const PROVIDERS: Record<string, ProviderConfig> = {
       temperature: parameters?.temperature || 0.7,
       ...parameters,
     }),
-    parseResponse: (response: any) => response?.content?.[0]?.text || '',
+    buildMessages: (messages: ChatMessage[]) => {
+      const system = joinSystemMessages(messages);
+      return {
+        messages: messages
+          .filter(m => m.role !== 'system')
+          .map(({ role, content }) => ({ role, content })),
+        ...(system && { system }),
+      };
+    },
+    parseResponse: (response: any) => getStringAtPath(response, "content[?(@.type=='text')].text | join") || '',
+    parseDetails: (response: any) => ({
+      promptTokens: response?.usage?.input_tokens,
+      completionTokens: response?.usage?.output_tokens,
+      finishReason: response?.stop_reason,
+      model: response?.model,
+    }),
     additionalHeaders: {
       'anthropic-version': '2023-06-01'
+    },
+    stream: {
+      bodyOverrides: { stream: true }
     }
   },
   ibm: {
     name: 'IBM WatsonX',
     apiKeyEnvVar: 'IBM_API_KEY',
-    endpoint: 'https://us-south.ml.cloud.ibm.com/ml/v1/text/generation',
+    endpoint: 'https://{{keyData.region|us-south}}.ml.cloud.ibm.com/ml/v1/text/generation',
     buildRequest: (prompt: string, model = 'ibm/granite-13b-chat-v2', parameters = {}) => ({
       input: prompt,
       model_id: model,
@@ -91,11 +172,62 @@ const PROVIDERS: Record<string, ProviderConfig> = {
       },
     }),
     parseResponse: (response: any) => response?.results?.[0]?.generated_text || '',
+    parseDetails: (response: any) => ({
+      promptTokens: response?.results?.[0]?.input_token_count,
+      completionTokens: response?.results?.[0]?.generated_token_count,
+      finishReason: response?.results?.[0]?.stop_reason,
+      model: response?.model_id,
+    }),
     additionalHeaders: {},
-    requiresProjectId: true
+    requiresProjectId: true,
+    auth: ibmIamTokenExchange,
+    stream: {
+      endpoint: 'https://{{keyData.region|us-south}}.ml.cloud.ibm.com/ml/v1/text/generation_stream'
+    }
+  },
+  mock: {
+    name: 'Mock Provider',
+    apiKeyEnvVar: '',
+    endpoint: `${MOCK_PROVIDER_BASE_URL}/v1/chat/completions`,
+    buildRequest: (prompt: string, model = 'mock-echo', parameters = {}) => ({
+      model,
+      messages: [{ role: 'user', content: prompt }],
+      ...parameters,
+    }),
+    buildMessages: (messages: ChatMessage[]) => ({
+      messages: messages.map(({ role, content }) => ({ role, content })),
+    }),
+    parseResponse: (response: any) => response?.choices?.[0]?.message?.content || '',
+    parseDetails: (response: any) => ({
+      promptTokens: response?.usage?.prompt_tokens,
+      completionTokens: response?.usage?.completion_tokens,
+      finishReason: response?.choices?.[0]?.finish_reason,
+      model: response?.model,
+    }),
+    additionalHeaders: {},
+    requiresApiKey: false,
+    stream: {
+      bodyOverrides: { stream: true }
+    }
   }
 };
 
+/**
+ * Combine system messages into a single instruction for providers that take it outside the messages array
+ */
+function joinSystemMessages(messages: ChatMessage[]): string {
+  return messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+}
+
+/**
+ * Flatten a conversation into a plain-text transcript for providers without a messages format
+ */
+function formatChatAsPrompt(messages: ChatMessage[]): string {
+  const labels = { system: 'System', user: 'User', assistant: 'Assistant' };
+  const lines = messages.map(m => `${labels[m.role]}: ${m.content}`);
+  return [...lines, 'Assistant:'].join('\n\n');
+}
+
 // Encryption utilities for API keys
 const encryptionKey = Deno.env.get('ENCRYPTION_KEY') || 'modelshift-ai-secure-key-2024';
 
@@ -122,32 +254,6 @@ function decrypt(encryptedText: string): string {
   }
 }
 
-/**
- * Estimate token count from text length
- * This is a very rough estimation - actual token count depends on the tokenizer used by each model
- */
-function estimateTokenCount(text: string): number {
-  // A very rough estimation: ~4 characters per token for English text
-  return Math.ceil(text.length / 4);
-}
-
-/**
- * Estimate cost based on provider and token count
- */
-function estimateCost(providerId: string, inputTokens: number, outputTokens: number): number {
-  // Pricing per 1K tokens (as of 2024)
-  const pricing: Record<string, { input: number; output: number }> = {
-    openai: { input: 0.03, output: 0.06 }, // GPT-4
-    gemini: { input: 0.0005, output: 0.0015 }, // Gemini 2.0 Flash
-    claude: { input: 0.015, output: 0.075 }, // Claude 3 Sonnet
-    ibm: { input: 0.02, output: 0.04 } // IBM Granite
-  };
-  
-  const rates = pricing[providerId] || { input: 0.01, output: 0.02 }; // Default fallback
-  
-  return (inputTokens * rates.input + outputTokens * rates.output) / 1000;
-}
-
 /**
  * Validate the request body
  * Returns an error message if validation fails, null if validation passes
@@ -230,6 +336,7 @@ async function logAnalyticsEvent(
       },
       metadata: {
         error,
+        pricing_version: pricingCatalog.version,
         using_user_key: usingUserKey,
         user_key_id: userKeyId
       },
@@ -324,7 +431,7 @@ serve(async (req) => {
       );
     }
     
-    const { providerId, prompt, model, parameters, agentId, userId, useUserKey = true } = requestBody;
+    const { providerId, prompt, messages, model, parameters, agentId, userId, useUserKey = true, stream = false } = requestBody;
 
     // Verify user ID matches authenticated user
     if (userId && userId !== user.id) {
@@ -388,72 +495,76 @@ serve(async (req) => {
     let userKeyId: string | null = null;
     let usingUserKey = true;
 
-    try {
-      console.log(`[${requestId}] Attempting to use user's API key for ${providerConfig.name}`);
+    if (providerConfig.requiresApiKey === false) {
+      usingUserKey = false;
+    } else {
+      try {
+        console.log(`[${requestId}] Attempting to use user's API key for ${providerConfig.name}`);
       
-      // Get the user's API key for this provider
-      const { data: userKeys, error: userKeyError } = await supabaseClient
-        .from('user_api_keys')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('provider_id', providerId)
-        .eq('is_active', true)
-        .order('created_at', { ascending: false })
-        .limit(1);
+        // Get the user's API key for this provider
+        const { data: userKeys, error: userKeyError } = await supabaseClient
+          .from('user_api_keys')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('provider_id', providerId)
+          .eq('is_active', true)
+          .order('created_at', { ascending: false })
+          .limit(1);
       
-      if (userKeyError) {
-        console.error(`[${requestId}] Error fetching user API key:`, userKeyError);
-        throw new Error(`Failed to retrieve your API key: ${userKeyError.message}`);
-      } 
+        if (userKeyError) {
+          console.error(`[${requestId}] Error fetching user API key:`, userKeyError);
+          throw new Error(`Failed to retrieve your API key: ${userKeyError.message}`);
+        } 
       
-      if (!userKeys || userKeys.length === 0) {
-        console.log(`[${requestId}] No user API key found for ${providerConfig.name}`);
-        throw new Error(`No API key found for ${providerConfig.name}. Please add your API key in the API Keys section.`);
-      } else {
-        try {
-          console.log(`[${requestId}] Found user API key:`, {
-            keyId: userKeys[0].id,
-            provider: userKeys[0].provider_id,
-            name: userKeys[0].name,
-            isActive: userKeys[0].is_active,
-            createdAt: userKeys[0].created_at
-          });
+        if (!userKeys || userKeys.length === 0) {
+          console.log(`[${requestId}] No user API key found for ${providerConfig.name}`);
+          throw new Error(`No API key found for ${providerConfig.name}. Please add your API key in the API Keys section.`);
+        } else {
+          try {
+            console.log(`[${requestId}] Found user API key:`, {
+              keyId: userKeys[0].id,
+              provider: userKeys[0].provider_id,
+              name: userKeys[0].name,
+              isActive: userKeys[0].is_active,
+              createdAt: userKeys[0].created_at
+            });
           
-          apiKey = decrypt(userKeys[0].encrypted_key);
-          userKeyId = userKeys[0].id;
+            apiKey = decrypt(userKeys[0].encrypted_key);
+            userKeyId = userKeys[0].id;
           
-          console.log(`[${requestId}] Using user's API key for ${providerConfig.name} (Key ID: ${userKeyId})`);
+            console.log(`[${requestId}] Using user's API key for ${providerConfig.name} (Key ID: ${userKeyId})`);
           
-          // Update last_used_at timestamp
-          await supabaseClient
-            .from('user_api_keys')
-            .update({ last_used_at: new Date().toISOString() })
-            .eq('id', userKeyId);
-        } catch (decryptError) {
-          console.error(`[${requestId}] Error decrypting user API key:`, decryptError);
-          throw new Error(`Failed to decrypt your API key for ${providerConfig.name}. Please try adding your API key again in the API Keys section.`);
+            // Update last_used_at timestamp
+            await supabaseClient
+              .from('user_api_keys')
+              .update({ last_used_at: new Date().toISOString() })
+              .eq('id', userKeyId);
+          } catch (decryptError) {
+            console.error(`[${requestId}] Error decrypting user API key:`, decryptError);
+            throw new Error(`Failed to decrypt your API key for ${providerConfig.name}. Please try adding your API key again in the API Keys section.`);
+          }
         }
-      }
-    } catch (error) {
-      console.error(`[${requestId}] Error in user key lookup:`, error);
+      } catch (error) {
+        console.error(`[${requestId}] Error in user key lookup:`, error);
       
-      // Return a clear error message to the user
-      return new Response(
-        JSON.stringify({ 
-          success: false, 
-          error: error.message || `No API key found for ${providerConfig.name}. Please add your API key in the API Keys section.`,
-          provider: providerId,
-          requestId,
-          metrics: {
-            responseTime: Date.now() - startTime,
-            timestamp: new Date().toISOString()
+        // Return a clear error message to the user
+        return new Response(
+          JSON.stringify({ 
+            success: false, 
+            error: error.message || `No API key found for ${providerConfig.name}. Please add your API key in the API Keys section.`,
+            provider: providerId,
+            requestId,
+            metrics: {
+              responseTime: Date.now() - startTime,
+              timestamp: new Date().toISOString()
+            }
+          }),
+          { 
+            status: 400, 
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
           }
-        }),
-        { 
-          status: 400, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
+        );
+      }
     }
 
     // Check additional requirements (e.g., IBM Project ID)
@@ -503,10 +614,41 @@ serve(async (req) => {
       }
     }
 
+    // IBM accounts outside us-south store their region, e.g. eu-de, as an optional ibm_region key
+    let region: string | null = Deno.env.get('IBM_REGION') || null;
+
+    if (providerId === 'ibm') {
+      const { data: regionKeys, error: regionKeyError } = await supabaseClient
+        .from('user_api_keys')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('provider_id', 'ibm_region')
+        .eq('is_active', true)
+        .order('created_at', { ascending: false })
+        .limit(1);
+
+      if (!regionKeyError && regionKeys && regionKeys.length > 0) {
+        try {
+          region = decrypt(regionKeys[0].encrypted_key);
+          console.log(`[${requestId}] Using user's IBM region ${region}`);
+        } catch (decryptError) {
+          console.error(`[${requestId}] Error decrypting user region:`, decryptError);
+          throw new Error('Failed to decrypt your IBM region. Please try adding it again in the API Keys section.');
+        }
+      }
+    }
+
     console.log(`[${requestId}] Making API call to ${providerConfig.name} (${model || 'default model'})`);
 
     // Build request
-    const requestBody = providerConfig.buildRequest(prompt, model, parameters);
+    const streaming = stream && !!providerConfig.stream;
+    const conversation = messages?.length ? messages : undefined;
+    const input = conversation && !providerConfig.buildMessages ? formatChatAsPrompt(conversation) : prompt;
+    const requestBody = {
+      ...providerConfig.buildRequest(input, model, parameters),
+      ...(conversation && providerConfig.buildMessages ? providerConfig.buildMessages(conversation) : {}),
+      ...(streaming ? providerConfig.stream?.bodyOverrides : {})
+    };
     
     // For IBM, inject the project ID
     if (providerConfig.requiresProjectId && projectId) {
@@ -519,17 +661,23 @@ serve(async (req) => {
       ...providerConfig.additionalHeaders
     };
 
-    // Add authentication header based on provider
-    if (providerId === 'openai' || providerId === 'ibm') {
+    // Add authentication header based on provider, exchanging the key for a cached token when configured
+    if (providerConfig.auth && apiKey) {
+      const token = await tokenCache.getToken(providerConfig.auth, { apiKey }, (url, init) => fetch(url, init));
+      headers['Authorization'] = `Bearer ${token}`;
+    } else if (providerId === 'openai') {
       headers['Authorization'] = `Bearer ${apiKey}`;
     } else if (providerId === 'claude') {
       headers['x-api-key'] = apiKey;
     }
 
     // Build endpoint URL (for Gemini, add API key as query parameter)
-    let endpoint = providerConfig.endpoint;
+    let endpoint = renderTemplate(
+      (streaming && providerConfig.stream?.endpoint) || providerConfig.endpoint,
+      { keyData: region ? { region } : {}, model }
+    );
     if (providerId === 'gemini') {
-      endpoint += `?key=${apiKey}`;
+      endpoint += `${endpoint.includes('?') ? '&' : '?'}key=${apiKey}`;
     }
 
     console.log(`[${requestId}] Request details:`, {
@@ -539,18 +687,26 @@ serve(async (req) => {
       bodyKeys: Object.keys(requestBody)
     });
 
-    // Make API request with timeout
+    // Make API request with timeout, and stop it if the client disconnects or cancels
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), 60000); // 60-second timeout
+    req.signal.addEventListener('abort', () => controller.abort(), { once: true });
     
     let apiResponse: Response;
+    let attempts = 1;
     try {
-      apiResponse = await fetch(endpoint, {
+      // A repeated generation is billed again, so only requests the provider rejected before
+      // processing (rate limits, 408, 503) are retried
+      ({ response: apiResponse, attempts } = await fetchWithRetry(endpoint, {
         method: 'POST',
         headers: headers,
         body: JSON.stringify(requestBody),
         signal: controller.signal
-      });
+      }, {
+        fetch: providerFetch,
+        onRetry: (attempt, delayMs, reason) =>
+          console.warn(`[${requestId}] Attempt ${attempt} to ${providerConfig.name} failed (${reason}), retrying in ${delayMs}ms`)
+      }));
       
       console.log(`[${requestId}] API response status:`, apiResponse.status);
       console.log(`[${requestId}] API response headers:`, Object.fromEntries(apiResponse.headers.entries()));
@@ -601,6 +757,9 @@ serve(async (req) => {
     const responseTime = Date.now() - startTime;
 
     if (!apiResponse.ok) {
+      if (apiResponse.status === 401 && providerConfig.auth && apiKey) {
+        tokenCache.invalidate(providerConfig.auth, { apiKey });
+      }
       let errorText = '';
       let errorData = null;
       
@@ -640,6 +799,7 @@ serve(async (req) => {
           error: errorMessage,
           provider: providerId,
           requestId,
+          attempts,
           metrics: {
             responseTime,
             timestamp: new Date().toISOString()
@@ -652,6 +812,19 @@ serve(async (req) => {
       );
     }
 
+    // Pass the provider's event stream straight through; the client parses it
+    if (streaming && apiResponse.body) {
+      console.log(`[${requestId}] Streaming response from ${providerConfig.name}`);
+      return new Response(apiResponse.body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache'
+        },
+        status: 200,
+      });
+    }
+
     let responseData;
     try {
       responseData = await apiResponse.json();
@@ -682,10 +855,17 @@ serve(async (req) => {
       console.warn(`[${requestId}] No text generated from ${providerConfig.name} response:`, responseData);
     }
 
-    // Estimate token usage and cost
-    const inputTokens = estimateTokenCount(prompt);
-    const outputTokens = estimateTokenCount(generatedText || '');
-    const estimatedCost = estimateCost(providerId, inputTokens, outputTokens);
+    // Use the provider's reported token usage, estimating any counts it leaves out
+    const details = providerConfig.parseDetails(responseData);
+    const usageReported = details.promptTokens !== undefined && details.completionTokens !== undefined;
+    const inputTokens = details.promptTokens ?? countTokens(input, model, providerId);
+    const outputTokens = details.completionTokens ?? countTokens(generatedText || '', model, providerId);
+    const estimatedCost = calculateCost({
+      provider: providerId,
+      model: details.model || model,
+      promptTokens: inputTokens,
+      completionTokens: outputTokens
+    }).total;
 
     // Log successful request
     console.log(`[${requestId}] Request completed successfully:`, {
@@ -694,6 +874,7 @@ serve(async (req) => {
       responseTime,
       inputTokens,
       outputTokens,
+      usageReported,
       estimatedCost,
       responseLength: generatedText?.length || 0,
       userId: user.id,
@@ -724,9 +905,16 @@ serve(async (req) => {
         success: true, 
         response: generatedText || 'No response generated',
         provider: providerId,
-        model: model || 'default',
+        model: details.model || model || 'default',
         requestId,
         using_user_key: usingUserKey,
+        attempts,
+        finishReason: details.finishReason,
+        usage: usageReported ? {
+          promptTokens: inputTokens,
+          completionTokens: outputTokens,
+          totalTokens: inputTokens + outputTokens
+        } : undefined,
         metrics: {
           responseTime,
           tokens: inputTokens + outputTokens,
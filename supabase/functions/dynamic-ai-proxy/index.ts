@@ -1,5 +1,18 @@
 import { serve } from "https://deno.land/std@0.224.2/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.0';
+import { fetchWithRetry } from '../_shared/retry.ts';
+import type { RetryPolicy } from '../_shared/retry.ts';
+import { withMockProvider } from '../_shared/mockProvider.ts';
+import { getStringAtPath, getValueAtPath, mergeAtPath, setValueAtPath } from '../_shared/jsonPath.ts';
+import { countTokens } from '../_shared/tokens.ts';
+import { calculateCost, pricingCatalog } from '../_shared/pricing.ts';
+import { isLocalUrl, parseModelList, resolveBaseUrl } from '../_shared/openaiCompatible.ts';
+import type { ModelListConfiguration } from '../_shared/openaiCompatible.ts';
+import { renderTemplate, renderTemplates } from '../_shared/templates.ts';
+import type { TemplateContext } from '../_shared/templates.ts';
+import { tokenCache } from '../_shared/tokenExchange.ts';
+import type { TokenExchangeConfiguration } from '../_shared/tokenExchange.ts';
+import { readAwsCredentials, signRequest } from '../_shared/sigv4.ts';
 
 // CORS headers must be included in all responses
 const corsHeaders = {
@@ -8,18 +21,40 @@ const corsHeaders = {
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
+// Sends provider calls; mock:// requests are answered in-process, so the mock provider needs no network access
+const providerFetch = withMockProvider(fetch);
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatConfiguration {
+  messagesJsonPath: string;
+  roleJsonPath: string;
+  contentJsonPath: string;
+  roleNames?: Partial<Record<ChatMessage['role'], string>>;
+  systemJsonPath?: string;
+}
+
 interface DynamicProviderRequest {
+  action?: 'generate' | 'models'; // 'models' lists the provider's models instead of generating
+
   // Provider config passed from frontend
   providerConfig: {
     id: string;
     name: string;
     apiConfig: {
       baseUrl: string;
+      baseUrlKeyName?: string;
       endpointPath: string;
+      modelsEndpointPath?: string;
+      modelList?: ModelListConfiguration;
       method: string;
       headers: Record<string, string>;
       authHeaderName?: string;
       authHeaderPrefix?: string;
+      auth?: TokenExchangeConfiguration | { type: 'aws-sigv4'; service: string; region: string };
       apiKeyInUrlParam?: boolean;
       urlParamName?: string;
       requestBodyStructure: any;
@@ -29,18 +64,36 @@ interface DynamicProviderRequest {
       projectIdJsonPath?: string;
       responseJsonPath: string;
       errorJsonPath?: string;
+      usage?: {
+        promptTokensJsonPath?: string;
+        completionTokensJsonPath?: string;
+        totalTokensJsonPath?: string;
+        cachedPromptTokensJsonPath?: string;
+      };
+      finishReasonJsonPath?: string;
+      modelResponseJsonPath?: string;
+      retry?: Partial<RetryPolicy>;
+      defaultModel?: string;
+      streaming?: {
+        format: string;
+        endpointPath?: string;
+        bodyOverrides?: Record<string, any>;
+      };
+      chat?: ChatConfiguration;
     };
   };
   
   // Request data
   prompt: string;
+  messages?: ChatMessage[]; // Full conversation; replaces the single prompt when provided
   model?: string;
   parameters?: Record<string, any>;
   agentId?: string;
   userId?: string;
+  stream?: boolean; // Pass the provider's Server-Sent Events through to the client
   
-  // API keys (encrypted or from secure storage)
-  apiKeys: Record<string, string>;
+  // API keys (encrypted or from secure storage); empty for servers without auth
+  apiKeys?: Record<string, string>;
 }
 
 interface DynamicResponse {
@@ -49,6 +102,13 @@ interface DynamicResponse {
   error?: string;
   provider: string;
   model?: string;
+  attempts?: number; // Provider API attempts made, including retries
+  finishReason?: string;
+  usage?: {
+    promptTokens?: number;
+    completionTokens?: number;
+    totalTokens?: number;
+  };
   metrics?: {
     latency: number;
     tokens: number;
@@ -57,46 +117,141 @@ interface DynamicResponse {
   metadata?: Record<string, any>;
 }
 
-// Utility functions for dynamic JSON path manipulation
-function setValueAtPath(obj: any, path: string, value: any): any {
-  const keys = path.split(/[.\[\]]+/).filter(Boolean);
-  let current = obj;
+// Under `supabase functions serve` this function runs in a container where localhost is the
+// container itself, so LOCAL_PROVIDER_HOST (e.g. host.docker.internal) points it at the host.
+// Placeholders are filled first, since a templated host is not a valid URL.
+function resolveProviderBaseUrl(
+  apiConfig: DynamicProviderRequest['providerConfig']['apiConfig'],
+  apiKeys: Record<string, string>,
+  model?: string
+): string {
+  const baseUrl = renderTemplate(resolveBaseUrl(apiConfig, apiKeys), { keyData: apiKeys, model });
+  const localHost = Deno.env.get('LOCAL_PROVIDER_HOST');
+  if (!localHost) return baseUrl;
+
+  const url = new URL(baseUrl);
+  if (['localhost', '127.0.0.1', '[::1]'].includes(url.hostname)) {
+    url.hostname = localHost;
+  }
+  return url.toString().replace(/\/$/, '');
+}
+
+// Builds the auth header, leaving it out when no key was sent so servers without auth get none.
+// Providers with a token exchange get a cached access token instead of the key.
+async function buildAuthHeaders(
+  apiConfig: DynamicProviderRequest['providerConfig']['apiConfig'],
+  apiKeys: Record<string, string>
+): Promise<Record<string, string>> {
+  if (apiConfig.auth?.type === 'aws-sigv4') return {}; // Signed once the body is final
+  if (apiConfig.apiKeyInUrlParam || !apiConfig.authHeaderName || !apiKeys.apiKey) return {};
+  const credential = apiConfig.auth?.type === 'token-exchange'
+    ? await tokenCache.getToken(apiConfig.auth, apiKeys, (url, init) => fetch(url, init))
+    : apiKeys.apiKey;
+  return { [apiConfig.authHeaderName]: `${apiConfig.authHeaderPrefix || ''}${credential}` };
+}
+
+// Explains a network error, since a hosted function cannot reach a server on the user's machine or network
+function describeFetchError(providerName: string, baseUrl: string, error: Error): string {
+  if (isLocalUrl(baseUrl)) {
+    return `Could not reach ${providerName} at ${new URL(baseUrl).origin} from the Edge Function. ` +
+      'Servers on your machine or local network are only reachable in Direct Browser Mode or when the functions run on the same network.';
+  }
+  return `Network error when calling ${providerName} API: ${error.message}`;
+}
+
+// Resolve how a conversation maps into the request body, inferring it for
+// message-style bodies (e.g. promptJsonPath 'messages[0].content')
+function resolveChatConfiguration(apiConfig: DynamicProviderRequest['providerConfig']['apiConfig']): ChatConfiguration | undefined {
+  if (apiConfig.chat) {
+    return apiConfig.chat;
+  }
   
-  for (let i = 0; i < keys.length - 1; i++) {
-    const key = keys[i];
-    if (!(key in current)) {
-      current[key] = isNaN(parseInt(keys[i + 1])) ? {} : [];
-    }
-    current = current[key];
+  const match = apiConfig.promptJsonPath.match(/^(.+?)\[0\]\.(.+)$/);
+  if (!match) return undefined;
+  
+  const template = getValueAtPath(apiConfig.requestBodyStructure, `${match[1]}[0]`);
+  if (!template || typeof template !== 'object' || !('role' in template)) {
+    return undefined;
   }
   
-  current[keys[keys.length - 1]] = value;
-  return obj;
+  return { messagesJsonPath: match[1], roleJsonPath: 'role', contentJsonPath: match[2] };
 }
 
-function getValueAtPath(obj: any, path: string): any {
-  const keys = path.split(/[.\[\]]+/).filter(Boolean);
-  let current = obj;
+// Write a conversation into the request body, or a plain-text transcript when there is no chat mapping
+function applyConversation(
+  body: any,
+  apiConfig: DynamicProviderRequest['providerConfig']['apiConfig'],
+  messages: ChatMessage[]
+): any {
+  const chat = resolveChatConfiguration(apiConfig);
   
-  for (const key of keys) {
-    if (current === null || current === undefined || !(key in current)) {
-      return undefined;
+  if (!chat) {
+    const labels = { system: 'System', user: 'User', assistant: 'Assistant' };
+    const transcript = [...messages.map(m => `${labels[m.role]}: ${m.content}`), 'Assistant:'].join('\n\n');
+    return setValueAtPath(body, apiConfig.promptJsonPath, transcript);
+  }
+  
+  let conversation = messages;
+  if (chat.systemJsonPath) {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    conversation = messages.filter(m => m.role !== 'system');
+    if (system) {
+      body = setValueAtPath(body, chat.systemJsonPath, system);
     }
-    current = current[key];
   }
   
-  return current;
+  // The first entry of the configured array is the template for every message
+  const template = JSON.stringify(getValueAtPath(body, `${chat.messagesJsonPath}[0]`) || {});
+  const entries = conversation.map(message => {
+    const entry = setValueAtPath(JSON.parse(template), chat.roleJsonPath, chat.roleNames?.[message.role] || message.role);
+    return setValueAtPath(entry, chat.contentJsonPath, message.content);
+  });
+  
+  return setValueAtPath(body, chat.messagesJsonPath, entries);
 }
 
-function mergeAtPath(obj: any, path: string, value: Record<string, any>): any {
-  if (!path) {
-    return { ...obj, ...value };
+// Calls the provider's models endpoint and answers with the models in a common shape
+async function listModels(
+  requestId: string,
+  providerConfig: DynamicProviderRequest['providerConfig'] | undefined,
+  apiKeys: Record<string, string>
+): Promise<Response> {
+  const respond = (status: number, body: Record<string, any>) => new Response(
+    JSON.stringify({ provider: providerConfig?.id, ...body }),
+    { status, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+
+  if (!providerConfig?.apiConfig.modelsEndpointPath) {
+    return respond(400, { success: false, error: 'This provider does not support model discovery' });
   }
-  
-  const existing = getValueAtPath(obj, path) || {};
-  const merged = { ...existing, ...value };
-  
-  return setValueAtPath(JSON.parse(JSON.stringify(obj)), path, merged);
+
+  const { apiConfig } = providerConfig;
+  const baseUrl = resolveProviderBaseUrl(apiConfig, apiKeys);
+  const headers = await buildAuthHeaders(apiConfig, apiKeys);
+  console.log(`[${requestId}] Listing models for ${providerConfig.name}`);
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}${apiConfig.modelsEndpointPath}`, {
+      method: 'GET',
+      headers,
+      signal: AbortSignal.timeout(10000)
+    });
+  } catch (fetchError) {
+    console.error(`[${requestId}] Model discovery failed:`, fetchError);
+    return respond(502, { success: false, error: describeFetchError(providerConfig.name, baseUrl, fetchError) });
+  }
+
+  if (!response.ok) {
+    return respond(response.status, {
+      success: false,
+      error: response.status === 401 || response.status === 403
+        ? `Authentication failed listing ${providerConfig.name} models`
+        : `Listing ${providerConfig.name} models failed (HTTP ${response.status})`
+    });
+  }
+
+  return respond(200, { success: true, models: parseModelList(await response.json(), apiConfig.modelList) });
 }
 
 serve(async (req) => {
@@ -199,22 +354,30 @@ serve(async (req) => {
     }
     
     const {
+      action = 'generate',
       providerConfig,
       prompt,
+      messages,
       model,
       parameters,
       agentId,
       userId,
-      apiKeys
+      apiKeys = {},
+      stream = false
     } = requestData;
 
+    // List the provider's models, for servers whose models are only known at runtime
+    if (action === 'models') {
+      return await listModels(requestId, providerConfig, apiKeys);
+    }
+
     // Validate request
-    if (!providerConfig || !prompt || !apiKeys) {
+    if (!providerConfig || !prompt) {
       console.error(`[${requestId}] Missing required fields`);
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: 'Missing required fields: providerConfig, prompt, and apiKeys' 
+          error: 'Missing required fields: providerConfig and prompt' 
         }),
         { 
           status: 400, 
@@ -239,11 +402,17 @@ serve(async (req) => {
     }
 
     const { apiConfig } = providerConfig;
+    const streaming = stream && !!apiConfig.streaming;
 
     console.log(`[${requestId}] Making dynamic API call to ${providerConfig.name}`);
 
+    // Placeholders such as {{keyData.region}} and {{model}} are filled from the keys and model
+    const templateContext: TemplateContext = { keyData: apiKeys, model: model || apiConfig.defaultModel };
+
     // Build endpoint URL dynamically
-    let endpoint = `${apiConfig.baseUrl}${apiConfig.endpointPath}`;
+    const baseUrl = resolveProviderBaseUrl(apiConfig, apiKeys, templateContext.model);
+    const endpointPath = (streaming && apiConfig.streaming?.endpointPath) || apiConfig.endpointPath;
+    let endpoint = `${baseUrl}${renderTemplate(endpointPath, templateContext)}`;
     
     // Handle API key in URL parameter (e.g., Gemini)
     if (apiConfig.apiKeyInUrlParam && apiConfig.urlParamName) {
@@ -251,20 +420,19 @@ serve(async (req) => {
       endpoint += `${separator}${apiConfig.urlParamName}=${apiKeys.apiKey}`;
     }
 
-    // Build headers dynamically
-    const requestHeaders: Record<string, string> = { ...apiConfig.headers };
-    
-    // Add authentication header if not using URL parameter
-    if (!apiConfig.apiKeyInUrlParam && apiConfig.authHeaderName) {
-      const authValue = `${apiConfig.authHeaderPrefix || ''}${apiKeys.apiKey}`;
-      requestHeaders[apiConfig.authHeaderName] = authValue;
-    }
+    // Build headers dynamically, adding the authentication header if not using URL parameter
+    const requestHeaders: Record<string, string> = {
+      ...renderTemplates(apiConfig.headers, templateContext),
+      ...await buildAuthHeaders(apiConfig, apiKeys)
+    };
 
-    // Build request body dynamically
-    let requestBody = JSON.parse(JSON.stringify(apiConfig.requestBodyStructure));
+    // Build request body dynamically, filling placeholders before the prompt is set
+    let requestBody = renderTemplates(apiConfig.requestBodyStructure, templateContext);
     
-    // Set the prompt
-    requestBody = setValueAtPath(requestBody, apiConfig.promptJsonPath, prompt);
+    // Set the prompt, or the whole conversation when one is provided
+    requestBody = messages?.length
+      ? applyConversation(requestBody, apiConfig, messages)
+      : setValueAtPath(requestBody, apiConfig.promptJsonPath, prompt);
     
     // Set custom model if provided
     if (model && apiConfig.modelJsonPath) {
@@ -283,6 +451,24 @@ serve(async (req) => {
       // If no specific path, merge at root level
       requestBody = { ...requestBody, ...parameters };
     }
+    
+    // Apply streaming flags (e.g., { stream: true })
+    if (streaming) {
+      requestBody = { ...requestBody, ...apiConfig.streaming?.bodyOverrides };
+    }
+
+    // AWS signatures cover the final body, so they are added last
+    const payload = JSON.stringify(requestBody);
+    if (apiConfig.auth?.type === 'aws-sigv4') {
+      Object.assign(requestHeaders, await signRequest(
+        { method: apiConfig.method, url: endpoint, headers: requestHeaders, body: payload },
+        {
+          credentials: readAwsCredentials(apiKeys),
+          region: renderTemplate(apiConfig.auth.region, templateContext),
+          service: apiConfig.auth.service
+        }
+      ));
+    }
 
     console.log(`[${requestId}] Request details:`, {
       endpoint: endpoint.split('?')[0], // Don't log API key in URL
@@ -293,12 +479,21 @@ serve(async (req) => {
 
     // Make the dynamic API request
     let apiResponse: Response;
+    let attempts = 1;
     try {
-      apiResponse = await fetch(endpoint, {
+      // A repeated generation is billed again, so server errors are only retried when the
+      // provider's retry policy allows it; rate limits are always retried
+      ({ response: apiResponse, attempts } = await fetchWithRetry(endpoint, {
         method: apiConfig.method,
         headers: requestHeaders,
-        body: JSON.stringify(requestBody),
-      });
+        body: payload,
+        signal: req.signal, // Stop the provider call if the client disconnects or cancels
+      }, {
+        policy: apiConfig.retry,
+        fetch: providerFetch,
+        onRetry: (attempt, delayMs, reason) =>
+          console.warn(`[${requestId}] Attempt ${attempt} to ${providerConfig.name} failed (${reason}), retrying in ${delayMs}ms`)
+      }));
       
       console.log(`[${requestId}] API response status:`, apiResponse.status);
       console.log(`[${requestId}] API response headers:`, Object.fromEntries(apiResponse.headers.entries()));
@@ -307,7 +502,7 @@ serve(async (req) => {
       return new Response(
         JSON.stringify({ 
           success: false, 
-          error: `Network error when calling ${providerConfig.name} API: ${fetchError.message}`,
+          error: describeFetchError(providerConfig.name, baseUrl, fetchError),
           provider: providerConfig.id,
           metrics: {
             latency: Date.now() - startTime,
@@ -330,6 +525,9 @@ serve(async (req) => {
     const responseTime = Date.now() - startTime;
 
     if (!apiResponse.ok) {
+      if (apiResponse.status === 401 && apiConfig.auth?.type === 'token-exchange') {
+        tokenCache.invalidate(apiConfig.auth, apiKeys);
+      }
       let errorText = '';
       let errorDetails = null;
       
@@ -343,7 +541,7 @@ serve(async (req) => {
           
           // Try to extract error using dynamic path
           if (apiConfig.errorJsonPath) {
-            const extractedError = getValueAtPath(errorDetails, apiConfig.errorJsonPath);
+            const extractedError = getStringAtPath(errorDetails, apiConfig.errorJsonPath);
             if (extractedError) {
               errorText = extractedError;
             }
@@ -380,6 +578,7 @@ serve(async (req) => {
           success: false, 
           error: errorMessage,
           provider: providerConfig.id,
+          attempts,
           metrics: {
             latency: responseTime,
             tokens: 0,
@@ -398,6 +597,19 @@ serve(async (req) => {
       );
     }
 
+    // Pass the provider's event stream straight through; the client parses it
+    if (streaming && apiResponse.body) {
+      console.log(`[${requestId}] Streaming response from ${providerConfig.name}`);
+      return new Response(apiResponse.body, {
+        headers: {
+          ...corsHeaders,
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache'
+        },
+        status: 200,
+      });
+    }
+
     let responseData;
     try {
       responseData = await apiResponse.json();
@@ -428,12 +640,45 @@ serve(async (req) => {
     }
     
     // Extract response using dynamic path
-    const generatedText = getValueAtPath(responseData, apiConfig.responseJsonPath);
+    const generatedText = getStringAtPath(responseData, apiConfig.responseJsonPath);
 
     if (!generatedText) {
       console.warn(`[${requestId}] No text generated from ${providerConfig.name} response:`, responseData);
     }
 
+    // Extract reported usage, finish reason and model when the configuration provides paths
+    const readNumber = (path?: string) => {
+      const value = path ? getValueAtPath(responseData, path) : undefined;
+      return typeof value === 'number' ? value : undefined;
+    };
+    const promptTokens = readNumber(apiConfig.usage?.promptTokensJsonPath);
+    const completionTokens = readNumber(apiConfig.usage?.completionTokensJsonPath);
+    const reportedTotal = readNumber(apiConfig.usage?.totalTokensJsonPath) ??
+      (promptTokens !== undefined || completionTokens !== undefined
+        ? (promptTokens || 0) + (completionTokens || 0)
+        : undefined);
+    const cachedPromptTokens = readNumber(apiConfig.usage?.cachedPromptTokensJsonPath);
+    const usage = reportedTotal !== undefined
+      ? { promptTokens, completionTokens, totalTokens: reportedTotal, cachedPromptTokens }
+      : undefined;
+    const totalTokens = reportedTotal ??
+      countTokens(prompt, model, providerConfig.id) + countTokens(generatedText || '', model, providerConfig.id);
+    const finishReason = apiConfig.finishReasonJsonPath
+      ? getStringAtPath(responseData, apiConfig.finishReasonJsonPath)
+      : undefined;
+    const responseModel = apiConfig.modelResponseJsonPath
+      ? getStringAtPath(responseData, apiConfig.modelResponseJsonPath)
+      : undefined;
+
+    // Price the request from the shared catalog, counting whatever the provider did not report
+    const cost = calculateCost({
+      provider: providerConfig.id,
+      model: responseModel || model || apiConfig.defaultModel,
+      promptTokens: promptTokens ?? countTokens(prompt, model, providerConfig.id),
+      completionTokens: completionTokens ?? countTokens(generatedText || '', model, providerConfig.id),
+      cachedPromptTokens
+    }).total;
+
     // Log successful request
     console.log(`[${requestId}] Request completed successfully:`, {
       provider: providerConfig.name,
@@ -456,11 +701,12 @@ serve(async (req) => {
         success: true,
         metrics: {
           latency: responseTime,
-          tokens: Math.ceil((prompt.length + (generatedText?.length || 0)) / 4),
-          cost: 0 // Could be calculated based on provider pricing
+          tokens: totalTokens,
+          cost
         },
         metadata: {
           model: model || 'default',
+          pricing_version: pricingCatalog.version,
           requestId,
           proxy_mode: true,
           dynamic_provider: true,
@@ -477,11 +723,14 @@ serve(async (req) => {
       success: true,
       response: generatedText || 'No response generated',
       provider: providerConfig.id,
-      model: model || 'default',
+      model: responseModel || model || 'default',
+      attempts,
+      finishReason,
+      usage,
       metrics: {
         latency: responseTime,
-        tokens: Math.ceil((prompt.length + (generatedText?.length || 0)) / 4),
-        cost: 0 // Calculate based on provider pricing if available
+        tokens: totalTokens,
+        cost
       },
       metadata: {
         requestId,
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.2/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.0';
+import { embedTexts, getKnowledgeBaseEmbedding } from '../_shared/embeddings.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -61,37 +62,44 @@ serve(async (req) => {
 
     console.log(`[${requestId}] Authenticated user:`, user.id);
 
-    // Get OpenAI API key from environment variables
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      throw new Error('OPENAI_API_KEY not set in environment variables.');
+    // Resolve the knowledge base, which decides the embedding model
+    let kbId = knowledgeBaseId;
+    if (!kbId && chunkId) {
+      const { data: chunk, error: chunkError } = await supabaseClient
+        .from('document_chunks')
+        .select('knowledge_base_id')
+        .eq('id', chunkId)
+        .single();
+
+      if (chunkError || !chunk) {
+        console.error(`[${requestId}] Chunk not found:`, chunkError);
+        throw new Error(`Chunk not found: ${chunkId}`);
+      }
+      kbId = chunk.knowledge_base_id;
     }
 
-    console.log(`[${requestId}] Generating embedding for text of length:`, textToEmbed.length);
-
-    // Call OpenAI Embedding API
-    const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-ada-002',
-        input: textToEmbed,
-      }),
-    });
+    if (!kbId) {
+      throw new Error('Either chunkId or knowledgeBaseId must be provided');
+    }
 
-    if (!embeddingResponse.ok) {
-      const errorData = await embeddingResponse.json();
-      console.error(`[${requestId}] OpenAI API error:`, errorData);
-      throw new Error(`OpenAI API error: ${errorData.error?.message || 'Unknown error'}`);
+    const { data: knowledgeBase, error: kbError } = await supabaseClient
+      .from('knowledge_bases')
+      .select('id, embedding_provider, embedding_model')
+      .eq('id', kbId)
+      .single();
+
+    if (kbError || !knowledgeBase) {
+      console.error(`[${requestId}] Knowledge base not found:`, kbError);
+      throw new Error(`Knowledge base not found: ${kbId}`);
     }
 
-    const embeddingData = await embeddingResponse.json();
-    const embedding = embeddingData.data[0].embedding;
+    const { provider, options } = getKnowledgeBaseEmbedding(knowledgeBase, 'document');
+    console.log(`[${requestId}] Generating ${provider} embedding for text of length:`, textToEmbed.length);
+
+    const { embeddings, model } = await embedTexts(provider, [textToEmbed], options);
+    const embedding = embeddings[0];
 
-    console.log(`[${requestId}] Successfully generated embedding vector of length:`, embedding.length);
+    console.log(`[${requestId}] Successfully generated ${model} embedding vector of length:`, embedding.length);
 
     // Store embedding in database
     let updateResult;
@@ -186,6 +194,8 @@ serve(async (req) => {
         metadata: {
           requestId,
           timestamp: new Date().toISOString(),
+          embeddingProvider: provider,
+          embeddingModel: model,
           embeddingDimensions: embedding.length
         }
       }),
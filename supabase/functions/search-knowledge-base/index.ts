@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.224.2/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.43.0';
+import { embedTexts, getKnowledgeBaseEmbedding } from '../_shared/embeddings.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -68,42 +69,10 @@ serve(async (req) => {
 
     console.log(`[${requestId}] Authenticated user:`, user.id);
 
-    // Get OpenAI API key from environment variables
-    const openaiApiKey = Deno.env.get('OPENAI_API_KEY');
-    if (!openaiApiKey) {
-      throw new Error('OPENAI_API_KEY not set in environment variables.');
-    }
-
-    console.log(`[${requestId}] Generating embedding for query:`, query);
-
-    // Generate embedding for the query
-    const embeddingResponse = await fetch('https://api.openai.com/v1/embeddings', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${openaiApiKey}`,
-      },
-      body: JSON.stringify({
-        model: 'text-embedding-ada-002',
-        input: query,
-      }),
-    });
-
-    if (!embeddingResponse.ok) {
-      const errorData = await embeddingResponse.json();
-      console.error(`[${requestId}] OpenAI API error:`, errorData);
-      throw new Error(`OpenAI API error: ${errorData.error?.message || 'Unknown error'}`);
-    }
-
-    const embeddingData = await embeddingResponse.json();
-    const queryEmbedding = embeddingData.data[0].embedding;
-
-    console.log(`[${requestId}] Successfully generated query embedding`);
-
     // Verify knowledge base exists and belongs to user
     const { data: knowledgeBase, error: kbError } = await supabaseClient
       .from('knowledge_bases')
-      .select('id, name, user_id, status')
+      .select('id, name, user_id, status, embedding_provider, embedding_model')
       .eq('id', knowledgeBaseId)
       .eq('user_id', user.id)
       .single();
@@ -129,6 +98,15 @@ serve(async (req) => {
       );
     }
 
+    // Embed the query with the same model that embedded the knowledge base
+    const { provider, options } = getKnowledgeBaseEmbedding(knowledgeBase, 'query');
+    console.log(`[${requestId}] Generating ${provider} embedding for query:`, query);
+
+    const { embeddings } = await embedTexts(provider, [query], options);
+    const queryEmbedding = embeddings[0];
+
+    console.log(`[${requestId}] Successfully generated query embedding`);
+
     console.log(`[${requestId}] Searching knowledge base:`, knowledgeBaseId);
 
     // Perform vector similarity search
@@ -0,0 +1,18 @@
+/*
+  # Add embedding model selection to knowledge bases
+
+  1. Changes
+    - `knowledge_bases.embedding_provider` - Embedding provider used for chunks and queries
+      (openai, gemini or cohere); defaults to openai
+    - `knowledge_bases.embedding_model` - Model for that provider; defaults to
+      text-embedding-ada-002, which produced every existing embedding
+
+  2. Notes
+    - `document_chunks.embedding` stays vector(1536), so the chosen model must return
+      1536 dimensions, natively or through the provider's output dimensionality setting
+    - Changing the model of a populated knowledge base requires re-embedding its chunks
+*/
+
+ALTER TABLE IF EXISTS knowledge_bases
+  ADD COLUMN IF NOT EXISTS embedding_provider text NOT NULL DEFAULT 'openai',
+  ADD COLUMN IF NOT EXISTS embedding_model text NOT NULL DEFAULT 'text-embedding-ada-002';
@@ -1,5 +1,40 @@
 import { defineConfig } from 'vite';
+import type { ProxyOptions } from 'vite';
 import react from '@vitejs/plugin-react';
+import { bedrockProxyRegions, ibmProxyRegions } from './src/lib/devProxyRegions';
+
+function ibmRegionProxy(region: string): ProxyOptions {
+  return {
+    target: `https://${region}.ml.cloud.ibm.com`,
+    changeOrigin: true,
+    rewrite: (path) => path.replace(`/api/watsonx/${region}`, ''),
+    secure: true,
+    timeout: 180000,
+    proxyTimeout: 180000,
+    configure: (proxy) => {
+      proxy.on('error', (err) => {
+        console.log(`IBM ${region} proxy error`, err);
+      });
+    }
+  };
+}
+
+// Requests are signed for the Bedrock host, which changeOrigin restores as the Host header
+function bedrockRegionProxy(region: string): ProxyOptions {
+  return {
+    target: `https://bedrock-runtime.${region}.amazonaws.com`,
+    changeOrigin: true,
+    rewrite: (path) => path.replace(`/api/bedrock/${region}`, ''),
+    secure: true,
+    timeout: 180000,
+    proxyTimeout: 180000,
+    configure: (proxy) => {
+      proxy.on('error', (err) => {
+        console.log(`Bedrock ${region} proxy error`, err);
+      });
+    }
+  };
+}
 
 // https://vitejs.dev/config/
 export default defineConfig({
@@ -111,7 +146,19 @@ export default defineConfig({
             console.log('Received Response from IBM:', proxyRes.statusCode, req.url);
           });
         }
-      }
+      },
+      // Proxy for IBM Cloud IAM, which exchanges IBM API keys for access tokens
+      '/api/iam': {
+        target: 'https://iam.cloud.ibm.com',
+        changeOrigin: true,
+        rewrite: (path) => path.replace(/^\/api\/iam/, ''),
+        secure: true,
+        timeout: 30000
+      },
+      // Proxies for the other IBM WatsonX regions
+      ...Object.fromEntries(ibmProxyRegions.map(region => [`/api/watsonx/${region}`, ibmRegionProxy(region)])),
+      // Proxies for the Amazon Bedrock runtime
+      ...Object.fromEntries(bedrockProxyRegions.map(region => [`/api/bedrock/${region}`, bedrockRegionProxy(region)]))
     }
   }
 });
\ No newline at end of file